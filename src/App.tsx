@@ -5,6 +5,9 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Prediction from "./pages/Prediction";
+import MetricProfiles from "./pages/MetricProfiles";
+import AlertHistory from "./pages/AlertHistory";
+import Capacity from "./pages/Capacity";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -18,6 +21,9 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/prediction" element={<Prediction />} />
+          <Route path="/profiles" element={<MetricProfiles />} />
+          <Route path="/alerts" element={<AlertHistory />} />
+          <Route path="/capacity" element={<Capacity />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,220 @@
+import { useState, useEffect } from "react";
+import { CheckCircle2, LogIn, LogOut, MessageSquare } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { useAcknowledgeEvent } from "@/hooks/useZabbixData";
+import { useSupabaseSession } from "@/hooks/useSupabaseSession";
+import type { ZabbixAlert } from "@/services/zabbixService";
+import { SEVERITIES, SEVERITY_LABELS, Severity } from "@/lib/severity";
+
+interface AcknowledgeDialogProps {
+  alert: ZabbixAlert | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const AcknowledgeDialog = ({ alert, open, onOpenChange }: AcknowledgeDialogProps) => {
+  const { toast } = useToast();
+  const { user, signIn, signOut } = useSupabaseSession();
+  const acknowledge = useAcknowledgeEvent();
+
+  const [message, setMessage] = useState('');
+  const [changeSeverity, setChangeSeverity] = useState(false);
+  const [severity, setSeverity] = useState<Severity>('average');
+  const [closeProblem, setCloseProblem] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [signingIn, setSigningIn] = useState(false);
+
+  // Reinicia o formulário a cada alerta aberto
+  useEffect(() => {
+    if (open) {
+      setMessage('');
+      setChangeSeverity(false);
+      setSeverity(alert?.severity ?? 'average');
+      setCloseProblem(false);
+    }
+  }, [open, alert?.eventId, alert?.severity]);
+
+  if (!alert) return null;
+
+  const handleSignIn = async () => {
+    setSigningIn(true);
+    try {
+      await signIn(email, password);
+      setPassword('');
+    } catch (error) {
+      toast({
+        title: 'Falha ao entrar',
+        description: error instanceof Error ? error.message : 'Erro desconhecido',
+        variant: 'destructive',
+      });
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!alert.eventId) return;
+    try {
+      await acknowledge.mutateAsync({
+        instance: alert.instance,
+        eventIds: [alert.eventId],
+        message: message.trim() || undefined,
+        // Reconhecer de novo um evento já reconhecido é rejeitado pelo Zabbix
+        acknowledge: !alert.acknowledged,
+        close: closeProblem,
+        severity: changeSeverity ? severity : undefined,
+      });
+      toast({ title: 'Alerta atualizado', description: alert.title });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Não foi possível atualizar o alerta',
+        description: error instanceof Error ? error.message : 'Erro desconhecido',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const nothingToDo = alert.acknowledged && !message.trim() && !changeSeverity && !closeProblem;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{alert.acknowledged ? 'Atualizar problema' : 'Reconhecer problema'}</DialogTitle>
+          <DialogDescription>
+            {alert.title} · {alert.host}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!user ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Entre com uma conta autorizada para alterar eventos no Zabbix.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="ack-email">E-mail</Label>
+              <Input id="ack-email" type="email" value={email} onChange={e => setEmail(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ack-password">Senha</Label>
+              <Input
+                id="ack-password"
+                type="password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleSignIn()}
+              />
+            </div>
+            <Button className="w-full gap-2" onClick={handleSignIn} disabled={signingIn || !email || !password}>
+              <LogIn className="w-4 h-4" />
+              Entrar
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Registrado como {user.email}</span>
+              <button className="flex items-center gap-1 hover:text-foreground" onClick={() => signOut()}>
+                <LogOut className="w-3 h-3" />
+                Sair
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ack-message">Mensagem</Label>
+              <Textarea
+                id="ack-message"
+                value={message}
+                onChange={e => setMessage(e.target.value)}
+                placeholder="Ex.: Equipe de campo acionada"
+              />
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Checkbox
+                id="ack-severity"
+                checked={changeSeverity}
+                onCheckedChange={checked => setChangeSeverity(checked === true)}
+              />
+              <Label htmlFor="ack-severity">Alterar severidade</Label>
+              <Select value={severity} onValueChange={value => setSeverity(value as Severity)} disabled={!changeSeverity}>
+                <SelectTrigger className="w-44 ml-auto">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEVERITIES.map(s => (
+                    <SelectItem key={s} value={s}>{SEVERITY_LABELS[s]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Checkbox
+                id="ack-close"
+                checked={closeProblem}
+                disabled={!alert.manualClose}
+                onCheckedChange={checked => setCloseProblem(checked === true)}
+              />
+              <Label htmlFor="ack-close" className={!alert.manualClose ? 'text-muted-foreground' : ''}>
+                Fechar problema
+                {!alert.manualClose && ' (o trigger não permite fechamento manual)'}
+              </Label>
+            </div>
+          </div>
+        )}
+
+        {alert.acknowledges.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium flex items-center gap-2">
+              <MessageSquare className="w-4 h-4" />
+              Histórico ({alert.acknowledges.length})
+            </h4>
+            <ScrollArea className="max-h-48">
+              <div className="space-y-2 pr-2">
+                {alert.acknowledges.map(ack => (
+                  <div key={ack.id} className="rounded-md border border-border/50 p-2 text-xs">
+                    <div className="flex items-center justify-between text-muted-foreground">
+                      <span className="font-medium text-foreground">{ack.user}</span>
+                      <span>{new Date(ack.timestamp).toLocaleString()}</span>
+                    </div>
+                    {ack.message && <p className="mt-1">{ack.message}</p>}
+                    <div className="mt-1 flex flex-wrap gap-2 text-muted-foreground">
+                      {ack.acknowledge && <span className="flex items-center gap-1"><CheckCircle2 className="w-3 h-3" />Reconhecido</span>}
+                      {ack.unacknowledge && <span>Reconhecimento removido</span>}
+                      {ack.severityChange && (
+                        <span>
+                          Severidade: {SEVERITY_LABELS[ack.severityChange.from]} → {SEVERITY_LABELS[ack.severityChange.to]}
+                        </span>
+                      )}
+                      {ack.close && <span>Fechado</span>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        {user && (
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+            <Button onClick={handleSubmit} disabled={acknowledge.isPending || nothingToDo || !alert.eventId}>
+              {alert.acknowledged ? 'Salvar' : 'Reconhecer'}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,42 +1,23 @@
-import { AlertTriangle, Clock, Shield } from "lucide-react";
-
-interface Alert {
-  id: string;
-  title: string;
-  description: string;
-  severity: "low" | "medium" | "high" | "critical";
-  timestamp: string;
-  host: string;
-  acknowledged: boolean;
-}
+import { useState } from "react";
+import { AlertTriangle, History, MessageSquare, Shield } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useNavigate } from "react-router-dom";
+import { AcknowledgeDialog } from "./AcknowledgeDialog";
+import type { ZabbixAlert } from "@/services/zabbixService";
+import { SEVERITY_LABELS, SEVERITY_STYLES, PRIORITY_STYLES, isUrgentSeverity } from "@/lib/severity";
 
 interface AlertsCardProps {
-  alerts: Alert[];
+  alerts: ZabbixAlert[];
 }
 
 export const AlertsCard = ({ alerts }: AlertsCardProps) => {
-  const getSeverityColor = (severity: Alert['severity']) => {
-    switch (severity) {
-      case "critical":
-        return "bg-destructive/10 text-destructive border-destructive/30";
-      case "high":
-        return "bg-orange-500/10 text-orange-400 border-orange-500/30";
-      case "medium":
-        return "bg-yellow-500/10 text-yellow-400 border-yellow-500/30";
-      default:
-        return "bg-blue-500/10 text-blue-400 border-blue-500/30";
-    }
-  };
+  const navigate = useNavigate();
+  const [ackAlert, setAckAlert] = useState<ZabbixAlert | null>(null);
 
-  const getSeverityIcon = (severity: Alert['severity']) => {
-    switch (severity) {
-      case "critical":
-      case "high":
-        return <AlertTriangle className="w-4 h-4" />;
-      default:
-        return <Shield className="w-4 h-4" />;
-    }
-  };
+  const getSeverityIcon = (severity: ZabbixAlert['severity']) =>
+    isUrgentSeverity(severity)
+      ? <AlertTriangle className="w-4 h-4" />
+      : <Shield className="w-4 h-4" />;
 
   return (
     <div className="dashboard-card col-span-full lg:col-span-2">
@@ -45,13 +26,18 @@ export const AlertsCard = ({ alerts }: AlertsCardProps) => {
           <div className="p-2 rounded-lg border border-destructive/30">
             <AlertTriangle className="w-5 h-5 text-destructive" />
           </div>
-          <h3 className="text-lg font-semibold">Alertas Recentes</h3>
+          <h3 className="text-lg font-semibold">Problemas Ativos</h3>
         </div>
         
-        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-          <Clock className="w-4 h-4" />
-          <span>Últimas 24h</span>
-        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-2 text-muted-foreground"
+          onClick={() => navigate('/alerts')}
+        >
+          <History className="w-4 h-4" />
+          Histórico
+        </Button>
       </div>
 
       <div className="space-y-3 max-h-80 overflow-y-auto">
@@ -64,12 +50,12 @@ export const AlertsCard = ({ alerts }: AlertsCardProps) => {
         ) : (
           alerts.map((alert) => (
             <div
-              key={alert.id}
+              key={`${alert.instance ?? ''}:${alert.id}`}
               className="p-4 rounded-lg border border-border/50 bg-muted/5 hover:bg-muted/10 transition-colors"
             >
               <div className="flex items-start justify-between mb-3">
                 <div className="flex items-center space-x-3">
-                  <div className={`p-2 rounded-lg border ${getSeverityColor(alert.severity)}`}>
+                  <div className={`p-2 rounded-lg border ${SEVERITY_STYLES[alert.severity].badge}`}>
                     {getSeverityIcon(alert.severity)}
                   </div>
                   <div>
@@ -79,9 +65,14 @@ export const AlertsCard = ({ alerts }: AlertsCardProps) => {
                 </div>
                 
                 <div className="text-right">
-                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getSeverityColor(alert.severity)}`}>
-                    {alert.severity.toUpperCase()}
-                  </span>
+                  <div className="flex items-center justify-end gap-1">
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full border text-xs font-medium ${PRIORITY_STYLES[alert.priority]}`}>
+                      {alert.priority}
+                    </span>
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full border text-xs font-medium ${SEVERITY_STYLES[alert.severity].badge}`}>
+                      {SEVERITY_LABELS[alert.severity].toUpperCase()}
+                    </span>
+                  </div>
                   {alert.acknowledged && (
                     <div className="mt-1">
                       <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary">
@@ -95,10 +86,21 @@ export const AlertsCard = ({ alerts }: AlertsCardProps) => {
               <p className="text-sm text-muted-foreground mb-2">{alert.description}</p>
               
               <div className="flex items-center justify-between text-xs text-muted-foreground">
-                <span>{alert.timestamp}</span>
-                {!alert.acknowledged && (
-                  <button className="text-primary hover:text-primary/80 transition-colors">
-                    Reconhecer
+                <div className="flex items-center gap-3">
+                  <span>{alert.timestamp}</span>
+                  {alert.acknowledges.length > 0 && (
+                    <span className="flex items-center gap-1">
+                      <MessageSquare className="w-3 h-3" />
+                      {alert.acknowledges.length}
+                    </span>
+                  )}
+                </div>
+                {alert.eventId && (
+                  <button
+                    className="text-primary hover:text-primary/80 transition-colors"
+                    onClick={() => setAckAlert(alert)}
+                  >
+                    {alert.acknowledged ? 'Atualizar' : 'Reconhecer'}
                   </button>
                 )}
               </div>
@@ -106,6 +108,12 @@ export const AlertsCard = ({ alerts }: AlertsCardProps) => {
           ))
         )}
       </div>
+
+      <AcknowledgeDialog
+        alert={ackAlert}
+        open={!!ackAlert}
+        onOpenChange={open => !open && setAckAlert(null)}
+      />
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,4 +1,4 @@
-import { Activity, Shield, Zap, BarChart3 } from "lucide-react";
+import { Activity, Shield, Zap, BarChart3, ListFilter, Gauge } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useNavigate } from "react-router-dom";
 
@@ -34,6 +34,26 @@ export const DashboardHeader = () => {
               <BarChart3 className="w-4 h-4" />
               Previsão de Instabilidade
             </Button>
+
+            <Button 
+              variant="outline" 
+              size="sm" 
+              className="gap-2"
+              onClick={() => navigate('/profiles')}
+            >
+              <ListFilter className="w-4 h-4" />
+              Perfis de Métricas
+            </Button>
+
+            <Button 
+              variant="outline" 
+              size="sm" 
+              className="gap-2"
+              onClick={() => navigate('/capacity')}
+            >
+              <Gauge className="w-4 h-4" />
+              Planejamento de Capacidade
+            </Button>
             
             <div className="flex items-center space-x-2 text-sm">
               <Activity className="w-4 h-4 text-primary" />
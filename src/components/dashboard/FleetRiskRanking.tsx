@@ -0,0 +1,201 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ListOrdered, Search } from 'lucide-react';
+import type { RiskLevel } from '@shared/prediction';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { LoadingSpinner } from './LoadingSpinner';
+import { useFleetRanking } from '@/hooks/useMetricHistory';
+import { usePredictionProfiles } from '@/hooks/usePredictionProfiles';
+import type { HostRisk } from '@/services/historyService';
+
+const RISK_STYLES: Record<RiskLevel, { label: string; className: string }> = {
+  critical: { label: 'CRÍTICO', className: 'bg-destructive/10 text-destructive border-destructive/30' },
+  high: { label: 'ALTO', className: 'bg-orange-500/10 text-orange-500 border-orange-500/30' },
+  medium: { label: 'MÉDIO', className: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/30' },
+  low: { label: 'BAIXO', className: 'bg-status-online/10 text-status-online border-status-online/30' },
+};
+
+const ALL_GROUPS = '__all__';
+
+// Fatores exibidos por host; o detalhe mostra a lista completa
+const TOP_FACTORS = 2;
+
+const formatETA = (minutes: number | null) => {
+  if (minutes === null) return '—';
+  if (minutes === 0) return 'agora';
+  if (minutes < 60) return `${minutes}min`;
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}min` : `${hours}h`;
+};
+
+interface FleetRiskRankingProps {
+  onSelectHost: (host: HostRisk) => void;
+}
+
+/**
+ * Ranking de instabilidade de toda a frota, a partir da última previsão que o
+ * metric-sampler gravou para cada host (a cada 5 minutos, janela de 1h)
+ */
+export const FleetRiskRanking: React.FC<FleetRiskRankingProps> = ({ onSelectHost }) => {
+  const { data: ranking, isLoading, error } = useFleetRanking();
+  const { data: profiles } = usePredictionProfiles();
+  const [group, setGroup] = React.useState(ALL_GROUPS);
+  const [search, setSearch] = React.useState('');
+  const [onlyAtRisk, setOnlyAtRisk] = React.useState(true);
+
+  const groups = React.useMemo(
+    () => [...new Set((ranking || []).flatMap(host => host.groups))].sort((a, b) => a.localeCompare(b)),
+    [ranking]
+  );
+
+  const filtered = React.useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return (ranking || []).filter(host =>
+      (group === ALL_GROUPS || host.groups.includes(group)) &&
+      (!onlyAtRisk || host.riskLevel !== 'low') &&
+      (!term || host.name.toLowerCase().includes(term) || host.host.toLowerCase().includes(term))
+    );
+  }, [ranking, group, search, onlyAtRisk]);
+
+  const profileNames = React.useMemo(
+    () => new Map((profiles || []).map(profile => [profile.id, profile.name])),
+    [profiles]
+  );
+
+  const counts = React.useMemo(() => {
+    const result: Record<RiskLevel, number> = { critical: 0, high: 0, medium: 0, low: 0 };
+    for (const host of ranking || []) result[host.riskLevel]++;
+    return result;
+  }, [ranking]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex flex-wrap items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <ListOrdered className="w-5 h-5" />
+            Ranking da Frota
+          </span>
+          <span className="flex gap-2">
+            {(['critical', 'high', 'medium', 'low'] as RiskLevel[]).map(level => (
+              <Badge key={level} variant="outline" className={RISK_STYLES[level].className}>
+                {RISK_STYLES[level].label}: {counts[level]}
+              </Badge>
+            ))}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={event => setSearch(event.target.value)}
+              placeholder="Buscar host"
+              className="pl-8"
+            />
+          </div>
+          <Select value={group} onValueChange={setGroup}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_GROUPS}>Todos os grupos</SelectItem>
+              {groups.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={onlyAtRisk ? 'risk' : 'all'} onValueChange={value => setOnlyAtRisk(value === 'risk')}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="risk">Somente em risco</SelectItem>
+              <SelectItem value="all">Todos os hosts</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="py-12 flex justify-center"><LoadingSpinner /></div>
+        ) : error ? (
+          <div className="py-12 text-center text-muted-foreground">
+            Não foi possível carregar o ranking da frota
+          </div>
+        ) : !ranking || ranking.length === 0 ? (
+          <div className="py-12 text-center text-muted-foreground">
+            Nenhuma previsão recente. O coletor calcula a previsão de cada host a cada 5 minutos.
+          </div>
+        ) : filtered.length === 0 ? (
+          <div className="py-12 text-center text-muted-foreground">
+            Nenhum host corresponde aos filtros
+          </div>
+        ) : (
+          <div className="max-h-[560px] overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>Host</TableHead>
+                  <TableHead>Risco</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                  <TableHead className="text-right">ETA</TableHead>
+                  <TableHead>Principais fatores</TableHead>
+                  <TableHead className="text-right">Calculado</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((host, index) => (
+                  <TableRow
+                    key={`${host.instance}:${host.hostId}`}
+                    className="cursor-pointer"
+                    onClick={() => onSelectHost(host)}
+                  >
+                    <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <div className={cn('w-2 h-2 rounded-full shrink-0',
+                          host.available === 'online' ? 'bg-status-online' :
+                          host.available === 'offline' ? 'bg-status-offline' : 'bg-status-unknown'
+                        )} />
+                        <div className="min-w-0">
+                          <div className="font-medium truncate">{host.name}</div>
+                          <div className="text-xs text-muted-foreground truncate">{host.host}</div>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={RISK_STYLES[host.riskLevel].className}>
+                        {RISK_STYLES[host.riskLevel].label}
+                      </Badge>
+                      <div className="text-xs text-muted-foreground mt-1">{profileNames.get(host.profile) ?? host.profile}</div>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{host.riskScore}</TableCell>
+                    <TableCell className="text-right font-mono">{formatETA(host.etaMinutes)}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[320px]">
+                      {host.factors.length > 0
+                        ? host.factors.slice(0, TOP_FACTORS).map(factor => <div key={factor} className="truncate">{factor}</div>)
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-right text-xs text-muted-foreground whitespace-nowrap">
+                      {formatDistanceToNow(new Date(host.computedAt), { addSuffix: true, locale: ptBR })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -6,89 +6,43 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { LoadingSpinner } from './LoadingSpinner';
 import { EnhancedMetricCard } from './EnhancedMetricCard';
+import { HostGraphsTab } from './HostGraphsTab';
+import { LongTermHistoryTab } from './LongTermHistoryTab';
+import { WirelessLinkTab } from './WirelessLinkTab';
 import { zabbixService } from '@/services/zabbixService';
+import type { Availability, HostDetails, ZabbixHost, ZabbixMetric } from '@/services/zabbixService';
 import { useZabbixMetrics } from '@/hooks/useZabbixData';
-import { Server, Activity, AlertTriangle, CheckCircle, Clock, Globe, Shield, Wifi, WifiOff, Cpu, MemoryStick, HardDrive, Network, RefreshCw } from 'lucide-react';
+import { SEVERITY_LABELS, SEVERITY_STYLES, Severity, isUrgentSeverity } from '@/lib/severity';
+import { Server, Activity, AlertTriangle, CheckCircle, Clock, Globe, Shield, Wifi, WifiOff, Cpu, MemoryStick, HardDrive, Network, RefreshCw, Layers, Tag, ClipboardList, Braces, Radio } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
-interface Host {
-  id: string;
-  name: string;
-  ip: string;
-  status: "online" | "offline";
-  uptime?: string;
-  lastSeen?: string;
-}
-
 interface HostDetailsModalProps {
-  host: Host | null;
+  host: ZabbixHost | null;
   isOpen: boolean;
   onClose: () => void;
 }
 
-interface HostDetails {
-  id: string;
-  name: string;
-  host?: string;
-  status: 'enabled' | 'disabled';
-  available: 'online' | 'offline';
-  ip: string;
-  dns: string;
-  uptime: number;
-  lastCheck: string;
-  groups: string[];
-  templates: string[];
-  interfaces: Array<{
-    interfaceid: string;
-    ip: string;
-    dns: string;
-    port: string;
-    type: string;
-    main: string;
-  }>;
-  items: Array<{
-    itemid: string;
-    name: string;
-    key: string;
-    lastvalue: string;
-    rawValue: string;
-    lastclock: string | null;
-    lastCheckFormatted: string;
-    units: string;
-    status: 'active' | 'disabled';
-    applications: string[];
-    type: string;
-  }>;
-  alerts: Array<{
-    id: string;
-    name: string;
-    severity: 'high' | 'average' | 'warning' | 'information' | 'not classified';
-    status: 'active' | 'resolved';
-    lastChange: string | null;
-  }>;
-  operationalStatus: {
-    adminStatus: string;
-    operStatus: string;
-    lastStatusChange: string | null;
-  };
-  checks: {
-    total: number;
-    active: number;
-    alerts: number;
-  };
-  error?: string; // Propriedade para indicar erros nos dados carregados
-  _isPartialData?: boolean; // Flag para indicar dados parciais
-}
+const AVAILABILITY_LABELS: Record<Availability, string> = {
+  available: 'Disponível',
+  unavailable: 'Indisponível',
+  unknown: 'Desconhecido',
+};
+
+const AVAILABILITY_STYLES: Record<Availability, string> = {
+  available: 'bg-primary/10 text-primary',
+  unavailable: 'bg-destructive/10 text-destructive',
+  unknown: 'bg-muted/10 text-muted-foreground',
+};
 
-const fetchHostDetails = async (hostId: string): Promise<HostDetails> => {
-  console.log('Fetching host details for:', hostId);
-  return zabbixService.getHostDetails(hostId);
+const fetchHostDetails = async (hostId: string, instance?: string): Promise<HostDetails> => {
+  console.log('Fetching host details for:', hostId, instance);
+  return zabbixService.getHostDetails(hostId, instance);
 };
 
 export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProps) => {
   const { data: hostDetails, isLoading, error, refetch } = useQuery({
-    queryKey: ['host-details', host?.id],
-    queryFn: () => fetchHostDetails(host!.id),
+    queryKey: ['host-details', host?.instance, host?.id],
+    queryFn: () => fetchHostDetails(host!.id, host!.instance),
     enabled: isOpen && !!host?.id,
     refetchInterval: 30000,
     retry: 3,
@@ -96,7 +50,7 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
   });
 
   // Buscar métricas específicas do host
-  const { data: hostMetrics, isLoading: metricsLoading } = useZabbixMetrics([host?.id]);
+  const { data: hostMetrics, isLoading: metricsLoading } = useZabbixMetrics(host ? [host.id] : [], host?.instance);
 
   // Agrupar métricas por tipo para este host específico
   const groupHostMetricsByType = () => {
@@ -104,7 +58,7 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
     
     return hostMetrics
       .filter(metric => metric.hostId === host?.id)
-      .reduce((acc: any, metric: any) => {
+      .reduce<Record<string, ZabbixMetric[]>>((acc, metric) => {
         if (!acc[metric.type]) acc[metric.type] = [];
         acc[metric.type].push(metric);
         return acc;
@@ -113,7 +67,8 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
 
   const hostMetricGroups = groupHostMetricsByType();
 
-  const formatUptime = (seconds: number) => {
+  const formatUptime = (seconds: number | null) => {
+    if (seconds === null) return 'N/A';
     const days = Math.floor(seconds / 86400);
     const hours = Math.floor((seconds % 86400) / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -123,7 +78,7 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
     return `${minutes}m`;
   };
 
-  const formatLastUpdate = (timestamp: string) => {
+  const formatLastUpdate = (timestamp: string | null) => {
     if (!timestamp) return 'Never';
     const date = new Date(timestamp);
     const now = new Date();
@@ -143,21 +98,12 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
       case 'memory': return <MemoryStick className="w-4 h-4" />;
       case 'disk': return <HardDrive className="w-4 h-4" />;
       case 'network': return <Network className="w-4 h-4" />;
+      case 'wireless': return <Radio className="w-4 h-4" />;
       case 'system': return <Activity className="w-4 h-4" />;
       default: return <Server className="w-4 h-4" />;
     }
   };
 
-  const getSeverityColor = (severity: string) => {
-    switch (severity.toLowerCase()) {
-      case 'high': 
-      case 'critical': return 'bg-destructive/10 text-destructive';
-      case 'average': return 'bg-orange-500/10 text-orange-500';
-      case 'warning': return 'bg-yellow-500/10 text-yellow-500';
-      case 'information': return 'bg-blue-500/10 text-blue-500';
-      default: return 'bg-muted/10 text-muted-foreground';
-    }
-  };
 
   const getStatusColor = (value: string) => {
     if (value.includes('up')) return 'bg-green-500/10 text-green-500';
@@ -173,11 +119,11 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
         <DialogHeader>
           <DialogTitle className="flex items-center space-x-3">
             <div className={`p-2 rounded-lg ${
-              host.status === "online" 
+              host.available === "online" 
                 ? "bg-primary/10 text-primary" 
                 : "bg-destructive/10 text-destructive"
             }`}>
-              {host.status === "online" ? (
+              {host.available === "online" ? (
                 <Wifi className="w-5 h-5" />
               ) : (
                 <WifiOff className="w-5 h-5" />
@@ -187,8 +133,8 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
               <span className="text-lg font-semibold">{host.name}</span>
               <p className="text-sm text-muted-foreground font-normal">{host.ip}</p>
             </div>
-            <Badge className={host.status === "online" ? "bg-primary/10 text-primary" : "bg-destructive/10 text-destructive"}>
-              {host.status.toUpperCase()}
+            <Badge className={host.available === "online" ? "bg-primary/10 text-primary" : "bg-destructive/10 text-destructive"}>
+              {host.available.toUpperCase()}
             </Badge>
           </DialogTitle>
         </DialogHeader>
@@ -219,40 +165,17 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
               </div>
             </div>
           ) : hostDetails ? (
-            // Mostrar dados se disponíveis, mesmo com avisos
             <>
-              {/* Aviso de dados parciais se aplicável */}
-              {hostDetails.error && (
-                <div className="mb-4 p-4 border border-yellow-200 bg-yellow-50 rounded-lg">
-                  <div className="flex items-start gap-3">
-                    <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
-                    <div className="flex-1">
-                      <h4 className="text-sm font-medium text-yellow-800">
-                        {hostDetails._isPartialData ? 'Dados parciais carregados' : 'Erro ao carregar dados'}
-                      </h4>
-                      <p className="text-sm text-yellow-700 mt-1">{hostDetails.error}</p>
-                      <Button 
-                        onClick={() => refetch()}
-                        variant="outline"
-                        size="sm"
-                        className="mt-2"
-                      >
-                        <RefreshCw className="h-3 w-3 mr-1" />
-                        Tentar novamente
-                      </Button>
-                    </div>
-                  </div>
-                </div>
-              )}
-              
               {/* Conteúdo principal dos dados */}
             <Tabs defaultValue="overview" className="w-full flex flex-col">
-              <TabsList className="grid w-full grid-cols-5">
+              <TabsList className="grid w-full grid-cols-7">
                 <TabsTrigger value="overview">Visão Geral</TabsTrigger>
                 <TabsTrigger value="metrics">Métricas Detalhadas</TabsTrigger>
                 <TabsTrigger value="items">Items ({hostDetails.items?.length || 0})</TabsTrigger>
                 <TabsTrigger value="alerts">Alertas ({hostDetails.alerts?.length || 0})</TabsTrigger>
+                <TabsTrigger value="wireless">Sem fio</TabsTrigger>
                 <TabsTrigger value="graphs">Gráficos</TabsTrigger>
+                <TabsTrigger value="long-term">Longo prazo</TabsTrigger>
               </TabsList>
 
               <div className="flex-1">
@@ -271,9 +194,15 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                       <div className="flex items-center justify-between">
                         <span className="text-sm text-muted-foreground">Disponibilidade</span>
                         <Badge className={hostDetails.available === 'online' ? "bg-primary/10 text-primary" : "bg-destructive/10 text-destructive"}>
-                          {hostDetails.available === 'online' ? 'ONLINE' : 'OFFLINE'}
+                          {hostDetails.available === 'online' ? 'ONLINE' : hostDetails.available === 'offline' ? 'OFFLINE' : 'DESCONHECIDO'}
                         </Badge>
                       </div>
+                      {Object.entries(hostDetails.availability).map(([type, state]) => (
+                        <div key={type} className="flex items-center justify-between">
+                          <span className="text-sm text-muted-foreground uppercase">{type}</span>
+                          <Badge className={`text-xs ${AVAILABILITY_STYLES[state]}`}>{AVAILABILITY_LABELS[state]}</Badge>
+                        </div>
+                      ))}
                       <div className="flex items-center justify-between">
                         <span className="text-sm text-muted-foreground">Uptime</span>
                         <span className="font-medium text-primary">{formatUptime(hostDetails.uptime)}</span>
@@ -301,6 +230,12 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                         <span className="text-sm text-muted-foreground">Total Items</span>
                         <span className="font-medium">{hostDetails.checks?.total || 0}</span>
                       </div>
+                      {hostDetails.checks.unsupported > 0 && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm text-muted-foreground">Não Suportados</span>
+                          <span className="font-medium text-destructive">{hostDetails.checks.unsupported}</span>
+                        </div>
+                      )}
                       <div className="w-full bg-muted rounded-full h-2">
                         <div 
                           className="bg-blue-500 h-2 rounded-full transition-all duration-300" 
@@ -325,9 +260,9 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                         </span>
                       </div>
                       <div className="flex items-center justify-between">
-                        <span className="text-sm text-muted-foreground">Severidade Alta</span>
+                        <span className="text-sm text-muted-foreground">Severidade Alta/Desastre</span>
                         <span className="font-medium text-destructive">
-                          {hostDetails.alerts?.filter(a => a.severity === 'high').length || 0}
+                          {hostDetails.alerts?.filter(a => isUrgentSeverity(a.severity)).length || 0}
                         </span>
                       </div>
                       <div className={`px-2 py-1 rounded text-xs text-center font-medium ${
@@ -362,6 +297,9 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                           {hostDetails.status === 'enabled' ? 'HABILITADO' : 'DESABILITADO'}
                         </Badge>
                       </div>
+                      {hostDetails.maintenance && (
+                        <Badge variant="outline" className="w-full justify-center text-xs">EM MANUTENÇÃO</Badge>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -400,12 +338,17 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                         <div className="space-y-2">
                           <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Interfaces</span>
                           <div className="space-y-2">
-                            {hostDetails.interfaces.slice(0, 3).map((iface, idx) => (
-                              <div key={idx} className="flex items-center justify-between p-2 bg-muted/20 rounded">
-                                <span className="font-mono text-xs">{iface.ip}:{iface.port}</span>
-                                <Badge variant="outline" className="text-xs">
-                                  {iface.type} {iface.main === '1' && '(Principal)'}
-                                </Badge>
+                            {hostDetails.interfaces.map((iface) => (
+                              <div key={iface.interfaceid} className="flex items-center justify-between p-2 bg-muted/20 rounded" title={iface.error || undefined}>
+                                <span className="font-mono text-xs">{iface.useIp ? iface.ip : iface.dns}:{iface.port}</span>
+                                <div className="flex items-center gap-2">
+                                  <Badge variant="outline" className="text-xs uppercase">
+                                    {iface.type} {iface.main && '(Principal)'}
+                                  </Badge>
+                                  <Badge className={`text-xs ${AVAILABILITY_STYLES[iface.available]}`}>
+                                    {AVAILABILITY_LABELS[iface.available]}
+                                  </Badge>
+                                </div>
                               </div>
                             ))}
                           </div>
@@ -463,6 +406,78 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                     </div>
                   </div>
                 )}
+
+                {hostDetails.templates.length > 0 && (
+                  <div className="dashboard-card">
+                    <h4 className="font-medium mb-3 flex items-center gap-2">
+                      <Layers className="w-4 h-4" />
+                      Templates Vinculados
+                    </h4>
+                    <div className="flex flex-wrap gap-2">
+                      {hostDetails.templates.map((template) => (
+                        <Badge key={template} variant="outline">{template}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {hostDetails.tags.length > 0 && (
+                  <div className="dashboard-card">
+                    <h4 className="font-medium mb-3 flex items-center gap-2">
+                      <Tag className="w-4 h-4" />
+                      Tags
+                    </h4>
+                    <div className="flex flex-wrap gap-2">
+                      {hostDetails.tags.map((tag, index) => (
+                        <Badge key={index} variant="outline" className="font-mono text-xs">
+                          {tag.value ? `${tag.tag}: ${tag.value}` : tag.tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div className="dashboard-card">
+                    <h4 className="font-medium mb-3 flex items-center gap-2">
+                      <ClipboardList className="w-4 h-4" />
+                      Inventário
+                    </h4>
+                    {Object.keys(hostDetails.inventory).length > 0 ? (
+                      <div className="space-y-2 text-sm">
+                        {Object.entries(hostDetails.inventory).map(([field, value]) => (
+                          <div key={field} className="flex justify-between gap-4">
+                            <span className="text-muted-foreground font-mono text-xs">{field}</span>
+                            <span className="text-right break-all">{value}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Inventário desabilitado ou vazio</p>
+                    )}
+                  </div>
+
+                  <div className="dashboard-card">
+                    <h4 className="font-medium mb-3 flex items-center gap-2">
+                      <Braces className="w-4 h-4" />
+                      Macros ({hostDetails.macros.length})
+                    </h4>
+                    {hostDetails.macros.length > 0 ? (
+                      <div className="space-y-2 text-sm">
+                        {hostDetails.macros.map((macro) => (
+                          <div key={macro.macro} className="flex justify-between gap-4" title={macro.description || undefined}>
+                            <span className="font-mono text-xs">{macro.macro}</span>
+                            <span className={`font-mono text-xs text-right break-all ${macro.type === 'secret' ? 'text-muted-foreground' : ''}`}>
+                              {macro.value}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Nenhuma macro definida no host</p>
+                    )}
+                  </div>
+                </div>
               </TabsContent>
 
               <TabsContent value="metrics" className="space-y-6 mt-4">
@@ -483,7 +498,7 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                 ) : hostMetrics && Object.keys(hostMetricGroups).length > 0 ? (
                   <ScrollArea className="h-[600px] w-full">
                     <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 pr-3">
-                      {Object.entries(hostMetricGroups).map(([type, typeMetrics]: [string, any]) => (
+                      {Object.entries(hostMetricGroups).map(([type, typeMetrics]) => (
                         <div key={type} className="dashboard-card">
                           <div className="flex items-center gap-2 p-3 bg-muted/30 rounded-lg sticky top-0 z-10 backdrop-blur-sm mb-4">
                             {getMetricIcon(type)}
@@ -492,6 +507,7 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                                type === 'memory' ? 'Memória' :
                                type === 'disk' ? 'Armazenamento' :
                                type === 'network' ? 'Rede' :
+                               type === 'wireless' ? 'Sem fio' :
                                type === 'system' ? 'Sistema' : type}
                             </h5>
                             <Badge variant="outline" className="text-xs ml-auto">
@@ -499,7 +515,7 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                             </Badge>
                           </div>
                           <div className="space-y-3">
-                            {typeMetrics.map((metric: any) => (
+                            {typeMetrics.map(metric => (
                               <EnhancedMetricCard
                                 key={metric.itemId}
                                 title={metric.name}
@@ -510,6 +526,7 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                                   type === 'memory' ? MemoryStick :
                                   type === 'disk' ? HardDrive :
                                   type === 'network' ? Network :
+                                  type === 'wireless' ? Radio :
                                   Activity
                                 }
                                 lastUpdate={metric.lastUpdate}
@@ -613,26 +630,31 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                                     <Badge variant={item.status === 'active' ? 'default' : 'secondary'} className="text-xs">
                                       {item.status === 'active' ? 'Ativo' : 'Inativo'}
                                     </Badge>
+                                    {item.state === 'unsupported' && (
+                                      <Badge variant="destructive" className="text-xs" title={item.error}>
+                                        Não suportado
+                                      </Badge>
+                                    )}
                                   </div>
                                   <p className="text-xs text-muted-foreground font-mono truncate">{item.key}</p>
                                   <p className="text-xs text-muted-foreground">
-                                    Última verificação: {item.lastCheckFormatted}
+                                    Última verificação: {formatLastUpdate(item.lastclock)}
                                   </p>
                                 </div>
                                 <div className="text-right">
                                   <div className="font-medium text-sm">
                                     {item.lastvalue} {item.units && <span className="text-muted-foreground">{item.units}</span>}
                                   </div>
-                                  {item.applications && item.applications.length > 0 && (
+                                  {item.tags.length > 0 && (
                                     <div className="flex flex-wrap gap-1 mt-1 justify-end">
-                                      {item.applications.slice(0, 2).map((app, idx) => (
+                                      {item.tags.slice(0, 2).map((tag, idx) => (
                                         <Badge key={idx} variant="outline" className="text-xs">
-                                          {app}
+                                          {tag.value || tag.tag}
                                         </Badge>
                                       ))}
-                                      {item.applications.length > 2 && (
+                                      {item.tags.length > 2 && (
                                         <Badge variant="outline" className="text-xs">
-                                          +{item.applications.length - 2}
+                                          +{item.tags.length - 2}
                                         </Badge>
                                       )}
                                     </div>
@@ -691,7 +713,7 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                                       {item.lastvalue} {item.units && <span className="text-muted-foreground text-xs">{item.units}</span>}
                                     </td>
                                     <td className="py-3 text-muted-foreground text-xs">
-                                      {item.lastCheckFormatted}
+                                      {formatLastUpdate(item.lastclock)}
                                     </td>
                                     <td className="py-3 text-muted-foreground font-mono text-xs">
                                       {item.key}
@@ -738,11 +760,14 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                               </p>
                             </div>
                             <div className="flex items-center space-x-2">
-                              <Badge className={getSeverityColor(alert.severity)}>
-                                {alert.severity}
+                              <Badge variant="outline" className={SEVERITY_STYLES[alert.severity].badge}>
+                                {SEVERITY_LABELS[alert.severity]}
                               </Badge>
+                              {alert.acknowledged && (
+                                <Badge variant="outline" className="text-xs">Reconhecido</Badge>
+                              )}
                               <Badge variant={alert.status === 'active' ? 'destructive' : 'outline'}>
-                                {alert.status}
+                                {alert.status === 'active' ? 'Ativo' : 'Resolvido'}
                               </Badge>
                             </div>
                           </div>
@@ -758,14 +783,21 @@ export const HostDetailsModal = ({ host, isOpen, onClose }: HostDetailsModalProp
                 </div>
               </TabsContent>
 
+              <TabsContent value="wireless" className="space-y-4 mt-4">
+                <WirelessLinkTab
+                  hostId={host.id}
+                  instance={host.instance}
+                  groups={host.groups}
+                  metrics={(hostMetrics || []).filter(metric => metric.hostId === host.id)}
+                />
+              </TabsContent>
+
               <TabsContent value="graphs" className="space-y-4 mt-4">
-                <div className="dashboard-card">
-                  <h4 className="font-medium mb-4">Gráficos</h4>
-                  <div className="text-center py-8 text-muted-foreground">
-                    <Activity className="w-8 h-8 mx-auto mb-2" />
-                    Gráficos em desenvolvimento
-                  </div>
-                </div>
+                <HostGraphsTab hostId={host.id} instance={host.instance} />
+              </TabsContent>
+
+              <TabsContent value="long-term" className="space-y-4 mt-4">
+                <LongTermHistoryTab hostId={host.id} instance={host.instance} hostName={host.name} />
               </TabsContent>
               </div>
             </Tabs>
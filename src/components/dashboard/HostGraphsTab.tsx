@@ -0,0 +1,300 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { DateRange } from 'react-day-picker';
+import { format, startOfDay, endOfDay } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CalendarIcon, LineChart as LineChartIcon, RefreshCw, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { LoadingSpinner } from './LoadingSpinner';
+import { RealTimeChart, TimeWindow } from './RealTimeChart';
+import { zabbixService } from '@/services/zabbixService';
+
+// Períodos predefinidos em segundos
+const PRESET_RANGES: Record<string, { label: string; seconds: number }> = {
+  '1h': { label: '1h', seconds: 3600 },
+  '6h': { label: '6h', seconds: 21600 },
+  '24h': { label: '24h', seconds: 86400 },
+  '7d': { label: '7d', seconds: 604800 },
+  '30d': { label: '30d', seconds: 2592000 },
+};
+
+const CUSTOM_RANGE = 'custom';
+
+// Limite de itens plotados ao mesmo tempo
+const MAX_SELECTED_ITEMS = 8;
+
+// Cores para itens escolhidos manualmente (gráficos do Zabbix trazem as próprias)
+const ITEM_COLORS = ['hsl(var(--primary))', '#3b82f6', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6'];
+
+// Todos os gráficos da aba compartilham o cursor
+const SYNC_ID = 'host-graphs';
+
+interface HostGraphsTabProps {
+  hostId: string;
+  instance?: string;
+}
+
+interface SelectedItem {
+  itemId: string;
+  color: string;
+}
+
+export const HostGraphsTab: React.FC<HostGraphsTabProps> = ({ hostId, instance }) => {
+  const [rangeKey, setRangeKey] = React.useState<string>('24h');
+  const [customRange, setCustomRange] = React.useState<DateRange | undefined>();
+  const [refreshedAt, setRefreshedAt] = React.useState(() => Date.now());
+  const [selected, setSelected] = React.useState<SelectedItem[]>([]);
+  const [activeGraphId, setActiveGraphId] = React.useState<string | null>(null);
+  const [search, setSearch] = React.useState('');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['host-graphs', instance, hostId],
+    queryFn: () => zabbixService.getHostGraphs(hostId, instance),
+    enabled: !!hostId,
+    staleTime: 60000,
+  });
+
+  // Janela compartilhada por todos os gráficos; fixa até mudar o período ou atualizar
+  const timeWindow = React.useMemo<TimeWindow | null>(() => {
+    const now = Math.floor(refreshedAt / 1000);
+    if (rangeKey === CUSTOM_RANGE) {
+      if (!customRange?.from) return null;
+      const from = Math.floor(startOfDay(customRange.from).getTime() / 1000);
+      const to = Math.floor(endOfDay(customRange.to ?? customRange.from).getTime() / 1000);
+      return { from, to: Math.min(to, now) };
+    }
+    return { from: now - PRESET_RANGES[rangeKey].seconds, to: now };
+  }, [rangeKey, customRange, refreshedAt]);
+
+  const itemsById = React.useMemo(
+    () => new Map((data?.items || []).map(item => [item.itemId, item])),
+    [data]
+  );
+
+  const filteredItems = React.useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const items = data?.items || [];
+    if (!term) return items;
+    return items.filter(item =>
+      item.name.toLowerCase().includes(term) || item.key.toLowerCase().includes(term)
+    );
+  }, [data, search]);
+
+  const selectGraph = (graphId: string) => {
+    const graph = data?.graphs.find(g => g.id === graphId);
+    if (!graph) return;
+    setActiveGraphId(graphId);
+    setSelected(graph.items.slice(0, MAX_SELECTED_ITEMS));
+  };
+
+  const toggleItem = (itemId: string) => {
+    setActiveGraphId(null);
+    setSelected(current => {
+      if (current.some(item => item.itemId === itemId)) {
+        return current.filter(item => item.itemId !== itemId);
+      }
+      if (current.length >= MAX_SELECTED_ITEMS) return current;
+      const usedColors = new Set(current.map(item => item.color));
+      const color = ITEM_COLORS.find(c => !usedColors.has(c)) ?? ITEM_COLORS[current.length % ITEM_COLORS.length];
+      return [...current, { itemId, color }];
+    });
+  };
+
+  const handleRangeChange = (value: string) => {
+    if (!value) return;
+    setRangeKey(value);
+    setRefreshedAt(Date.now());
+  };
+
+  const customLabel = customRange?.from
+    ? `${format(customRange.from, 'dd/MM/yyyy')}${customRange.to ? ` – ${format(customRange.to, 'dd/MM/yyyy')}` : ''}`
+    : 'Personalizado';
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8 text-destructive">
+        Erro ao carregar gráficos: {(error as Error).message}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Seletor de período compartilhado */}
+      <div className="dashboard-card">
+        <div className="flex flex-wrap items-center gap-3">
+          <ToggleGroup type="single" value={rangeKey} onValueChange={handleRangeChange}>
+            {Object.entries(PRESET_RANGES).map(([key, preset]) => (
+              <ToggleGroupItem key={key} value={key} size="sm">
+                {preset.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant={rangeKey === CUSTOM_RANGE ? 'default' : 'outline'}
+                size="sm"
+                className="gap-2"
+              >
+                <CalendarIcon className="w-4 h-4" />
+                {customLabel}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="range"
+                locale={ptBR}
+                selected={customRange}
+                onSelect={range => {
+                  setCustomRange(range);
+                  if (range?.from) handleRangeChange(CUSTOM_RANGE);
+                }}
+                disabled={{ after: new Date() }}
+                numberOfMonths={2}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-2 ml-auto"
+            onClick={() => setRefreshedAt(Date.now())}
+          >
+            <RefreshCw className="w-4 h-4" />
+            Atualizar
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[18rem_1fr] gap-4">
+        {/* Gráficos do Zabbix e itens numéricos */}
+        <div className="dashboard-card space-y-4">
+          <div>
+            <h4 className="font-medium mb-2 flex items-center gap-2">
+              <LineChartIcon className="w-4 h-4 text-primary" />
+              Gráficos do Zabbix ({data?.graphs.length || 0})
+            </h4>
+            {data?.graphs.length ? (
+              <ScrollArea className="h-40">
+                <div className="space-y-1 pr-2">
+                  {data.graphs.map(graph => (
+                    <button
+                      key={graph.id}
+                      onClick={() => selectGraph(graph.id)}
+                      disabled={graph.items.length === 0}
+                      className={`w-full text-left text-sm px-2 py-1 rounded hover:bg-muted/20 disabled:opacity-50 ${
+                        activeGraphId === graph.id ? 'bg-primary/10 text-primary' : ''
+                      }`}
+                    >
+                      {graph.name}
+                      <span className="text-xs text-muted-foreground ml-1">({graph.items.length})</span>
+                    </button>
+                  ))}
+                </div>
+              </ScrollArea>
+            ) : (
+              <p className="text-xs text-muted-foreground">Nenhum gráfico configurado neste host</p>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium">Itens ({selected.length}/{MAX_SELECTED_ITEMS})</h4>
+              {selected.length > 0 && (
+                <Button variant="ghost" size="sm" className="h-6 px-2 gap-1" onClick={() => { setSelected([]); setActiveGraphId(null); }}>
+                  <X className="w-3 h-3" />
+                  Limpar
+                </Button>
+              )}
+            </div>
+            <div className="relative mb-2">
+              <Search className="w-4 h-4 absolute left-2 top-2.5 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="Buscar item"
+                className="pl-8 h-9"
+              />
+            </div>
+            <ScrollArea className="h-72">
+              <div className="space-y-1 pr-2">
+                {filteredItems.map(item => {
+                  const selection = selected.find(s => s.itemId === item.itemId);
+                  return (
+                    <label
+                      key={item.itemId}
+                      className="flex items-start gap-2 text-sm px-1 py-1 rounded hover:bg-muted/10 cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={!!selection}
+                        disabled={!selection && selected.length >= MAX_SELECTED_ITEMS}
+                        onCheckedChange={() => toggleItem(item.itemId)}
+                        className="mt-0.5"
+                      />
+                      <span className="min-w-0">
+                        <span className="flex items-center gap-1">
+                          {selection && (
+                            <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: selection.color }} />
+                          )}
+                          <span className="truncate">{item.name}</span>
+                        </span>
+                        <span className="block text-xs text-muted-foreground font-mono truncate">{item.key}</span>
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+
+        {/* Séries selecionadas, com cursor sincronizado */}
+        <div className="space-y-4">
+          {!timeWindow ? (
+            <div className="dashboard-card text-center py-8 text-muted-foreground">
+              Selecione as datas do período personalizado
+            </div>
+          ) : selected.length === 0 ? (
+            <div className="dashboard-card text-center py-8 text-muted-foreground">
+              Escolha um gráfico do Zabbix ou marque itens para plotar
+            </div>
+          ) : (
+            selected.map(({ itemId, color }) => {
+              const item = itemsById.get(itemId);
+              return (
+                <RealTimeChart
+                  key={itemId}
+                  itemId={itemId}
+                  instance={instance}
+                  title={item?.name || itemId}
+                  timeRange={timeWindow}
+                  unit={item?.units ? ` ${item.units}` : ''}
+                  color={color}
+                  syncId={SYNC_ID}
+                />
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,23 +1,15 @@
 import { Server, Wifi, WifiOff, HelpCircle } from "lucide-react";
-
-interface Host {
-  id: string;
-  name: string;
-  ip: string;
-  status: "online" | "offline" | "unknown";
-  uptime?: string;
-  lastSeen?: string;
-}
+import { getHostKey, ZabbixHost } from "@/services/zabbixService";
 
 interface HostStatusCardProps {
-  hosts: Host[];
-  onHostClick?: (host: Host) => void;
+  hosts: ZabbixHost[];
+  onHostClick?: (host: ZabbixHost) => void;
 }
 
 export const HostStatusCard = ({ hosts, onHostClick }: HostStatusCardProps) => {
-  const onlineHosts = hosts.filter(host => host.status === "online");
-  const offlineHosts = hosts.filter(host => host.status === "offline");
-  const unknownHosts = hosts.filter(host => host.status === "unknown");
+  const onlineHosts = hosts.filter(host => host.available === "online");
+  const offlineHosts = hosts.filter(host => host.available === "offline");
+  const unknownHosts = hosts.filter(host => host.available === "unknown");
 
   return (
     <div className="dashboard-card col-span-full lg:col-span-2">
@@ -48,7 +40,7 @@ export const HostStatusCard = ({ hosts, onHostClick }: HostStatusCardProps) => {
       <div className="space-y-3 max-h-80 overflow-y-auto">
         {hosts.map((host) => (
           <div
-            key={host.id}
+            key={getHostKey(host)}
             className={`flex items-center justify-between p-4 rounded-lg border border-border/50 bg-muted/5 hover:bg-muted/10 transition-colors ${
               onHostClick ? 'cursor-pointer hover:border-primary/30' : ''
             }`}
@@ -56,15 +48,15 @@ export const HostStatusCard = ({ hosts, onHostClick }: HostStatusCardProps) => {
           >
             <div className="flex items-center space-x-4">
               <div className={`p-2 rounded-lg ${
-                host.status === "online" 
+                host.available === "online" 
                   ? "bg-primary/10 text-primary" 
-                  : host.status === "offline"
+                  : host.available === "offline"
                   ? "bg-destructive/10 text-destructive"
                   : "bg-muted/30 text-muted-foreground"
               }`}>
-                {host.status === "online" ? (
+                {host.available === "online" ? (
                   <Wifi className="w-4 h-4" />
-                ) : host.status === "offline" ? (
+                ) : host.available === "offline" ? (
                   <WifiOff className="w-4 h-4" />
                 ) : (
                   <HelpCircle className="w-4 h-4" />
@@ -79,18 +71,18 @@ export const HostStatusCard = ({ hosts, onHostClick }: HostStatusCardProps) => {
             
             <div className="text-right">
               <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                host.status === "online"
+                host.available === "online"
                   ? "bg-primary/10 text-primary"
-                  : host.status === "offline"
+                  : host.available === "offline"
                   ? "bg-destructive/10 text-destructive"
                   : "bg-muted/30 text-muted-foreground"
               }`}>
-                {host.status.toUpperCase()}
+                {host.available.toUpperCase()}
               </div>
               <p className="text-xs text-muted-foreground mt-1">
-                {host.status === "online" && host.uptime ? `Uptime: ${host.uptime}` : 
-                 host.status === "offline" && host.lastSeen ? `Offline desde: ${host.lastSeen}` : 
-                 "Status atualizado"}
+                {host.available === "online" ? "Disponível" :
+                 host.available === "offline" ? "Indisponível" :
+                 "Status desconhecido"}
               </p>
             </div>
           </div>
@@ -0,0 +1,290 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Area, CartesianGrid, ComposedChart, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Database, RefreshCw } from 'lucide-react';
+import type { CanonicalMetric } from '@shared/metricProfiles';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { LoadingSpinner } from './LoadingSpinner';
+import { useZabbixHistory, useZabbixMetrics } from '@/hooks/useZabbixData';
+import { displayScale, storedSample } from '@/lib/units';
+import { usePredictionHistory, useProblemHistory, useSampledMetrics, useStoredMetricSeries } from '@/hooks/useMetricHistory';
+
+// Períodos do histórico armazenado e o tamanho do intervalo de agregação de cada um
+const RANGES: Record<string, { label: string; seconds: number; bucketSeconds: number }> = {
+  '7d': { label: '7d', seconds: 7 * 86400, bucketSeconds: 3600 },
+  '30d': { label: '30d', seconds: 30 * 86400, bucketSeconds: 4 * 3600 },
+  '90d': { label: '90d', seconds: 90 * 86400, bucketSeconds: 12 * 3600 },
+  '180d': { label: '6m', seconds: 180 * 86400, bucketSeconds: 86400 },
+  '365d': { label: '1a', seconds: 365 * 86400, bucketSeconds: 86400 },
+};
+
+const METRIC_LABELS: Record<CanonicalMetric, string> = {
+  cpu: 'CPU',
+  memory: 'Memória',
+  swap: 'Swap',
+  disk: 'Disco',
+  ping: 'Disponibilidade (ping)',
+  latency: 'Latência',
+  loss: 'Perda de pacotes',
+  rx: 'Tráfego de entrada',
+  tx: 'Tráfego de saída',
+  speed: 'Velocidade da interface',
+  signal: 'Sinal',
+  noise: 'Ruído',
+  snr: 'SNR',
+  ccq: 'CCQ',
+  txRate: 'Taxa TX',
+  rxRate: 'Taxa RX',
+  stations: 'Estações conectadas',
+  channel: 'Canal',
+  frequency: 'Frequência',
+  uptime: 'Uptime',
+  load: 'Carga',
+  processes: 'Processos',
+};
+
+// Pontos pedidos ao Zabbix para a comparação; trends acima de alguns dias
+const ZABBIX_MAX_POINTS = 500;
+
+interface LongTermHistoryTabProps {
+  hostId: string;
+  instance: string;
+  hostName: string;
+}
+
+const formatDate = (timestamp: number | string) =>
+  format(new Date(timestamp), 'dd/MM/yy HH:mm', { locale: ptBR });
+
+export const LongTermHistoryTab: React.FC<LongTermHistoryTabProps> = ({ hostId, instance, hostName }) => {
+  const [rangeKey, setRangeKey] = React.useState('30d');
+  const [selectedMetric, setSelectedMetric] = React.useState<CanonicalMetric | undefined>();
+  const [refreshedAt, setRefreshedAt] = React.useState(() => Date.now());
+
+  const range = RANGES[rangeKey];
+  const timeWindow = React.useMemo(() => {
+    const now = Math.floor(refreshedAt / 1000);
+    return { from: now - range.seconds, to: now };
+  }, [range, refreshedAt]);
+
+  const { data: sampledMetrics, isLoading: metricsLoading, error: metricsError } = useSampledMetrics(instance, hostId);
+  const sampled = sampledMetrics?.find(m => m.metric === selectedMetric) ?? sampledMetrics?.[0];
+
+  const { data: stored, isLoading: storedLoading } = useStoredMetricSeries(
+    instance, hostId, sampled?.metric, timeWindow, range.bucketSeconds, sampled?.itemId
+  );
+  // Mesmo item no Zabbix, limitado pela retenção de history/trends configurada lá
+  const { data: zabbix, isLoading: zabbixLoading, error: zabbixError } = useZabbixHistory(
+    sampled?.itemId ?? '', timeWindow, instance, ZABBIX_MAX_POINTS
+  );
+  // O histórico do Zabbix vem na unidade do item, convertida aqui para a unidade armazenada
+  const { data: liveMetrics } = useZabbixMetrics([hostId], instance);
+  const rawUnits = liveMetrics?.find(m => m.itemId === sampled?.itemId)?.rawUnits;
+  const { data: predictions } = usePredictionHistory(instance, hostId, timeWindow, range.bucketSeconds);
+  const { data: problems } = useProblemHistory(instance, hostName, timeWindow.from);
+
+  const zabbixPoints = React.useMemo(() => {
+    if (!sampled || !zabbix || rawUnits === undefined) return [];
+    return zabbix.map(point => ({
+      timestamp: point.timestamp,
+      value: storedSample(sampled.metric, point.value, rawUnits).value,
+    }));
+  }, [sampled, zabbix, rawUnits]);
+
+  // Uma única escala para as duas séries e o eixo
+  const scale = React.useMemo(() => {
+    const values = [...(stored || []).flatMap(point => [point.min, point.max]), ...zabbixPoints.map(point => point.value)];
+    return displayScale(sampled?.units ?? '', Math.max(0, ...values.map(Math.abs)));
+  }, [stored, zabbixPoints, sampled]);
+
+  const chartData = React.useMemo(() => (stored || []).map(point => ({
+    timestamp: point.timestamp,
+    stored: point.value / scale.divisor,
+    band: [point.min / scale.divisor, point.max / scale.divisor] as [number, number],
+  })), [stored, scale]);
+
+  const zabbixData = React.useMemo(
+    () => zabbixPoints.map(point => ({ timestamp: point.timestamp, value: point.value / scale.divisor })),
+    [zabbixPoints, scale]
+  );
+
+  const zabbixFirst = zabbix && zabbix.length > 0 ? zabbix[0].timestamp : null;
+  const storedFirst = stored && stored.length > 0 ? stored[0].timestamp : null;
+
+  if (metricsLoading) {
+    return <div className="py-12 flex justify-center"><LoadingSpinner /></div>;
+  }
+
+  if (metricsError || !sampledMetrics || sampledMetrics.length === 0) {
+    return (
+      <div className="py-12 text-center text-muted-foreground">
+        <Database className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        {metricsError
+          ? 'Não foi possível carregar o histórico armazenado'
+          : 'Nenhuma amostra armazenada para este host ainda. O coletor grava a cada 5 minutos.'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={sampled?.metric} onValueChange={value => setSelectedMetric(value as CanonicalMetric)}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Métrica" />
+          </SelectTrigger>
+          <SelectContent>
+            {sampledMetrics.map(m => (
+              <SelectItem key={m.metric} value={m.metric}>{METRIC_LABELS[m.metric] ?? m.metric}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ToggleGroup type="single" value={rangeKey} onValueChange={value => value && setRangeKey(value)} size="sm">
+          {Object.entries(RANGES).map(([key, { label }]) => (
+            <ToggleGroupItem key={key} value={key}>{label}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <Button variant="outline" size="sm" onClick={() => setRefreshedAt(Date.now())}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm flex items-center justify-between gap-2">
+            <span>{METRIC_LABELS[sampled!.metric] ?? sampled!.metric} — armazenado x Zabbix</span>
+            <span className="flex gap-2">
+              <Badge variant="outline">{sampled!.samples.toLocaleString('pt-BR')} amostras</Badge>
+              <Badge variant="outline">desde {formatDate(sampled!.firstSampledAt)}</Badge>
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {storedLoading ? (
+            <div className="h-[280px] flex items-center justify-center"><LoadingSpinner /></div>
+          ) : (
+            <div className="h-[280px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={[timeWindow.from * 1000, timeWindow.to * 1000]}
+                    tickFormatter={value => format(new Date(value), 'dd/MM', { locale: ptBR })}
+                    stroke="hsl(var(--muted-foreground))"
+                  />
+                  <YAxis stroke="hsl(var(--muted-foreground))" unit={scale.units ? ` ${scale.units}` : ''} />
+                  <Tooltip
+                    labelFormatter={value => formatDate(Number(value))}
+                    formatter={(value: number | [number, number], name: string) => [
+                      Array.isArray(value) ? `${value[0].toFixed(2)} – ${value[1].toFixed(2)}` : value.toFixed(2),
+                      name,
+                    ]}
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--background))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '6px'
+                    }}
+                  />
+                  <Area dataKey="band" name="Mín – máx" stroke="none" fill="hsl(var(--primary))" fillOpacity={0.15} isAnimationActive={false} />
+                  <Line dataKey="stored" name="Armazenado (média)" stroke="hsl(var(--primary))" dot={false} strokeWidth={2} isAnimationActive={false} />
+                  <Line
+                    data={zabbixData}
+                    dataKey="value"
+                    name="Zabbix"
+                    stroke="#f59e0b"
+                    strokeDasharray="4 3"
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+          <div className="mt-3 grid gap-1 text-xs text-muted-foreground sm:grid-cols-2">
+            <span>
+              Armazenado: {storedFirst ? `a partir de ${formatDate(storedFirst)}` : 'sem amostras no período'}
+            </span>
+            <span>
+              Zabbix: {zabbixLoading
+                ? 'carregando…'
+                : zabbixError
+                  ? 'indisponível'
+                  : zabbixFirst ? `a partir de ${formatDate(zabbixFirst)}` : 'sem dados no período (retenção expirada?)'}
+            </span>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Risco de instabilidade</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {predictions && predictions.length > 0 ? (
+              <div className="h-[160px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={predictions}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis
+                      dataKey="timestamp"
+                      type="number"
+                      scale="time"
+                      domain={[timeWindow.from * 1000, timeWindow.to * 1000]}
+                      tickFormatter={value => format(new Date(value), 'dd/MM', { locale: ptBR })}
+                      stroke="hsl(var(--muted-foreground))"
+                    />
+                    <YAxis domain={[0, 100]} stroke="hsl(var(--muted-foreground))" />
+                    <Tooltip
+                      labelFormatter={value => formatDate(Number(value))}
+                      formatter={(value: number, name: string) => [value.toFixed(0), name]}
+                    />
+                    <Line dataKey="score" name="Score (média)" stroke="#ef4444" dot={false} isAnimationActive={false} />
+                    <Line
+                      dataKey="maxScore"
+                      name="Score máximo"
+                      stroke="#ef4444"
+                      strokeOpacity={0.5}
+                      strokeDasharray="4 3"
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <div className="h-[160px] flex items-center justify-center text-sm text-muted-foreground">
+                Nenhuma previsão armazenada no período
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Problemas registrados ({problems?.length ?? 0})</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 max-h-[176px] overflow-y-auto">
+            {problems && problems.length > 0 ? problems.map(problem => (
+              <div key={`${problem.triggerId}:${problem.startedAt}`} className="text-xs flex items-start justify-between gap-2">
+                <span className="truncate" title={problem.title}>{problem.title}</span>
+                <span className="whitespace-nowrap text-muted-foreground">
+                  {formatDate(problem.startedAt)} → {problem.resolvedAt ? formatDate(problem.resolvedAt) : 'aberto'}
+                </span>
+              </div>
+            )) : (
+              <div className="text-sm text-muted-foreground">Nenhum problema registrado no período</div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
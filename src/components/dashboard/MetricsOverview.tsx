@@ -1,5 +1,8 @@
 import React from 'react';
 import { useZabbixMetrics, useZabbixAlerts } from '@/hooks/useZabbixData';
+import { getHostKey } from '@/services/zabbixService';
+import type { ZabbixMetric } from '@/services/zabbixService';
+import { isUrgentSeverity } from '@/lib/severity';
 import { EnhancedMetricCard } from './EnhancedMetricCard';
 import { RealTimeChart } from './RealTimeChart';
 import { Cpu, MemoryStick, HardDrive, Network, Activity, Clock, Users, AlertTriangle } from 'lucide-react';
@@ -14,7 +17,7 @@ export const MetricsOverview: React.FC = () => {
   const groupMetricsByType = () => {
     if (!metrics) return {};
     
-    return metrics.reduce((acc: any, metric: any) => {
+    return metrics.reduce<Record<string, ZabbixMetric[]>>((acc, metric) => {
       if (!acc[metric.type]) acc[metric.type] = [];
       acc[metric.type].push(metric);
       return acc;
@@ -27,9 +30,11 @@ export const MetricsOverview: React.FC = () => {
   const getOverallStats = () => {
     if (!metrics) return { totalHosts: 0, onlineHosts: 0, avgCpu: 0, avgMemory: 0 };
     
-    const hosts = new Set(metrics.map(m => m.hostId));
+    const hosts = new Set(metrics.map(m => getHostKey({ instance: m.instance, id: m.hostId })));
     const onlineHosts = new Set(
-      metrics.filter(m => m.hostAvailable === 'online').map(m => m.hostId)
+      metrics
+        .filter(m => m.hostAvailable === 'online')
+        .map(m => getHostKey({ instance: m.instance, id: m.hostId }))
     );
     
     const cpuMetrics = metrics.filter(m => m.type === 'cpu');
@@ -99,7 +104,7 @@ export const MetricsOverview: React.FC = () => {
           icon={AlertTriangle}
           isLoading={alertsLoading}
           status={alerts && alerts.length > 0 ? 'warning' : 'normal'}
-          subtitle={alerts && alerts.length > 0 ? `${alerts.filter(a => a.severity === 'critical').length} críticos` : 'Sistema estável'}
+          subtitle={alerts && alerts.length > 0 ? `${alerts.filter(a => isUrgentSeverity(a.severity)).length} alta/desastre` : 'Sistema estável'}
         />
       </div>
     </div>
@@ -0,0 +1,294 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { FlaskConical, Play } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { DEFAULT_ALARM_LEVEL, DEFAULT_BACKTEST_OPTIONS } from '@shared/backtest';
+import type { RiskLevel } from '@shared/prediction';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { SEVERITIES, SEVERITY_LABELS, Severity } from '@/lib/severity';
+import { LoadingSpinner } from './LoadingSpinner';
+import { usePredictionBacktest } from '@/hooks/usePredictionBacktest';
+import { usePredictionProfiles } from '@/hooks/usePredictionProfiles';
+import { MAX_BACKTEST_HOSTS } from '@/services/backtestService';
+import type { ZabbixHost } from '@/services/zabbixService';
+
+const SELECTED_HOST = '__host__';
+
+const PERIODS = [1, 3, 7, 14];
+
+const HORIZONS = [30, 60, 120];
+
+const ALARM_LEVELS: { value: RiskLevel; label: string }[] = [
+  { value: 'medium', label: 'Médio' },
+  { value: 'high', label: 'Alto' },
+  { value: 'critical', label: 'Crítico' },
+];
+
+// Severidades abaixo de "Atenção" raramente indicam indisponibilidade
+const MIN_SEVERITIES = SEVERITIES.slice(SEVERITIES.indexOf('warning'));
+
+const formatRate = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+const formatMinutes = (value: number | null) => (value === null ? '—' : `${Math.round(value)}min`);
+
+interface PredictionBacktestProps {
+  hosts: ZabbixHost[];
+  selectedHost?: ZabbixHost;
+}
+
+/**
+ * Backtest da previsão: reprocessa o histórico armazenado de um host ou grupo
+ * com cada perfil e mede, contra os problemas do Zabbix, quanto os alarmes
+ * acertam, quantos problemas antecipam e com que antecedência
+ */
+export const PredictionBacktest: React.FC<PredictionBacktestProps> = ({ hosts, selectedHost }) => {
+  const { data: profiles } = usePredictionProfiles();
+  const backtest = usePredictionBacktest();
+  const [scope, setScope] = React.useState(selectedHost ? SELECTED_HOST : '');
+  const [days, setDays] = React.useState(7);
+  const [horizon, setHorizon] = React.useState(DEFAULT_BACKTEST_OPTIONS.horizonMs / 60_000);
+  const [alarmLevel, setAlarmLevel] = React.useState<RiskLevel>(DEFAULT_ALARM_LEVEL);
+  const [minSeverity, setMinSeverity] = React.useState<Severity>(DEFAULT_BACKTEST_OPTIONS.minSeverity);
+  const [selectedResult, setSelectedResult] = React.useState<string | null>(null);
+
+  const groups = React.useMemo(
+    () => [...new Set(hosts.flatMap(host => host.groups))].sort((a, b) => a.localeCompare(b)),
+    [hosts]
+  );
+
+  const scopeHosts = React.useMemo(() => {
+    if (scope === SELECTED_HOST) return selectedHost ? [selectedHost] : [];
+    return hosts.filter(host => host.status === 'enabled' && host.groups.includes(scope));
+  }, [scope, hosts, selectedHost]);
+
+  const handleRun = () => {
+    if (!profiles || scopeHosts.length === 0) return;
+    setSelectedResult(null);
+    backtest.mutate({
+      hosts: scopeHosts,
+      profiles,
+      days,
+      options: { ...DEFAULT_BACKTEST_OPTIONS, horizonMs: horizon * 60_000, minSeverity },
+      alarmLevel,
+    });
+  };
+
+  const report = backtest.data;
+  const curveResult = report?.results.find(result => (result.profileId ?? '') === (selectedResult ?? ''))
+    ?? report?.results[0];
+  const curveProfile = profiles?.find(profile => profile.id === curveResult?.profileId);
+  const curveData = curveResult?.summary.curve.map(point => ({
+    threshold: point.threshold,
+    precision: point.precision === null ? null : Math.round(point.precision * 100),
+    recall: point.recall === null ? null : Math.round(point.recall * 100),
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <FlaskConical className="w-5 h-5" />
+          Backtest da Previsão
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Reprocessa as amostras gravadas pelo coletor em janelas de 1h a cada 5 minutos e compara os alarmes
+          com os problemas registrados no Zabbix
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 items-end">
+          <div className="space-y-1 col-span-2 md:col-span-1 lg:col-span-2">
+            <Label className="text-xs text-muted-foreground">Hosts</Label>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger>
+                <SelectValue placeholder="Escolha um grupo" />
+              </SelectTrigger>
+              <SelectContent>
+                {selectedHost && (
+                  <SelectItem value={SELECTED_HOST}>Host: {selectedHost.name}</SelectItem>
+                )}
+                {groups.map(name => (
+                  <SelectItem key={name} value={name}>Grupo: {name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Período</Label>
+            <Select value={String(days)} onValueChange={value => setDays(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map(period => (
+                  <SelectItem key={period} value={String(period)}>{period === 1 ? '1 dia' : `${period} dias`}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Antecedência máxima</Label>
+            <Select value={String(horizon)} onValueChange={value => setHorizon(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HORIZONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Alarme a partir de</Label>
+            <Select value={alarmLevel} onValueChange={value => setAlarmLevel(value as RiskLevel)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ALARM_LEVELS.map(level => (
+                  <SelectItem key={level.value} value={level.value}>{level.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Severidade mínima</Label>
+            <Select value={minSeverity} onValueChange={value => setMinSeverity(value as Severity)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MIN_SEVERITIES.map(severity => (
+                  <SelectItem key={severity} value={severity}>{SEVERITY_LABELS[severity]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs text-muted-foreground">
+            {scopeHosts.length === 0
+              ? 'Nenhum host habilitado no escopo'
+              : scopeHosts.length > MAX_BACKTEST_HOSTS
+                ? `${scopeHosts.length} hosts no escopo; serão usados os primeiros ${MAX_BACKTEST_HOSTS}`
+                : `${scopeHosts.length} ${scopeHosts.length === 1 ? 'host' : 'hosts'} no escopo`}
+          </p>
+          <Button onClick={handleRun} disabled={backtest.isPending || !profiles || scopeHosts.length === 0} className="gap-2">
+            <Play className="w-4 h-4" />
+            Executar backtest
+          </Button>
+        </div>
+
+        {backtest.isPending ? (
+          <div className="py-12 flex justify-center"><LoadingSpinner /></div>
+        ) : backtest.error ? (
+          <div className="py-12 text-center text-muted-foreground">
+            Não foi possível executar o backtest
+          </div>
+        ) : !report ? (
+          <div className="py-12 text-center text-muted-foreground">
+            Escolha os hosts e execute o backtest para comparar os perfis de previsão
+          </div>
+        ) : report.hosts === 0 ? (
+          <div className="py-12 text-center text-muted-foreground">
+            Nenhuma amostra armazenada no período para os hosts escolhidos
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Perfil</TableHead>
+                    <TableHead className="text-right">Precisão</TableHead>
+                    <TableHead className="text-right">Recall</TableHead>
+                    <TableHead className="text-right">Alarmes falsos</TableHead>
+                    <TableHead className="text-right">Antecedência (mediana)</TableHead>
+                    <TableHead className="text-right">Erro do ETA</TableHead>
+                    <TableHead className="text-right">Alarmes</TableHead>
+                    <TableHead className="text-right">Problemas antecipados</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.results.map(result => (
+                    <TableRow
+                      key={result.profileId ?? ''}
+                      className={cn('cursor-pointer', result === curveResult && 'bg-muted/50')}
+                      onClick={() => setSelectedResult(result.profileId)}
+                    >
+                      <TableCell className={cn(result.profileId === null && 'font-medium')}>{result.name}</TableCell>
+                      <TableCell className="text-right font-mono">{formatRate(result.summary.precision)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatRate(result.summary.recall)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatRate(result.summary.falseAlarmRate)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatMinutes(result.summary.medianLeadMinutes)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatMinutes(result.summary.etaMaeMinutes)}</TableCell>
+                      <TableCell className="text-right font-mono">{result.summary.alarms}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {result.summary.detected}/{result.summary.problems}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {curveResult && curveData && (
+              <div>
+                <h3 className="text-sm font-medium mb-1">Precisão e recall por score mínimo: {curveResult.name}</h3>
+                <p className="text-xs text-muted-foreground mb-3">
+                  Alarmar a partir de cada score; as linhas tracejadas são os níveis do perfil. Ajuste os níveis
+                  no editor de perfis onde o recall ainda é aceitável com menos alarmes falsos.
+                </p>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={curveData} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                      <XAxis dataKey="threshold" type="number" domain={[0, 100]} tick={{ fontSize: 10 }} axisLine={false} tickLine={false} />
+                      <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} />
+                      <Tooltip
+                        labelFormatter={(value) => `Score ≥ ${value}`}
+                        formatter={(value: number, name: string) => [`${value}%`, name]}
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--background))',
+                          border: '1px solid hsl(var(--border))',
+                          borderRadius: '8px',
+                          fontSize: '12px'
+                        }}
+                      />
+                      <Legend wrapperStyle={{ fontSize: '12px' }} />
+                      {curveProfile && (['medium', 'high', 'critical'] as const).map(level => (
+                        <ReferenceLine
+                          key={level}
+                          x={curveProfile.thresholds.levels[level]}
+                          stroke="hsl(var(--muted-foreground))"
+                          strokeDasharray="5 5"
+                          label={{ value: ALARM_LEVELS.find(item => item.value === level)?.label, position: 'top', fontSize: 10 }}
+                        />
+                      ))}
+                      <Line type="monotone" dataKey="precision" name="Precisão" stroke="#3b82f6" strokeWidth={2} dot={false} connectNulls />
+                      <Line type="monotone" dataKey="recall" name="Recall" stroke="#22c55e" strokeWidth={2} dot={false} connectNulls />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              {report.hosts} {report.hosts === 1 ? 'host analisado' : 'hosts analisados'}
+              {report.hostsWithoutData.length > 0 && ` • sem amostras no período: ${report.hostsWithoutData.join(', ')}`}
+              {' • '}executado {formatDistanceToNow(new Date(report.ranAt), { addSuffix: true, locale: ptBR })}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
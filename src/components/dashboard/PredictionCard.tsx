@@ -88,13 +88,20 @@ export const PredictionCard = ({ prediction, hostName, className }: PredictionCa
             <Badge variant={config.badgeVariant} className="font-bold">
               {config.label}
             </Badge>
-            {prediction.etaMinutes && (
+            {prediction.etaMinutes !== null && (
               <div className={cn(
                 "text-xs font-medium px-2 py-1 rounded-full",
                 config.bgColor,
                 config.color
               )}>
-                ETA: {formatETA(prediction.etaMinutes)}
+                ETA: {formatETA(prediction.etaMinutes) ?? 'agora'}
+                {prediction.etaRange && (
+                  <span className="opacity-70">
+                    {' '}({formatETA(prediction.etaRange.lowMinutes) ?? 'agora'} – {prediction.etaRange.highMinutes === null
+                      ? '?'
+                      : formatETA(prediction.etaRange.highMinutes) ?? 'agora'})
+                  </span>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,446 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ArrowRight, LogIn, RotateCcw, Save, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { useSupabaseSession } from "@/hooks/useSupabaseSession";
+import { useDeletePredictionProfile, usePredictionProfiles, useSavePredictionProfile } from "@/hooks/usePredictionProfiles";
+import { PredictionProfileSchema } from "@shared/contract";
+import {
+  BUILTIN_PREDICTION_PROFILES,
+  CriticalSeries,
+  DEFAULT_PREDICTION_PROFILE,
+  predictInstability,
+  PredictionProfile,
+  PredictionThresholds,
+  RiskLevel,
+} from "@shared/prediction";
+import type { WirelessSeries } from "@shared/wireless";
+
+const NEW_PROFILE = '__new__';
+
+const RISK_LABELS: Record<RiskLevel, string> = {
+  critical: 'CRÍTICO',
+  high: 'ALTO',
+  medium: 'MÉDIO',
+  low: 'BAIXO',
+};
+
+// Campos editáveis de cada grupo de limiares, na ordem em que aparecem
+const THRESHOLD_FIELDS: { [S in keyof PredictionThresholds]: { title: string; fields: { key: keyof PredictionThresholds[S]; label: string; unit: string }[] } } = {
+  ping: {
+    title: 'Ping (últimas 5 verificações)',
+    fields: [
+      { key: 'downIntervals', label: 'Falhas seguidas = offline', unit: '' },
+      { key: 'lossCritical', label: 'Perda crítica', unit: '%' },
+      { key: 'lossHigh', label: 'Perda alta', unit: '%' },
+      { key: 'lossModerate', label: 'Perda moderada', unit: '%' },
+    ],
+  },
+  latency: {
+    title: 'Latência (últimos 10 pontos)',
+    fields: [
+      { key: 'criticalMs', label: 'Máxima crítica', unit: 'ms' },
+      { key: 'highMs', label: 'Máxima alta', unit: 'ms' },
+      { key: 'spikeCount', label: 'Picos (> 2x média)', unit: '' },
+      { key: 'variationPercent', label: 'Variação', unit: '%' },
+      { key: 'elevatedMs', label: 'Média elevada', unit: 'ms' },
+    ],
+  },
+  cpu: {
+    title: 'CPU (últimos 5 pontos)',
+    fields: [
+      { key: 'critical', label: 'Média crítica', unit: '%' },
+      { key: 'veryHigh', label: 'Média muito alta', unit: '%' },
+      { key: 'frequent', label: '3+ pontos acima de', unit: '%' },
+      { key: 'peak', label: 'Pico', unit: '%' },
+    ],
+  },
+  memory: {
+    title: 'Memória (últimos 5 pontos)',
+    fields: [
+      { key: 'critical', label: 'Média crítica', unit: '%' },
+      { key: 'veryHigh', label: 'Média muito alta', unit: '%' },
+      { key: 'frequent', label: '3+ pontos acima de', unit: '%' },
+      { key: 'peak', label: 'Pico', unit: '%' },
+    ],
+  },
+  wireless: {
+    title: 'Enlace sem fio (últimas 3 amostras)',
+    fields: [
+      { key: 'signalCritical', label: 'Sinal crítico', unit: 'dBm' },
+      { key: 'signalWeak', label: 'Sinal fraco', unit: 'dBm' },
+      { key: 'snrCritical', label: 'SNR crítica', unit: 'dB' },
+      { key: 'snrLow', label: 'SNR baixa', unit: 'dB' },
+      { key: 'ccqCritical', label: 'CCQ crítico', unit: '%' },
+      { key: 'ccqLow', label: 'CCQ baixo', unit: '%' },
+      { key: 'signalDropDb', label: 'Queda de sinal na hora', unit: 'dB' },
+      { key: 'rateDropPercent', label: 'Queda da taxa TX na hora', unit: '%' },
+    ],
+  },
+  levels: {
+    title: 'Níveis de risco (score mínimo)',
+    fields: [
+      { key: 'critical', label: 'Crítico', unit: '' },
+      { key: 'high', label: 'Alto', unit: '' },
+      { key: 'medium', label: 'Médio', unit: '' },
+    ],
+  },
+};
+
+const WEIGHT_FIELDS: { key: keyof PredictionProfile['weights']; label: string }[] = [
+  { key: 'ping', label: 'Ping' },
+  { key: 'latency', label: 'Latência' },
+  { key: 'cpu', label: 'CPU' },
+  { key: 'memory', label: 'Memória' },
+  { key: 'wireless', label: 'Enlace sem fio' },
+];
+
+const splitList = (value: string) => value.split(',').map(part => part.trim()).filter(Boolean);
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  unit?: string;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const NumberField = ({ id, label, unit, value, onChange }: NumberFieldProps) => (
+  <div className="space-y-1">
+    <Label htmlFor={id} className="text-xs text-muted-foreground">{label}{unit ? ` (${unit})` : ''}</Label>
+    <Input
+      id={id}
+      type="number"
+      value={Number.isFinite(value) ? value : ''}
+      onChange={e => onChange(e.target.value === '' ? NaN : Number(e.target.value))}
+      className="h-8"
+    />
+  </div>
+);
+
+interface PredictionProfileEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Perfil resolvido para o host em análise
+  activeProfile: PredictionProfile;
+  // Janela crítica do host em análise, usada na prévia
+  metrics: CriticalSeries | null;
+  // Amostras de RF da última hora, para a prévia da regra do enlace sem fio
+  wireless?: WirelessSeries;
+  hostKey?: string;
+  hostName?: string;
+}
+
+/**
+ * Editor de perfis de previsão com prévia ao vivo: o rascunho é aplicado à
+ * janela crítica do host em análise e comparado ao perfil em uso
+ */
+export const PredictionProfileEditor = ({ open, onOpenChange, activeProfile, metrics, wireless, hostKey, hostName }: PredictionProfileEditorProps) => {
+  const { toast } = useToast();
+  const { user, isAdmin, signIn } = useSupabaseSession();
+  const { data: profiles } = usePredictionProfiles();
+  const saveProfile = useSavePredictionProfile();
+  const deleteProfile = useDeletePredictionProfile();
+
+  const [selectedId, setSelectedId] = useState(activeProfile.id);
+  const [draft, setDraft] = useState<PredictionProfile>(activeProfile);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+
+  const profileList = profiles ?? BUILTIN_PREDICTION_PROFILES;
+  const isBuiltin = BUILTIN_PREDICTION_PROFILES.some(profile => profile.id === draft.id);
+
+  // Reabrir o editor volta para o perfil em uso pelo host; enquanto aberto,
+  // salvar (que recarrega os perfis) não descarta a seleção
+  const wasOpen = useRef(false);
+  useEffect(() => {
+    if (open && !wasOpen.current) {
+      setSelectedId(activeProfile.id);
+      setDraft(activeProfile);
+    }
+    wasOpen.current = open;
+  }, [open, activeProfile]);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    if (id === NEW_PROFILE) {
+      setDraft({ ...DEFAULT_PREDICTION_PROFILE, id: '', name: '', description: '', hosts: [], hostGroups: [] });
+    } else {
+      setDraft(profileList.find(profile => profile.id === id) ?? DEFAULT_PREDICTION_PROFILE);
+    }
+  };
+
+  const setThreshold = (section: keyof PredictionThresholds, key: string, value: number) => {
+    setDraft(current => ({
+      ...current,
+      thresholds: { ...current.thresholds, [section]: { ...current.thresholds[section], [key]: value } },
+    }));
+  };
+
+  const validation = useMemo(() => PredictionProfileSchema.safeParse(draft), [draft]);
+  const current = useMemo(
+    () => predictInstability(metrics, activeProfile, new Date(), { wireless }),
+    [metrics, activeProfile, wireless]
+  );
+  // Rascunho inválido (campo vazio, por exemplo) não gera prévia
+  const preview = useMemo(
+    () => (validation.success ? predictInstability(metrics, draft, new Date(), { wireless }) : null),
+    [metrics, draft, wireless, validation.success]
+  );
+
+  const assignedToHost = !!hostKey && !!draft.hosts?.includes(hostKey);
+  const toggleHostAssignment = (checked: boolean) => {
+    if (!hostKey) return;
+    setDraft(current => ({
+      ...current,
+      hosts: checked
+        ? [...(current.hosts ?? []), hostKey]
+        : (current.hosts ?? []).filter(key => key !== hostKey),
+    }));
+  };
+
+  const handleSignIn = async () => {
+    try {
+      await signIn(email, password);
+      setPassword('');
+    } catch (error) {
+      toast({
+        title: 'Falha ao entrar',
+        description: error instanceof Error ? error.message : 'Erro desconhecido',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveProfile.mutateAsync(draft);
+      toast({ title: 'Perfil salvo', description: draft.name });
+      setSelectedId(draft.id);
+    } catch (error) {
+      toast({
+        title: 'Não foi possível salvar o perfil',
+        description: error instanceof Error ? error.message : 'Erro desconhecido',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteProfile.mutateAsync(draft.id);
+      toast({ title: isBuiltin ? 'Perfil restaurado' : 'Perfil removido', description: draft.name });
+      handleSelect(isBuiltin ? draft.id : DEFAULT_PREDICTION_PROFILE.id);
+    } catch (error) {
+      toast({
+        title: 'Não foi possível remover o perfil',
+        description: error instanceof Error ? error.message : 'Erro desconhecido',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const delta = preview ? preview.riskScore - current.riskScore : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Perfis de previsão</DialogTitle>
+          <DialogDescription>
+            Pesos e limiares do cálculo de risco, atribuídos por host ou grupo de hosts.
+            {hostName && ` Em uso por ${hostName}: ${activeProfile.name}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[1fr_260px]">
+          <ScrollArea className="h-[60vh] pr-4">
+            <div className="space-y-4">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Perfil</Label>
+                  <Select value={selectedId} onValueChange={handleSelect}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {profileList.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                      ))}
+                      <SelectItem value={NEW_PROFILE}>+ Novo perfil</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="profile-id" className="text-xs text-muted-foreground">Id</Label>
+                  <Input
+                    id="profile-id"
+                    value={draft.id}
+                    disabled={selectedId !== NEW_PROFILE}
+                    placeholder="ex.: backbone"
+                    onChange={e => setDraft({ ...draft, id: e.target.value.toLowerCase() })}
+                    className="h-8"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="profile-name" className="text-xs text-muted-foreground">Nome</Label>
+                  <Input id="profile-name" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className="h-8" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="profile-description" className="text-xs text-muted-foreground">Descrição</Label>
+                  <Input
+                    id="profile-description"
+                    value={draft.description ?? ''}
+                    onChange={e => setDraft({ ...draft, description: e.target.value })}
+                    className="h-8"
+                  />
+                </div>
+                <div className="space-y-1 sm:col-span-2">
+                  <Label htmlFor="profile-groups" className="text-xs text-muted-foreground">
+                    Grupos de hosts (expressões regulares, separadas por vírgula)
+                  </Label>
+                  <Input
+                    id="profile-groups"
+                    value={(draft.hostGroups ?? []).join(', ')}
+                    onChange={e => setDraft({ ...draft, hostGroups: splitList(e.target.value) })}
+                    className="h-8"
+                  />
+                </div>
+                {hostKey && (
+                  <div className="flex items-center gap-2 sm:col-span-2">
+                    <Checkbox id="profile-host" checked={assignedToHost} onCheckedChange={checked => toggleHostAssignment(checked === true)} />
+                    <Label htmlFor="profile-host" className="text-sm">
+                      Atribuir a {hostName ?? hostKey} independentemente dos grupos
+                      {draft.hosts && draft.hosts.length > 0 && ` (${draft.hosts.length} host(s) atribuído(s))`}
+                    </Label>
+                  </div>
+                )}
+              </div>
+
+              <Separator />
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">Pesos (pontos máximos de cada sinal)</h4>
+                <div className="grid gap-3 grid-cols-2 sm:grid-cols-5">
+                  {WEIGHT_FIELDS.map(({ key, label }) => (
+                    <NumberField
+                      key={key}
+                      id={`weight-${key}`}
+                      label={label}
+                      value={draft.weights[key]}
+                      onChange={value => setDraft({ ...draft, weights: { ...draft.weights, [key]: value } })}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              {(Object.keys(THRESHOLD_FIELDS) as (keyof PredictionThresholds)[]).map(section => (
+                <div key={section}>
+                  <h4 className="text-sm font-medium mb-2">{THRESHOLD_FIELDS[section].title}</h4>
+                  <div className="grid gap-3 grid-cols-2 sm:grid-cols-4">
+                    {THRESHOLD_FIELDS[section].fields.map(({ key, label, unit }) => (
+                      <NumberField
+                        key={String(key)}
+                        id={`${section}-${String(key)}`}
+                        label={label}
+                        unit={unit}
+                        value={(draft.thresholds[section] as Record<string, number>)[String(key)]}
+                        onChange={value => setThreshold(section, String(key), value)}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Prévia{hostName ? ` em ${hostName}` : ''}</h4>
+            {!metrics ? (
+              <p className="text-sm text-muted-foreground">Selecione um host com dados críticos para ver a prévia.</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+                  <div className="text-center">
+                    <div className="text-2xl font-bold">{current.riskScore}</div>
+                    <Badge variant="outline">{RISK_LABELS[current.riskLevel]}</Badge>
+                    <div className="text-xs text-muted-foreground mt-1 truncate max-w-[90px]">{activeProfile.name}</div>
+                  </div>
+                  <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                  <div className="text-center">
+                    <div className="text-2xl font-bold">{preview ? preview.riskScore : '—'}</div>
+                    {preview && <Badge variant="outline">{RISK_LABELS[preview.riskLevel]}</Badge>}
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {preview ? `${delta > 0 ? '+' : ''}${delta} pontos` : 'rascunho inválido'}
+                    </div>
+                  </div>
+                </div>
+                {preview && (
+                  <ul className="space-y-1 text-xs text-muted-foreground">
+                    {preview.factors.length > 0
+                      ? preview.factors.map(factor => <li key={factor}>• {factor}</li>)
+                      : <li>Nenhum fator de risco com este perfil</li>}
+                  </ul>
+                )}
+              </>
+            )}
+            {!validation.success && (
+              <ul className="space-y-1 text-xs text-destructive">
+                {validation.error.issues.slice(0, 4).map(issue => (
+                  <li key={`${issue.path.join('.')}:${issue.message}`}>{issue.path.join('.') || 'perfil'}: {issue.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {!user ? (
+            <div className="flex flex-1 items-center gap-2">
+              <Input placeholder="E-mail" type="email" value={email} onChange={e => setEmail(e.target.value)} className="h-8" />
+              <Input
+                placeholder="Senha"
+                type="password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleSignIn()}
+                className="h-8"
+              />
+              <Button size="sm" variant="outline" className="gap-2" onClick={handleSignIn} disabled={!email || !password}>
+                <LogIn className="w-4 h-4" />
+                Entrar para salvar
+              </Button>
+            </div>
+          ) : !isAdmin ? (
+            <p className="flex-1 self-center text-xs text-muted-foreground">
+              Somente administradores podem alterar perfis de previsão
+            </p>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="gap-2"
+              onClick={handleDelete}
+              disabled={selectedId === NEW_PROFILE || deleteProfile.isPending}
+            >
+              {isBuiltin ? <RotateCcw className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+              {isBuiltin ? 'Restaurar padrão' : 'Remover'}
+            </Button>
+          )}
+          <Button size="sm" className="gap-2" onClick={handleSave} disabled={!isAdmin || !validation.success || saveProfile.isPending}>
+            <Save className="w-4 h-4" />
+            Salvar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
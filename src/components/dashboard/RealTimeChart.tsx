@@ -5,22 +5,34 @@ import { useZabbixHistory } from '@/hooks/useZabbixData';
 import { LoadingSpinner } from './LoadingSpinner';
 import { Clock, TrendingUp, TrendingDown, Minus } from 'lucide-react';
 
+// Janela explícita em Unix timestamp (segundos)
+export interface TimeWindow {
+  from: number;
+  to: number;
+}
+
 interface RealTimeChartProps {
   itemId: string;
+  instance?: string;
   title: string;
-  timeRange: '24h' | '7d' | '30d';
+  timeRange: '24h' | '7d' | '30d' | TimeWindow;
   type?: 'line' | 'area';
   unit?: string;
   color?: string;
+  maxPoints?: number;
+  syncId?: string; // Gráficos com o mesmo syncId compartilham a linha de referência do cursor
 }
 
 export const RealTimeChart: React.FC<RealTimeChartProps> = ({
   itemId,
+  instance,
   title,
   timeRange,
   type = 'line',
   unit = '',
-  color = 'hsl(var(--primary))'
+  color = 'hsl(var(--primary))',
+  maxPoints = 500,
+  syncId
 }) => {
   // Early return if no itemId is provided
   if (!itemId) {
@@ -39,7 +51,9 @@ export const RealTimeChart: React.FC<RealTimeChartProps> = ({
   }
 
   // Calculate time range
-  const getTimeRange = () => {
+  const getTimeRange = (): TimeWindow => {
+    if (typeof timeRange === 'object') return timeRange;
+
     const now = Math.floor(Date.now() / 1000);
     let from: number;
     
@@ -63,20 +77,23 @@ export const RealTimeChart: React.FC<RealTimeChartProps> = ({
   const timeRangeData = getTimeRange();
   const { data: historyData, isLoading, error, dataUpdatedAt } = useZabbixHistory(
     itemId, 
-    timeRangeData
+    timeRangeData,
+    instance,
+    maxPoints
   );
 
   const formatXAxis = (tickItem: number) => {
     const date = new Date(tickItem);
-    if (timeRange === '24h') {
+    // Janelas de até um dia mostram horário; as maiores, a data
+    if (timeRangeData.to - timeRangeData.from <= 24 * 60 * 60) {
       return date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
-    } else if (timeRange === '7d') {
-      return date.toLocaleDateString('pt-BR', { month: 'short', day: 'numeric' });
-    } else {
-      return date.toLocaleDateString('pt-BR', { month: 'short', day: 'numeric' });
     }
+    return date.toLocaleDateString('pt-BR', { month: 'short', day: 'numeric' });
   };
 
+  // Eixo numérico na janela inteira para alinhar gráficos sincronizados
+  const xDomain = [timeRangeData.from * 1000, timeRangeData.to * 1000];
+
   const formatTooltip = (value: any, name: any, props: any) => {
     if (props && props.payload) {
       const date = new Date(props.payload.timestamp);
@@ -157,10 +174,12 @@ export const RealTimeChart: React.FC<RealTimeChartProps> = ({
         <div className="h-[200px]">
           <ResponsiveContainer width="100%" height="100%">
             {type === 'area' ? (
-              <AreaChart data={historyData}>
+              <AreaChart data={historyData} syncId={syncId} syncMethod="value">
                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                 <XAxis 
                   dataKey="timestamp" 
+                  type="number"
+                  domain={xDomain}
                   tickFormatter={formatXAxis}
                   stroke="hsl(var(--muted-foreground))"
                 />
@@ -182,10 +201,12 @@ export const RealTimeChart: React.FC<RealTimeChartProps> = ({
                 />
               </AreaChart>
             ) : (
-              <LineChart data={historyData}>
+              <LineChart data={historyData} syncId={syncId} syncMethod="value">
                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                 <XAxis 
                   dataKey="timestamp" 
+                  type="number"
+                  domain={xDomain}
                   tickFormatter={formatXAxis}
                   stroke="hsl(var(--muted-foreground))"
                 />
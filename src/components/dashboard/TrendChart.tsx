@@ -1,11 +1,14 @@
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea, ReferenceDot } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ZabbixHistoryData } from '@/services/zabbixService';
+import type { Anomaly } from '@shared/anomaly';
+import { formatEtaMinutes, MetricForecast } from '@shared/forecast';
 import { cn } from "@/lib/utils";
 
 interface TrendChartProps {
   title: string;
+  subtitle?: string;
   data: ZabbixHistoryData[];
   unit?: string;
   color?: string;
@@ -13,25 +16,43 @@ interface TrendChartProps {
   criticalThreshold?: number;
   className?: string;
   height?: number;
+  // Anomalias da série, anotadas sobre o gráfico
+  anomalies?: Anomaly[];
+  // Projeção da tendência com o intervalo de 95% até o limiar crítico
+  forecast?: MetricForecast;
 }
 
+const ANOMALY_COLOR = '#ef4444';
+
 export const TrendChart = ({ 
   title, 
+  subtitle,
   data, 
   unit = '', 
   color = '#8884d8',
   warningThreshold,
   criticalThreshold,
   className,
-  height = 200
+  height = 200,
+  anomalies = [],
+  forecast
 }: TrendChartProps) => {
   
+  // Com mais de um dia no eixo (histórico longo ou projeção), a data entra no rótulo
+  const firstTimestamp = data.length > 0 ? data[0].timestamp : 0;
+  const lastTimestamp = forecast?.points.length
+    ? forecast.points[forecast.points.length - 1].timestamp
+    : data.length > 0 ? data[data.length - 1].timestamp : 0;
+  const spansDays = lastTimestamp - firstTimestamp > 24 * 60 * 60 * 1000;
+
   const formatTimestamp = (timestamp: number) => {
     const date = new Date(timestamp);
-    return date.toLocaleTimeString('pt-BR', { 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    });
+    return spansDays
+      ? date.toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleTimeString('pt-BR', { 
+          hour: '2-digit', 
+          minute: '2-digit' 
+        });
   };
 
   const formatValue = (value: number) => {
@@ -45,11 +66,21 @@ export const TrendChart = ({
     return `${value.toFixed(2)}${unit}`;
   };
 
-  const chartData = data.map(item => ({
-    timestamp: item.timestamp,
-    time: formatTimestamp(item.timestamp),
-    value: item.value
-  }));
+  const chartData: { timestamp: number; value?: number; projected?: number; band?: [number, number] }[] = [
+    ...data.map(item => ({
+      timestamp: item.timestamp,
+      value: item.value
+    })),
+    ...(forecast?.points ?? []).map(point => ({
+      timestamp: point.timestamp,
+      projected: point.value,
+      band: [point.lower, point.upper] as [number, number]
+    }))
+  ];
+
+  // Mudanças de patamar viram uma linha vertical; os demais, a faixa e o pico
+  const levelShifts = anomalies.filter(anomaly => anomaly.kind === 'level-shift');
+  const deviations = anomalies.filter(anomaly => anomaly.kind !== 'level-shift');
 
   const currentValue = data.length > 0 ? data[data.length - 1].value : 0;
   
@@ -78,8 +109,18 @@ export const TrendChart = ({
           <CardTitle className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
             {title}
           </CardTitle>
-          {getStatusBadge()}
+          <div className="flex items-center gap-1">
+            {anomalies.length > 0 && (
+              <Badge variant="outline" className="border-destructive/30 text-destructive">
+                {anomalies.length} {anomalies.length === 1 ? 'anomalia' : 'anomalias'}
+              </Badge>
+            )}
+            {getStatusBadge()}
+          </div>
         </div>
+        {subtitle && (
+          <p className="text-xs text-muted-foreground font-mono truncate">{subtitle}</p>
+        )}
         <div className="flex items-baseline space-x-2">
           <span className={cn("text-2xl font-bold", getStatusColor())}>
             {formatValue(currentValue)}
@@ -93,10 +134,14 @@ export const TrendChart = ({
       <CardContent className="pt-0">
         <div style={{ height: `${height}px` }}>
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={chartData} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+            <ComposedChart data={chartData} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
               <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
               <XAxis 
-                dataKey="time" 
+                dataKey="timestamp" 
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatTimestamp}
                 axisLine={false}
                 tickLine={false}
                 tick={{ fontSize: 10 }}
@@ -109,8 +154,11 @@ export const TrendChart = ({
                 domain={unit === 'status' ? [0, 1] : ['auto', 'auto']}
               />
               <Tooltip 
-                labelFormatter={(value) => `Horário: ${value}`}
-                formatter={(value: number) => [formatValue(value), title]}
+                labelFormatter={(value: number) => `Horário: ${formatTimestamp(value)}`}
+                formatter={(value: number | [number, number], name: string) => [
+                  Array.isArray(value) ? `${formatValue(value[0])} – ${formatValue(value[1])}` : formatValue(value),
+                  name
+                ]}
                 contentStyle={{
                   backgroundColor: 'hsl(var(--background))',
                   border: '1px solid hsl(var(--border))',
@@ -138,17 +186,86 @@ export const TrendChart = ({
                   strokeWidth={1}
                 />
               )}
+
+              {/* Limiar da previsão, quando difere do crítico do gráfico */}
+              {forecast && forecast.threshold !== criticalThreshold && (
+                <ReferenceLine
+                  y={forecast.threshold}
+                  stroke="#ef4444"
+                  strokeDasharray="2 4"
+                  strokeWidth={1}
+                  ifOverflow="extendDomain"
+                />
+              )}
               
+              {deviations.filter(anomaly => anomaly.end > anomaly.start).map(anomaly => (
+                <ReferenceArea
+                  key={`area-${anomaly.detector}-${anomaly.start}`}
+                  x1={anomaly.start}
+                  x2={anomaly.end}
+                  fill={ANOMALY_COLOR}
+                  fillOpacity={0.08}
+                  ifOverflow="hidden"
+                />
+              ))}
+
+              {levelShifts.map(anomaly => (
+                <ReferenceLine
+                  key={`shift-${anomaly.timestamp}`}
+                  x={anomaly.timestamp}
+                  stroke={ANOMALY_COLOR}
+                  strokeDasharray="3 3"
+                  label={{ value: 'Δ', position: 'top', fill: ANOMALY_COLOR, fontSize: 10 }}
+                />
+              ))}
+
+              {forecast && (
+                <Area
+                  type="monotone"
+                  dataKey="band"
+                  name="Intervalo 95%"
+                  stroke="none"
+                  fill={color}
+                  fillOpacity={0.12}
+                  isAnimationActive={false}
+                />
+              )}
+              {forecast && (
+                <Line
+                  type="monotone"
+                  dataKey="projected"
+                  name="Projeção"
+                  stroke={color}
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+
               <Line
                 type="monotone"
                 dataKey="value"
+                name={title}
                 stroke={color}
                 strokeWidth={2}
                 dot={false}
                 activeDot={{ r: 4, fill: color }}
                 connectNulls={false}
               />
-            </LineChart>
+
+              {deviations.map(anomaly => (
+                <ReferenceDot
+                  key={`dot-${anomaly.detector}-${anomaly.timestamp}`}
+                  x={anomaly.timestamp}
+                  y={anomaly.value}
+                  r={4}
+                  fill={ANOMALY_COLOR}
+                  stroke="hsl(var(--background))"
+                  ifOverflow="hidden"
+                />
+              ))}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
         
@@ -157,6 +274,20 @@ export const TrendChart = ({
             {data.length} pontos de dados • Última atualização: {formatTimestamp(data[data.length - 1].timestamp)}
           </div>
         )}
+        {forecast && (
+          <div className="mt-1 text-xs text-center text-muted-foreground">
+            {forecast.crossing ? (
+              <span className="text-destructive">
+                Atinge {formatValue(forecast.threshold)} em ~{formatEtaMinutes(forecast.crossing.etaMinutes)}
+                {' '}({formatEtaMinutes(forecast.crossing.lowMinutes)} – {forecast.crossing.highMinutes === null
+                  ? 'indefinido'
+                  : formatEtaMinutes(forecast.crossing.highMinutes)})
+              </span>
+            ) : (
+              `Sem cruzamento de ${formatValue(forecast.threshold)} no horizonte da projeção`
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
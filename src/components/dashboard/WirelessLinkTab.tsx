@@ -0,0 +1,225 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Activity, Gauge, Radio, Signal, Users, Waves } from 'lucide-react';
+import { resolvePredictionProfile, BUILTIN_PREDICTION_PROFILES } from '@shared/prediction';
+import {
+  assessWireless,
+  snrSeries,
+  WIRELESS_METRICS,
+  WirelessMetric,
+  WirelessQuality,
+  wirelessQuality,
+} from '@shared/wireless';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LoadingSpinner } from './LoadingSpinner';
+import { useWirelessHistory } from '@/hooks/useMetricHistory';
+import { usePredictionProfiles } from '@/hooks/usePredictionProfiles';
+import { getHostKey, ZabbixMetric } from '@/services/zabbixService';
+import { cn } from '@/lib/utils';
+
+// Janelas do painel: a regra da previsão olha a última hora, o gráfico um dia
+const RULE_WINDOW_SECONDS = 3600;
+const CHART_WINDOW_SECONDS = 86400;
+
+const READINGS: { metric: WirelessMetric; label: string; unit: string; icon: typeof Signal }[] = [
+  { metric: 'signal', label: 'Sinal', unit: 'dBm', icon: Signal },
+  { metric: 'noise', label: 'Ruído', unit: 'dBm', icon: Waves },
+  { metric: 'snr', label: 'SNR', unit: 'dB', icon: Activity },
+  { metric: 'ccq', label: 'CCQ', unit: '%', icon: Gauge },
+  { metric: 'txRate', label: 'Taxa TX', unit: 'Mbps', icon: Radio },
+  { metric: 'rxRate', label: 'Taxa RX', unit: 'Mbps', icon: Radio },
+  { metric: 'stations', label: 'Estações', unit: '', icon: Users },
+];
+
+const QUALITY_STYLES: Record<WirelessQuality, { label: string; className: string }> = {
+  good: { label: 'Bom', className: 'bg-status-online/10 text-status-online border-status-online/30' },
+  fair: { label: 'Fraco', className: 'bg-orange-500/10 text-orange-500 border-orange-500/30' },
+  poor: { label: 'Crítico', className: 'bg-destructive/10 text-destructive border-destructive/30' },
+};
+
+// Métricas em que o menor valor é o pior
+const LOWER_IS_WORSE: WirelessMetric[] = ['signal', 'snr', 'ccq'];
+
+// Leitura atual de uma métrica; com vários itens (tabela de registro de um AP), o pior
+interface Reading {
+  value: number;
+  items: number;
+  name: string;
+}
+
+interface WirelessLinkTabProps {
+  hostId: string;
+  instance: string;
+  groups: string[];
+  // Métricas atuais do host (get-metrics)
+  metrics: ZabbixMetric[];
+}
+
+const formatTime = (timestamp: number) => format(new Date(timestamp), 'HH:mm', { locale: ptBR });
+
+/**
+ * Qualidade do enlace sem fio de CPEs e APs: leituras atuais de RF avaliadas
+ * com os limiares do perfil de previsão do host, a regra que alimenta a
+ * previsão e o histórico de 24h gravado pelo coletor
+ */
+export const WirelessLinkTab: React.FC<WirelessLinkTabProps> = ({ hostId, instance, groups, metrics }) => {
+  const { data: profiles } = usePredictionProfiles();
+  const { data: lastHour } = useWirelessHistory(instance, hostId, RULE_WINDOW_SECONDS);
+  const { data: history, isLoading: historyLoading } = useWirelessHistory(instance, hostId, CHART_WINDOW_SECONDS);
+
+  const profile = React.useMemo(
+    () => resolvePredictionProfile(profiles ?? BUILTIN_PREDICTION_PROFILES, { key: getHostKey({ instance, id: hostId }), groups }),
+    [profiles, instance, hostId, groups]
+  );
+  const thresholds = profile.thresholds.wireless;
+
+  const readings = React.useMemo(() => {
+    const wireless: readonly string[] = WIRELESS_METRICS;
+    const result: Partial<Record<WirelessMetric, Reading>> = {};
+    for (const metric of metrics) {
+      const value = parseFloat(metric.value);
+      if (!wireless.includes(metric.metric) || !Number.isFinite(value)) continue;
+      const key = metric.metric as WirelessMetric;
+      const current = result[key];
+      // Para sinal, SNR e CCQ vale a pior leitura; para as demais, a primeira
+      const worse = current && LOWER_IS_WORSE.includes(key) && value < current.value;
+      result[key] = !current || worse
+        ? { value, items: (current?.items ?? 0) + 1, name: metric.name }
+        : { ...current, items: current.items + 1 };
+    }
+    if (!result.snr && result.signal && result.noise) {
+      result.snr = { value: result.signal.value - result.noise.value, items: 1, name: 'Sinal − ruído' };
+    }
+    return result;
+  }, [metrics]);
+
+  const assessment = React.useMemo(() => assessWireless(lastHour ?? {}, thresholds), [lastHour, thresholds]);
+  const hasRecentSamples = Object.keys(lastHour ?? {}).length > 0;
+
+  if (Object.keys(readings).length === 0) {
+    return (
+      <div className="py-12 text-center text-muted-foreground">
+        <Radio className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        Nenhuma métrica sem fio mapeada para este host. Confira o perfil de métricas (Comfast, MikroTik) e as chaves dos itens.
+      </div>
+    );
+  }
+
+  const snr = history ? snrSeries(history) : [];
+  const channel = readings.channel?.value;
+  const frequency = readings.frequency?.value;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm flex flex-wrap items-center justify-between gap-2">
+            <span>Qualidade do enlace — perfil {profile.name}</span>
+            <span className="flex gap-2">
+              {channel !== undefined && <Badge variant="outline">Canal {channel}</Badge>}
+              {frequency !== undefined && <Badge variant="outline">{frequency} MHz</Badge>}
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className={cn('text-sm',
+            assessment.level === 'critical' ? 'text-destructive' :
+            assessment.level ? 'text-orange-500' : 'text-status-online'
+          )}>
+            {assessment.factors.length > 0
+              ? assessment.factors.join(' • ')
+              : hasRecentSamples ? 'Enlace estável na última hora' : 'Sem amostras de RF na última hora'}
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            Limiares: sinal {thresholds.signalWeak}/{thresholds.signalCritical} dBm, SNR {thresholds.snrLow}/{thresholds.snrCritical} dB,
+            CCQ {thresholds.ccqLow}/{thresholds.ccqCritical}%. Peso na previsão: {profile.weights.wireless} pontos.
+          </p>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-3 grid-cols-2 md:grid-cols-4 lg:grid-cols-7">
+        {READINGS.filter(({ metric }) => readings[metric]).map(({ metric, label, unit, icon: Icon }) => {
+          const reading = readings[metric]!;
+          const quality = wirelessQuality(metric, reading.value, thresholds);
+          return (
+            <Card key={metric}>
+              <CardContent className="pt-4 space-y-1">
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Icon className="w-3 h-3" />
+                  {label}
+                </div>
+                <div className="text-xl font-bold font-mono">
+                  {Number.isInteger(reading.value) ? reading.value : reading.value.toFixed(1)}
+                  {unit && <span className="text-xs font-normal text-muted-foreground ml-1">{unit}</span>}
+                </div>
+                {quality && (
+                  <Badge variant="outline" className={QUALITY_STYLES[quality].className}>{QUALITY_STYLES[quality].label}</Badge>
+                )}
+                <div className="text-xs text-muted-foreground truncate" title={reading.name}>
+                  {reading.items > 1 ? `pior de ${reading.items} itens` : reading.name}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Sinal, ruído e SNR — 24h</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {historyLoading ? (
+              <div className="h-[220px] flex items-center justify-center"><LoadingSpinner /></div>
+            ) : (
+              <div className="h-[220px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="timestamp" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} stroke="hsl(var(--muted-foreground))" />
+                    <YAxis stroke="hsl(var(--muted-foreground))" />
+                    <Tooltip labelFormatter={value => formatTime(Number(value))} formatter={(value: number) => value.toFixed(1)} />
+                    <Legend />
+                    <Line data={history?.signal ?? []} dataKey="value" name="Sinal (dBm)" stroke="#06b6d4" dot={false} isAnimationActive={false} />
+                    <Line data={history?.noise ?? []} dataKey="value" name="Ruído (dBm)" stroke="#94a3b8" dot={false} isAnimationActive={false} />
+                    <Line data={snr} dataKey="value" name="SNR (dB)" stroke="#22c55e" dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">CCQ e taxas — 24h</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {historyLoading ? (
+              <div className="h-[220px] flex items-center justify-center"><LoadingSpinner /></div>
+            ) : (
+              <div className="h-[220px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="timestamp" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} stroke="hsl(var(--muted-foreground))" />
+                    <YAxis stroke="hsl(var(--muted-foreground))" />
+                    <Tooltip labelFormatter={value => formatTime(Number(value))} formatter={(value: number) => value.toFixed(1)} />
+                    <Legend />
+                    <Line data={history?.ccq ?? []} dataKey="value" name="CCQ (%)" stroke="#8b5cf6" dot={false} isAnimationActive={false} />
+                    <Line data={history?.txRate ?? []} dataKey="value" name="Taxa TX (Mbps)" stroke="#f59e0b" dot={false} isAnimationActive={false} />
+                    <Line data={history?.rxRate ?? []} dataKey="value" name="Taxa RX (Mbps)" stroke="#ef4444" dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
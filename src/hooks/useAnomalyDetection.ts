@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Anomaly, AnomalyMetric, detectAnomalies } from '@shared/anomaly';
+import { historyService } from '@/services/historyService';
+import { CriticalHistoryResponse } from '@/services/zabbixService';
+
+export type { Anomaly, AnomalyMetric } from '@shared/anomaly';
+
+/**
+ * Linha de base sazonal do host; muda pouco entre execuções do sampler,
+ * então é buscada no máximo uma vez por hora
+ */
+export const useMetricBaselines = (instance?: string, hostId?: string) => {
+  return useQuery({
+    queryKey: ['metric-baselines', instance, hostId],
+    queryFn: () => historyService.getMetricBaselines(instance!, hostId!),
+    enabled: !!instance && !!hostId,
+    staleTime: 3600000,
+  });
+};
+
+/**
+ * Detecta anomalias estatísticas nas séries críticas do host
+ * Sem linha de base armazenada, só rodam os detectores que dispensam histórico
+ * @returns Anomalias em ordem cronológica e agrupadas por métrica
+ */
+export const useAnomalyDetection = (data: CriticalHistoryResponse | null) => {
+  const { data: baselines } = useMetricBaselines(data?.instance, data?.hostId);
+
+  return useMemo(() => {
+    const anomalies: Anomaly[] = data ? detectAnomalies(data.metrics, baselines) : [];
+    const byMetric: Record<AnomalyMetric, Anomaly[]> = { latency: [], cpu: [], memory: [] };
+    for (const anomaly of anomalies) byMetric[anomaly.metric].push(anomaly);
+    return { anomalies, byMetric };
+  }, [data, baselines]);
+};
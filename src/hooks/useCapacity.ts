@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import { capacityService } from '@/services/capacityService';
+
+/**
+ * Previsões de capacidade da frota; o agregado diário é refeito a cada hora,
+ * então a consulta não precisa ser atualizada com mais frequência
+ */
+export const useCapacityPlan = (days: number) => {
+  return useQuery({
+    queryKey: ['capacity-plan', days],
+    queryFn: () => capacityService.getPlan(days),
+    staleTime: 3600000,
+  });
+};
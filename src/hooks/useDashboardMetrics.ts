@@ -1,5 +1,16 @@
 import { useMemo } from 'react';
 import { useZabbixHosts, useZabbixAlerts, useZabbixMetrics } from './useZabbixData';
+import { SEVERITIES, PRIORITY_LEVELS, Severity, PriorityLevel, isUrgentSeverity } from '@/lib/severity';
+
+// Fatores para converter as unidades de tráfego normalizadas pelo proxy em bits/s
+const BITS_PER_SECOND: Record<string, number> = {
+  bps: 1,
+  Kbps: 1000,
+  Mbps: 1000000,
+  Gbps: 1000000000,
+  B: 8,
+  Bps: 8,
+};
 
 /**
  * Hook para calcular métricas do dashboard baseado em dados reais do Zabbix
@@ -27,32 +38,35 @@ export const useDashboardMetrics = () => {
 
   // Calcular métricas de alertas
   const alertMetrics = useMemo(() => {
-    const critical = alerts.filter(a => a.severity === 'critical').length;
-    const high = alerts.filter(a => a.severity === 'high').length;
-    const medium = alerts.filter(a => a.severity === 'medium').length;
-    const low = alerts.filter(a => a.severity === 'low').length;
+    const bySeverity = Object.fromEntries(
+      SEVERITIES.map(severity => [severity, alerts.filter(a => a.severity === severity).length])
+    ) as Record<Severity, number>;
+    const byPriority = Object.fromEntries(
+      PRIORITY_LEVELS.map(level => [level, alerts.filter(a => a.priority === level).length])
+    ) as Record<PriorityLevel, number>;
+    const urgent = alerts.filter(a => isUrgentSeverity(a.severity)).length;
     const total = alerts.length;
     
     return {
-      critical,
-      high,
-      medium,
-      low,
+      bySeverity,
+      byPriority,
+      urgent,
       total
     };
   }, [alerts]);
 
   // Calcular métricas de performance baseadas nos dados do Zabbix
   const performanceMetrics = useMemo(() => {
-    // Buscar métricas específicas
-    const pingMetrics = metrics.filter(m => m.key?.includes('icmpping') || m.key?.includes('ping'));
-    const cpuMetrics = metrics.filter(m => m.key?.includes('cpu.util') || m.key?.includes('cpu'));
-    const memoryMetrics = metrics.filter(m => m.key?.includes('memory') && m.key?.includes('pused'));
-    const networkMetrics = metrics.filter(m => m.key?.includes('net.if') && m.key?.includes('bytes'));
+    // Buscar métricas específicas pela métrica canônica atribuída pelo perfil
+    const pingMetrics = metrics.filter(m => m.metric === 'ping');
+    const latencyMetrics = metrics.filter(m => m.metric === 'latency' && m.units === 'ms');
+    const cpuMetrics = metrics.filter(m => m.metric === 'cpu');
+    const memoryMetrics = metrics.filter(m => m.metric === 'memory' && m.units === '%');
+    const networkMetrics = metrics.filter(m => m.metric === 'rx' || m.metric === 'tx');
     
     // Calcular médias e totais
-    const avgPingResponseTime = pingMetrics.length > 0 
-      ? pingMetrics.reduce((acc, m) => acc + (parseFloat(m.value) || 0), 0) / pingMetrics.length
+    const avgPingResponseTime = latencyMetrics.length > 0 
+      ? latencyMetrics.reduce((acc, m) => acc + (parseFloat(m.value) || 0), 0) / latencyMetrics.length
       : 0;
     
     const avgCpuUsage = cpuMetrics.length > 0 
@@ -66,8 +80,8 @@ export const useDashboardMetrics = () => {
     // Calcular throughput total (soma de todas as interfaces de rede)
     const totalThroughput = networkMetrics.reduce((acc, m) => {
       const value = parseFloat(m.value) || 0;
-      // Converter bytes para bits e para Gbps
-      return acc + (value * 8 / 1000000000);
+      // Converter para bits/s e depois para Gbps
+      return acc + (value * (BITS_PER_SECOND[m.units] ?? 0) / 1000000000);
     }, 0);
     
     // Calcular "packet loss" baseado em pings falhados
@@ -89,8 +103,8 @@ export const useDashboardMetrics = () => {
 
   // Status geral do sistema
   const systemStatus = useMemo(() => {
-    const criticalIssues = alertMetrics.critical > 0;
-    const warningIssues = alertMetrics.high > 0 || alertMetrics.medium > 0;
+    const criticalIssues = alertMetrics.bySeverity.disaster > 0;
+    const warningIssues = alertMetrics.bySeverity.high > 0 || alertMetrics.bySeverity.average > 0 || alertMetrics.bySeverity.warning > 0;
     const hostsDown = hostMetrics.offline > 0;
     const highCpuUsage = performanceMetrics.avgCpuUsage > 80;
     const highMemoryUsage = performanceMetrics.avgMemoryUsage > 90;
@@ -121,8 +135,8 @@ export const useDashboardMetrics = () => {
       },
       activeAlerts: {
         value: alertMetrics.total,
-        status: (alertMetrics.critical > 0 ? 'critical' : alertMetrics.high > 0 ? 'warning' : 'normal') as 'critical' | 'warning' | 'normal',
-        subtitle: `${alertMetrics.critical} críticos`,
+        status: (alertMetrics.bySeverity.disaster > 0 ? 'critical' : alertMetrics.bySeverity.high > 0 ? 'warning' : 'normal') as 'critical' | 'warning' | 'normal',
+        subtitle: `${alertMetrics.byPriority.P1} P1 · ${alertMetrics.byPriority.P2} P2`,
         trend: (alertMetrics.total === 0 ? 'stable' : 'up') as 'up' | 'down' | 'stable'
       },
       avgResponseTime: {
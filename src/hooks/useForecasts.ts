@@ -0,0 +1,32 @@
+import { useMemo } from 'react';
+import { forecastHost, ForecastMetric, MetricForecast } from '@shared/forecast';
+import type { PredictionProfile } from '@shared/prediction';
+import { useStoredMetricSeries } from '@/hooks/useMetricHistory';
+import { CriticalHistoryResponse } from '@/services/zabbixService';
+
+export type { ForecastMetric, MetricForecast } from '@shared/forecast';
+
+// Histórico de disco usado na tendência; a série crítica não tem disco
+const DISK_HISTORY_SECONDS = 7 * 86400;
+
+/**
+ * Projeta latência e memória (janela crítica) e disco (histórico armazenado)
+ * até o limiar crítico do perfil do host
+ * @returns Previsões por métrica e a série de disco usada, para o gráfico
+ */
+export const useForecasts = (data: CriticalHistoryResponse | null, profile: PredictionProfile) => {
+  // Alinhada à hora, para a chave da consulta só mudar quando entra um novo intervalo
+  const to = Math.ceil(Date.now() / 3600000) * 3600;
+  const { data: disk } = useStoredMetricSeries(
+    data?.instance, data?.hostId, 'disk', { from: to - DISK_HISTORY_SECONDS, to }, 3600
+  );
+
+  return useMemo(() => {
+    const forecasts = data
+      ? forecastHost({ latency: data.metrics.latency, memory: data.metrics.memory, disk }, profile)
+      : [];
+    const byMetric: Partial<Record<ForecastMetric, MetricForecast>> = {};
+    for (const forecast of forecasts) byMetric[forecast.metric] = forecast;
+    return { forecasts, byMetric, disk: disk ?? [] };
+  }, [data, disk, profile]);
+};
@@ -0,0 +1,81 @@
+import { useQuery } from '@tanstack/react-query';
+import { historyService } from '@/services/historyService';
+import type { CanonicalMetric } from '@shared/metricProfiles';
+
+/**
+ * Hooks do histórico de longo prazo armazenado no Postgres (metric-sampler)
+ * O sampler grava a cada 5 minutos, então não há motivo para atualizar mais rápido
+ */
+
+export const useSampledMetrics = (instance?: string, hostId?: string) => {
+  return useQuery({
+    queryKey: ['stored-metrics', instance, hostId],
+    queryFn: () => historyService.getSampledMetrics(instance!, hostId!),
+    enabled: !!instance && !!hostId,
+    staleTime: 300000,
+  });
+};
+
+export const useStoredMetricSeries = (
+  instance: string | undefined,
+  hostId: string | undefined,
+  metric: CanonicalMetric | undefined,
+  timeRange: { from: number; to: number },
+  bucketSeconds: number,
+  itemId?: string
+) => {
+  return useQuery({
+    queryKey: ['stored-metric-series', instance, hostId, metric, timeRange.from, timeRange.to, bucketSeconds, itemId],
+    queryFn: () => historyService.getMetricSeries(
+      instance!, hostId!, metric!, timeRange.from, timeRange.to, bucketSeconds, itemId
+    ),
+    enabled: !!instance && !!hostId && !!metric,
+    staleTime: 300000,
+  });
+};
+
+export const usePredictionHistory = (
+  instance: string | undefined,
+  hostId: string | undefined,
+  timeRange: { from: number; to: number },
+  bucketSeconds: number
+) => {
+  return useQuery({
+    queryKey: ['stored-predictions', instance, hostId, timeRange.from, timeRange.to, bucketSeconds],
+    queryFn: () => historyService.getPredictionHistory(instance!, hostId!, timeRange.from, timeRange.to, bucketSeconds),
+    enabled: !!instance && !!hostId,
+    staleTime: 300000,
+  });
+};
+
+export const useProblemHistory = (instance: string | undefined, host: string | undefined, timeFrom: number) => {
+  return useQuery({
+    queryKey: ['stored-problems', instance, host, timeFrom],
+    queryFn: () => historyService.getProblemHistory(instance!, host!, timeFrom),
+    enabled: !!instance && !!host,
+    staleTime: 300000,
+  });
+};
+
+export const useFleetRanking = () => {
+  return useQuery({
+    queryKey: ['fleet-ranking'],
+    queryFn: () => historyService.getFleetRanking(),
+    refetchInterval: 60000,
+    staleTime: 30000,
+  });
+};
+
+// Amostras de RF de `seconds` até agora; a janela é recalculada a cada busca
+export const useWirelessHistory = (instance: string | undefined, hostId: string | undefined, seconds: number) => {
+  return useQuery({
+    queryKey: ['wireless-series', instance, hostId, seconds],
+    queryFn: () => {
+      const now = Math.floor(Date.now() / 1000);
+      return historyService.getWirelessSeries(instance!, hostId!, now - seconds, now);
+    },
+    enabled: !!instance && !!hostId,
+    refetchInterval: 300000,
+    staleTime: 300000,
+  });
+};
@@ -0,0 +1,12 @@
+import { useMutation } from '@tanstack/react-query';
+import { backtestService, BacktestRequest } from '@/services/backtestService';
+
+/**
+ * Backtest sob demanda: busca dias de amostras por host, então só roda
+ * quando pedido e não é refeito em segundo plano
+ */
+export const usePredictionBacktest = () => {
+  return useMutation({
+    mutationFn: (request: BacktestRequest) => backtestService.run(request),
+  });
+};
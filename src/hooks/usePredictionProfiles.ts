@@ -0,0 +1,30 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { predictionProfileService, PredictionProfile } from '@/services/predictionProfileService';
+
+export const usePredictionProfiles = () => {
+  return useQuery({
+    queryKey: ['prediction-profiles'],
+    queryFn: () => predictionProfileService.getProfiles(),
+    staleTime: 300000,
+  });
+};
+
+/**
+ * Mutações de perfis; o ranking da frota passa a refletir a mudança na próxima
+ * execução do metric-sampler
+ */
+export const useSavePredictionProfile = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (profile: PredictionProfile) => predictionProfileService.saveProfile(profile),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['prediction-profiles'] }),
+  });
+};
+
+export const useDeletePredictionProfile = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => predictionProfileService.deleteProfile(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['prediction-profiles'] }),
+  });
+};
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Hook para acompanhar a sessão do Supabase Auth
+ * Ações de escrita no Zabbix (reconhecimento de alertas) exigem usuário autenticado;
+ * editar perfis de previsão exige administrador (app_metadata.role = 'admin')
+ */
+export const useSupabaseSession = () => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const signIn = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  };
+
+  const signOut = () => supabase.auth.signOut();
+
+  const isAdmin = session?.user.app_metadata?.role === 'admin';
+
+  return { session, user: session?.user ?? null, isAdmin, isLoading, signIn, signOut };
+};
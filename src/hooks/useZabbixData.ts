@@ -1,16 +1,232 @@
-import { useQuery } from '@tanstack/react-query';
-import { zabbixService } from '@/services/zabbixService';
+import { useEffect, useSyncExternalStore } from 'react';
+import { useQuery, useMutation, useQueryClient, QueryClient } from '@tanstack/react-query';
+import { LIVE_KEYS } from '@shared/contract';
+import {
+  zabbixService,
+  EventFilters,
+  AcknowledgeRequest,
+  LiveDelta,
+  LiveEvent,
+  LiveSource,
+  WebhookNotification,
+  ZabbixAlert,
+  ZabbixHost,
+  ZabbixMetric,
+} from '@/services/zabbixService';
+import { compareSeverityDesc } from '@/lib/severity';
+
+// Duração (segundos) dos períodos aceitos por useZabbixEvents
+export const EVENT_TIME_RANGES: Record<string, number> = {
+  '1h': 3600,
+  '6h': 21600,
+  '24h': 86400,
+  '7d': 604800,
+  '30d': 2592000,
+};
+
+// Canal ao vivo compartilhado: aberto pelo primeiro hook que o usa e fechado
+// pouco depois que o último desmonta, para não reconectar a cada troca de página
+const LIVE_CLOSE_DELAY = 5000;
+
+const liveChannel = {
+  subscribers: 0,
+  connected: false,
+  // Fontes que o canal não conseguiu ler; as consultas delas voltam ao polling
+  unavailable: new Set<LiveSource>(),
+  close: null as (() => void) | null,
+  closeTimer: undefined as ReturnType<typeof setTimeout> | undefined,
+  listeners: new Set<() => void>(),
+};
+
+const setLiveConnected = (connected: boolean) => {
+  if (liveChannel.connected === connected) return;
+  liveChannel.connected = connected;
+  // Uma nova conexão começa com a lista completa de cada fonte que consegue ler
+  liveChannel.unavailable.clear();
+  liveChannel.listeners.forEach(listener => listener());
+};
+
+const setSourceUnavailable = (source: LiveSource, unavailable: boolean) => {
+  if (liveChannel.unavailable.has(source) === unavailable) return;
+  if (unavailable) liveChannel.unavailable.add(source);
+  else liveChannel.unavailable.delete(source);
+  liveChannel.listeners.forEach(listener => listener());
+};
+
+const subscribeLiveStatus = (listener: () => void) => {
+  liveChannel.listeners.add(listener);
+  return () => {
+    liveChannel.listeners.delete(listener);
+  };
+};
+
+/**
+ * Aplica um delta do canal ao vivo a uma lista em cache
+ * Deltas completos (primeiro evento da conexão) substituem a lista inteira
+ */
+const mergeLiveDelta = <T,>(
+  current: T[] | undefined,
+  delta: LiveDelta<T>,
+  key: (item: T) => string,
+  belongs: (item: T) => boolean
+): T[] | undefined => {
+  const incoming = delta.upserted.filter(belongs);
+  if (delta.full) return incoming;
+  if (!current) return current; // A consulta ainda não carregou; ela mesma busca os dados
+
+  const byKey = new Map(current.map(item => [key(item), item]));
+  delta.removed.forEach(removed => byKey.delete(removed));
+  incoming.forEach(item => byKey.set(key(item), item));
+  return [...byKey.values()];
+};
+
+/**
+ * Atualiza as consultas de hosts, alertas e métricas em cache com um evento ao vivo
+ * Cada consulta recebe só o que pertence aos seus filtros (instância, hosts)
+ */
+const applyLiveEvent = (queryClient: QueryClient, { event, data }: LiveEvent) => {
+  switch (event) {
+    case 'hosts':
+      queryClient.getQueriesData<ZabbixHost[]>({ queryKey: ['zabbix-hosts'] }).forEach(([queryKey, current]) => {
+        const instance = queryKey[1] as string | undefined;
+        const next = mergeLiveDelta<ZabbixHost>(current, data, LIVE_KEYS.hosts, host => !instance || host.instance === instance);
+        if (next) queryClient.setQueryData(queryKey, next.sort((a, b) => a.name.localeCompare(b.name)));
+      });
+      break;
+
+    case 'problems':
+      queryClient.getQueriesData<ZabbixAlert[]>({ queryKey: ['zabbix-alerts'] }).forEach(([queryKey, current]) => {
+        const instance = queryKey[1] as string | undefined;
+        const next = mergeLiveDelta<ZabbixAlert>(current, data, LIVE_KEYS.problems, alert => !instance || alert.instance === instance);
+        if (next) queryClient.setQueryData(queryKey, next.sort((a, b) => compareSeverityDesc(a.severity, b.severity)));
+      });
+      // Problemas novos ou resolvidos também mudam o histórico de eventos
+      if (!data.full) queryClient.invalidateQueries({ queryKey: ['zabbix-events'] });
+      break;
+
+    case 'metrics':
+      queryClient.getQueriesData<ZabbixMetric[]>({ queryKey: ['zabbix-metrics'] }).forEach(([queryKey, current]) => {
+        const hostIds = queryKey[1] as string[] | undefined;
+        const instance = queryKey[2] as string | undefined;
+        const next = mergeLiveDelta<ZabbixMetric>(current, data, LIVE_KEYS.metrics, metric =>
+          (!instance || metric.instance === instance) && (!hostIds || hostIds.includes(metric.hostId))
+        );
+        if (next) queryClient.setQueryData(queryKey, next);
+      });
+      break;
+
+    case 'unavailable':
+      console.error(`Canal ao vivo sem dados de ${data.source}:`, data.error);
+      break;
+  }
+};
+
+/**
+ * Acompanha quais fontes o canal está entregando: um evento `unavailable` tira
+ * a fonte do canal (suas consultas voltam ao polling) e o próximo evento dela,
+ * que o proxy envia completo, a devolve
+ */
+const trackLiveSource = ({ event, data }: LiveEvent) => {
+  if (event === 'unavailable') setSourceUnavailable(data.source, true);
+  else setSourceUnavailable(event, false);
+};
+
+/**
+ * Aplica uma notificação do webhook do Zabbix aos alertas em cache
+ * Atualizações (reconhecimentos, mensagens) não trazem o histórico completo,
+ * então o alerta é buscado de novo em vez de substituído
+ */
+const applyNotification = (queryClient: QueryClient, { status, alert }: WebhookNotification) => {
+  if (status === 'update') {
+    queryClient.invalidateQueries({ queryKey: ['zabbix-alerts'] });
+    return;
+  }
+
+  applyLiveEvent(queryClient, {
+    event: 'problems',
+    data: status === 'problem'
+      ? { full: false, upserted: [alert], removed: [] }
+      : { full: false, upserted: [], removed: [LIVE_KEYS.problems(alert)] },
+  });
+};
+
+/**
+ * Mantém o canal de atualizações ao vivo aberto enquanto o componente estiver montado
+ * Os eventos atualizam direto o cache do React Query
+ * @param source Fonte de que o chamador depende (opcional)
+ * @returns true enquanto o canal estiver conectado e entregando a fonte; sem ele, os hooks voltam ao polling
+ */
+export const useZabbixLiveUpdates = (source?: LiveSource): boolean => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    liveChannel.subscribers += 1;
+    clearTimeout(liveChannel.closeTimer);
+    if (!liveChannel.close) {
+      liveChannel.close = zabbixService.subscribeLiveUpdates({
+        onEvent: event => {
+          trackLiveSource(event);
+          applyLiveEvent(queryClient, event);
+        },
+        onNotification: notification => applyNotification(queryClient, notification),
+        onStatus: setLiveConnected,
+      });
+    }
+
+    return () => {
+      liveChannel.subscribers -= 1;
+      if (liveChannel.subscribers > 0) return;
+      liveChannel.closeTimer = setTimeout(() => {
+        liveChannel.close?.();
+        liveChannel.close = null;
+        setLiveConnected(false);
+      }, LIVE_CLOSE_DELAY);
+    };
+  }, [queryClient]);
+
+  return useSyncExternalStore(
+    subscribeLiveStatus,
+    () => liveChannel.connected && !(source && liveChannel.unavailable.has(source))
+  );
+};
+
+/**
+ * Hook para listar as instâncias Zabbix configuradas
+ */
+export const useZabbixInstances = () => {
+  return useQuery({
+    queryKey: ['zabbix-instances'],
+    queryFn: () => zabbixService.getInstances(),
+    staleTime: 300000, // Configuração muda raramente
+    retry: 2,
+    retryDelay: 1000,
+  });
+};
+
+/**
+ * Hook para listar os perfis de mapeamento de métricas
+ */
+export const useMetricProfiles = () => {
+  return useQuery({
+    queryKey: ['zabbix-metric-profiles'],
+    queryFn: () => zabbixService.getMetricProfiles(),
+    staleTime: 300000, // Configuração muda raramente
+    retry: 2,
+    retryDelay: 1000,
+  });
+};
 
 /**
  * Hook para buscar hosts do Zabbix
  * Quando integrado, substitui os dados mock por dados reais
  */
-export const useZabbixHosts = () => {
+export const useZabbixHosts = (instance?: string) => {
+  const live = useZabbixLiveUpdates('hosts');
   return useQuery({
-    queryKey: ['zabbix-hosts'],
-    queryFn: () => zabbixService.getHosts(),
+    queryKey: ['zabbix-hosts', instance],
+    queryFn: () => zabbixService.getHosts(instance),
     enabled: true, // Agora habilitado para usar dados reais
-    refetchInterval: 30000, // Atualiza a cada 30 segundos
+    refetchInterval: live ? false : 30000, // Atualiza a cada 30 segundos sem o canal ao vivo
     staleTime: 15000, // Considera dados válidos por 15 segundos
     retry: 3,
     retryDelay: 1000,
@@ -20,27 +236,48 @@ export const useZabbixHosts = () => {
 /**
  * Hook para buscar alertas do Zabbix
  */
-export const useZabbixAlerts = () => {
+export const useZabbixAlerts = (instance?: string) => {
+  const live = useZabbixLiveUpdates('problems');
   return useQuery({
-    queryKey: ['zabbix-alerts'],
-    queryFn: () => zabbixService.getAlerts(),
+    queryKey: ['zabbix-alerts', instance],
+    queryFn: () => zabbixService.getAlerts(instance),
     enabled: true, // Agora habilitado para usar dados reais
-    refetchInterval: 10000, // Atualiza a cada 10 segundos
+    refetchInterval: live ? false : 10000, // Atualiza a cada 10 segundos sem o canal ao vivo
     staleTime: 5000, // Considera dados válidos por 5 segundos
     retry: 3,
     retryDelay: 1000,
   });
 };
 
+/**
+ * Hook para buscar o histórico de eventos de problema de um período
+ * A janela é calculada a cada busca, terminando no momento atual
+ */
+export const useZabbixEvents = (timeRange: string, filters: EventFilters = {}) => {
+  return useQuery({
+    queryKey: ['zabbix-events', timeRange, filters.instance, filters.hostIds],
+    queryFn: () => {
+      const timeTill = Math.floor(Date.now() / 1000);
+      const timeFrom = timeTill - (EVENT_TIME_RANGES[timeRange] || EVENT_TIME_RANGES['24h']);
+      return zabbixService.getEvents({ timeFrom, timeTill }, filters);
+    },
+    refetchInterval: 60000,
+    staleTime: 30000,
+    retry: 2,
+    retryDelay: 1000,
+  });
+};
+
 /**
  * Hook para buscar métricas específicas
  */
-export const useZabbixMetrics = (hostIds?: string[]) => {
+export const useZabbixMetrics = (hostIds?: string[], instance?: string) => {
+  const live = useZabbixLiveUpdates('metrics');
   return useQuery({
-    queryKey: ['zabbix-metrics', hostIds],
-    queryFn: () => zabbixService.getMetrics(hostIds),
-    enabled: true, // Agora habilitado para usar dados reais
-    refetchInterval: 5000, // Atualiza a cada 5 segundos
+    queryKey: ['zabbix-metrics', hostIds, instance],
+    queryFn: () => zabbixService.getMetrics(hostIds, instance),
+    enabled: !hostIds || hostIds.length > 0, // Lista vazia de hosts não tem o que buscar
+    refetchInterval: live ? false : 5000, // Atualiza a cada 5 segundos sem o canal ao vivo
     staleTime: 2000, // Considera dados válidos por 2 segundos
     retry: 3,
     retryDelay: 1000,
@@ -50,13 +287,32 @@ export const useZabbixMetrics = (hostIds?: string[]) => {
 /**
  * Hook para dados históricos de gráficos
  */
-export const useZabbixHistory = (itemId: string, timeRange: { from: number; to: number }) => {
+export const useZabbixHistory = (
+  itemId: string,
+  timeRange: { from: number; to: number },
+  instance?: string,
+  maxPoints?: number
+) => {
   return useQuery({
-    queryKey: ['zabbix-history', itemId, timeRange.from, timeRange.to],
-    queryFn: () => zabbixService.getHistoryData(itemId, timeRange.from, timeRange.to),
+    queryKey: ['zabbix-history', instance, itemId, timeRange.from, timeRange.to, maxPoints],
+    queryFn: () => zabbixService.getHistoryData(itemId, timeRange.from, timeRange.to, instance, maxPoints),
     enabled: !!itemId && !!timeRange.from && !!timeRange.to, // Agora habilitado quando tiver dados
     staleTime: 60000, // Dados históricos são válidos por 1 minuto
     retry: 2,
     retryDelay: 1000,
   });
-};
\ No newline at end of file
+};
+
+/**
+ * Mutação para reconhecer eventos; atualiza alertas e histórico ao concluir
+ */
+export const useAcknowledgeEvent = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (request: AcknowledgeRequest) => zabbixService.acknowledgeEvent(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['zabbix-alerts'] });
+      queryClient.invalidateQueries({ queryKey: ['zabbix-events'] });
+    },
+  });
+};
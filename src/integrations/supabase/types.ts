@@ -14,13 +14,473 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      metric_daily: {
+        Row: {
+          avg_value: number
+          day: string
+          host_id: string
+          instance: string
+          item_id: string
+          max_value: number
+          metric: string
+          p95_value: number
+          samples: number
+          units: string
+        }
+        Insert: {
+          avg_value: number
+          day: string
+          host_id: string
+          instance: string
+          item_id: string
+          max_value: number
+          metric: string
+          p95_value: number
+          samples: number
+          units?: string
+        }
+        Update: {
+          avg_value?: number
+          day?: string
+          host_id?: string
+          instance?: string
+          item_id?: string
+          max_value?: number
+          metric?: string
+          p95_value?: number
+          samples?: number
+          units?: string
+        }
+        Relationships: []
+      }
+      metric_samples: {
+        Row: {
+          host_id: string
+          id: number
+          instance: string
+          item_id: string
+          metric: string
+          sampled_at: string
+          units: string
+          value: number
+        }
+        Insert: {
+          host_id: string
+          id?: never
+          instance: string
+          item_id: string
+          metric: string
+          sampled_at: string
+          units?: string
+          value: number
+        }
+        Update: {
+          host_id?: string
+          id?: never
+          instance?: string
+          item_id?: string
+          metric?: string
+          sampled_at?: string
+          units?: string
+          value?: number
+        }
+        Relationships: []
+      }
+      prediction_profiles: {
+        Row: {
+          description: string | null
+          host_groups: string[]
+          hosts: string[]
+          id: string
+          name: string
+          thresholds: Json
+          updated_at: string
+          updated_by: string | null
+          weights: Json
+        }
+        Insert: {
+          description?: string | null
+          host_groups?: string[]
+          hosts?: string[]
+          id: string
+          name: string
+          thresholds: Json
+          updated_at?: string
+          updated_by?: string | null
+          weights: Json
+        }
+        Update: {
+          description?: string | null
+          host_groups?: string[]
+          hosts?: string[]
+          id?: string
+          name?: string
+          thresholds?: Json
+          updated_at?: string
+          updated_by?: string | null
+          weights?: Json
+        }
+        Relationships: []
+      }
+      prediction_results: {
+        Row: {
+          computed_at: string
+          eta_minutes: number | null
+          factors: string[]
+          host_id: string
+          id: number
+          instance: string
+          profile: string
+          recommendation: string
+          risk_level: string
+          risk_score: number
+        }
+        Insert: {
+          computed_at?: string
+          eta_minutes?: number | null
+          factors?: string[]
+          host_id: string
+          id?: never
+          instance: string
+          profile?: string
+          recommendation: string
+          risk_level: string
+          risk_score: number
+        }
+        Update: {
+          computed_at?: string
+          eta_minutes?: number | null
+          factors?: string[]
+          host_id?: string
+          id?: never
+          instance?: string
+          profile?: string
+          recommendation?: string
+          risk_level?: string
+          risk_score?: number
+        }
+        Relationships: []
+      }
+      zabbix_acknowledgements: {
+        Row: {
+          action: number
+          created_at: string
+          error: string | null
+          event_ids: string[]
+          id: string
+          instance: string
+          message: string | null
+          new_severity: number | null
+          status: string
+          user_email: string | null
+          user_id: string
+        }
+        Insert: {
+          action: number
+          created_at?: string
+          error?: string | null
+          event_ids: string[]
+          id?: string
+          instance: string
+          message?: string | null
+          new_severity?: number | null
+          status?: string
+          user_email?: string | null
+          user_id: string
+        }
+        Update: {
+          action?: number
+          created_at?: string
+          error?: string | null
+          event_ids?: string[]
+          id?: string
+          instance?: string
+          message?: string | null
+          new_severity?: number | null
+          status?: string
+          user_email?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      zabbix_hosts: {
+        Row: {
+          available: string
+          dns: string
+          first_seen_at: string
+          groups: string[]
+          host: string
+          host_id: string
+          instance: string
+          ip: string
+          last_seen_at: string
+          name: string
+          status: string
+        }
+        Insert: {
+          available: string
+          dns?: string
+          first_seen_at?: string
+          groups?: string[]
+          host: string
+          host_id: string
+          instance: string
+          ip?: string
+          last_seen_at?: string
+          name: string
+          status: string
+        }
+        Update: {
+          available?: string
+          dns?: string
+          first_seen_at?: string
+          groups?: string[]
+          host?: string
+          host_id?: string
+          instance?: string
+          ip?: string
+          last_seen_at?: string
+          name?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      zabbix_items: {
+        Row: {
+          host_id: string
+          instance: string
+          item_id: string
+          key: string
+          last_seen_at: string
+          metric: string
+          name: string
+          units: string
+        }
+        Insert: {
+          host_id: string
+          instance: string
+          item_id: string
+          key: string
+          last_seen_at?: string
+          metric: string
+          name: string
+          units?: string
+        }
+        Update: {
+          host_id?: string
+          instance?: string
+          item_id?: string
+          key?: string
+          last_seen_at?: string
+          metric?: string
+          name?: string
+          units?: string
+        }
+        Relationships: []
+      }
+      zabbix_notifications: {
+        Row: {
+          alert: Json
+          event_id: string
+          id: string
+          instance: string
+          occurred_at: string
+          payload: Json
+          received_at: string
+          severity: number
+          status: string
+          trigger_id: string
+        }
+        Insert: {
+          alert: Json
+          event_id: string
+          id?: string
+          instance: string
+          occurred_at: string
+          payload: Json
+          received_at?: string
+          severity: number
+          status: string
+          trigger_id: string
+        }
+        Update: {
+          alert?: Json
+          event_id?: string
+          id?: string
+          instance?: string
+          occurred_at?: string
+          payload?: Json
+          received_at?: string
+          severity?: number
+          status?: string
+          trigger_id?: string
+        }
+        Relationships: []
+      }
+      zabbix_problems: {
+        Row: {
+          acknowledged: boolean
+          event_id: string | null
+          host: string
+          instance: string
+          last_seen_at: string
+          priority: string
+          resolved_at: string | null
+          severity: string
+          started_at: string
+          title: string
+          trigger_id: string
+        }
+        Insert: {
+          acknowledged?: boolean
+          event_id?: string | null
+          host: string
+          instance: string
+          last_seen_at?: string
+          priority: string
+          resolved_at?: string | null
+          severity: string
+          started_at: string
+          title: string
+          trigger_id: string
+        }
+        Update: {
+          acknowledged?: boolean
+          event_id?: string | null
+          host?: string
+          instance?: string
+          last_seen_at?: string
+          priority?: string
+          resolved_at?: string | null
+          severity?: string
+          started_at?: string
+          title?: string
+          trigger_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      host_risk_ranking: {
+        Row: {
+          available: string | null
+          computed_at: string | null
+          eta_minutes: number | null
+          factors: string[] | null
+          groups: string[] | null
+          host: string | null
+          host_id: string | null
+          instance: string | null
+          name: string | null
+          profile: string | null
+          recommendation: string | null
+          risk_level: string | null
+          risk_score: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      capacity_series: {
+        Args: { p_days?: number }
+        Returns: {
+          days: string[]
+          groups: string[]
+          host_id: string
+          host_name: string
+          instance: string
+          item_id: string
+          item_key: string
+          item_name: string
+          metric: string
+          p95_values: number[]
+          units: string
+        }[]
+      }
+      host_metric_samples: {
+        Args: {
+          p_from: string
+          p_host_id: string
+          p_instance: string
+          p_metrics: string[]
+          p_to: string
+        }
+        Returns: {
+          metric: string
+          sampled_at: string[]
+          value: number[]
+        }[]
+      }
+      host_sampled_metrics: {
+        Args: { p_host_id: string; p_instance: string }
+        Returns: {
+          first_sampled_at: string
+          item_id: string
+          last_sampled_at: string
+          metric: string
+          samples: number
+          units: string
+        }[]
+      }
+      metric_baseline: {
+        Args: {
+          p_days?: number
+          p_host_id: string
+          p_instance: string
+          p_metrics: string[]
+        }
+        Returns: {
+          dow: number
+          hour: number
+          mean: number
+          metric: string
+          samples: number
+          stddev: number
+        }[]
+      }
+      metric_series: {
+        Args: {
+          p_bucket_seconds?: number
+          p_from: string
+          p_host_id: string
+          p_instance: string
+          p_item_id?: string
+          p_metric: string
+          p_to: string
+          p_units?: string
+        }
+        Returns: {
+          avg_value: number
+          bucket: string
+          max_value: number
+          min_value: number
+          samples: number
+        }[]
+      }
+      prediction_series: {
+        Args: {
+          p_bucket_seconds?: number
+          p_from: string
+          p_host_id: string
+          p_instance: string
+          p_to: string
+        }
+        Returns: {
+          avg_score: number
+          bucket: string
+          max_risk_level: string
+          max_score: number
+          samples: number
+        }[]
+      }
+      prune_metric_history: {
+        Args: { p_keep: unknown }
+        Returns: undefined
+      }
+      rollup_metric_daily: {
+        Args: { p_since: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,66 @@
+import type { Severity, PriorityLevel } from '@shared/severity';
+
+export {
+  SEVERITIES,
+  PRIORITY_LEVELS,
+  DEFAULT_PRIORITY_MAPPING,
+  compareSeverityDesc,
+} from '@shared/severity';
+export type { Severity, PriorityLevel } from '@shared/severity';
+
+/**
+ * Nomes das severidades como exibidos no Zabbix em português
+ */
+export const SEVERITY_LABELS: Record<Severity, string> = {
+  not_classified: 'Não classificada',
+  information: 'Informação',
+  warning: 'Atenção',
+  average: 'Média',
+  high: 'Alta',
+  disaster: 'Desastre',
+};
+
+/**
+ * Classes de cor por severidade, usadas em todos os componentes de alerta
+ * - badge: fundo translúcido, texto e borda
+ * - solid: preenchimento sólido (barras da linha do tempo, indicadores)
+ */
+export const SEVERITY_STYLES: Record<Severity, { badge: string; solid: string }> = {
+  not_classified: {
+    badge: 'bg-muted/10 text-muted-foreground border-muted-foreground/30',
+    solid: 'bg-muted-foreground',
+  },
+  information: {
+    badge: 'bg-blue-500/10 text-blue-400 border-blue-500/30',
+    solid: 'bg-blue-500',
+  },
+  warning: {
+    badge: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30',
+    solid: 'bg-yellow-500',
+  },
+  average: {
+    badge: 'bg-orange-500/10 text-orange-400 border-orange-500/30',
+    solid: 'bg-orange-500',
+  },
+  high: {
+    badge: 'bg-red-500/10 text-red-400 border-red-500/30',
+    solid: 'bg-red-500',
+  },
+  disaster: {
+    badge: 'bg-destructive/10 text-destructive border-destructive/30',
+    solid: 'bg-destructive',
+  },
+};
+
+export const PRIORITY_STYLES: Record<PriorityLevel, string> = {
+  P1: 'bg-destructive/10 text-destructive border-destructive/30',
+  P2: 'bg-orange-500/10 text-orange-400 border-orange-500/30',
+  P3: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/30',
+  P4: 'bg-blue-500/10 text-blue-400 border-blue-500/30',
+};
+
+/**
+ * Severidades que exigem atenção imediata (alta e desastre)
+ */
+export const isUrgentSeverity = (severity: Severity): boolean =>
+  severity === 'high' || severity === 'disaster';
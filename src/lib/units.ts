@@ -0,0 +1,38 @@
+export { storedSample } from '@shared/units';
+export type { UnitValue } from '@shared/units';
+
+// Escala de exibição: divisor aplicado aos valores e a unidade resultante
+export interface DisplayScale {
+  divisor: number;
+  units: string;
+}
+
+const BYTE_STEPS = ['B', 'KB', 'MB', 'GB', 'TB'];
+const RATE_STEPS: Record<string, string[]> = {
+  bps: ['bps', 'Kbps', 'Mbps', 'Gbps'],
+  Bps: ['Bps', 'KBps', 'MBps', 'GBps'],
+};
+
+/**
+ * Escolhe a unidade de exibição de uma série gravada na unidade do item
+ * Toda a série usa a mesma escala, definida pelo maior valor absoluto, para
+ * que a média de um intervalo nunca misture Kbps com Mbps
+ * @param units Unidade em que os valores estão armazenados
+ * @param maxAbs Maior valor absoluto da série
+ * @returns DisplayScale Divisor e unidade para o eixo e a legenda
+ */
+export const displayScale = (units: string, maxAbs: number): DisplayScale => {
+  const stepped = (steps: string[], base: number): DisplayScale => {
+    let index = 0;
+    while (index < steps.length - 1 && maxAbs >= base ** (index + 1)) index++;
+    return { divisor: base ** index, units: steps[index] };
+  };
+
+  if (units === 'B') return stepped(BYTE_STEPS, 1024);
+  if (RATE_STEPS[units]) return stepped(RATE_STEPS[units], 1000);
+  if (units === 's' || units === 'uptime') {
+    if (maxAbs >= 2 * 86400) return { divisor: 86400, units: 'dias' };
+    if (maxAbs >= 2 * 3600) return { divisor: 3600, units: 'h' };
+  }
+  return { divisor: 1, units };
+};
@@ -0,0 +1,289 @@
+import { useState, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ArrowLeft, RefreshCw, History, AlertTriangle, CheckCircle2, Timer } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { LoadingSpinner } from "@/components/dashboard/LoadingSpinner";
+import { useZabbixHosts, useZabbixEvents, EVENT_TIME_RANGES } from "@/hooks/useZabbixData";
+import { getHostKey, ZabbixEvent } from "@/services/zabbixService";
+import { SEVERITY_LABELS, SEVERITY_STYLES, PRIORITY_STYLES } from "@/lib/severity";
+
+const ALL_HOSTS = 'all';
+
+// Limite de linhas desenhadas na linha do tempo
+const TIMELINE_MAX_ROWS = 100;
+
+/**
+ * Formata uma duração em segundos como "2d 3h", "4h 12m", "5m 10s"
+ */
+const formatDuration = (seconds: number): string => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+};
+
+export default function AlertHistory() {
+  const navigate = useNavigate();
+  const [timeRange, setTimeRange] = useState<string>('24h');
+  const [selectedHost, setSelectedHost] = useState<string>(ALL_HOSTS);
+
+  const { data: hosts } = useZabbixHosts();
+
+  // selectedHost guarda a chave qualificada pela instância (getHostKey)
+  const selectedHostData = hosts?.find(h => getHostKey(h) === selectedHost);
+
+  const { data: events = [], isLoading, isFetching, refetch, dataUpdatedAt } = useZabbixEvents(
+    timeRange,
+    selectedHostData ? { instance: selectedHostData.instance, hostIds: [selectedHostData.id] } : {}
+  );
+
+  const summary = useMemo(() => {
+    const resolved = events.filter(e => e.status === 'resolved');
+    const open = events.length - resolved.length;
+    // MTTR: média da duração dos problemas que já se recuperaram
+    const mttr = resolved.length > 0
+      ? Math.round(resolved.reduce((acc, e) => acc + e.duration, 0) / resolved.length)
+      : null;
+    return { total: events.length, open, resolved: resolved.length, mttr };
+  }, [events]);
+
+  // Janela da linha do tempo, terminando no momento da última busca
+  const windowEnd = dataUpdatedAt || Date.now();
+  const windowStart = windowEnd - (EVENT_TIME_RANGES[timeRange] || EVENT_TIME_RANGES['24h']) * 1000;
+  const windowLength = windowEnd - windowStart;
+
+  const timelineBar = (event: ZabbixEvent) => {
+    const start = Math.max(new Date(event.startedAt).getTime(), windowStart);
+    const end = event.resolvedAt ? new Date(event.resolvedAt).getTime() : windowEnd;
+    const left = ((start - windowStart) / windowLength) * 100;
+    const width = Math.max(((Math.min(end, windowEnd) - start) / windowLength) * 100, 0.5);
+    return { left: `${left}%`, width: `${Math.min(width, 100 - left)}%` };
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate('/')}
+                className="gap-2"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Voltar
+              </Button>
+              <div>
+                <h1 className="text-2xl font-bold flex items-center gap-2">
+                  <History className="w-6 h-6 text-primary" />
+                  Histórico de Alertas
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  Problemas e recuperações registrados pelo Zabbix
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Select value={selectedHost} onValueChange={setSelectedHost}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_HOSTS}>Todos os hosts</SelectItem>
+                  {hosts?.map((host) => (
+                    <SelectItem key={getHostKey(host)} value={getHostKey(host)}>
+                      {host.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={timeRange} onValueChange={setTimeRange}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1h">1 hora</SelectItem>
+                  <SelectItem value="6h">6 horas</SelectItem>
+                  <SelectItem value="24h">24 horas</SelectItem>
+                  <SelectItem value="7d">7 dias</SelectItem>
+                  <SelectItem value="30d">30 dias</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => refetch()}
+                disabled={isFetching}
+                className="gap-2"
+              >
+                <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+                Atualizar
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <>
+            {/* Resumo */}
+            <div className="grid gap-4 md:grid-cols-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">Eventos no período</p>
+                  <p className="text-3xl font-bold">{summary.total}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 text-destructive" />
+                    Em aberto
+                  </p>
+                  <p className="text-3xl font-bold">{summary.open}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    <CheckCircle2 className="w-4 h-4 text-primary" />
+                    Resolvidos
+                  </p>
+                  <p className="text-3xl font-bold">{summary.resolved}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    <Timer className="w-4 h-4" />
+                    Tempo médio de recuperação (MTTR)
+                  </p>
+                  <p className="text-3xl font-bold">
+                    {summary.mttr !== null ? formatDuration(summary.mttr) : '—'}
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Linha do tempo */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Linha do Tempo</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {events.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    Nenhum problema registrado no período
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex justify-between text-xs text-muted-foreground mb-2 pl-[11.5rem]">
+                      <span>{new Date(windowStart).toLocaleString()}</span>
+                      <span>{new Date(windowEnd).toLocaleString()}</span>
+                    </div>
+                    <ScrollArea className="h-[360px]">
+                      <div className="space-y-1">
+                        {events.slice(0, TIMELINE_MAX_ROWS).map(event => (
+                          <div key={`${event.instance}:${event.id}`} className="flex items-center gap-2">
+                            <span className="w-44 shrink-0 truncate text-xs text-muted-foreground">
+                              {event.host}
+                            </span>
+                            <div className="relative h-4 flex-1 rounded bg-muted/20">
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <div
+                                    className={`absolute top-0 h-4 rounded ${SEVERITY_STYLES[event.severity].solid} ${event.status === 'problem' ? 'animate-pulse' : 'opacity-70'}`}
+                                    style={timelineBar(event)}
+                                  />
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p className="font-medium">{event.title}</p>
+                                  <p className="text-xs">
+                                    {new Date(event.startedAt).toLocaleString()} · {formatDuration(event.duration)}
+                                    {event.status === 'problem' ? ' (em aberto)' : ''}
+                                  </p>
+                                </TooltipContent>
+                              </Tooltip>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                    {events.length > TIMELINE_MAX_ROWS && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Exibindo os {TIMELINE_MAX_ROWS} eventos mais recentes de {events.length}
+                      </p>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Lista de eventos */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Eventos ({events.length})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-[480px]">
+                  <div className="space-y-3">
+                    {events.map(event => (
+                      <div
+                        key={`${event.instance}:${event.id}`}
+                        className="p-4 rounded-lg border border-border/50 bg-muted/5"
+                      >
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <h4 className="font-medium text-foreground">{event.title}</h4>
+                            <p className="text-sm text-muted-foreground">{event.host}</p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className={PRIORITY_STYLES[event.priority]}>
+                              {event.priority}
+                            </Badge>
+                            <Badge variant="outline" className={SEVERITY_STYLES[event.severity].badge}>
+                              {SEVERITY_LABELS[event.severity].toUpperCase()}
+                            </Badge>
+                            {event.status === 'problem' ? (
+                              <Badge variant="destructive">EM ABERTO</Badge>
+                            ) : (
+                              <Badge variant="outline" className="bg-primary/10 text-primary">RESOLVIDO</Badge>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-4 mt-2 text-xs text-muted-foreground">
+                          <span>Início: {new Date(event.startedAt).toLocaleString()}</span>
+                          {event.resolvedAt && <span>Recuperação: {new Date(event.resolvedAt).toLocaleString()}</span>}
+                          <span>Duração: {formatDuration(event.duration)}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
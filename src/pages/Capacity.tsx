@@ -0,0 +1,384 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, RefreshCw, Gauge, Download, Search, HardDrive, MemoryStick, Network, CalendarClock } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { LoadingSpinner } from "@/components/dashboard/LoadingSpinner";
+import { TrendChart } from "@/components/dashboard/TrendChart";
+import { useCapacityPlan } from "@/hooks/useCapacity";
+import { CAPACITY_THRESHOLDS, CapacityKind, CapacityResource } from "@/services/capacityService";
+import { cn } from "@/lib/utils";
+
+const ALL = '__all__';
+
+const KIND_LABELS: Record<CapacityKind, { label: string; icon: typeof HardDrive; color: string }> = {
+  disk: { label: 'Disco', icon: HardDrive, color: '#f59e0b' },
+  memory: { label: 'Memória', icon: MemoryStick, color: '#8b5cf6' },
+  link: { label: 'Enlace', icon: Network, color: '#06b6d4' },
+};
+
+// Prazos até o limite destacados na tabela e no resumo
+const URGENT_DAYS = 30;
+const SOON_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDays = (days: number | null) => {
+  if (days === null) return '—';
+  if (days < 1) return 'agora';
+  return `${Math.round(days)} ${Math.round(days) === 1 ? 'dia' : 'dias'}`;
+};
+
+const formatSpeed = (bps: number | null) => {
+  if (bps === null) return '';
+  if (bps >= 1e9) return `${(bps / 1e9).toFixed(1)} Gbps`;
+  if (bps >= 1e6) return `${(bps / 1e6).toFixed(0)} Mbps`;
+  return `${(bps / 1e3).toFixed(0)} Kbps`;
+};
+
+const expectedDate = (days: number | null) =>
+  days === null ? null : new Date(Date.now() + days * DAY_MS);
+
+/**
+ * Exporta os recursos filtrados em CSV (UTF-8 com BOM, para abrir acentuado no Excel)
+ */
+const exportCsv = (resources: CapacityResource[]) => {
+  const header = [
+    'host', 'instancia', 'grupos', 'tipo', 'recurso', 'chave', 'atual_pct', 'tendencia_pct_dia', 'limite_pct',
+    'dias_ate_limite', 'dias_min', 'dias_max', 'data_prevista', 'velocidade_bps', 'dias_de_historico',
+  ];
+  const quote = (value: string | number | null) => {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = resources.map(resource => [
+    resource.hostName,
+    resource.instance,
+    resource.groups.join('; '),
+    KIND_LABELS[resource.kind].label,
+    resource.label,
+    resource.key,
+    resource.current.toFixed(1),
+    resource.slopePerDay === null ? null : resource.slopePerDay.toFixed(3),
+    resource.threshold,
+    resource.daysToThreshold,
+    resource.lowDays,
+    resource.highDays,
+    resource.daysToThreshold === null ? null : format(expectedDate(resource.daysToThreshold)!, 'yyyy-MM-dd'),
+    resource.speedBps,
+    resource.historyDays,
+  ].map(quote).join(','));
+
+  const blob = new Blob(['﻿' + [header.join(','), ...rows].join('\n')], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `capacidade-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function Capacity() {
+  const navigate = useNavigate();
+  const [historyDays, setHistoryDays] = useState('90');
+  const [kind, setKind] = useState<CapacityKind | typeof ALL>(ALL);
+  const [group, setGroup] = useState(ALL);
+  const [search, setSearch] = useState('');
+  const [onlyWithDeadline, setOnlyWithDeadline] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: plan, isLoading, isFetching, error, refetch } = useCapacityPlan(Number(historyDays));
+
+  const groups = useMemo(
+    () => [...new Set((plan?.resources || []).flatMap(resource => resource.groups))].sort((a, b) => a.localeCompare(b)),
+    [plan]
+  );
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return (plan?.resources || []).filter(resource =>
+      (kind === ALL || resource.kind === kind) &&
+      (group === ALL || resource.groups.includes(group)) &&
+      (!onlyWithDeadline || resource.daysToThreshold !== null) &&
+      (!term || resource.hostName.toLowerCase().includes(term) || resource.label.toLowerCase().includes(term))
+    );
+  }, [plan, kind, group, search, onlyWithDeadline]);
+
+  const summary = useMemo(() => {
+    const resources = plan?.resources || [];
+    const within = (days: number) =>
+      resources.filter(resource => resource.daysToThreshold !== null && resource.daysToThreshold <= days).length;
+    return { total: resources.length, urgent: within(URGENT_DAYS), soon: within(SOON_DAYS) };
+  }, [plan]);
+
+  const selected = filtered.find(resource => resource.id === selectedId) ?? null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate('/')}
+                className="gap-2"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Voltar
+              </Button>
+              <div>
+                <h1 className="text-2xl font-bold flex items-center gap-2">
+                  <Gauge className="w-6 h-6 text-primary" />
+                  Planejamento de Capacidade
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  Prazo até disco cheio, memória esgotada e enlace saturado, pela tendência do histórico
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Select value={historyDays} onValueChange={setHistoryDays}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="30">30 dias de histórico</SelectItem>
+                  <SelectItem value="90">90 dias de histórico</SelectItem>
+                  <SelectItem value="180">180 dias de histórico</SelectItem>
+                  <SelectItem value="365">365 dias de histórico</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => exportCsv(filtered)}
+                disabled={filtered.length === 0}
+                className="gap-2"
+              >
+                <Download className="w-4 h-4" />
+                Exportar CSV
+              </Button>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => refetch()}
+                disabled={isFetching}
+                className="gap-2"
+              >
+                <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+                Atualizar
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : error ? (
+          <div className="py-12 text-center text-muted-foreground">
+            Não foi possível carregar o planejamento de capacidade
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid gap-4 md:grid-cols-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-sm text-muted-foreground">Recursos analisados</div>
+                  <div className="text-2xl font-bold">{summary.total}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-sm text-muted-foreground">Limite em até {URGENT_DAYS} dias</div>
+                  <div className={cn('text-2xl font-bold', summary.urgent > 0 && 'text-destructive')}>{summary.urgent}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-sm text-muted-foreground">Limite em até {SOON_DAYS} dias</div>
+                  <div className={cn('text-2xl font-bold', summary.soon > 0 && 'text-orange-500')}>{summary.soon}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-sm text-muted-foreground">Interfaces sem velocidade</div>
+                  <div className="text-2xl font-bold">{plan?.interfacesWithoutSpeed ?? 0}</div>
+                  <div className="text-xs text-muted-foreground">Sem item de velocidade, a saturação não é prevista</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Ranking */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <CalendarClock className="w-5 h-5" />
+                  Recursos mais próximos do limite
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Percentil 95 diário; limites: disco {CAPACITY_THRESHOLDS.disk}%, memória {CAPACITY_THRESHOLDS.memory}%,
+                  enlace {CAPACITY_THRESHOLDS.link}% da velocidade. A projeção não vai além do período de histórico.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="relative flex-1 min-w-[200px]">
+                    <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      value={search}
+                      onChange={event => setSearch(event.target.value)}
+                      placeholder="Buscar host ou recurso"
+                      className="pl-8"
+                    />
+                  </div>
+                  <Select value={kind} onValueChange={value => setKind(value as CapacityKind | typeof ALL)}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Todos os tipos</SelectItem>
+                      {(Object.keys(KIND_LABELS) as CapacityKind[]).map(value => (
+                        <SelectItem key={value} value={value}>{KIND_LABELS[value].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={group} onValueChange={setGroup}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Todos os grupos</SelectItem>
+                      {groups.map(name => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={onlyWithDeadline ? 'deadline' : 'all'} onValueChange={value => setOnlyWithDeadline(value === 'deadline')}>
+                    <SelectTrigger className="w-52">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="deadline">Somente com prazo previsto</SelectItem>
+                      <SelectItem value="all">Todos os recursos</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {!plan || plan.resources.length === 0 ? (
+                  <div className="py-12 text-center text-muted-foreground">
+                    Sem histórico diário. O agregado é calculado a cada hora a partir das amostras do coletor.
+                  </div>
+                ) : filtered.length === 0 ? (
+                  <div className="py-12 text-center text-muted-foreground">
+                    Nenhum recurso corresponde aos filtros
+                  </div>
+                ) : (
+                  <div className="max-h-[560px] overflow-y-auto rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-12">#</TableHead>
+                          <TableHead>Host</TableHead>
+                          <TableHead>Recurso</TableHead>
+                          <TableHead className="text-right">Atual</TableHead>
+                          <TableHead className="text-right">Tendência</TableHead>
+                          <TableHead className="text-right">Prazo até o limite</TableHead>
+                          <TableHead className="text-right">Data prevista</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {filtered.map((resource, index) => {
+                          const { label, icon: Icon } = KIND_LABELS[resource.kind];
+                          const date = expectedDate(resource.daysToThreshold);
+                          return (
+                            <TableRow
+                              key={resource.id}
+                              className={cn('cursor-pointer', resource.id === selectedId && 'bg-muted/50')}
+                              onClick={() => setSelectedId(resource.id === selectedId ? null : resource.id)}
+                            >
+                              <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                              <TableCell>
+                                <div className="font-medium truncate">{resource.hostName}</div>
+                                <div className="text-xs text-muted-foreground truncate">{resource.groups.join(', ')}</div>
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-2">
+                                  <Badge variant="outline" className="gap-1 shrink-0">
+                                    <Icon className="w-3 h-3" />
+                                    {label}
+                                  </Badge>
+                                  <span className="truncate max-w-[260px]">{resource.label}</span>
+                                </div>
+                                {resource.speedBps !== null && (
+                                  <div className="text-xs text-muted-foreground mt-1">{formatSpeed(resource.speedBps)}</div>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right font-mono">{resource.current.toFixed(1)}%</TableCell>
+                              <TableCell className="text-right font-mono text-xs">
+                                {resource.slopePerDay === null
+                                  ? '—'
+                                  : `${resource.slopePerDay >= 0 ? '+' : ''}${resource.slopePerDay.toFixed(2)}%/dia`}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                <div className={cn('font-mono',
+                                  resource.daysToThreshold !== null && resource.daysToThreshold <= URGENT_DAYS ? 'text-destructive' :
+                                  resource.daysToThreshold !== null && resource.daysToThreshold <= SOON_DAYS ? 'text-orange-500' : ''
+                                )}>
+                                  {formatDays(resource.daysToThreshold)}
+                                </div>
+                                {resource.daysToThreshold !== null && (
+                                  <div className="text-xs text-muted-foreground">
+                                    {formatDays(resource.lowDays)} – {resource.highDays === null ? 'indefinido' : formatDays(resource.highDays)}
+                                  </div>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right text-xs text-muted-foreground whitespace-nowrap">
+                                {date ? format(date, "dd 'de' MMM yyyy", { locale: ptBR }) : '—'}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Selected resource trend */}
+            {selected && (
+              <TrendChart
+                title={`${KIND_LABELS[selected.kind].label} - ${selected.hostName}`}
+                subtitle={selected.label}
+                data={selected.series}
+                unit="%"
+                color={KIND_LABELS[selected.kind].color}
+                criticalThreshold={selected.threshold}
+                forecast={selected.forecast ?? undefined}
+                height={300}
+              />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -14,11 +14,12 @@ import { ChatButton } from "@/components/dashboard/ChatButton";
 import { Footer } from "@/components/dashboard/Footer";
 import { useZabbixHosts, useZabbixAlerts, useZabbixMetrics } from "@/hooks/useZabbixData";
 import { useDashboardMetrics } from "@/hooks/useDashboardMetrics";
+import type { ZabbixHost } from "@/services/zabbixService";
 import { LoadingSpinner } from "@/components/dashboard/LoadingSpinner";
 
 const Index = () => {
   const navigate = useNavigate();
-  const [selectedHost, setSelectedHost] = React.useState<any>(null);
+  const [selectedHost, setSelectedHost] = React.useState<ZabbixHost | null>(null);
   const [isHostModalOpen, setIsHostModalOpen] = React.useState(false);
   
   // Hooks para dados reais do Zabbix
@@ -29,22 +30,11 @@ const Index = () => {
   // Hook para métricas calculadas do dashboard
   const { dashboardCards } = useDashboardMetrics();
 
-  // Mapear dados do Zabbix para o formato esperado pelos componentes
-  const hosts = zabbixHosts?.map(host => ({
-    id: host.id,
-    name: host.name,
-    ip: host.ip,
-    status: host.available === 'online' ? 'online' as const : 
-           host.available === 'offline' ? 'offline' as const : 'unknown' as const,
-    uptime: host.available === 'online' ? 'Online' : 
-           host.available === 'offline' ? 'Offline' : 'Status Desconhecido',
-    lastSeen: host.available === 'offline' ? 'Indisponível' : 
-             host.available === 'unknown' ? 'Status Desconhecido' : undefined,
-  })) || [];
+  const hosts = zabbixHosts || [];
 
   const alerts = zabbixAlerts || [];
 
-  const handleHostClick = (host: any) => {
+  const handleHostClick = (host: ZabbixHost) => {
     setSelectedHost(host);
     setIsHostModalOpen(true);
   };
@@ -144,10 +134,10 @@ const Index = () => {
                 />
                 <EnhancedMetricCard
                   title="Hosts Online"
-                  value={hosts.filter(h => h.status === 'online').length.toString()}
+                  value={hosts.filter(h => h.available === 'online').length.toString()}
                   icon={Activity}
                   trend="stable"
-                  status={hosts.filter(h => h.status === 'online').length < hosts.length ? "warning" : "normal"}
+                  status={hosts.filter(h => h.available === 'online').length < hosts.length ? "warning" : "normal"}
                   isLoading={hostsLoading}
                   subtitle={`${hosts.length} hosts totais`}
                   lastUpdate={new Date().toISOString()}
@@ -0,0 +1,289 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, RefreshCw, ListFilter, Server, CheckCircle2 } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { LoadingSpinner } from "@/components/dashboard/LoadingSpinner";
+import { useZabbixHosts, useMetricProfiles } from "@/hooks/useZabbixData";
+import { zabbixService, getHostKey } from "@/services/zabbixService";
+import { CANONICAL_METRICS, matchItem, selectCanonicalItems } from "@shared/metricProfiles";
+
+// O proxy só mapeia itens numéricos (float e unsigned)
+const NUMERIC_VALUE_TYPES = ['0', '3'];
+
+const AUTO_PROFILE = 'auto';
+
+export default function MetricProfiles() {
+  const navigate = useNavigate();
+  const [selectedHost, setSelectedHost] = useState<string>('');
+  const [selectedProfile, setSelectedProfile] = useState<string>(AUTO_PROFILE);
+  const [showUnmatched, setShowUnmatched] = useState(false);
+
+  const { data: hosts, isLoading: hostsLoading } = useZabbixHosts();
+  const { data: profiles = [], isLoading: profilesLoading } = useMetricProfiles();
+
+  // selectedHost guarda a chave qualificada pela instância (getHostKey)
+  const selectedHostData = hosts?.find(h => getHostKey(h) === selectedHost);
+
+  const { data: latest, isLoading: latestLoading, refetch } = useQuery({
+    queryKey: ['latest-values', selectedHost],
+    queryFn: () => zabbixService.getLatestValues(selectedHostData!.id, selectedHostData!.instance),
+    enabled: !!selectedHostData,
+    staleTime: 30000,
+  });
+
+  useEffect(() => {
+    if (hosts && hosts.length > 0 && !selectedHost) {
+      setSelectedHost(getHostKey(hosts[0]));
+    }
+  }, [hosts, selectedHost]);
+
+  const profileId = selectedProfile === AUTO_PROFILE ? latest?.profile : selectedProfile;
+  const profile = profiles.find(p => p.id === profileId);
+
+  // Aplica o perfil aos itens do host da mesma forma que o proxy
+  const evaluation = useMemo(() => {
+    if (!profile || !latest) return null;
+
+    const numericItems = latest.items.filter(item => NUMERIC_VALUE_TYPES.includes(item.value_type));
+    const canonical = selectCanonicalItems(profile, numericItems);
+    const canonicalIds = new Set(Object.values(canonical).map(item => item.itemid));
+
+    const rows = latest.items.map(item => {
+      const numeric = NUMERIC_VALUE_TYPES.includes(item.value_type);
+      const match = numeric ? matchItem(profile, item) : null;
+      return {
+        item,
+        numeric,
+        match,
+        rule: match ? profile.rules[match.ruleIndex] : null,
+        canonical: canonicalIds.has(item.itemid),
+      };
+    });
+
+    return {
+      canonical,
+      rows,
+      matchedCount: rows.filter(row => row.match).length,
+    };
+  }, [profile, latest]);
+
+  const visibleRows = evaluation?.rows.filter(row => showUnmatched || row.match) ?? [];
+
+  if (hostsLoading || profilesLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate('/')}
+                className="gap-2"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Voltar
+              </Button>
+              <div>
+                <h1 className="text-2xl font-bold flex items-center gap-2">
+                  <ListFilter className="w-6 h-6 text-primary" />
+                  Perfis de Métricas
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  Teste quais itens de um host cada perfil mapeia para métricas canônicas
+                </p>
+              </div>
+            </div>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => refetch()}
+              disabled={latestLoading || !selectedHostData}
+              className="gap-2"
+            >
+              <RefreshCw className={`w-4 h-4 ${latestLoading ? 'animate-spin' : ''}`} />
+              Atualizar
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-6 space-y-6">
+        {/* Seleção de host e perfil */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Server className="w-5 h-5" />
+              Host e Perfil
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex-1">
+                <Select value={selectedHost} onValueChange={setSelectedHost}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione um host" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {hosts?.map((host) => (
+                      <SelectItem key={getHostKey(host)} value={getHostKey(host)}>
+                        {host.name} ({host.host})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex-1">
+                <Select value={selectedProfile} onValueChange={setSelectedProfile}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_PROFILE}>Automático (templates e grupos do host)</SelectItem>
+                    {profiles.map(p => (
+                      <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch id="show-unmatched" checked={showUnmatched} onCheckedChange={setShowUnmatched} />
+                <Label htmlFor="show-unmatched" className="text-sm">Mostrar itens sem correspondência</Label>
+              </div>
+            </div>
+
+            {profile && (
+              <div className="mt-4 space-y-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className="bg-primary/5 text-primary">{profile.id}</Badge>
+                  {selectedProfile === AUTO_PROFILE && (
+                    <span className="text-muted-foreground">resolvido pelo proxy para este host</span>
+                  )}
+                </div>
+                {profile.description && <p className="text-muted-foreground">{profile.description}</p>}
+                <p className="text-muted-foreground">
+                  Templates: {profile.templates?.join(', ') || '—'} · Grupos: {profile.hostGroups?.join(', ') || '—'} · {profile.rules.length} regras
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {latestLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner />
+          </div>
+        ) : evaluation ? (
+          <>
+            {/* Item canônico escolhido para cada métrica */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <CheckCircle2 className="w-5 h-5" />
+                  Métricas Canônicas
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+                  {CANONICAL_METRICS.map(metric => {
+                    const item = evaluation.canonical[metric];
+                    return (
+                      <div key={metric} className="rounded-md border p-3">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">{metric}</span>
+                          {item ? (
+                            <Badge variant="outline" className="bg-primary/5 text-primary">{item.lastvalue} {item.units}</Badge>
+                          ) : (
+                            <Badge variant="secondary">sem item</Badge>
+                          )}
+                        </div>
+                        {item && (
+                          <p className="text-xs text-muted-foreground font-mono truncate mt-1">{item.key_}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Resultado por item */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">
+                  Itens ({evaluation.matchedCount} de {evaluation.rows.length} mapeados)
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-[480px]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead>Métrica</TableHead>
+                        <TableHead>Regra</TableHead>
+                        <TableHead className="text-right">Último valor</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleRows.map(({ item, numeric, match, rule, canonical }) => (
+                        <TableRow key={item.itemid}>
+                          <TableCell>
+                            <p className="font-medium">{item.name}</p>
+                            <p className="text-xs text-muted-foreground font-mono">{item.key_}</p>
+                          </TableCell>
+                          <TableCell>
+                            {match ? (
+                              <div className="flex items-center gap-2">
+                                <Badge variant="outline">{match.metric}</Badge>
+                                {canonical && <Badge className="bg-primary/10 text-primary">canônico</Badge>}
+                              </div>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">
+                                {numeric ? 'sem correspondência' : 'ignorado (não numérico)'}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-xs font-mono text-muted-foreground">
+                            {rule ? `#${match!.ruleIndex + 1} ${[rule.key, rule.name].filter(Boolean).join(' · ')}` : '—'}
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-sm">
+                            {item.lastvalue} {item.units}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          </>
+        ) : (
+          <div className="text-center py-12 text-muted-foreground">
+            Selecione um host para testar os perfis
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
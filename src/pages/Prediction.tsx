@@ -1,51 +1,78 @@
-import { useState, useEffect } from 'react';
+import { useMemo, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, RefreshCw, Activity, AlertTriangle, TrendingUp } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, RefreshCw, Activity, AlertTriangle, TrendingUp, ListOrdered, Server, SlidersHorizontal, FlaskConical } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { PredictionCard } from "@/components/dashboard/PredictionCard";
+import { FleetRiskRanking } from "@/components/dashboard/FleetRiskRanking";
+import { PredictionProfileEditor } from "@/components/dashboard/PredictionProfileEditor";
+import { PredictionBacktest } from "@/components/dashboard/PredictionBacktest";
 import { PredictionLoadingCard } from "@/components/dashboard/PredictionLoadingCard";
 import { TrendChart } from "@/components/dashboard/TrendChart";
 import { LoadingSpinner } from "@/components/dashboard/LoadingSpinner";
 import { useZabbixHosts } from "@/hooks/useZabbixData";
 import { useInstabilityPrediction } from "@/hooks/useInstabilityPrediction";
-import { zabbixService, CriticalHistoryResponse } from "@/services/zabbixService";
+import { useAnomalyDetection } from "@/hooks/useAnomalyDetection";
+import { useForecasts } from "@/hooks/useForecasts";
+import { useWirelessHistory } from "@/hooks/useMetricHistory";
+import { usePredictionProfiles } from "@/hooks/usePredictionProfiles";
+import { BUILTIN_PREDICTION_PROFILES, resolvePredictionProfile } from "@shared/prediction";
+import { zabbixService, CriticalTimeRange, getHostKey } from "@/services/zabbixService";
+import type { HostRisk } from "@/services/historyService";
 
 export default function Prediction() {
   const navigate = useNavigate();
   const [selectedHost, setSelectedHost] = useState<string>('');
-  const [timeRange, setTimeRange] = useState<string>('1h');
+  const [timeRange, setTimeRange] = useState<CriticalTimeRange>('1h');
+  // A página abre no ranking da frota; clicar em um host abre a análise individual
+  const [view, setView] = useState<'fleet' | 'host' | 'backtest'>('fleet');
+  const [editorOpen, setEditorOpen] = useState(false);
   
   const { data: hosts, isLoading: hostsLoading } = useZabbixHosts();
+
+  // selectedHost holds the instance-qualified key from getHostKey
+  const selectedHostData = hosts?.find(h => getHostKey(h) === selectedHost);
   
   // Query for critical history data
   const { data: criticalData, isLoading: criticalLoading, refetch } = useQuery({
     queryKey: ['critical-history', selectedHost, timeRange],
-    queryFn: () => zabbixService.getCriticalHistory(selectedHost, timeRange),
-    enabled: !!selectedHost,
+    queryFn: () => zabbixService.getCriticalHistory(selectedHostData!.id, timeRange, selectedHostData!.instance),
+    enabled: !!selectedHostData,
     refetchInterval: 30000, // Refetch every 30 seconds
     staleTime: 15000, // Consider data stale after 15 seconds
   });
 
-  const prediction = useInstabilityPrediction(criticalData?.metrics || null);
-  
-  // Auto-select first host when hosts are loaded
-  useEffect(() => {
-    if (hosts && hosts.length > 0 && !selectedHost) {
-      setSelectedHost(hosts[0].id);
-    }
-  }, [hosts, selectedHost]);
-
-  const selectedHostData = hosts?.find(h => h.id === selectedHost);
+  // Perfil atribuído ao host (explicitamente ou pelos grupos), como no metric-sampler
+  const { data: profiles } = usePredictionProfiles();
+  const activeProfile = useMemo(
+    () => resolvePredictionProfile(profiles ?? BUILTIN_PREDICTION_PROFILES, {
+      key: selectedHost,
+      groups: selectedHostData?.groups,
+    }),
+    [profiles, selectedHost, selectedHostData?.groups]
+  );
 
+  const { anomalies, byMetric: anomaliesByMetric } = useAnomalyDetection(criticalData || null);
+  const { forecasts, byMetric: forecastsByMetric, disk } = useForecasts(criticalData || null, activeProfile);
+  // RF da última hora gravado pelo sampler; vazio em hosts sem métricas sem fio
+  const { data: wireless } = useWirelessHistory(selectedHostData?.instance, selectedHostData?.id, 3600);
+  const signals = useMemo(() => ({ anomalies, forecasts, wireless }), [anomalies, forecasts, wireless]);
+  const prediction = useInstabilityPrediction(criticalData || null, activeProfile, signals);
+  
   const handleRefresh = () => {
     refetch();
   };
 
+  const handleSelectFromRanking = (host: HostRisk) => {
+    setSelectedHost(getHostKey({ instance: host.instance, id: host.hostId }));
+    setView('host');
+  };
+
   if (hostsLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -82,7 +109,7 @@ export default function Prediction() {
             </div>
             
             <div className="flex items-center gap-3">
-              <Select value={timeRange} onValueChange={setTimeRange}>
+              <Select value={timeRange} onValueChange={value => setTimeRange(value as CriticalTimeRange)}>
                 <SelectTrigger className="w-32">
                   <SelectValue />
                 </SelectTrigger>
@@ -93,6 +120,16 @@ export default function Prediction() {
                 </SelectContent>
               </Select>
               
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setEditorOpen(true)}
+                className="gap-2"
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+                Perfis
+              </Button>
+
               <Button 
                 variant="outline" 
                 size="sm" 
@@ -109,187 +146,254 @@ export default function Prediction() {
       </div>
 
       <div className="container mx-auto px-4 py-6">
-        {/* Host Selection */}
-        <Card className="mb-6">
-          <CardHeader>
-            <CardTitle className="text-lg flex items-center gap-2">
-              <TrendingUp className="w-5 h-5" />
-              Seleção de Host
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="flex items-center gap-4">
-              <div className="flex-1">
-                <Select value={selectedHost} onValueChange={setSelectedHost}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Selecione um host para análise" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {hosts?.map((host) => (
-                      <SelectItem key={host.id} value={host.id}>
-                        <div className="flex items-center gap-2">
-                          <div className={`w-2 h-2 rounded-full ${
-                            host.available === 'online' ? 'bg-status-online' : 
-                            host.available === 'offline' ? 'bg-status-offline' : 'bg-status-unknown'
-                          }`} />
-                          {host.name} ({host.host})
-                        </div>
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              
-              {selectedHostData && (
-                <Badge variant={
-                  selectedHostData.available === 'online' ? 'outline' : 
-                  selectedHostData.available === 'offline' ? 'destructive' : 'secondary'
-                }>
-                  {selectedHostData.available === 'online' ? 'Online' : 
-                   selectedHostData.available === 'offline' ? 'Offline' : 'Desconhecido'}
-                </Badge>
-              )}
-            </div>
-          </CardContent>
-        </Card>
-
-        {selectedHost && (
-          <>
-            {/* Prediction Summary */}
-            <div className="grid gap-6 mb-6">
-              {criticalLoading ? (
-                <PredictionLoadingCard />
-              ) : (
-                <PredictionCard 
-                  prediction={prediction} 
-                  hostName={selectedHostData?.name}
-                />
-              )}
-            </div>
+        <Tabs value={view} onValueChange={value => setView(value as 'fleet' | 'host' | 'backtest')}>
+          <TabsList className="mb-6">
+            <TabsTrigger value="fleet" className="gap-2">
+              <ListOrdered className="w-4 h-4" />
+              Frota
+            </TabsTrigger>
+            <TabsTrigger value="host" className="gap-2">
+              <Server className="w-4 h-4" />
+              {selectedHostData ? selectedHostData.name : 'Host'}
+            </TabsTrigger>
+            <TabsTrigger value="backtest" className="gap-2">
+              <FlaskConical className="w-4 h-4" />
+              Backtest
+            </TabsTrigger>
+          </TabsList>
 
-            <Separator className="my-6" />
-
-            {/* Charts Section */}
-            {criticalLoading ? (
-              <div className="flex items-center justify-center py-12">
-                <LoadingSpinner />
-              </div>
-            ) : criticalData ? (
-              <div className="space-y-6">
-                <div className="flex items-center gap-2 mb-4">
-                  <AlertTriangle className="w-5 h-5 text-primary" />
-                  <h2 className="text-xl font-semibold">Métricas Críticas - Últimas {timeRange}</h2>
-                </div>
-                
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                  {/* Ping Status Chart */}
-                  {criticalData.metrics.ping.length > 0 && (
-                    <TrendChart
-                      title="Status de Ping"
-                      data={criticalData.metrics.ping}
-                      unit="status"
-                      color="#22c55e"
-                      height={250}
-                    />
-                  )}
+          <TabsContent value="fleet">
+            <FleetRiskRanking onSelectHost={handleSelectFromRanking} />
+          </TabsContent>
 
-                  {/* Latency Chart */}
-                  {criticalData.metrics.latency.length > 0 && (
-                    <TrendChart
-                      title="Latência de Ping"
-                      data={criticalData.metrics.latency}
-                      unit="ms"
-                      color="#3b82f6"
-                      warningThreshold={100}
-                      criticalThreshold={200}
-                      height={250}
-                    />
+          <TabsContent value="host">
+            {/* Host Selection */}
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <TrendingUp className="w-5 h-5" />
+                  Seleção de Host
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center gap-4">
+                  <div className="flex-1">
+                    <Select value={selectedHost} onValueChange={setSelectedHost}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione um host para análise" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {hosts?.map((host) => (
+                          <SelectItem key={getHostKey(host)} value={getHostKey(host)}>
+                            <div className="flex items-center gap-2">
+                              <div className={`w-2 h-2 rounded-full ${
+                                host.available === 'online' ? 'bg-status-online' : 
+                                host.available === 'offline' ? 'bg-status-offline' : 'bg-status-unknown'
+                              }`} />
+                              {host.name} ({host.host})
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+              
+                  {selectedHostData && (
+                    <Badge variant="outline" className="gap-1 cursor-pointer" onClick={() => setEditorOpen(true)}>
+                      <SlidersHorizontal className="w-3 h-3" />
+                      Perfil: {activeProfile.name}
+                    </Badge>
                   )}
 
-                  {/* CPU Chart */}
-                  {criticalData.metrics.cpu.length > 0 && (
-                    <TrendChart
-                      title="Uso de CPU"
-                      data={criticalData.metrics.cpu}
-                      unit="%"
-                      color="#f59e0b"
-                      warningThreshold={80}
-                      criticalThreshold={90}
-                      height={250}
-                    />
+                  {selectedHostData && (
+                    <Badge variant={
+                      selectedHostData.available === 'online' ? 'outline' : 
+                      selectedHostData.available === 'offline' ? 'destructive' : 'secondary'
+                    }>
+                      {selectedHostData.available === 'online' ? 'Online' : 
+                       selectedHostData.available === 'offline' ? 'Offline' : 'Desconhecido'}
+                    </Badge>
                   )}
+                </div>
+              </CardContent>
+            </Card>
 
-                  {/* Memory Chart */}
-                  {criticalData.metrics.memory.length > 0 && (
-                    <TrendChart
-                      title="Uso de Memória"
-                      data={criticalData.metrics.memory}
-                      unit="%"
-                      color="#8b5cf6"
-                      warningThreshold={85}
-                      criticalThreshold={95}
-                      height={250}
+            {selectedHost && (
+              <>
+                {/* Prediction Summary */}
+                <div className="grid gap-6 mb-6">
+                  {criticalLoading ? (
+                    <PredictionLoadingCard />
+                  ) : (
+                    <PredictionCard 
+                      prediction={prediction} 
+                      hostName={selectedHostData?.name}
                     />
                   )}
                 </div>
 
-                {/* Summary Stats */}
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="text-lg">Resumo da Análise</CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
-                      <div>
-                        <div className="text-2xl font-bold text-foreground">
-                          {criticalData.metrics.ping.length}
-                        </div>
-                        <div className="text-sm text-muted-foreground">
-                          Pontos de Ping
-                        </div>
-                      </div>
-                      <div>
-                        <div className="text-2xl font-bold text-foreground">
-                          {criticalData.metrics.latency.length}
-                        </div>
-                        <div className="text-sm text-muted-foreground">
-                          Pontos de Latência
-                        </div>
-                      </div>
-                      <div>
-                        <div className="text-2xl font-bold text-foreground">
-                          {prediction.riskScore}%
-                        </div>
-                        <div className="text-sm text-muted-foreground">
-                          Score de Risco
-                        </div>
-                      </div>
-                      <div>
-                        <div className="text-2xl font-bold text-foreground">
-                          {prediction.factors.length}
-                        </div>
-                        <div className="text-sm text-muted-foreground">
-                          Fatores de Risco
-                        </div>
-                      </div>
+                <Separator className="my-6" />
+
+                {/* Charts Section */}
+                {criticalLoading ? (
+                  <div className="flex items-center justify-center py-12">
+                    <LoadingSpinner />
+                  </div>
+                ) : criticalData ? (
+                  <div className="space-y-6">
+                    <div className="flex items-center gap-2 mb-4">
+                      <AlertTriangle className="w-5 h-5 text-primary" />
+                      <h2 className="text-xl font-semibold">Métricas Críticas - Últimas {timeRange}</h2>
                     </div>
-                  </CardContent>
-                </Card>
-              </div>
-            ) : (
-              <Card>
-                <CardContent className="py-12 text-center">
-                  <AlertTriangle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                  <h3 className="text-lg font-semibold mb-2">Nenhum dado disponível</h3>
-                  <p className="text-muted-foreground">
-                    Não foi possível carregar os dados críticos para este host.
-                  </p>
-                </CardContent>
-              </Card>
+                
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                      {/* Ping Status Chart */}
+                      {criticalData.metrics.ping.length > 0 && (
+                        <TrendChart
+                          title="Status de Ping"
+                          subtitle={criticalData.sources?.ping?.key}
+                          data={criticalData.metrics.ping}
+                          unit="status"
+                          color="#22c55e"
+                          height={250}
+                        />
+                      )}
+
+                      {/* Latency Chart */}
+                      {criticalData.metrics.latency.length > 0 && (
+                        <TrendChart
+                          title="Latência de Ping"
+                          subtitle={criticalData.sources?.latency?.key}
+                          data={criticalData.metrics.latency}
+                          anomalies={anomaliesByMetric.latency}
+                          forecast={forecastsByMetric.latency}
+                          unit="ms"
+                          color="#3b82f6"
+                          warningThreshold={100}
+                          criticalThreshold={200}
+                          height={250}
+                        />
+                      )}
+
+                      {/* CPU Chart */}
+                      {criticalData.metrics.cpu.length > 0 && (
+                        <TrendChart
+                          title="Uso de CPU"
+                          subtitle={criticalData.sources?.cpu?.key}
+                          data={criticalData.metrics.cpu}
+                          anomalies={anomaliesByMetric.cpu}
+                          unit="%"
+                          color="#f59e0b"
+                          warningThreshold={80}
+                          criticalThreshold={90}
+                          height={250}
+                        />
+                      )}
+
+                      {/* Memory Chart */}
+                      {criticalData.metrics.memory.length > 0 && (
+                        <TrendChart
+                          title="Uso de Memória"
+                          subtitle={criticalData.sources?.memory?.key}
+                          data={criticalData.metrics.memory}
+                          anomalies={anomaliesByMetric.memory}
+                          forecast={forecastsByMetric.memory}
+                          unit="%"
+                          color="#8b5cf6"
+                          warningThreshold={85}
+                          criticalThreshold={95}
+                          height={250}
+                        />
+                      )}
+
+                      {/* Disk Chart (stored history, for the multi-day trend) */}
+                      {disk.length > 0 && (
+                        <TrendChart
+                          title="Uso de Disco - 7 dias"
+                          data={disk}
+                          unit="%"
+                          color="#14b8a6"
+                          warningThreshold={80}
+                          criticalThreshold={90}
+                          height={250}
+                          forecast={forecastsByMetric.disk}
+                        />
+                      )}
+                    </div>
+
+                    {/* Summary Stats */}
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-lg">Resumo da Análise</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                          <div>
+                            <div className="text-2xl font-bold text-foreground">
+                              {criticalData.metrics.ping.length}
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              Pontos de Ping
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-2xl font-bold text-foreground">
+                              {criticalData.metrics.latency.length}
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              Pontos de Latência
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-2xl font-bold text-foreground">
+                              {prediction.riskScore}%
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              Score de Risco
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-2xl font-bold text-foreground">
+                              {prediction.factors.length}
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              Fatores de Risco
+                            </div>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </div>
+                ) : (
+                  <Card>
+                    <CardContent className="py-12 text-center">
+                      <AlertTriangle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                      <h3 className="text-lg font-semibold mb-2">Nenhum dado disponível</h3>
+                      <p className="text-muted-foreground">
+                        Não foi possível carregar os dados críticos para este host.
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+              </>
             )}
-          </>
-        )}
+          </TabsContent>
+
+          <TabsContent value="backtest">
+            <PredictionBacktest hosts={hosts || []} selectedHost={selectedHostData} />
+          </TabsContent>
+        </Tabs>
       </div>
+
+      <PredictionProfileEditor
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        activeProfile={activeProfile}
+        metrics={criticalData?.metrics ?? null}
+        wireless={wireless}
+        hostKey={selectedHostData ? selectedHost : undefined}
+        hostName={selectedHostData?.name}
+      />
     </div>
   );
 }
\ No newline at end of file
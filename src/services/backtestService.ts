@@ -0,0 +1,129 @@
+import {
+  BacktestOptions,
+  BacktestProblem,
+  BacktestSummary,
+  HostBacktest,
+  replayHost,
+  summarizeBacktest
+} from '@shared/backtest';
+import { CriticalSeries, PredictionProfile, resolvePredictionProfile, RiskLevel } from '@shared/prediction';
+import { isSeverity } from '@shared/severity';
+import type { WirelessSeries } from '@shared/wireless';
+import { historyService } from '@/services/historyService';
+import { getHostKey, ZabbixHost } from '@/services/zabbixService';
+
+export type { BacktestOptions, BacktestSummary } from '@shared/backtest';
+
+// Hosts de um backtest; cada um reprocessa dias de amostras no navegador
+export const MAX_BACKTEST_HOSTS = 25;
+
+// Hosts buscados ao mesmo tempo
+const FETCH_CONCURRENCY = 4;
+
+export interface BacktestRequest {
+  hosts: Pick<ZabbixHost, 'instance' | 'id' | 'name' | 'groups'>[];
+  profiles: PredictionProfile[];
+  days: number;
+  options: BacktestOptions;
+  alarmLevel: RiskLevel;
+}
+
+export interface ProfileBacktest {
+  // null: cada host com o perfil atribuído a ele
+  profileId: string | null;
+  name: string;
+  summary: BacktestSummary;
+}
+
+export interface BacktestReport {
+  ranAt: string;
+  // Hosts sem amostras armazenadas no período ficam de fora
+  hosts: number;
+  hostsWithoutData: string[];
+  results: ProfileBacktest[];
+}
+
+interface HostHistory {
+  host: BacktestRequest['hosts'][number];
+  metrics: CriticalSeries;
+  wireless: WirelessSeries;
+  problems: BacktestProblem[];
+}
+
+/**
+ * Serviço de backtest da previsão de instabilidade: reprocessa o histórico
+ * gravado pelo metric-sampler com cada perfil e compara os alarmes com os
+ * problemas registrados no Zabbix
+ */
+export class BacktestService {
+  /**
+   * Executa o backtest com o perfil atribuído a cada host e com cada perfil
+   * aplicado a todos os hosts
+   * @param request Hosts (no máximo MAX_BACKTEST_HOSTS), perfis, período em dias, opções e nível de alarme
+   * @returns Promise<BacktestReport> Métricas por perfil, o atribuído primeiro
+   */
+  async run(request: BacktestRequest): Promise<BacktestReport> {
+    try {
+      const timeTill = Math.floor(Date.now() / 1000);
+      const timeFrom = timeTill - request.days * 86400;
+      const hosts = request.hosts.slice(0, MAX_BACKTEST_HOSTS);
+
+      const histories: HostHistory[] = [];
+      for (let i = 0; i < hosts.length; i += FETCH_CONCURRENCY) {
+        histories.push(...await Promise.all(hosts.slice(i, i + FETCH_CONCURRENCY).map(async host => {
+          const [metrics, wireless, problems] = await Promise.all([
+            historyService.getStoredCriticalSeries(host.instance, host.id, timeFrom, timeTill),
+            historyService.getWirelessSeries(host.instance, host.id, timeFrom, timeTill),
+            historyService.getProblemHistory(host.instance, host.name, timeFrom)
+          ]);
+          return {
+            host,
+            metrics,
+            wireless,
+            problems: problems.map(problem => ({
+              startedAt: new Date(problem.startedAt).getTime(),
+              resolvedAt: problem.resolvedAt ? new Date(problem.resolvedAt).getTime() : null,
+              severity: isSeverity(problem.severity) ? problem.severity : 'not_classified'
+            }))
+          };
+        })));
+      }
+
+      const withData = histories.filter(({ metrics }) =>
+        metrics.ping.length + metrics.latency.length + metrics.cpu.length + metrics.memory.length > 0
+      );
+      const replay = (profileFor: (host: HostHistory['host']) => PredictionProfile): HostBacktest[] =>
+        withData.map(({ host, metrics, wireless, problems }) =>
+          replayHost(metrics, problems, profileFor(host), request.options, wireless)
+        );
+
+      const results: ProfileBacktest[] = [
+        {
+          profileId: null,
+          name: 'Perfil atribuído',
+          summary: summarizeBacktest(
+            replay(host => resolvePredictionProfile(request.profiles, { key: getHostKey(host), groups: host.groups })),
+            request.alarmLevel
+          )
+        },
+        ...request.profiles.map(profile => ({
+          profileId: profile.id,
+          name: profile.name,
+          summary: summarizeBacktest(replay(() => profile), request.alarmLevel)
+        }))
+      ];
+
+      return {
+        ranAt: new Date().toISOString(),
+        hosts: withData.length,
+        hostsWithoutData: histories.filter(history => !withData.includes(history)).map(({ host }) => host.name),
+        results
+      };
+    } catch (error) {
+      console.error('Erro ao executar backtest da previsão:', error);
+      throw error;
+    }
+  }
+}
+
+export const backtestService = new BacktestService();
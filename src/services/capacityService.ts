@@ -0,0 +1,54 @@
+import { supabase } from '@/integrations/supabase/client';
+import { CapacityItemSeries, CapacityPlan, planCapacity } from '@shared/capacity';
+
+export type { CapacityKind, CapacityPlan, CapacityResource } from '@shared/capacity';
+export { CAPACITY_THRESHOLDS } from '@shared/capacity';
+
+// Linhas por página; a API corta respostas maiores que 1000 linhas
+const PAGE_SIZE = 1000;
+
+/**
+ * Serviço de planejamento de capacidade: lê o agregado diário do histórico
+ * (capacity_series) e projeta quando discos, memória e enlaces atingem o limite
+ */
+export class CapacityService {
+  /**
+   * Busca as séries diárias de toda a frota e calcula as previsões
+   * @param days Dias de histórico usados na tendência
+   * @returns Promise<CapacityPlan> Recursos ordenados pelo prazo até o limite
+   */
+  async getPlan(days: number): Promise<CapacityPlan> {
+    try {
+      const items: CapacityItemSeries[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .rpc('capacity_series', { p_days: days })
+          .order('item_id')
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+
+        items.push(...(data ?? []).map(row => ({
+          instance: row.instance,
+          hostId: row.host_id,
+          hostName: row.host_name,
+          groups: row.groups ?? [],
+          itemId: row.item_id,
+          metric: row.metric,
+          key: row.item_key,
+          name: row.item_name,
+          units: row.units,
+          days: row.days,
+          values: row.p95_values
+        })));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+
+      return planCapacity(items);
+    } catch (error) {
+      console.error('Erro ao buscar planejamento de capacidade:', error);
+      throw error;
+    }
+  }
+}
+
+export const capacityService = new CapacityService();
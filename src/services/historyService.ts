@@ -0,0 +1,385 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { CriticalSeries, RiskLevel } from '@shared/prediction';
+import { ANOMALY_METRICS, AnomalyMetric, SeasonalBaseline, seasonalBaselines } from '@shared/anomaly';
+import type { CanonicalMetric } from '@shared/metricProfiles';
+import { WIRELESS_METRICS, WirelessMetric, WirelessSeries } from '@shared/wireless';
+import type { ZabbixHost } from '@/services/zabbixService';
+
+// Linhas por página; a API corta respostas maiores que 1000 linhas
+const PAGE_SIZE = 1000;
+
+// Ponto agregado do histórico armazenado; timestamp em ms, como ZabbixHistoryData
+export interface StoredMetricPoint {
+  timestamp: number;
+  value: number;
+  min: number;
+  max: number;
+  samples: number;
+}
+
+// Métrica canônica com amostras armazenadas para um host
+export interface SampledMetric {
+  metric: CanonicalMetric;
+  itemId: string;
+  units: string;
+  firstSampledAt: string;
+  lastSampledAt: string;
+  samples: number;
+}
+
+// Score de instabilidade agregado por intervalo; timestamp em ms
+export interface StoredRiskPoint {
+  timestamp: number;
+  score: number;
+  maxScore: number;
+  // Pior nível de risco no intervalo
+  riskLevel: RiskLevel;
+  samples: number;
+}
+
+export interface StoredPrediction {
+  computedAt: string;
+  riskLevel: RiskLevel;
+  riskScore: number;
+  etaMinutes: number | null;
+  factors: string[];
+  recommendation: string;
+  // Perfil de previsão usado no cálculo
+  profile: string;
+}
+
+// Última previsão de um host, calculada pelo metric-sampler
+export interface HostRisk extends StoredPrediction {
+  instance: string;
+  hostId: string;
+  name: string;
+  host: string;
+  available: ZabbixHost['available'];
+  groups: string[];
+}
+
+export interface StoredProblem {
+  instance: string;
+  triggerId: string;
+  eventId: string | null;
+  host: string;
+  title: string;
+  severity: string;
+  priority: string;
+  startedAt: string;
+  resolvedAt: string | null;
+  acknowledged: boolean;
+}
+
+/**
+ * Serviço de leitura do histórico de longo prazo gravado no Postgres pela
+ * função metric-sampler. Independe da retenção de history/trends do Zabbix
+ */
+export class HistoryService {
+  /**
+   * Lista as métricas que têm amostras armazenadas para o host
+   * @param instance Instância Zabbix do host
+   * @param hostId ID do host
+   * @returns Promise<SampledMetric[]> Métricas, com o item da amostra mais recente
+   */
+  async getSampledMetrics(instance: string, hostId: string): Promise<SampledMetric[]> {
+    try {
+      const { data, error } = await supabase.rpc('host_sampled_metrics', {
+        p_instance: instance,
+        p_host_id: hostId
+      });
+      if (error) throw error;
+
+      return (data ?? []).map(row => ({
+        metric: row.metric as CanonicalMetric,
+        itemId: row.item_id,
+        units: row.units,
+        firstSampledAt: row.first_sampled_at,
+        lastSampledAt: row.last_sampled_at,
+        samples: row.samples
+      }));
+    } catch (error) {
+      console.error('Erro ao buscar métricas armazenadas:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Busca a série armazenada de uma métrica agregada em intervalos fixos
+   * @param instance Instância Zabbix do host
+   * @param hostId ID do host
+   * @param metric Métrica canônica
+   * @param timeFrom Unix timestamp inicial (segundos)
+   * @param timeTill Unix timestamp final (segundos)
+   * @param bucketSeconds Tamanho de cada intervalo de agregação
+   * @param itemId Item da métrica; um host pode ter itens da mesma métrica em unidades diferentes
+   * @returns Promise<StoredMetricPoint[]> Média, mínimo e máximo por intervalo, na unidade do item
+   */
+  async getMetricSeries(
+    instance: string,
+    hostId: string,
+    metric: CanonicalMetric,
+    timeFrom: number,
+    timeTill: number,
+    bucketSeconds: number,
+    itemId?: string
+  ): Promise<StoredMetricPoint[]> {
+    try {
+      const { data, error } = await supabase.rpc('metric_series', {
+        p_instance: instance,
+        p_host_id: hostId,
+        p_metric: metric,
+        p_from: new Date(timeFrom * 1000).toISOString(),
+        p_to: new Date(timeTill * 1000).toISOString(),
+        p_bucket_seconds: bucketSeconds,
+        p_item_id: itemId
+      });
+      if (error) throw error;
+
+      return (data ?? []).map(row => ({
+        timestamp: new Date(row.bucket).getTime(),
+        value: row.avg_value,
+        min: row.min_value,
+        max: row.max_value,
+        samples: row.samples
+      }));
+    } catch (error) {
+      console.error('Erro ao buscar série armazenada:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Busca a linha de base sazonal (dia da semana e hora, UTC) das métricas
+   * usadas pela detecção de anomalias
+   * @param instance Instância Zabbix do host
+   * @param hostId ID do host
+   * @param days Dias de histórico considerados
+   * @returns Promise<Partial<Record<AnomalyMetric, SeasonalBaseline>>> Linha de base por métrica com amostras
+   */
+  async getMetricBaselines(
+    instance: string,
+    hostId: string,
+    days = 28
+  ): Promise<Partial<Record<AnomalyMetric, SeasonalBaseline>>> {
+    try {
+      const { data, error } = await supabase.rpc('metric_baseline', {
+        p_instance: instance,
+        p_host_id: hostId,
+        p_metrics: [...ANOMALY_METRICS],
+        p_days: days
+      });
+      if (error) throw error;
+
+      return seasonalBaselines(data ?? []);
+    } catch (error) {
+      console.error('Erro ao buscar linha de base das métricas:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Busca as séries críticas armazenadas (uma amostra por minuto), no formato
+   * de get-critical-history, para reprocessar a previsão
+   * @param instance Instância Zabbix do host
+   * @param hostId ID do host
+   * @param timeFrom Unix timestamp inicial (segundos)
+   * @param timeTill Unix timestamp final (segundos)
+   * @returns Promise<CriticalSeries> Séries em ordem cronológica; vazias sem amostras
+   */
+  async getStoredCriticalSeries(instance: string, hostId: string, timeFrom: number, timeTill: number): Promise<CriticalSeries> {
+    try {
+      const { data, error } = await supabase.rpc('host_metric_samples', {
+        p_instance: instance,
+        p_host_id: hostId,
+        p_metrics: ['ping', 'latency', 'cpu', 'memory'],
+        p_from: new Date(timeFrom * 1000).toISOString(),
+        p_to: new Date(timeTill * 1000).toISOString()
+      });
+      if (error) throw error;
+
+      const series: CriticalSeries = { ping: [], latency: [], cpu: [], memory: [], timestamps: [] };
+      for (const row of data ?? []) {
+        if (row.metric !== 'ping' && row.metric !== 'latency' && row.metric !== 'cpu' && row.metric !== 'memory') continue;
+        series[row.metric] = row.sampled_at.map((sampledAt, index) => ({
+          timestamp: new Date(sampledAt).getTime(),
+          value: row.value[index]
+        }));
+      }
+      return series;
+    } catch (error) {
+      console.error('Erro ao buscar séries críticas armazenadas:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Busca as amostras de RF armazenadas (sinal, ruído, SNR, CCQ, taxas...),
+   * gravadas a cada execução do sampler
+   * @param instance Instância Zabbix do host
+   * @param hostId ID do host
+   * @param timeFrom Unix timestamp inicial (segundos)
+   * @param timeTill Unix timestamp final (segundos)
+   * @returns Promise<WirelessSeries> Séries em ordem cronológica, só das métricas com amostras
+   */
+  async getWirelessSeries(instance: string, hostId: string, timeFrom: number, timeTill: number): Promise<WirelessSeries> {
+    try {
+      const { data, error } = await supabase.rpc('host_metric_samples', {
+        p_instance: instance,
+        p_host_id: hostId,
+        p_metrics: [...WIRELESS_METRICS],
+        p_from: new Date(timeFrom * 1000).toISOString(),
+        p_to: new Date(timeTill * 1000).toISOString()
+      });
+      if (error) throw error;
+
+      const series: WirelessSeries = {};
+      for (const row of data ?? []) {
+        if (!(WIRELESS_METRICS as readonly string[]).includes(row.metric)) continue;
+        series[row.metric as WirelessMetric] = row.sampled_at.map((sampledAt, index) => ({
+          timestamp: new Date(sampledAt).getTime(),
+          value: row.value[index]
+        }));
+      }
+      return series;
+    } catch (error) {
+      console.error('Erro ao buscar amostras do enlace sem fio:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Busca o score das previsões calculadas a cada execução do sampler,
+   * agregado em intervalos fixos como a série das métricas
+   * @param instance Instância Zabbix do host
+   * @param hostId ID do host
+   * @param timeFrom Unix timestamp inicial (segundos)
+   * @param timeTill Unix timestamp final (segundos)
+   * @param bucketSeconds Tamanho de cada intervalo de agregação
+   * @returns Promise<StoredRiskPoint[]> Score médio e máximo por intervalo, em ordem cronológica
+   */
+  async getPredictionHistory(
+    instance: string,
+    hostId: string,
+    timeFrom: number,
+    timeTill: number,
+    bucketSeconds: number
+  ): Promise<StoredRiskPoint[]> {
+    try {
+      const { data, error } = await supabase.rpc('prediction_series', {
+        p_instance: instance,
+        p_host_id: hostId,
+        p_from: new Date(timeFrom * 1000).toISOString(),
+        p_to: new Date(timeTill * 1000).toISOString(),
+        p_bucket_seconds: bucketSeconds
+      });
+      if (error) throw error;
+
+      return (data ?? []).map(row => ({
+        timestamp: new Date(row.bucket).getTime(),
+        score: row.avg_score,
+        maxScore: row.max_score,
+        riskLevel: row.max_risk_level as RiskLevel,
+        samples: row.samples
+      }));
+    } catch (error) {
+      console.error('Erro ao buscar histórico de previsões:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Busca a previsão mais recente de cada host da frota, ordenada por risco:
+   * maior score primeiro e, no empate, menor ETA (sem ETA por último)
+   * @returns Promise<HostRisk[]> Ranking da frota
+   */
+  async getFleetRanking(): Promise<HostRisk[]> {
+    try {
+      const rows: Tables<'host_risk_ranking'>[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('host_risk_ranking')
+          .select('*')
+          .order('instance')
+          .order('host_id')
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+
+        rows.push(...(data ?? []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+
+      return rows
+        .map(row => ({
+          instance: row.instance ?? '',
+          hostId: row.host_id ?? '',
+          name: row.name ?? '',
+          host: row.host ?? '',
+          available: (row.available ?? 'unknown') as ZabbixHost['available'],
+          groups: row.groups ?? [],
+          computedAt: row.computed_at ?? '',
+          riskLevel: (row.risk_level ?? 'low') as RiskLevel,
+          riskScore: row.risk_score ?? 0,
+          etaMinutes: row.eta_minutes,
+          factors: row.factors ?? [],
+          recommendation: row.recommendation ?? '',
+          profile: row.profile ?? ''
+        }))
+        .sort((a, b) =>
+          b.riskScore - a.riskScore ||
+          (a.etaMinutes ?? Infinity) - (b.etaMinutes ?? Infinity) ||
+          a.name.localeCompare(b.name)
+        );
+    } catch (error) {
+      console.error('Erro ao buscar ranking de instabilidade:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Busca os problemas registrados de um host, inclusive os já resolvidos
+   * @param instance Instância Zabbix do host
+   * @param host Nome visível do host, como em ZabbixAlert.host
+   * @param timeFrom Unix timestamp inicial (segundos)
+   * @returns Promise<StoredProblem[]> Problemas, mais recentes primeiro
+   */
+  async getProblemHistory(instance: string, host: string, timeFrom: number): Promise<StoredProblem[]> {
+    try {
+      const rows: Tables<'zabbix_problems'>[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('zabbix_problems')
+          .select('*')
+          .eq('instance', instance)
+          .eq('host', host)
+          .gte('started_at', new Date(timeFrom * 1000).toISOString())
+          .order('started_at', { ascending: false })
+          .order('trigger_id')
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+
+        rows.push(...(data ?? []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+
+      return rows.map(row => ({
+        instance: row.instance,
+        triggerId: row.trigger_id,
+        eventId: row.event_id,
+        host: row.host,
+        title: row.title,
+        severity: row.severity,
+        priority: row.priority,
+        startedAt: row.started_at,
+        resolvedAt: row.resolved_at,
+        acknowledged: row.acknowledged
+      }));
+    } catch (error) {
+      console.error('Erro ao buscar histórico de problemas:', error);
+      throw error;
+    }
+  }
+}
+
+export const historyService = new HistoryService();
@@ -0,0 +1,84 @@
+import { supabase } from '@/integrations/supabase/client';
+import { PredictionProfileSchema } from '@shared/contract';
+import { mergePredictionProfiles, PredictionProfile } from '@shared/prediction';
+
+export type { PredictionProfile } from '@shared/prediction';
+
+/**
+ * Serviço dos perfis de previsão (pesos e limiares do cálculo de risco)
+ * Perfis gravados em prediction_profiles substituem o embutido de mesmo id;
+ * a gravação exige usuário administrador (RLS), e o banco recusa grupos com
+ * expressão regular inválida
+ */
+export class PredictionProfileService {
+  /**
+   * Lista os perfis embutidos combinados com os gravados
+   * Perfis gravados fora do contrato são ignorados, como faz o metric-sampler
+   * @returns Promise<PredictionProfile[]> Perfis, com o padrão por último
+   */
+  async getProfiles(): Promise<PredictionProfile[]> {
+    try {
+      const { data, error } = await supabase.from('prediction_profiles').select('*');
+      if (error) throw error;
+
+      const stored: PredictionProfile[] = [];
+      for (const row of data) {
+        const parsed = PredictionProfileSchema.safeParse({
+          id: row.id,
+          name: row.name,
+          description: row.description ?? undefined,
+          hosts: row.hosts,
+          hostGroups: row.host_groups,
+          weights: row.weights,
+          thresholds: row.thresholds
+        });
+        if (parsed.success) stored.push(parsed.data);
+        else console.error(`Perfil de previsão inválido ignorado: ${row.id}`, parsed.error.issues);
+      }
+      return mergePredictionProfiles(stored);
+    } catch (error) {
+      console.error('Erro ao buscar perfis de previsão:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Grava um perfil; o mesmo id de um perfil embutido o substitui
+   * @param profile Perfil validado contra o contrato antes de gravar
+   */
+  async saveProfile(profile: PredictionProfile): Promise<void> {
+    try {
+      const parsed = PredictionProfileSchema.parse(profile);
+      const { error } = await supabase.from('prediction_profiles').upsert({
+        id: parsed.id,
+        name: parsed.name,
+        description: parsed.description ?? null,
+        hosts: parsed.hosts ?? [],
+        host_groups: parsed.hostGroups ?? [],
+        weights: parsed.weights,
+        thresholds: parsed.thresholds,
+        updated_at: new Date().toISOString()
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Erro ao salvar perfil de previsão:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove um perfil gravado; para um perfil embutido, restaura os valores originais
+   * @param id Id do perfil
+   */
+  async deleteProfile(id: string): Promise<void> {
+    try {
+      const { error } = await supabase.from('prediction_profiles').delete().eq('id', id);
+      if (error) throw error;
+    } catch (error) {
+      console.error('Erro ao remover perfil de previsão:', error);
+      throw error;
+    }
+  }
+}
+
+export const predictionProfileService = new PredictionProfileService();
@@ -1,89 +1,164 @@
 import { supabase } from '@/integrations/supabase/client';
+import {
+  NOTIFICATION_CHANNEL,
+  NOTIFICATION_EVENT,
+  parseLiveEvent,
+  ProxyEnvelopeSchema,
+  validateResponse,
+  WebhookNotificationSchema,
+} from '@shared/contract';
+import type { MetricProfile } from '@shared/metricProfiles';
+import type {
+  AcknowledgeRequest,
+  AcknowledgeResult,
+  ActionParams,
+  ActionResponse,
+  CriticalHistoryResponse,
+  CriticalTimeRange,
+  HostDetails,
+  LiveEvent,
+  ProxyAction,
+  WebhookNotification,
+  ZabbixAlert,
+  ZabbixEvent,
+  ZabbixHistoryData,
+  ZabbixHost,
+  ZabbixHostGraphs,
+  ZabbixInstance,
+  ZabbixLatestValuesResponse,
+  ZabbixMetric,
+  ZabbixTextHistoryData,
+} from '@shared/contract';
 
 /**
- * Interfaces para dados do Zabbix
+ * Tipos dos dados do Zabbix, inferidos dos schemas do contrato compartilhado com o proxy
  */
-export interface ZabbixHost {
-  id: string;
-  name: string;
-  host: string;
-  status: 'enabled' | 'disabled';
-  available: 'online' | 'offline' | 'unknown';
-  ip: string;
-  dns: string;
-  groups: string[];
+export type {
+  AcknowledgeRequest,
+  AcknowledgeResult,
+  Availability,
+  CriticalHistoryResponse,
+  CriticalMetrics,
+  CriticalMetricSource,
+  CriticalTimeRange,
+  HostDetails,
+  LiveDelta,
+  LiveEvent,
+  LiveSource,
+  WebhookNotification,
+  ZabbixAcknowledge,
+  ZabbixAlert,
+  ZabbixEvent,
+  ZabbixGraph,
+  ZabbixGraphItem,
+  ZabbixHistoryData,
+  ZabbixHost,
+  ZabbixHostGraphs,
+  ZabbixInstance,
+  ZabbixLatestValue,
+  ZabbixLatestValuesResponse,
+  ZabbixMetric,
+  ZabbixTextHistoryData,
+} from '@shared/contract';
+
+export interface EventRange {
+  timeFrom: number; // Unix timestamp (segundos)
+  timeTill: number;
 }
 
-export interface ZabbixAlert {
-  id: string;
-  title: string;
-  host: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  timestamp: string;
-  description: string;
-  acknowledged: boolean;
+export interface LiveHandlers {
+  onEvent: (event: LiveEvent) => void;
+  onNotification: (notification: WebhookNotification) => void; // Enviadas pelo webhook do Zabbix
+  onStatus: (connected: boolean) => void; // Avisa quando o canal conecta ou cai
 }
 
-export interface ZabbixMetric {
-  hostId: string;
-  hostName: string;
-  hostHost?: string;
-  hostStatus?: 'enabled' | 'disabled';
-  hostAvailable?: 'online' | 'offline' | 'unknown';
-  hostIp?: string;
-  itemId: string;
-  name: string;
-  key: string;
-  value: string;
-  units: string;
-  type: string;
-  lastUpdate?: string;
-}
-
-export interface ZabbixHistoryData {
-  timestamp: number;
-  value: number;
-}
+// Espera entre tentativas de reconexão do canal ao vivo (ms), dobrando a cada falha
+const LIVE_RETRY_MIN = 1000;
+const LIVE_RETRY_MAX = 30000;
 
-export interface CriticalMetrics {
-  ping: ZabbixHistoryData[];
-  latency: ZabbixHistoryData[];
-  cpu: ZabbixHistoryData[];
-  memory: ZabbixHistoryData[];
-  timestamps: number[];
+export interface EventFilters {
+  instance?: string;
+  hostIds?: string[]; // Exige instance quando há mais de uma instância configurada
 }
 
-export interface CriticalHistoryResponse {
-  hostId: string;
-  timeRange: string;
-  metrics: CriticalMetrics;
-  generatedAt: string;
-}
+/**
+ * Chave única de um host entre todas as instâncias Zabbix
+ * (IDs do Zabbix só são únicos dentro de uma instância)
+ */
+export const getHostKey = (host: { instance?: string; id: string }): string =>
+  `${host.instance ?? ''}:${host.id}`;
 
 /**
  * Serviço para integração com Zabbix via Supabase Edge Functions
- * Todas as operações são READ-ONLY para garantir segurança
+ * As leituras são READ-ONLY; a única escrita (acknowledgeEvent) passa por uma
+ * rota separada do proxy que exige usuário autorizado e registra auditoria
  */
 export class ZabbixService {
   /**
-   * Busca lista de hosts do Zabbix
-   * @returns Promise<ZabbixHost[]> Lista de hosts
+   * Chama uma ação do proxy e valida a resposta contra o contrato compartilhado
+   * Respostas fora do contrato viram erro aqui, antes de chegar aos componentes
+   * @param action Ação do proxy
+   * @param params Parâmetros da ação
+   * @returns Promise<ActionResponse<A>> Dados validados e tipados
    */
-  async getHosts(): Promise<ZabbixHost[]> {
-    try {
-      const { data: result, error } = await supabase.functions.invoke('zabbix-proxy', {
-        body: { action: 'get-hosts' }
-      });
+  private async invoke<A extends ProxyAction>(action: A, params: ActionParams<A>): Promise<ActionResponse<A>> {
+    const { data: result, error } = await supabase.functions.invoke('zabbix-proxy', {
+      body: { action, ...params }
+    });
+
+    if (error) {
+      // Respostas 4xx/5xx trazem o motivo no corpo
+      const details = await error.context?.json?.().catch(() => null);
+      throw new Error(details?.error || `Supabase function error: ${error.message}`);
+    }
 
-      if (error) {
-        throw new Error(`Supabase function error: ${error.message}`);
-      }
+    const envelope = ProxyEnvelopeSchema.safeParse(result);
+    if (!envelope.success) {
+      throw new Error(`Resposta inesperada do proxy para ${action}`);
+    }
 
-      if (!result.success) {
-        throw new Error(result.error || 'Unknown error from Zabbix proxy');
-      }
+    if (!envelope.data.success) {
+      throw new Error(envelope.data.error || 'Unknown error from Zabbix proxy');
+    }
+
+    return validateResponse(action, envelope.data.data);
+  }
 
-      return result.data;
+  /**
+   * Lista as instâncias Zabbix configuradas no proxy
+   * @returns Promise<ZabbixInstance[]> Instâncias disponíveis
+   */
+  async getInstances(): Promise<ZabbixInstance[]> {
+    try {
+      return await this.invoke('get-instances', {});
+    } catch (error) {
+      console.error('Erro ao buscar instâncias:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lista os perfis de mapeamento de métricas ativos no proxy
+   * (perfis embutidos mesclados com a configuração METRIC_PROFILES)
+   * @returns Promise<MetricProfile[]> Perfis em ordem de resolução
+   */
+  async getMetricProfiles(): Promise<MetricProfile[]> {
+    try {
+      return await this.invoke('get-metric-profiles', {});
+    } catch (error) {
+      console.error('Erro ao buscar perfis de métricas:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Busca lista de hosts do Zabbix
+   * @param instance Instância Zabbix (opcional, padrão: todas)
+   * @returns Promise<ZabbixHost[]> Lista de hosts
+   */
+  async getHosts(instance?: string): Promise<ZabbixHost[]> {
+    try {
+      return await this.invoke('get-hosts', { instance });
     } catch (error) {
       console.error('Erro ao buscar hosts:', error);
       throw error;
@@ -92,23 +167,12 @@ export class ZabbixService {
 
   /**
    * Busca alertas ativos do Zabbix
+   * @param instance Instância Zabbix (opcional, padrão: todas)
    * @returns Promise<ZabbixAlert[]> Lista de alertas
    */
-  async getAlerts(): Promise<ZabbixAlert[]> {
+  async getAlerts(instance?: string): Promise<ZabbixAlert[]> {
     try {
-      const { data: result, error } = await supabase.functions.invoke('zabbix-proxy', {
-        body: { action: 'get-alerts' }
-      });
-
-      if (error) {
-        throw new Error(`Supabase function error: ${error.message}`);
-      }
-
-      if (!result.success) {
-        throw new Error(result.error || 'Unknown error from Zabbix proxy');
-      }
-
-      return result.data;
+      return await this.invoke('get-alerts', { instance });
     } catch (error) {
       console.error('Erro ao buscar alertas:', error);
       throw error;
@@ -116,28 +180,34 @@ export class ZabbixService {
   }
 
   /**
-   * Busca métricas específicas do Zabbix
-   * @param hostIds IDs dos hosts (opcional)
-   * @returns Promise<ZabbixMetric[]> Lista de métricas
+   * Busca eventos de problema (e suas recuperações) ativos em algum momento da janela
+   * @param range Janela de tempo em Unix timestamp
+   * @param filters Instância e hosts (opcional)
+   * @returns Promise<ZabbixEvent[]> Eventos do mais recente para o mais antigo
    */
-  async getMetrics(hostIds?: string[]): Promise<ZabbixMetric[]> {
+  async getEvents(range: EventRange, filters: EventFilters = {}): Promise<ZabbixEvent[]> {
     try {
-      const { data: result, error } = await supabase.functions.invoke('zabbix-proxy', {
-        body: { 
-          action: 'get-metrics',
-          hostIds 
-        }
+      return await this.invoke('get-events', {
+        timeFrom: range.timeFrom,
+        timeTill: range.timeTill,
+        hostIds: filters.hostIds,
+        instance: filters.instance
       });
+    } catch (error) {
+      console.error('Erro ao buscar eventos:', error);
+      throw error;
+    }
+  }
 
-      if (error) {
-        throw new Error(`Supabase function error: ${error.message}`);
-      }
-
-      if (!result.success) {
-        throw new Error(result.error || 'Unknown error from Zabbix proxy');
-      }
-
-      return result.data;
+  /**
+   * Busca métricas específicas do Zabbix
+   * @param hostIds IDs dos hosts (opcional; exige instance quando há mais de uma instância configurada)
+   * @param instance Instância Zabbix (opcional, padrão: todas)
+   * @returns Promise<ZabbixMetric[]> Lista de métricas
+   */
+  async getMetrics(hostIds?: string[], instance?: string): Promise<ZabbixMetric[]> {
+    try {
+      return await this.invoke('get-metrics', { hostIds, instance });
     } catch (error) {
       console.error('Erro ao buscar métricas:', error);
       throw error;
@@ -149,30 +219,54 @@ export class ZabbixService {
    * @param itemId ID do item
    * @param timeFrom Timestamp inicial
    * @param timeTill Timestamp final
+   * @param instance Instância Zabbix do item
+   * @param maxPoints Número máximo de pontos após downsampling no servidor
    * @returns Promise<ZabbixHistoryData[]> Dados históricos
    */
-  async getHistoryData(itemId: string, timeFrom: number, timeTill: number): Promise<ZabbixHistoryData[]> {
+  async getHistoryData(
+    itemId: string,
+    timeFrom: number,
+    timeTill: number,
+    instance?: string,
+    maxPoints?: number
+  ): Promise<ZabbixHistoryData[]> {
     try {
-      const { data: result, error } = await supabase.functions.invoke('zabbix-proxy', {
-        body: { 
-          action: 'get-history',
-          itemId, 
-          timeFrom, 
-          timeTill 
-        }
-      });
-
-      if (error) {
-        throw new Error(`Supabase function error: ${error.message}`);
+      const points = await this.invoke('get-history', { itemId, timeFrom, timeTill, instance, maxPoints });
+      if (!isNumericHistory(points)) {
+        throw new Error(`Item ${itemId} não é numérico; use getTextHistoryData`);
       }
+      return points;
+    } catch (error) {
+      console.error('Erro ao buscar dados históricos:', error);
+      throw error;
+    }
+  }
 
-      if (!result.success) {
-        throw new Error(result.error || 'Unknown error from Zabbix proxy');
+  /**
+   * Busca histórico de itens de texto, caractere ou log
+   * O proxy detecta o value_type do item e retorna apenas as mudanças de valor
+   * @param itemId ID do item
+   * @param timeFrom Timestamp inicial
+   * @param timeTill Timestamp final
+   * @param instance Instância Zabbix do item
+   * @param maxPoints Número máximo de valores mais recentes
+   * @returns Promise<ZabbixTextHistoryData[]> Valores em ordem cronológica
+   */
+  async getTextHistoryData(
+    itemId: string,
+    timeFrom: number,
+    timeTill: number,
+    instance?: string,
+    maxPoints?: number
+  ): Promise<ZabbixTextHistoryData[]> {
+    try {
+      const points = await this.invoke('get-history', { itemId, timeFrom, timeTill, instance, maxPoints });
+      if (points.length > 0 && isNumericHistory(points)) {
+        throw new Error(`Item ${itemId} é numérico; use getHistoryData`);
       }
-
-      return result.data;
+      return points as ZabbixTextHistoryData[];
     } catch (error) {
-      console.error('Erro ao buscar dados históricos:', error);
+      console.error('Erro ao buscar histórico de texto:', error);
       throw error;
     }
   }
@@ -181,27 +275,12 @@ export class ZabbixService {
    * Busca histórico de métricas críticas para análise de instabilidade
    * @param hostId ID do host
    * @param timeRange Período de tempo ('1h', '6h', '24h')
+   * @param instance Instância Zabbix do host
    * @returns Promise<CriticalHistoryResponse> Histórico de métricas críticas
    */
-  async getCriticalHistory(hostId: string, timeRange: string = '1h'): Promise<CriticalHistoryResponse> {
+  async getCriticalHistory(hostId: string, timeRange: CriticalTimeRange = '1h', instance?: string): Promise<CriticalHistoryResponse> {
     try {
-      const { data: result, error } = await supabase.functions.invoke('zabbix-proxy', {
-        body: { 
-          action: 'get-critical-history',
-          hostId,
-          timeRange
-        }
-      });
-
-      if (error) {
-        throw new Error(`Supabase function error: ${error.message}`);
-      }
-
-      if (!result.success) {
-        throw new Error(result.error || 'Unknown error from Zabbix proxy');
-      }
-
-      return result.data;
+      return await this.invoke('get-critical-history', { hostId, timeRange, instance });
     } catch (error) {
       console.error('Erro ao buscar histórico crítico:', error);
       throw error;
@@ -209,100 +288,188 @@ export class ZabbixService {
   }
 
   /**
-   * Busca detalhes completos de um host específico
+   * Lista os gráficos configurados no host e seus itens numéricos
    * @param hostId ID do host
-   * @returns Promise<any> Detalhes do host
+   * @param instance Instância Zabbix do host
+   * @returns Promise<ZabbixHostGraphs> Gráficos e itens plotáveis
    */
-  async getHostDetails(hostId: string): Promise<any> {
+  async getHostGraphs(hostId: string, instance?: string): Promise<ZabbixHostGraphs> {
     try {
-      console.log(`🔹 ZabbixService: Buscando detalhes do host ${hostId}`);
-      
-      // Validar hostId antes de enviar
-      if (!hostId || hostId === 'undefined' || hostId === 'null') {
-        throw new Error(`Host ID inválido: ${hostId}`);
-      }
-
-      const { data: result, error } = await supabase.functions.invoke('zabbix-proxy', {
-        body: { 
-          action: 'get-host-details',
-          hostId 
-        }
-      });
-
-      if (error) {
-        console.error('❌ Erro do Supabase:', error);
-        throw new Error(`Erro de conexão: ${error.message}`);
-      }
-
-      if (!result) {
-        throw new Error('Resposta vazia do servidor');
-      }
-
-      if (!result.success) {
-        console.warn('⚠️ ZabbixService: Resposta parcial ou erro do Zabbix:', result.error);
-        
-        // Se temos dados parciais, retorna com flag de erro
-        if (result.data) {
-          console.log('📦 ZabbixService: Retornando dados parciais com aviso');
-          return {
-            ...result.data,
-            _isPartialData: true,
-            error: result.error || 'Algumas informações podem estar indisponíveis'
-          };
-        }
-        
-        throw new Error(result.error || 'Erro desconhecido do Zabbix');
-      }
+      return await this.invoke('get-host-graphs', { hostId, instance });
+    } catch (error) {
+      console.error('Erro ao buscar gráficos do host:', error);
+      throw error;
+    }
+  }
 
-      console.log(`✅ ZabbixService: Dados do host carregados completamente`);
-      return result.data || {};
+  /**
+   * Busca detalhes completos de um host: interfaces e disponibilidade,
+   * templates, grupos, tags, inventário, macros, itens e problemas ativos
+   * @param hostId ID do host
+   * @param instance Instância Zabbix do host
+   * @returns Promise<HostDetails> Detalhes do host no formato do contrato compartilhado
+   */
+  async getHostDetails(hostId: string, instance?: string): Promise<HostDetails> {
+    try {
+      return await this.invoke('get-host-details', { hostId, instance });
     } catch (error) {
-      console.error('❌ ZabbixService: Erro crítico ao buscar detalhes do host:', error);
-      
-      // Apenas para erros de conectividade real, lance o erro
-      if (error instanceof Error && error.message.includes('Erro de conexão')) {
-        throw error;
-      }
-      
-      // Para outros casos, retorna estrutura mínima com dados básicos
-      return {
-        host: { name: 'Host indisponível', status: 'unknown' },
-        items: [],
-        alerts: [],
-        _isPartialData: true,
-        error: error instanceof Error ? error.message : 'Erro desconhecido'
-      };
+      console.error('Erro ao buscar detalhes do host:', error);
+      throw error;
     }
   }
 
   /**
    * Busca últimos valores de todos os itens de um host
    * @param hostId ID do host
-   * @returns Promise<any> Últimos valores dos itens
+   * @param instance Instância Zabbix do host
+   * @returns Promise<ZabbixLatestValuesResponse> Últimos valores dos itens
    */
-  async getLatestValues(hostId: string): Promise<any> {
+  async getLatestValues(hostId: string, instance?: string): Promise<ZabbixLatestValuesResponse> {
     try {
-      const { data: result, error } = await supabase.functions.invoke('zabbix-proxy', {
-        body: { 
-          action: 'get-latest-values',
-          hostId
+      return await this.invoke('get-latest-values', { hostId, instance });
+    } catch (error) {
+      console.error('Erro ao buscar últimos valores:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reconhece, comenta, altera a severidade ou fecha eventos de problema
+   * Requer usuário autenticado e autorizado no proxy (ZABBIX_WRITE_USERS)
+   * @param request Eventos e ações a aplicar
+   * @returns Promise<AcknowledgeResult> Eventos alterados e ID do registro de auditoria
+   */
+  async acknowledgeEvent(request: AcknowledgeRequest): Promise<AcknowledgeResult> {
+    try {
+      return await this.invoke('acknowledge-event', request);
+    } catch (error) {
+      console.error('Erro ao reconhecer evento:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Abre o canal de atualizações ao vivo do proxy (Server-Sent Events em /v1/stream)
+   * O proxy encerra cada conexão após alguns minutos; a reconexão é automática,
+   * e só uma falha de conexão é informada como queda em onStatus
+   * Notificações do webhook do Zabbix chegam à parte, pelo Supabase Realtime
+   * @param handlers Recebem os eventos validados e o estado do canal
+   * @param instance Restringe o canal a uma instância Zabbix
+   * @returns Função que encerra o canal
+   */
+  subscribeLiveUpdates(handlers: LiveHandlers, instance?: string): () => void {
+    let closed = false;
+    let connected = false;
+    let retryDelay = LIVE_RETRY_MIN;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+    const setConnected = (value: boolean) => {
+      if (connected === value) return;
+      connected = value;
+      handlers.onStatus(value);
+    };
+
+    const connect = async () => {
+      let ended = false;
+      try {
+        const path = instance ? `zabbix-proxy/v1/stream?instance=${encodeURIComponent(instance)}` : 'zabbix-proxy/v1/stream';
+        const { data, error } = await supabase.functions.invoke(path, { method: 'GET' });
+        if (error) throw error;
+        if (!(data instanceof Response) || !data.body) throw new Error('Resposta inesperada do canal ao vivo');
+        if (closed) {
+          await data.body.cancel();
+          return;
         }
-      });
 
-      if (error) {
-        throw new Error(`Supabase function error: ${error.message}`);
+        reader = data.body.getReader();
+        setConnected(true);
+        retryDelay = LIVE_RETRY_MIN;
+
+        await readServerEvents(reader, (event, payload) => {
+          try {
+            handlers.onEvent(parseLiveEvent(event, JSON.parse(payload)));
+          } catch (eventError) {
+            console.error('Erro ao processar evento ao vivo:', eventError);
+          }
+        });
+        ended = true;
+      } catch (error) {
+        if (!closed) console.error('Erro no canal de atualizações ao vivo:', error);
+      } finally {
+        reader = null;
       }
 
-      if (!result.success) {
-        throw new Error(result.error || 'Unknown error from Zabbix proxy');
-      }
+      if (closed) return;
+      // Fim normal da conexão: reconecta já, sem sinalizar queda
+      if (!ended) setConnected(false);
+      retryTimer = setTimeout(connect, ended ? LIVE_RETRY_MIN : retryDelay);
+      if (!ended) retryDelay = Math.min(retryDelay * 2, LIVE_RETRY_MAX);
+    };
+
+    connect();
+
+    const notifications = supabase
+      .channel(NOTIFICATION_CHANNEL)
+      .on('broadcast', { event: NOTIFICATION_EVENT }, ({ payload }) => {
+        const parsed = WebhookNotificationSchema.safeParse(payload);
+        if (!parsed.success) {
+          console.error('Erro ao processar notificação do webhook:', parsed.error.issues);
+          return;
+        }
+        if (!instance || parsed.data.alert.instance === instance) handlers.onNotification(parsed.data);
+      })
+      .subscribe();
+
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      reader?.cancel().catch(() => undefined);
+      supabase.removeChannel(notifications);
+      setConnected(false);
+    };
+  }
+}
 
-      return result.data;
-    } catch (error) {
-      console.error('Erro ao buscar últimos valores:', error);
-      throw error;
+/**
+ * Lê um fluxo Server-Sent Events, entregando nome e dados de cada evento
+ * Comentários (": keep-alive") e campos sem uso (retry, id) são ignorados
+ */
+const readServerEvents = async (
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  onEvent: (event: string, data: string) => void
+): Promise<void> => {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      if (data.length > 0) onEvent(event, data.join('\n'));
     }
   }
-}
+};
+
+/**
+ * Séries numéricas trazem valores number; itens de texto, string
+ */
+const isNumericHistory = (
+  points: ZabbixHistoryData[] | ZabbixTextHistoryData[]
+): points is ZabbixHistoryData[] =>
+  points.every(point => typeof point.value === 'number');
 
-export const zabbixService = new ZabbixService();
\ No newline at end of file
+export const zabbixService = new ZabbixService();
@@ -0,0 +1,359 @@
+/**
+ * Statistical anomaly detection over the critical series of a host, next to
+ * the rule-based predictor in prediction.ts. Rules judge absolute values;
+ * these detectors judge a value against what is normal for that host and
+ * metric, so they also flag deviations that look fine in absolute terms.
+ *
+ * Detectors are pluggable: each one turns a series into anomalies, and
+ * detectAnomalies runs a list of them (DEFAULT_ANOMALY_DETECTORS by default).
+ */
+
+import type { CriticalSeries } from './prediction.ts'
+
+// Ping is a 0/1 status; its deviations are already what the rules score
+export const ANOMALY_METRICS = ['latency', 'cpu', 'memory'] as const
+
+export type AnomalyMetric = (typeof ANOMALY_METRICS)[number]
+
+export type AnomalyKind = 'spike' | 'drop' | 'level-shift'
+
+export interface SeriesPoint {
+  timestamp: number // ms
+  value: number
+}
+
+export interface Anomaly {
+  metric: AnomalyMetric
+  // Id of the detector that found it
+  detector: string
+  kind: AnomalyKind
+  // Span of consecutive anomalous points (ms); equal for a single point
+  start: number
+  end: number
+  // Most deviating point of the span
+  timestamp: number
+  value: number
+  expected: number
+  // Deviation in standard deviations (z-score or t-statistic)
+  score: number
+}
+
+// Mean and deviation of one hour of one weekday, in UTC, from stored samples
+export interface BaselineBucket {
+  dow: number // 0 = Sunday, like Date.getUTCDay
+  hour: number
+  mean: number
+  stddev: number
+  samples: number
+}
+
+interface Stats {
+  mean: number
+  stddev: number
+  samples: number
+}
+
+export interface SeasonalBaseline {
+  byWeekHour: Map<number, Stats>
+  byHour: Map<number, Stats>
+  overall: Stats | null
+}
+
+export interface DetectorContext {
+  metric: AnomalyMetric
+  baseline?: SeasonalBaseline
+}
+
+export interface AnomalyDetector {
+  id: string
+  detect(series: SeriesPoint[], context: DetectorContext): Anomaly[]
+}
+
+// Smallest deviation considered, so flat series do not turn noise into huge scores
+const MIN_DEVIATION: Record<AnomalyMetric, number> = {
+  latency: 2, // ms
+  cpu: 2, // %
+  memory: 1 // %
+}
+
+// Buckets with fewer stored samples (one per minute) fall back to a coarser baseline
+const MIN_BUCKET_SAMPLES = 30
+
+// Points further apart than this many median steps end an anomalous span
+const SPAN_GAP_STEPS = 2
+
+function deviation(stddev: number, mean: number, metric: AnomalyMetric): number {
+  return Math.max(stddev, Math.abs(mean) * 0.05, MIN_DEVIATION[metric])
+}
+
+// Pools bucket statistics through their sums, as if computed over all samples
+function pool(buckets: Stats[]): Stats | null {
+  let n = 0
+  let sum = 0
+  let sumSquares = 0
+  for (const bucket of buckets) {
+    n += bucket.samples
+    sum += bucket.mean * bucket.samples
+    sumSquares += (bucket.samples - 1) * bucket.stddev ** 2 + bucket.samples * bucket.mean ** 2
+  }
+  if (n < MIN_BUCKET_SAMPLES) return null
+  const mean = sum / n
+  return { mean, stddev: Math.sqrt(Math.max(0, (sumSquares - n * mean ** 2) / Math.max(1, n - 1))), samples: n }
+}
+
+export function buildSeasonalBaseline(buckets: BaselineBucket[]): SeasonalBaseline {
+  const byWeekHour = new Map<number, Stats>()
+  const hourBuckets = new Map<number, Stats[]>()
+
+  for (const bucket of buckets) {
+    if (bucket.samples >= MIN_BUCKET_SAMPLES) {
+      byWeekHour.set(bucket.dow * 24 + bucket.hour, bucket)
+    }
+    hourBuckets.set(bucket.hour, [...(hourBuckets.get(bucket.hour) ?? []), bucket])
+  }
+
+  const byHour = new Map<number, Stats>()
+  for (const [hour, list] of hourBuckets) {
+    const pooled = pool(list)
+    if (pooled) byHour.set(hour, pooled)
+  }
+
+  return { byWeekHour, byHour, overall: pool(buckets) }
+}
+
+// Baselines per metric from the rows of the metric_baseline function
+export function seasonalBaselines(
+  rows: (BaselineBucket & { metric: string })[]
+): Partial<Record<AnomalyMetric, SeasonalBaseline>> {
+  const baselines: Partial<Record<AnomalyMetric, SeasonalBaseline>> = {}
+  for (const metric of ANOMALY_METRICS) {
+    const buckets = rows.filter(row => row.metric === metric)
+    if (buckets.length > 0) baselines[metric] = buildSeasonalBaseline(buckets)
+  }
+  return baselines
+}
+
+// Expected statistics at a time: same weekday and hour, else same hour, else overall
+export function expectedAt(baseline: SeasonalBaseline, timestamp: number): Stats | null {
+  const date = new Date(timestamp)
+  return baseline.byWeekHour.get(date.getUTCDay() * 24 + date.getUTCHours())
+    ?? baseline.byHour.get(date.getUTCHours())
+    ?? baseline.overall
+}
+
+function medianStep(series: SeriesPoint[]): number {
+  const steps = series.slice(1).map((point, i) => point.timestamp - series[i].timestamp).sort((a, b) => a - b)
+  return steps.length > 0 ? steps[Math.floor(steps.length / 2)] : 0
+}
+
+interface Flag {
+  point: SeriesPoint
+  expected: number
+  score: number // signed
+}
+
+// Merges flagged points that follow each other into one anomaly per span and direction
+function toSpans(flags: Flag[], series: SeriesPoint[], metric: AnomalyMetric, detector: string): Anomaly[] {
+  const maxGap = medianStep(series) * SPAN_GAP_STEPS
+  const anomalies: Anomaly[] = []
+  let current: { flags: Flag[]; sign: number } | null = null
+
+  const close = () => {
+    if (!current) return
+    const peak = current.flags.reduce((a, b) => (Math.abs(b.score) > Math.abs(a.score) ? b : a))
+    anomalies.push({
+      metric,
+      detector,
+      kind: peak.score > 0 ? 'spike' : 'drop',
+      start: current.flags[0].point.timestamp,
+      end: current.flags[current.flags.length - 1].point.timestamp,
+      timestamp: peak.point.timestamp,
+      value: peak.point.value,
+      expected: peak.expected,
+      score: Math.abs(peak.score)
+    })
+    current = null
+  }
+
+  for (const flag of flags) {
+    const sign = Math.sign(flag.score)
+    const last = current?.flags[current.flags.length - 1]
+    if (!current || !last || sign !== current.sign || flag.point.timestamp - last.point.timestamp > maxGap) {
+      close()
+      current = { flags: [flag], sign }
+    } else {
+      current.flags.push(flag)
+    }
+  }
+  close()
+
+  return anomalies
+}
+
+/**
+ * Exponentially weighted mean and variance of the series itself: flags points
+ * far from the recent behaviour of the host, with no stored history needed
+ */
+export const ewmaDetector: AnomalyDetector = {
+  id: 'ewma',
+  detect(series, { metric }) {
+    const alpha = 0.1
+    const warmUp = 12
+    const threshold = 3.5
+    const flags: Flag[] = []
+
+    let mean = series[0]?.value ?? 0
+    let variance = 0
+    series.forEach((point, index) => {
+      if (index >= warmUp) {
+        const z = (point.value - mean) / deviation(Math.sqrt(variance), mean, metric)
+        if (Math.abs(z) > threshold) flags.push({ point, expected: mean, score: z })
+      }
+      const diff = point.value - mean
+      mean += alpha * diff
+      variance = (1 - alpha) * (variance + alpha * diff * diff)
+    })
+
+    return toSpans(flags, series, metric, 'ewma')
+  }
+}
+
+/**
+ * Compares each point with the stored baseline of the same weekday and hour,
+ * so a busy Monday morning is not an anomaly but the same load at 3am is
+ */
+export const seasonalDetector: AnomalyDetector = {
+  id: 'seasonal',
+  detect(series, { metric, baseline }) {
+    if (!baseline) return []
+    const threshold = 3
+    const flags: Flag[] = []
+
+    for (const point of series) {
+      const expected = expectedAt(baseline, point.timestamp)
+      if (!expected) continue
+      const z = (point.value - expected.mean) / deviation(expected.stddev, expected.mean, metric)
+      if (Math.abs(z) > threshold) flags.push({ point, expected: expected.mean, score: z })
+    }
+
+    return toSpans(flags, series, metric, 'seasonal')
+  }
+}
+
+/**
+ * Finds the single most likely level shift in the window (binary
+ * segmentation with a two-sample t-statistic), e.g. latency that moved from
+ * 20ms to 45ms and stayed there
+ */
+export const changePointDetector: AnomalyDetector = {
+  id: 'change-point',
+  detect(series, { metric }) {
+    const minSegment = 12
+    const threshold = 6
+    const n = series.length
+    if (n < minSegment * 2) return []
+
+    const prefix = [0]
+    const prefixSquares = [0]
+    for (const point of series) {
+      prefix.push(prefix[prefix.length - 1] + point.value)
+      prefixSquares.push(prefixSquares[prefixSquares.length - 1] + point.value ** 2)
+    }
+    const segment = (from: number, to: number) => {
+      const count = to - from
+      const mean = (prefix[to] - prefix[from]) / count
+      const variance = Math.max(0, (prefixSquares[to] - prefixSquares[from]) / count - mean ** 2)
+      return { count, mean, variance }
+    }
+
+    let best: { index: number; t: number; before: number; after: number } | null = null
+    for (let k = minSegment; k <= n - minSegment; k++) {
+      const a = segment(0, k)
+      const b = segment(k, n)
+      const pooled = Math.sqrt(((a.count * a.variance) + (b.count * b.variance)) / (n - 2))
+      const scale = deviation(pooled, (a.mean + b.mean) / 2, metric) * Math.sqrt(1 / a.count + 1 / b.count)
+      const t = (b.mean - a.mean) / scale
+      if (!best || Math.abs(t) > Math.abs(best.t)) best = { index: k, t, before: a.mean, after: b.mean }
+    }
+
+    // The shift must also be large in absolute terms, not just very regular
+    if (!best || Math.abs(best.t) < threshold || Math.abs(best.after - best.before) < MIN_DEVIATION[metric] * 2) {
+      return []
+    }
+
+    const point = series[best.index]
+    return [{
+      metric,
+      detector: 'change-point',
+      kind: 'level-shift',
+      start: point.timestamp,
+      end: series[n - 1].timestamp,
+      timestamp: point.timestamp,
+      value: best.after,
+      expected: best.before,
+      score: Math.abs(best.t)
+    }]
+  }
+}
+
+export const DEFAULT_ANOMALY_DETECTORS: AnomalyDetector[] = [ewmaDetector, seasonalDetector, changePointDetector]
+
+/**
+ * Runs the detectors over every anomaly metric of the critical series
+ * @param baselines Stored baseline per metric; detectors that need one skip metrics without it
+ */
+export function detectAnomalies(
+  metrics: CriticalSeries,
+  baselines: Partial<Record<AnomalyMetric, SeasonalBaseline>> = {},
+  detectors: AnomalyDetector[] = DEFAULT_ANOMALY_DETECTORS
+): Anomaly[] {
+  const anomalies: Anomaly[] = []
+  for (const metric of ANOMALY_METRICS) {
+    const series = metrics[metric].filter(point => Number.isFinite(point.value))
+    if (series.length === 0) continue
+    for (const detector of detectors) {
+      anomalies.push(...detector.detect(series, { metric, baseline: baselines[metric] }))
+    }
+  }
+  return anomalies.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+const METRIC_LABELS: Record<AnomalyMetric, { name: string; unit: string }> = {
+  latency: { name: 'Latência', unit: 'ms' },
+  cpu: { name: 'CPU', unit: '%' },
+  memory: { name: 'Memória', unit: '%' }
+}
+
+const WEEKDAYS = ['domingo', 'segunda', 'terça', 'quarta', 'quinta', 'sexta', 'sábado']
+
+/**
+ * Risk factors for anomalies that reach into the last `recentMs` of the
+ * window, strongest per metric and detector first
+ */
+export function anomalyFactors(anomalies: Anomaly[], windowEnd: number, recentMs = 15 * 60_000): string[] {
+  const strongest = new Map<string, Anomaly>()
+  for (const anomaly of anomalies) {
+    if (anomaly.end < windowEnd - recentMs) continue
+    const key = `${anomaly.metric}:${anomaly.detector}`
+    const known = strongest.get(key)
+    if (!known || anomaly.score > known.score) strongest.set(key, anomaly)
+  }
+
+  return [...strongest.values()]
+    .sort((a, b) => b.score - a.score)
+    .map(anomaly => {
+      const { name, unit } = METRIC_LABELS[anomaly.metric]
+      const value = `${anomaly.value.toFixed(1)}${unit}`
+      const expected = `${anomaly.expected.toFixed(1)}${unit}`
+      if (anomaly.detector === 'change-point') {
+        return `Mudança de patamar em ${name} (${expected} → ${value})`
+      }
+      if (anomaly.detector === 'seasonal') {
+        const date = new Date(anomaly.timestamp)
+        return `${name} fora do padrão de ${WEEKDAYS[date.getUTCDay()]} ${date.getUTCHours()}h UTC ` +
+          `(${value}, esperado ${expected}, z=${anomaly.score.toFixed(1)})`
+      }
+      return `${anomaly.kind === 'drop' ? 'Queda' : 'Pico'} anômalo de ${name} (${value}, ` +
+        `média recente ${expected}, z=${anomaly.score.toFixed(1)})`
+    })
+}
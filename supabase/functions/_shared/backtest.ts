@@ -0,0 +1,249 @@
+/**
+ * Backtest of the instability predictor: replays stored history of a host
+ * through predictInstability in sliding windows, as the metric-sampler would
+ * have scored it, and checks the alarms against the problems Zabbix actually
+ * raised for that host.
+ *
+ * An evaluation alarms when its risk level reaches the alarm level. It is a
+ * true positive when a problem starts within the horizon after it, a false
+ * alarm otherwise. A problem is detected when at least one alarm precedes it
+ * within the horizon; the lead time is measured from the first such alarm.
+ */
+
+import {
+  predictInstability,
+  type CriticalSeries,
+  type PredictionProfile,
+  type RiskLevel
+} from './prediction.ts'
+import { SEVERITIES, type Severity } from './severity.ts'
+import type { WirelessMetric, WirelessSeries } from './wireless.ts'
+
+export interface BacktestProblem {
+  startedAt: number // ms
+  resolvedAt: number | null // ms
+  severity: Severity
+}
+
+export interface BacktestOptions {
+  // History each evaluation sees, like the 1h window of the live prediction
+  windowMs: number
+  // Time between evaluations, like the sampler interval
+  stepMs: number
+  // How far ahead an alarm may precede a problem to count as a hit
+  horizonMs: number
+  // Problems below this severity are ignored
+  minSeverity: Severity
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  windowMs: 60 * 60_000,
+  stepMs: 5 * 60_000,
+  horizonMs: 60 * 60_000,
+  minSeverity: 'average'
+}
+
+export const DEFAULT_ALARM_LEVEL: RiskLevel = 'high'
+
+export interface BacktestEvaluation {
+  timestamp: number
+  riskLevel: RiskLevel
+  riskScore: number
+  etaMinutes: number | null
+  // Minutes until the next problem starts, when it starts within the horizon
+  minutesToProblem: number | null
+}
+
+export interface BacktestProblemOutcome {
+  startedAt: number
+  // Highest score among the evaluations within the horizon before the problem
+  maxScore: number | null
+  // First evaluation within the horizon before the problem at each level or above
+  firstAt: Record<RiskLevel, number | null>
+}
+
+export interface HostBacktest {
+  evaluations: BacktestEvaluation[]
+  problems: BacktestProblemOutcome[]
+}
+
+export interface BacktestCurvePoint {
+  threshold: number
+  precision: number | null
+  recall: number | null
+}
+
+export interface BacktestSummary {
+  hosts: number
+  evaluations: number
+  alarms: number
+  truePositives: number
+  falseAlarms: number
+  problems: number
+  detected: number
+  // Rates are 0-1; null when there is nothing to measure them on
+  precision: number | null
+  recall: number | null
+  // False alarms over the evaluations not followed by a problem
+  falseAlarmRate: number | null
+  medianLeadMinutes: number | null
+  meanLeadMinutes: number | null
+  // Mean absolute error of etaMinutes on true positives that had an ETA
+  etaMaeMinutes: number | null
+  // Precision and recall if alarms were raised from the score alone, for tuning the level thresholds
+  curve: BacktestCurvePoint[]
+}
+
+const RISK_RANK: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2, critical: 3 }
+
+const CURVE_STEP = 5
+
+function isAlarm(level: RiskLevel, alarmLevel: RiskLevel): boolean {
+  return RISK_RANK[level] >= RISK_RANK[alarmLevel]
+}
+
+/**
+ * Replays the history of one host with one profile
+ * @param metrics Stored series of the whole backtest period, sorted by time
+ * @param problems Problems of the host in the same period
+ * @param wireless Stored RF series of the period, for radios
+ */
+export function replayHost(
+  metrics: CriticalSeries,
+  problems: BacktestProblem[],
+  profile: PredictionProfile,
+  options: BacktestOptions = DEFAULT_BACKTEST_OPTIONS,
+  wireless: WirelessSeries = {}
+): HostBacktest {
+  const series = [metrics.ping, metrics.latency, metrics.cpu, metrics.memory]
+  const nonEmpty = series.filter(points => points.length > 0)
+  if (nonEmpty.length === 0) return { evaluations: [], problems: [] }
+
+  const first = Math.min(...nonEmpty.map(points => points[0].timestamp))
+  const last = Math.max(...nonEmpty.map(points => points[points.length - 1].timestamp))
+  const minSeverity = SEVERITIES.indexOf(options.minSeverity)
+  const starts = problems
+    .filter(problem => SEVERITIES.indexOf(problem.severity) >= minSeverity)
+    .sort((a, b) => a.startedAt - b.startedAt)
+
+  const rfMetrics = Object.keys(wireless) as WirelessMetric[]
+  const rfSeries = rfMetrics.map(metric => wireless[metric] ?? [])
+
+  // Points of each series inside (t - window, t], advanced with the evaluations
+  const bounds = [...series, ...rfSeries].map(() => ({ from: 0, to: 0 }))
+  const windowAt = (points: { timestamp: number }[], index: number, t: number): [number, number] => {
+    const bound = bounds[index]
+    while (bound.to < points.length && points[bound.to].timestamp <= t) bound.to++
+    while (bound.from < bound.to && points[bound.from].timestamp <= t - options.windowMs) bound.from++
+    return [bound.from, bound.to]
+  }
+  const evaluations: BacktestEvaluation[] = []
+
+  // The last horizon is left out: whether a problem follows it is not known yet
+  for (let t = first + options.windowMs; t <= last - options.horizonMs; t += options.stepMs) {
+    const windows = series.map((points, index) => points.slice(...windowAt(points, index, t)))
+    if (windows.every(points => points.length === 0)) continue
+
+    // While the window still covers a problem the host is known to be unstable;
+    // scoring it there is not a prediction
+    if (starts.some(problem =>
+      problem.startedAt <= t && (problem.resolvedAt === null || problem.resolvedAt > t - options.windowMs)
+    )) continue
+
+    const [ping, latency, cpu, memory] = windows
+    // RF series follow the critical ones in bounds
+    const rf: WirelessSeries = {}
+    rfMetrics.forEach((metric, index) => {
+      rf[metric] = rfSeries[index].slice(...windowAt(rfSeries[index], series.length + index, t))
+    })
+    const prediction = predictInstability({ ping, latency, cpu, memory, timestamps: [] }, profile, new Date(t), { wireless: rf })
+    const next = starts.find(problem => problem.startedAt > t)
+
+    evaluations.push({
+      timestamp: t,
+      riskLevel: prediction.riskLevel,
+      riskScore: prediction.riskScore,
+      etaMinutes: prediction.etaMinutes,
+      minutesToProblem: next && next.startedAt - t <= options.horizonMs
+        ? Math.round((next.startedAt - t) / 60_000)
+        : null
+    })
+  }
+
+  const outcomes = starts
+    .filter(problem => problem.startedAt > first + options.windowMs && problem.startedAt <= last)
+    .map(problem => {
+      const before = evaluations.filter(evaluation =>
+        evaluation.timestamp < problem.startedAt && evaluation.timestamp >= problem.startedAt - options.horizonMs
+      )
+      const firstAt = (level: RiskLevel) => before.find(evaluation => isAlarm(evaluation.riskLevel, level))?.timestamp ?? null
+      return {
+        startedAt: problem.startedAt,
+        maxScore: before.length > 0 ? Math.max(...before.map(evaluation => evaluation.riskScore)) : null,
+        firstAt: { low: firstAt('low'), medium: firstAt('medium'), high: firstAt('high'), critical: firstAt('critical') }
+      }
+    })
+
+  return { evaluations, problems: outcomes }
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
+
+/**
+ * Aggregates the replays of several hosts (all with the same profile, or each
+ * with its own) into one set of metrics
+ */
+export function summarizeBacktest(runs: HostBacktest[], alarmLevel: RiskLevel = DEFAULT_ALARM_LEVEL): BacktestSummary {
+  const evaluations = runs.flatMap(run => run.evaluations)
+  const problems = runs.flatMap(run => run.problems)
+
+  const alarms = evaluations.filter(evaluation => isAlarm(evaluation.riskLevel, alarmLevel))
+  const hits = alarms.filter(evaluation => evaluation.minutesToProblem !== null)
+  const negatives = evaluations.filter(evaluation => evaluation.minutesToProblem === null).length
+  const leadTimes = problems
+    .filter(problem => problem.firstAt[alarmLevel] !== null)
+    .map(problem => (problem.startedAt - problem.firstAt[alarmLevel]!) / 60_000)
+  const etaErrors = hits
+    .filter(evaluation => evaluation.etaMinutes !== null)
+    .map(evaluation => Math.abs(evaluation.etaMinutes! - evaluation.minutesToProblem!))
+
+  const curve: BacktestCurvePoint[] = []
+  for (let threshold = 0; threshold <= 100; threshold += CURVE_STEP) {
+    const raised = evaluations.filter(evaluation => evaluation.riskScore >= threshold)
+    curve.push({
+      threshold,
+      precision: ratio(raised.filter(evaluation => evaluation.minutesToProblem !== null).length, raised.length),
+      recall: ratio(problems.filter(problem => problem.maxScore !== null && problem.maxScore >= threshold).length, problems.length)
+    })
+  }
+
+  return {
+    hosts: runs.length,
+    evaluations: evaluations.length,
+    alarms: alarms.length,
+    truePositives: hits.length,
+    falseAlarms: alarms.length - hits.length,
+    problems: problems.length,
+    detected: leadTimes.length,
+    precision: ratio(hits.length, alarms.length),
+    recall: ratio(leadTimes.length, problems.length),
+    falseAlarmRate: ratio(alarms.length - hits.length, negatives),
+    medianLeadMinutes: median(leadTimes),
+    meanLeadMinutes: mean(leadTimes),
+    etaMaeMinutes: mean(etaErrors),
+    curve
+  }
+}
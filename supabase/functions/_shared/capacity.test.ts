@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { CapacityItemSeries, interfaceKey, planCapacity } from './capacity.ts'
+
+const NOW = new Date(Date.UTC(2026, 2, 1))
+
+function item(metric: string, key: string, values: number[], overrides: Partial<CapacityItemSeries> = {}): CapacityItemSeries {
+  return {
+    instance: 'main',
+    hostId: '10084',
+    hostName: 'core-01',
+    groups: [],
+    itemId: `${metric}:${key}`,
+    metric,
+    key,
+    name: key,
+    units: '',
+    // Days counting back from the day before NOW
+    days: values.map((_, i) => new Date(NOW.getTime() - (values.length - i) * 86_400_000).toISOString().slice(0, 10)),
+    values,
+    ...overrides
+  }
+}
+
+const rising = (from: number, perDay: number, days = 60) =>
+  Array.from({ length: days }, (_, i) => from + perDay * i + (i % 2 === 0 ? 0.3 : -0.3))
+
+describe('interfaceKey', () => {
+  it('finds the interface of agent and SNMP keys', () => {
+    expect(interfaceKey('net.if.in[eth0]')).toBe('eth0')
+    expect(interfaceKey('net.if.out["eth0",bytes]')).toBe('eth0')
+    expect(interfaceKey('ifHCInOctets.3')).toBe('3')
+    expect(interfaceKey('net.if.in[ifHCInOctets.3]')).toBe('3')
+    expect(interfaceKey('ifHighSpeed.3')).toBe('3')
+  })
+})
+
+describe('planCapacity', () => {
+  it('ranks resources by the time left to their threshold', () => {
+    const plan = planCapacity([
+      item('disk', 'vfs.fs.size[/,pused]', rising(50, 0.5)),
+      item('memory', 'vm.memory.utilization', rising(50, 0.2)),
+      item('disk', 'vfs.fs.size[/var,pused]', rising(40, 0))
+    ], NOW)
+
+    expect(plan.resources.map(resource => resource.key)).toEqual([
+      'vfs.fs.size[/,pused]',
+      'vm.memory.utilization',
+      'vfs.fs.size[/var,pused]'
+    ])
+    const [disk] = plan.resources
+    expect(disk.slopePerDay).toBeCloseTo(0.5, 1)
+    // 79.5% now, 95% in about 31 days
+    expect(disk.daysToThreshold).toBeGreaterThan(25)
+    expect(disk.daysToThreshold).toBeLessThan(37)
+    expect(plan.resources[2].daysToThreshold).toBeNull()
+  })
+
+  it('plans links on the busier direction over the interface speed', () => {
+    const plan = planCapacity([
+      item('rx', 'ifHCInOctets.3', rising(200e6, 5e6), { name: 'Interface 3: Bits received' }),
+      item('tx', 'ifHCOutOctets.3', rising(100e6, 1e6)),
+      // ifHighSpeed is in Mbps
+      item('speed', 'ifHighSpeed.3', [1000]),
+      item('rx', 'net.if.in[eth1]', rising(1e6, 0))
+    ], NOW)
+
+    expect(plan.interfacesWithoutSpeed).toBe(1)
+    expect(plan.resources).toHaveLength(1)
+    const [link] = plan.resources
+    expect(link).toMatchObject({ kind: 'link', label: 'Interface 3', speedBps: 1e9, threshold: 80 })
+    // 495 Mbps of 1 Gbps on the last day
+    expect(link.current).toBeCloseTo(49.5, 0)
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * Capacity planning: long-range forecasts of when disks fill up, memory runs
+ * out and links saturate, from the daily rollup of the stored samples
+ * (capacity_series). Each day is summarized by its 95th percentile, so the
+ * trend follows the busy hours rather than the nightly lows.
+ *
+ * Link usage is the busier direction of an interface over its speed. The rx,
+ * tx and speed items of an interface are paired by the interface their keys
+ * refer to; interfaces without a speed item cannot be planned and are counted
+ * apart.
+ */
+
+import { forecastMetric, type ForecastModel, type MetricForecast } from './forecast.ts'
+
+export type CapacityKind = 'disk' | 'memory' | 'link'
+
+// % of the resource at which an upgrade is due
+export const CAPACITY_THRESHOLDS: Record<CapacityKind, number> = {
+  disk: 95,
+  memory: 95,
+  link: 80
+}
+
+// Daily points are projected at most this far, and never further than the history covers
+export const CAPACITY_HORIZON_DAYS = 365
+
+const DAY_MS = 24 * 60 * 60_000
+
+// ifHighSpeed reports Mbps; read without units it would be taken as bps
+const HIGH_SPEED_KEY = /ifHighSpeed/
+const MAX_MBPS_SPEED = 1_000_000
+
+/** One item of capacity_series: daily 95th percentiles, network values in bps */
+export interface CapacityItemSeries {
+  instance: string
+  hostId: string
+  hostName: string
+  groups: string[]
+  itemId: string
+  metric: string
+  key: string
+  name: string
+  units: string
+  days: string[] // YYYY-MM-DD, UTC
+  values: number[]
+}
+
+export interface CapacityResource {
+  // instance:itemId, of the rx item for links
+  id: string
+  kind: CapacityKind
+  instance: string
+  hostId: string
+  hostName: string
+  groups: string[]
+  // Disk or memory item name, interface for links
+  label: string
+  key: string
+  // Latest daily value, % of the resource
+  current: number
+  threshold: number
+  // Interface speed in bps, links only
+  speedBps: number | null
+  // Fitted trend in % per day; null with too little history to fit one
+  slopePerDay: number | null
+  model: ForecastModel | null
+  // Days until the projection reaches the threshold, with the 95% interval;
+  // null when it does not within the horizon (or cannot be forecast)
+  daysToThreshold: number | null
+  lowDays: number | null
+  highDays: number | null
+  // Days of history the forecast was fitted on
+  historyDays: number
+  series: { timestamp: number; value: number }[]
+  forecast: MetricForecast | null
+}
+
+export interface CapacityPlan {
+  resources: CapacityResource[]
+  interfacesWithoutSpeed: number
+}
+
+/**
+ * Interface an rx, tx or speed item refers to: the first key parameter
+ * (net.if.in[eth0], net.if.in["eth0",bytes]) or, for SNMP, the index of the
+ * IF-MIB column (ifHCInOctets.3, net.if.in[ifHCInOctets.3])
+ */
+export function interfaceKey(key: string): string {
+  const param = key.match(/\[\s*"?([^",\]]*)"?/)?.[1] ?? key
+  return param
+    .replace(/^if(HC)?(In|Out)Octets\./, '')
+    .replace(/^if(High)?Speed\./, '')
+    .trim()
+}
+
+// Item name without the direction, for naming the interface
+function interfaceLabel(name: string, fallback: string): string {
+  const label = name
+    .replace(/:?\s*(bits|bytes|octets|traffic)?\s*(received|sent|incoming|outgoing|inbound|outbound|in|out)\b.*$/i, '')
+    .trim()
+  return label || fallback
+}
+
+function toPoints(item: CapacityItemSeries): { timestamp: number; value: number }[] {
+  return item.days
+    .map((day, i) => ({ timestamp: Date.parse(`${day}T00:00:00Z`), value: item.values[i] }))
+    .filter(point => Number.isFinite(point.timestamp) && Number.isFinite(point.value))
+}
+
+function speedBps(item: CapacityItemSeries): number | null {
+  const value = item.values[item.values.length - 1]
+  if (!Number.isFinite(value) || value <= 0) return null
+  return HIGH_SPEED_KEY.test(item.key) && value < MAX_MBPS_SPEED ? value * 1e6 : value
+}
+
+function resource(
+  kind: CapacityKind,
+  item: CapacityItemSeries,
+  label: string,
+  series: { timestamp: number; value: number }[],
+  speed: number | null,
+  now: Date
+): CapacityResource | null {
+  if (series.length === 0) return null
+  const threshold = CAPACITY_THRESHOLDS[kind]
+  const forecast = forecastMetric(kind, series, threshold, now, {
+    maxHorizonMs: CAPACITY_HORIZON_DAYS * DAY_MS,
+    steps: 30
+  })
+  const crossing = forecast?.crossing ?? null
+  const toDays = (minutes: number) => Math.round(minutes / 1440 * 10) / 10
+
+  return {
+    id: `${item.instance}:${item.itemId}`,
+    kind,
+    instance: item.instance,
+    hostId: item.hostId,
+    hostName: item.hostName,
+    groups: item.groups,
+    label,
+    key: item.key,
+    current: series[series.length - 1].value,
+    threshold,
+    speedBps: speed,
+    slopePerDay: forecast ? forecast.slopePerHour * 24 : null,
+    model: forecast?.model ?? null,
+    daysToThreshold: crossing ? toDays(crossing.etaMinutes) : null,
+    lowDays: crossing ? toDays(crossing.lowMinutes) : null,
+    highDays: crossing && crossing.highMinutes !== null ? toDays(crossing.highMinutes) : null,
+    historyDays: series.length,
+    series,
+    forecast
+  }
+}
+
+// Soonest crossing first, then the fullest
+export function compareCapacity(a: CapacityResource, b: CapacityResource): number {
+  const days = (resource: CapacityResource) => resource.daysToThreshold ?? Infinity
+  if (days(a) !== days(b)) return days(a) - days(b)
+  return b.current / b.threshold - a.current / a.threshold
+}
+
+/**
+ * Forecasts every disk, memory item and interface of the fleet
+ * @param items Rows of capacity_series
+ * @returns Resources ranked by compareCapacity
+ */
+export function planCapacity(items: CapacityItemSeries[], now: Date = new Date()): CapacityPlan {
+  const resources: CapacityResource[] = []
+  const interfaces = new Map<string, { rx?: CapacityItemSeries; tx?: CapacityItemSeries; speed?: CapacityItemSeries }>()
+
+  for (const item of items) {
+    if (item.metric === 'disk' || item.metric === 'memory') {
+      const planned = resource(item.metric, item, item.name, toPoints(item), null, now)
+      if (planned) resources.push(planned)
+    } else if (item.metric === 'rx' || item.metric === 'tx' || item.metric === 'speed') {
+      const id = `${item.instance}:${item.hostId}:${interfaceKey(item.key)}`
+      interfaces.set(id, { ...interfaces.get(id), [item.metric]: item })
+    }
+  }
+
+  let interfacesWithoutSpeed = 0
+  for (const { rx, tx, speed } of interfaces.values()) {
+    const traffic = rx ?? tx
+    if (!traffic) continue
+    const bps = speed ? speedBps(speed) : null
+    if (bps === null) {
+      interfacesWithoutSpeed++
+      continue
+    }
+
+    // Busier direction of each day, as % of the current speed
+    const byDay = new Map<number, number>()
+    for (const item of [rx, tx]) {
+      for (const point of item ? toPoints(item) : []) {
+        byDay.set(point.timestamp, Math.max(byDay.get(point.timestamp) ?? 0, point.value / bps * 100))
+      }
+    }
+    const series = [...byDay.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([timestamp, value]) => ({ timestamp, value }))
+
+    const planned = resource('link', traffic, interfaceLabel(traffic.name, interfaceKey(traffic.key)), series, bps, now)
+    if (planned) resources.push(planned)
+  }
+
+  return { resources: resources.sort(compareCapacity), interfacesWithoutSpeed }
+}
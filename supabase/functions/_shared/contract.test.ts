@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { ContractError, isProxyAction, parseLiveEvent, validateRequest } from './contract.ts'
+
+describe('isProxyAction', () => {
+  it('accepts the actions of the contract only', () => {
+    expect(isProxyAction('get-hosts')).toBe(true)
+    expect(isProxyAction('toString')).toBe(false)
+    expect(isProxyAction('__proto__')).toBe(false)
+    expect(isProxyAction(42)).toBe(false)
+  })
+})
+
+describe('validateRequest', () => {
+  it('applies defaults and rejects invalid parameters with their issues', () => {
+    expect(validateRequest('get-critical-history', { hostId: '1' })).toEqual({ hostId: '1', timeRange: '1h' })
+
+    try {
+      validateRequest('get-critical-history', { hostId: 'abc' })
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(ContractError)
+      expect((error as ContractError).issues.map(issue => issue.path)).toEqual([['hostId']])
+    }
+  })
+})
+
+describe('parseLiveEvent', () => {
+  it('rejects unknown and inherited event names', () => {
+    expect(() => parseLiveEvent('constructor', {})).toThrow(ContractError)
+    expect(() => parseLiveEvent('nope', {})).toThrow('Unknown live event: nope')
+  })
+})
@@ -0,0 +1,727 @@
+/**
+ * Request and response contract of every zabbix-proxy action.
+ * Shared by the edge function, which validates requests on the way in and
+ * responses on the way out, and the dashboard, which validates responses at
+ * the service boundary and uses the inferred types everywhere else.
+ */
+
+import { z } from 'zod'
+import { PRIORITY_LEVELS, PriorityLevel, SEVERITIES, Severity } from './severity.ts'
+import { CANONICAL_METRICS, CanonicalMetric } from './metricProfiles.ts'
+import { DEFAULT_WIRELESS_THRESHOLDS } from './wireless.ts'
+
+// ---------------------------------------------------------------------------
+// Shared enums
+// ---------------------------------------------------------------------------
+
+export const SeveritySchema = z.enum(SEVERITIES as [Severity, ...Severity[]])
+
+export const PrioritySchema = z.enum(PRIORITY_LEVELS as [PriorityLevel, ...PriorityLevel[]])
+
+export const CanonicalMetricSchema = z.enum(CANONICAL_METRICS as [CanonicalMetric, ...CanonicalMetric[]])
+
+export const HostAvailabilitySchema = z.enum(['online', 'offline', 'unknown'])
+
+export const INTERFACE_TYPES = ['agent', 'snmp', 'ipmi', 'jmx'] as const
+
+export const AVAILABILITY_STATES = ['unknown', 'available', 'unavailable'] as const
+
+export const InterfaceTypeSchema = z.enum(INTERFACE_TYPES)
+
+export const AvailabilitySchema = z.enum(AVAILABILITY_STATES)
+
+// Windows accepted by get-critical-history and get-critical-histories
+export const CRITICAL_TIME_RANGES = ['1h', '6h', '24h'] as const
+
+export const CriticalTimeRangeSchema = z.enum(CRITICAL_TIME_RANGES)
+
+// ---------------------------------------------------------------------------
+// Entities
+// ---------------------------------------------------------------------------
+
+export const ZabbixInstanceSchema = z.object({
+  name: z.string()
+})
+
+export const MetricRuleSchema = z.object({
+  metric: CanonicalMetricSchema,
+  key: z.string().optional(),
+  name: z.string().optional()
+})
+
+export const MetricProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  templates: z.array(z.string()).optional(),
+  hostGroups: z.array(z.string()).optional(),
+  rules: z.array(MetricRuleSchema)
+})
+
+const percent = z.number().min(0).max(100)
+
+const UsageThresholdsSchema = z.object({
+  critical: percent,
+  veryHigh: percent,
+  frequent: percent,
+  peak: percent
+})
+
+const dbm = z.number().min(-120).max(0)
+
+const WirelessThresholdsSchema = z.object({
+  signalCritical: dbm,
+  signalWeak: dbm,
+  snrCritical: z.number().min(0).max(100),
+  snrLow: z.number().min(0).max(100),
+  ccqCritical: percent,
+  ccqLow: percent,
+  signalDropDb: z.number().positive(),
+  rateDropPercent: percent
+})
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i')
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Prediction profiles (see _shared/prediction.ts), as stored in prediction_profiles.
+// Profiles saved before the wireless rule existed keep their scores: no weight
+export const PredictionProfileSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  hosts: z.array(z.string()).optional(),
+  hostGroups: z.array(z.string().refine(isValidRegex, 'Invalid regular expression')).optional(),
+  weights: z.object({
+    ping: z.number().min(0),
+    latency: z.number().min(0),
+    cpu: z.number().min(0),
+    memory: z.number().min(0),
+    wireless: z.number().min(0).default(0)
+  }),
+  thresholds: z.object({
+    ping: z.object({
+      downIntervals: z.number().int().min(1).max(5),
+      lossCritical: percent,
+      lossHigh: percent,
+      lossModerate: percent
+    }),
+    latency: z.object({
+      criticalMs: z.number().positive(),
+      highMs: z.number().positive(),
+      spikeCount: z.number().int().min(1).max(10),
+      variationPercent: z.number().positive(),
+      elevatedMs: z.number().positive()
+    }),
+    cpu: UsageThresholdsSchema,
+    memory: UsageThresholdsSchema,
+    wireless: WirelessThresholdsSchema.default(DEFAULT_WIRELESS_THRESHOLDS),
+    levels: z.object({
+      critical: percent,
+      high: percent,
+      medium: percent
+    })
+  })
+})
+
+export const ZabbixHostSchema = z.object({
+  instance: z.string(),
+  id: z.string(),
+  name: z.string(),
+  host: z.string(),
+  status: z.enum(['enabled', 'disabled']),
+  available: HostAvailabilitySchema,
+  ip: z.string(),
+  dns: z.string(),
+  groups: z.array(z.string())
+})
+
+export const ZabbixAcknowledgeSchema = z.object({
+  id: z.string(),
+  timestamp: z.string(),
+  user: z.string(),
+  message: z.string(),
+  close: z.boolean(),
+  acknowledge: z.boolean(),
+  unacknowledge: z.boolean(),
+  severityChange: z.object({ from: SeveritySchema, to: SeveritySchema }).nullable()
+})
+
+export const ZabbixAlertSchema = z.object({
+  instance: z.string(),
+  id: z.string(),
+  // Current problem event of the trigger
+  eventId: z.string().nullable(),
+  title: z.string(),
+  host: z.string(),
+  severity: SeveritySchema,
+  // Internal priority mapped from the severity
+  priority: PrioritySchema,
+  timestamp: z.string(),
+  description: z.string(),
+  acknowledged: z.boolean(),
+  // Whether the trigger allows closing the problem manually
+  manualClose: z.boolean(),
+  // Newest first
+  acknowledges: z.array(ZabbixAcknowledgeSchema)
+})
+
+export const ZabbixEventSchema = z.object({
+  instance: z.string(),
+  id: z.string(),
+  triggerId: z.string(),
+  title: z.string(),
+  hostId: z.string(),
+  host: z.string(),
+  severity: SeveritySchema,
+  priority: PrioritySchema,
+  status: z.enum(['problem', 'resolved']),
+  startedAt: z.string(),
+  resolvedAt: z.string().nullable(),
+  // Seconds until recovery, or until now while still open
+  duration: z.number(),
+  acknowledged: z.boolean()
+})
+
+export const ZabbixMetricSchema = z.object({
+  instance: z.string(),
+  hostId: z.string(),
+  hostName: z.string(),
+  hostHost: z.string(),
+  hostStatus: z.enum(['enabled', 'disabled']),
+  hostAvailable: HostAvailabilitySchema,
+  hostIp: z.string(),
+  itemId: z.string(),
+  name: z.string(),
+  key: z.string(),
+  // Scaled for display; the unit can change with the value (Kbps or Mbps)
+  value: z.string(),
+  units: z.string(),
+  // Last value and units as Zabbix reports them
+  rawValue: z.string(),
+  rawUnits: z.string(),
+  // Dashboard category of the canonical metric
+  type: z.string(),
+  // Canonical metric assigned by the host's metric profile
+  metric: CanonicalMetricSchema,
+  profile: z.string(),
+  lastUpdate: z.string()
+})
+
+export const ZabbixHistoryDataSchema = z.object({
+  timestamp: z.number(),
+  value: z.number(),
+  // Present when the point comes from trends (hourly average)
+  min: z.number().optional(),
+  max: z.number().optional()
+})
+
+// Character, log and text items
+export const ZabbixTextHistoryDataSchema = z.object({
+  timestamp: z.number(),
+  value: z.string()
+})
+
+export const CriticalMetricSourceSchema = z.object({
+  itemId: z.string(),
+  name: z.string(),
+  key: z.string(),
+  units: z.string()
+})
+
+export const CriticalHistoryResponseSchema = z.object({
+  instance: z.string(),
+  hostId: z.string(),
+  timeRange: CriticalTimeRangeSchema,
+  // Common step (seconds) every series was resampled onto
+  step: z.number(),
+  metrics: z.object({
+    ping: z.array(ZabbixHistoryDataSchema),
+    latency: z.array(ZabbixHistoryDataSchema),
+    cpu: z.array(ZabbixHistoryDataSchema),
+    memory: z.array(ZabbixHistoryDataSchema),
+    timestamps: z.array(z.number())
+  }),
+  sources: z.object({
+    ping: CriticalMetricSourceSchema.nullable(),
+    latency: CriticalMetricSourceSchema.nullable(),
+    cpu: CriticalMetricSourceSchema.nullable(),
+    memory: CriticalMetricSourceSchema.nullable()
+  }),
+  profile: z.string(),
+  // Some series hit the history page cap; their newest points are missing
+  truncated: z.boolean(),
+  generatedAt: z.string()
+})
+
+export const ZabbixGraphItemSchema = z.object({
+  itemId: z.string(),
+  name: z.string(),
+  key: z.string(),
+  units: z.string(),
+  lastValue: z.string(),
+  lastUpdate: z.string().nullable()
+})
+
+export const ZabbixGraphSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  // Numeric items of the graph, in Zabbix order
+  items: z.array(z.object({ itemId: z.string(), color: z.string() }))
+})
+
+export const ZabbixHostGraphsSchema = z.object({
+  instance: z.string(),
+  hostId: z.string(),
+  graphs: z.array(ZabbixGraphSchema),
+  // Every monitored numeric item of the host
+  items: z.array(ZabbixGraphItemSchema)
+})
+
+export const ZabbixLatestValueSchema = z.object({
+  itemid: z.string(),
+  name: z.string(),
+  key_: z.string(),
+  lastvalue: z.string(),
+  lastclock: z.string(),
+  units: z.string(),
+  value_type: z.string()
+})
+
+export const ZabbixLatestValuesResponseSchema = z.object({
+  instance: z.string(),
+  hostId: z.string(),
+  // Metric profile resolved from the host's templates and groups
+  profile: z.string(),
+  items: z.array(ZabbixLatestValueSchema),
+  generatedAt: z.string()
+})
+
+export const HostInterfaceSchema = z.object({
+  interfaceid: z.string(),
+  type: InterfaceTypeSchema,
+  main: z.boolean(),
+  ip: z.string(),
+  dns: z.string(),
+  port: z.string(),
+  useIp: z.boolean(),
+  available: AvailabilitySchema,
+  error: z.string(),
+  // ISO time the interface started failing, null while it is reachable
+  errorsFrom: z.string().nullable()
+})
+
+export const HostTagSchema = z.object({
+  tag: z.string(),
+  value: z.string()
+})
+
+export const HostMacroSchema = z.object({
+  macro: z.string(),
+  // Secret macro values never leave the proxy
+  value: z.string(),
+  type: z.enum(['text', 'secret', 'vault']),
+  description: z.string()
+})
+
+export const HostItemSchema = z.object({
+  itemid: z.string(),
+  name: z.string(),
+  key: z.string(),
+  lastvalue: z.string(),
+  lastclock: z.string().nullable(),
+  units: z.string(),
+  valueType: z.number().int(),
+  status: z.enum(['active', 'disabled']),
+  state: z.enum(['normal', 'unsupported']),
+  error: z.string(),
+  tags: z.array(HostTagSchema)
+})
+
+export const HostProblemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  severity: SeveritySchema,
+  status: z.enum(['active', 'resolved']),
+  acknowledged: z.boolean(),
+  lastChange: z.string().nullable()
+})
+
+export const HostDetailsSchema = z.object({
+  instance: z.string(),
+  id: z.string(),
+  name: z.string(),
+  host: z.string(),
+  description: z.string(),
+  status: z.enum(['enabled', 'disabled']),
+  maintenance: z.boolean(),
+  available: HostAvailabilitySchema,
+  // Aggregated per interface type, only for types the host has
+  availability: z.record(InterfaceTypeSchema, AvailabilitySchema),
+  ip: z.string(),
+  dns: z.string(),
+  uptime: z.number().nullable(),
+  lastCheck: z.string().nullable(),
+  groups: z.array(z.string()),
+  templates: z.array(z.string()),
+  tags: z.array(HostTagSchema),
+  inventory: z.record(z.string(), z.string()),
+  macros: z.array(HostMacroSchema),
+  interfaces: z.array(HostInterfaceSchema),
+  items: z.array(HostItemSchema),
+  alerts: z.array(HostProblemSchema),
+  operationalStatus: z.object({
+    adminStatus: z.string(),
+    operStatus: z.string(),
+    lastStatusChange: z.string().nullable()
+  }),
+  checks: z.object({
+    total: z.number().int(),
+    active: z.number().int(),
+    unsupported: z.number().int(),
+    alerts: z.number().int()
+  }),
+  generatedAt: z.string()
+})
+
+export const AcknowledgeResultSchema = z.object({
+  eventIds: z.array(z.string()),
+  // event.acknowledge action bitmask that was applied
+  action: z.number().int(),
+  auditId: z.string()
+})
+
+export const InstanceErrorSchema = z.object({
+  instance: z.string(),
+  error: z.string()
+})
+
+// ---------------------------------------------------------------------------
+// Actions
+// ---------------------------------------------------------------------------
+
+// Zabbix instance to query; list actions fan out to every instance without it
+const instanceParam = z.string().min(1).optional()
+const idParam = z.string().regex(/^\d+$/, 'must be a numeric Zabbix ID')
+const timestampParam = z.number().int().nonnegative()
+
+export const REQUEST_SCHEMAS = {
+  'get-instances': z.object({ instance: instanceParam }),
+  'get-metric-profiles': z.object({ instance: instanceParam }),
+  'get-hosts': z.object({ instance: instanceParam }),
+  'get-alerts': z.object({ instance: instanceParam }),
+  'get-open-problems': z.object({ instance: instanceParam }),
+  'get-events': z.object({
+    instance: instanceParam,
+    timeFrom: timestampParam,
+    timeTill: timestampParam,
+    // Host IDs are only unique within one instance
+    hostIds: z.array(idParam).optional()
+  }),
+  'get-metrics': z.object({
+    instance: instanceParam,
+    hostIds: z.array(idParam).optional()
+  }),
+  'get-history': z.object({
+    instance: instanceParam,
+    itemId: idParam,
+    timeFrom: timestampParam,
+    timeTill: timestampParam,
+    maxPoints: z.number().int().positive().optional()
+  }),
+  'get-host-details': z.object({ instance: instanceParam, hostId: idParam }),
+  'get-host-graphs': z.object({ instance: instanceParam, hostId: idParam }),
+  'get-critical-history': z.object({
+    instance: instanceParam,
+    hostId: idParam,
+    timeRange: CriticalTimeRangeSchema.default('1h')
+  }),
+  // Batched form for the metric sampler; host IDs of a single instance
+  'get-critical-histories': z.object({
+    instance: instanceParam,
+    hostIds: z.array(idParam).min(1).max(100),
+    timeRange: CriticalTimeRangeSchema.default('1h')
+  }),
+  'get-latest-values': z.object({ instance: instanceParam, hostId: idParam }),
+  'acknowledge-event': z.object({
+    instance: instanceParam,
+    eventIds: z.array(idParam).min(1),
+    message: z.string().max(2048).optional(),
+    acknowledge: z.boolean().optional(),
+    close: z.boolean().optional(),
+    // New severity of the problem
+    severity: SeveritySchema.optional()
+  })
+}
+
+export const RESPONSE_SCHEMAS = {
+  'get-instances': z.array(ZabbixInstanceSchema),
+  'get-metric-profiles': z.array(MetricProfileSchema),
+  'get-hosts': z.array(ZabbixHostSchema),
+  'get-alerts': z.array(ZabbixAlertSchema),
+  // Every open problem, one entry per problem event rather than per trigger
+  'get-open-problems': z.array(ZabbixAlertSchema),
+  'get-events': z.array(ZabbixEventSchema),
+  'get-metrics': z.array(ZabbixMetricSchema),
+  // The proxy picks numeric or text history from the item's value_type
+  'get-history': z.union([z.array(ZabbixHistoryDataSchema), z.array(ZabbixTextHistoryDataSchema)]),
+  'get-host-details': HostDetailsSchema,
+  'get-host-graphs': ZabbixHostGraphsSchema,
+  'get-critical-history': CriticalHistoryResponseSchema,
+  'get-critical-histories': z.array(CriticalHistoryResponseSchema),
+  'get-latest-values': ZabbixLatestValuesResponseSchema,
+  'acknowledge-event': AcknowledgeResultSchema
+}
+
+export type ProxyAction = keyof typeof REQUEST_SCHEMAS
+
+export const PROXY_ACTIONS = Object.keys(REQUEST_SCHEMAS) as ProxyAction[]
+
+// Parameters as sent by a client (defaults not yet applied)
+export type ActionParams<A extends ProxyAction> = z.input<(typeof REQUEST_SCHEMAS)[A]>
+
+// Parameters after validation, with defaults applied
+export type ActionRequest<A extends ProxyAction> = z.output<(typeof REQUEST_SCHEMAS)[A]>
+
+export type ActionResponse<A extends ProxyAction> = z.output<(typeof RESPONSE_SCHEMAS)[A]>
+
+// ---------------------------------------------------------------------------
+// Webhook notifications (POST /v1/webhooks/zabbix)
+// ---------------------------------------------------------------------------
+
+export const NOTIFICATION_STATUSES = ['problem', 'resolved', 'update'] as const
+
+/**
+ * Body posted by the Zabbix media type in zabbix/media_types
+ */
+export const WebhookPayloadSchema = z.object({
+  // Name of the instance as configured in the proxy
+  instance: z.string().min(1),
+  // Problem event; recoveries and updates refer to the problem they close or change
+  eventId: idParam,
+  triggerId: idParam,
+  status: z.enum(NOTIFICATION_STATUSES),
+  // Zabbix severity number, 0-5
+  severity: z.number().int().min(0).max(5),
+  name: z.string(),
+  host: z.string(),
+  description: z.string().default(''),
+  // Unix time of the problem, recovery or update being notified
+  clock: timestampParam,
+  acknowledged: z.boolean().default(false)
+})
+
+/**
+ * Stored notification, broadcast to dashboards on NOTIFICATION_CHANNEL
+ */
+export const WebhookNotificationSchema = z.object({
+  status: z.enum(NOTIFICATION_STATUSES),
+  alert: ZabbixAlertSchema
+})
+
+export const WebhookResultSchema = WebhookNotificationSchema.extend({
+  // Zabbix retried a delivery that was already stored
+  duplicate: z.boolean()
+})
+
+// Supabase Realtime broadcast channel and event carrying WebhookNotification
+export const NOTIFICATION_CHANNEL = 'zabbix-notifications'
+export const NOTIFICATION_EVENT = 'notification'
+
+/**
+ * Machine-readable reasons a request failed, sent next to the human message
+ */
+export const ERROR_CODES = [
+  'invalid_request',
+  'unknown_action',
+  'not_found',
+  'method_not_allowed',
+  'instance_required',
+  'unknown_instance',
+  'unauthorized',
+  'forbidden',
+  'not_configured',
+  'audit_unavailable',
+  'contract_violation',
+  'internal_error'
+] as const
+
+export const ErrorCodeSchema = z.enum(ERROR_CODES)
+
+export const ProxySuccessSchema = z.object({
+  success: z.literal(true),
+  data: z.unknown(),
+  // Instances that failed while the others answered
+  instanceErrors: z.array(InstanceErrorSchema).optional()
+})
+
+export const ProxyFailureSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  code: ErrorCodeSchema,
+  // Offending fields of an invalid request
+  details: z.array(z.object({ path: z.string(), message: z.string() })).optional()
+})
+
+/**
+ * Body of every proxy response, for both the v1 API and the action protocol
+ */
+export const ProxyEnvelopeSchema = z.union([ProxySuccessSchema, ProxyFailureSchema])
+
+// ---------------------------------------------------------------------------
+// Live updates (GET /v1/stream)
+// ---------------------------------------------------------------------------
+
+// Changes since the previous event of the same stream. `full` marks the first
+// event of a connection, whose `upserted` list replaces everything known so far.
+function liveDelta<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    full: z.boolean(),
+    upserted: z.array(item),
+    // Keys (see LIVE_KEYS) of entries that disappeared
+    removed: z.array(z.string())
+  })
+}
+
+export const LIVE_EVENT_SCHEMAS = {
+  hosts: liveDelta(ZabbixHostSchema),
+  problems: liveDelta(ZabbixAlertSchema),
+  metrics: liveDelta(ZabbixMetricSchema),
+  // A source could not be read this tick; the stream keeps going, and the
+  // source's next event is a full delta
+  unavailable: z.object({
+    source: z.enum(['hosts', 'problems', 'metrics']),
+    error: z.string()
+  })
+}
+
+/**
+ * Identity of each streamed entity; IDs are only unique within one instance
+ */
+export const LIVE_KEYS = {
+  hosts: (host: { instance: string; id: string }) => `${host.instance}:${host.id}`,
+  problems: (alert: { instance: string; id: string }) => `${alert.instance}:${alert.id}`,
+  metrics: (metric: { instance: string; itemId: string }) => `${metric.instance}:${metric.itemId}`
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Raised when a request or response does not match the contract.
+ * `side` tells whether the caller sent bad input or the producer broke the contract.
+ */
+export class ContractError extends Error {
+  constructor(
+    message: string,
+    public readonly side: 'request' | 'response',
+    public readonly issues: z.ZodIssue[]
+  ) {
+    super(message)
+    this.name = 'ContractError'
+  }
+}
+
+export function isProxyAction(action: unknown): action is ProxyAction {
+  // Own keys only, so inherited names like "toString" are not actions
+  return typeof action === 'string' && Object.prototype.hasOwnProperty.call(REQUEST_SCHEMAS, action)
+}
+
+// Issues as sent in the details of an invalid_request error
+export function issueDetails(issues: z.ZodIssue[]): { path: string; message: string }[] {
+  return issues.map(issue => ({ path: issue.path.join('.') || '(root)', message: issue.message }))
+}
+
+// "items.3.units: Expected string, received null; ..." (first few issues only)
+function describeIssues(issues: z.ZodIssue[]): string {
+  const shown = issueDetails(issues.slice(0, 5)).map(issue => `${issue.path}: ${issue.message}`)
+  if (issues.length > shown.length) shown.push(`${issues.length - shown.length} more`)
+  return shown.join('; ')
+}
+
+export function validateRequest<A extends ProxyAction>(action: A, params: unknown): ActionRequest<A> {
+  const parsed = REQUEST_SCHEMAS[action].safeParse(params)
+  if (!parsed.success) {
+    throw new ContractError(`Invalid ${action} request: ${describeIssues(parsed.error.issues)}`, 'request', parsed.error.issues)
+  }
+  return parsed.data as ActionRequest<A>
+}
+
+export function validateResponse<A extends ProxyAction>(action: A, data: unknown): ActionResponse<A> {
+  const parsed = RESPONSE_SCHEMAS[action].safeParse(data)
+  if (!parsed.success) {
+    throw new ContractError(`Invalid ${action} response: ${describeIssues(parsed.error.issues)}`, 'response', parsed.error.issues)
+  }
+  return parsed.data as ActionResponse<A>
+}
+
+/**
+ * Validates one Server-Sent Event of the live stream
+ */
+export function parseLiveEvent(event: string, data: unknown): LiveEvent {
+  if (!Object.prototype.hasOwnProperty.call(LIVE_EVENT_SCHEMAS, event)) {
+    throw new ContractError(`Unknown live event: ${event}`, 'response', [])
+  }
+  const parsed = LIVE_EVENT_SCHEMAS[event as LiveEventName].safeParse(data)
+  if (!parsed.success) {
+    throw new ContractError(`Invalid ${event} event: ${describeIssues(parsed.error.issues)}`, 'response', parsed.error.issues)
+  }
+  return { event, data: parsed.data } as LiveEvent
+}
+
+// ---------------------------------------------------------------------------
+// Inferred types
+// ---------------------------------------------------------------------------
+
+export type ZabbixInstance = z.infer<typeof ZabbixInstanceSchema>
+export type ZabbixHost = z.infer<typeof ZabbixHostSchema>
+export type ZabbixAcknowledge = z.infer<typeof ZabbixAcknowledgeSchema>
+export type ZabbixAlert = z.infer<typeof ZabbixAlertSchema>
+export type ZabbixEvent = z.infer<typeof ZabbixEventSchema>
+export type ZabbixMetric = z.infer<typeof ZabbixMetricSchema>
+export type ZabbixHistoryData = z.infer<typeof ZabbixHistoryDataSchema>
+export type ZabbixTextHistoryData = z.infer<typeof ZabbixTextHistoryDataSchema>
+export type CriticalTimeRange = z.infer<typeof CriticalTimeRangeSchema>
+export type CriticalMetricSource = z.infer<typeof CriticalMetricSourceSchema>
+export type CriticalHistoryResponse = z.infer<typeof CriticalHistoryResponseSchema>
+export type CriticalMetrics = CriticalHistoryResponse['metrics']
+export type ZabbixGraphItem = z.infer<typeof ZabbixGraphItemSchema>
+export type ZabbixGraph = z.infer<typeof ZabbixGraphSchema>
+export type ZabbixHostGraphs = z.infer<typeof ZabbixHostGraphsSchema>
+export type ZabbixLatestValue = z.infer<typeof ZabbixLatestValueSchema>
+export type ZabbixLatestValuesResponse = z.infer<typeof ZabbixLatestValuesResponseSchema>
+export type InterfaceType = z.infer<typeof InterfaceTypeSchema>
+export type Availability = z.infer<typeof AvailabilitySchema>
+export type HostInterface = z.infer<typeof HostInterfaceSchema>
+export type HostTag = z.infer<typeof HostTagSchema>
+export type HostMacro = z.infer<typeof HostMacroSchema>
+export type HostItem = z.infer<typeof HostItemSchema>
+export type HostProblem = z.infer<typeof HostProblemSchema>
+export type HostDetails = z.infer<typeof HostDetailsSchema>
+export type AcknowledgeRequest = ActionParams<'acknowledge-event'>
+export type AcknowledgeResult = z.infer<typeof AcknowledgeResultSchema>
+export type InstanceError = z.infer<typeof InstanceErrorSchema>
+export type ErrorCode = z.infer<typeof ErrorCodeSchema>
+export type LiveEventName = keyof typeof LIVE_EVENT_SCHEMAS
+export type LiveEvent = { [E in LiveEventName]: { event: E; data: z.infer<(typeof LIVE_EVENT_SCHEMAS)[E]> } }[LiveEventName]
+export type LiveDelta<T> = { full: boolean; upserted: T[]; removed: string[] }
+export type LiveSource = z.infer<typeof LIVE_EVENT_SCHEMAS.unavailable>['source']
+export type WebhookPayload = z.infer<typeof WebhookPayloadSchema>
+export type WebhookNotification = z.infer<typeof WebhookNotificationSchema>
+export type ProxyFailure = z.infer<typeof ProxyFailureSchema>
+
+/**
+ * Combines the states of several interfaces of the same type the way the
+ * Zabbix frontend does: any failure wins, then any success, else unknown
+ */
+export function combineAvailability(states: Availability[]): Availability {
+  if (states.includes('unavailable')) return 'unavailable'
+  if (states.includes('available')) return 'available'
+  return 'unknown'
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { forecastFactor, forecastHost, forecastMetric, formatEtaMinutes } from './forecast.ts'
+import { DEFAULT_PREDICTION_PROFILE } from './prediction.ts'
+
+const START = Date.UTC(2026, 0, 1)
+
+// One point a minute; alternating noise gives the models a residual to build the band from
+function series(count: number, valueAt: (i: number) => number, noise = 0.5) {
+  return Array.from({ length: count }, (_, i) => ({
+    timestamp: START + i * 60_000,
+    value: valueAt(i) + (i % 2 === 0 ? noise : -noise)
+  }))
+}
+
+const endOf = (points: { timestamp: number }[]) => new Date(points[points.length - 1].timestamp)
+
+describe('forecastMetric', () => {
+  it('needs enough samples to fit a trend', () => {
+    const points = series(9, i => 50 + i)
+    expect(forecastMetric('memory', points, 90, endOf(points))).toBeNull()
+  })
+
+  it('projects when a rising series reaches its threshold, within a band', () => {
+    // 0.25 points a minute, ~89.75% now: 98% in ~33 minutes
+    const points = series(120, i => 60 + 0.25 * i)
+    const forecast = forecastMetric('memory', points, 98, endOf(points))
+
+    expect(forecast?.slopePerHour).toBeCloseTo(15, 0)
+    const crossing = forecast?.crossing
+    expect(crossing?.etaMinutes).toBeGreaterThanOrEqual(28)
+    expect(crossing?.etaMinutes).toBeLessThanOrEqual(38)
+    expect(crossing!.lowMinutes).toBeLessThanOrEqual(crossing!.etaMinutes)
+    expect(crossing!.highMinutes ?? Infinity).toBeGreaterThanOrEqual(crossing!.etaMinutes)
+  })
+
+  it('projects falling metrics down to their threshold', () => {
+    // SNR losing 0.1 dB a minute, ~18 dB now: 15 dB in ~31 minutes
+    const points = series(120, i => 30 - 0.1 * i, 0.2)
+    const crossing = forecastMetric('snr', points, 15, endOf(points))?.crossing
+
+    expect(crossing?.etaMinutes).toBeGreaterThanOrEqual(26)
+    expect(crossing?.etaMinutes).toBeLessThanOrEqual(36)
+    expect(crossing!.lowMinutes).toBeLessThanOrEqual(crossing!.etaMinutes)
+  })
+
+  it('reports no crossing for a flat series', () => {
+    const points = series(120, () => 40)
+    const forecast = forecastMetric('cpu', points, 95, endOf(points))
+    expect(forecast).not.toBeNull()
+    expect(forecast?.crossing).toBeNull()
+  })
+
+  it('keeps the projection within the bounds of the metric', () => {
+    const points = series(120, i => 50 + 0.5 * i)
+    const forecast = forecastMetric('disk', points, 90, endOf(points))
+    for (const point of forecast!.points) {
+      expect(point.upper).toBeLessThanOrEqual(100)
+      expect(point.lower).toBeGreaterThanOrEqual(0)
+    }
+  })
+
+  it('counts the ETA from now rather than from the last sample', () => {
+    const points = series(120, i => 60 + 0.25 * i)
+    const atEnd = forecastMetric('memory', points, 98, endOf(points))!.crossing!
+    const later = forecastMetric('memory', points, 98, new Date(endOf(points).getTime() + 10 * 60_000))!.crossing!
+    expect(atEnd.etaMinutes - later.etaMinutes).toBe(10)
+  })
+})
+
+describe('forecastHost', () => {
+  it('forecasts the series it is given against the profile thresholds', () => {
+    const memory = series(120, i => 60 + 0.25 * i)
+    const forecasts = forecastHost({ memory }, DEFAULT_PREDICTION_PROFILE, endOf(memory))
+    expect(forecasts.map(forecast => [forecast.metric, forecast.threshold])).toEqual([
+      ['memory', DEFAULT_PREDICTION_PROFILE.thresholds.memory.critical]
+    ])
+  })
+})
+
+describe('forecast texts', () => {
+  it('formats ETAs in minutes, hours and days', () => {
+    expect(formatEtaMinutes(45)).toBe('45min')
+    expect(formatEtaMinutes(60)).toBe('1h')
+    expect(formatEtaMinutes(135)).toBe('2h 15min')
+    expect(formatEtaMinutes(1440)).toBe('1d')
+    expect(formatEtaMinutes(1500)).toBe('1d 1h')
+  })
+
+  it('describes falling metrics as dropping to the threshold', () => {
+    const points = series(120, i => 30 - 0.1 * i, 0.2)
+    const forecast = forecastMetric('snr', points, 15, endOf(points))!
+    expect(forecastFactor(forecast, { etaMinutes: 30, lowMinutes: 20, highMinutes: null }))
+      .toBe('SNR deve cair a 15 dB em ~30min (20min–?)')
+  })
+})
@@ -0,0 +1,330 @@
+/**
+ * Time-to-threshold forecasting for metrics that degrade gradually (latency,
+ * CPU, memory, disk and link usage rise; SNR and signal fall). A trend model
+ * is fitted to the series, projected with a 95% prediction band, and the
+ * crossing of the critical threshold gives an ETA with an interval: the band
+ * edge on the threshold's side crosses first (earliest plausible time), the
+ * other one last (latest).
+ *
+ * Three models compete (linear, exponential and Holt's linear trend); the one
+ * with the smallest error on the last quarter of the series, fitted on the
+ * rest, is refitted on the whole series. Seasonal Holt-Winters would need
+ * several days of one-minute samples and is left to the anomaly detectors'
+ * seasonal baselines.
+ */
+
+import type { PredictionProfile } from './prediction.ts'
+
+export type ForecastMetric = 'latency' | 'cpu' | 'memory' | 'disk' | 'link' | 'snr' | 'signal'
+
+export type ForecastModel = 'linear' | 'exponential' | 'holt'
+
+export interface ForecastPoint {
+  timestamp: number // ms
+  value: number
+  lower: number
+  upper: number
+}
+
+export interface ThresholdCrossing {
+  // Minutes from now until the projection reaches the threshold
+  etaMinutes: number
+  // Crossing of the band edge nearest the threshold
+  lowMinutes: number
+  // Crossing of the other edge; null when it does not reach the threshold within the horizon
+  highMinutes: number | null
+}
+
+export interface MetricForecast {
+  metric: ForecastMetric
+  model: ForecastModel
+  threshold: number
+  // Fitted trend at the end of the series, in metric units per hour
+  slopePerHour: number
+  // Projection from the last sample to the horizon
+  points: ForecastPoint[]
+  crossing: ThresholdCrossing | null
+}
+
+export interface ForecastOptions {
+  // The projection never reaches further than the series covers, nor than this
+  maxHorizonMs: number
+  // Projected points returned for charting
+  steps: number
+}
+
+export const DEFAULT_FORECAST_OPTIONS: ForecastOptions = {
+  maxHorizonMs: 7 * 24 * 60 * 60_000,
+  steps: 30
+}
+
+// Disk usage has no prediction profile threshold; % used
+export const DISK_CRITICAL_PERCENT = 90
+
+// Two-sided 95%
+const Z = 1.96
+
+const MIN_POINTS = 10
+const MIN_POINTS_FOR_HOLDOUT = 20
+
+// Resolution of the threshold crossing search
+const CROSSING_STEPS = 240
+
+const HOUR_MS = 60 * 60_000
+
+const BOUNDS: Record<ForecastMetric, [number, number]> = {
+  latency: [0, Infinity],
+  cpu: [0, 100],
+  memory: [0, 100],
+  disk: [0, 100],
+  link: [0, 100],
+  snr: [-Infinity, Infinity],
+  signal: [-Infinity, 0]
+}
+
+// Metrics that degrade by falling below their threshold
+const FALLING: ForecastMetric[] = ['snr', 'signal']
+
+interface Point {
+  timestamp: number
+  value: number
+}
+
+interface Fit {
+  model: ForecastModel
+  slopePerHour: number
+  // Projection `offsetMs` after the last point of the fitted series
+  predict(offsetMs: number): { value: number; lower: number; upper: number }
+}
+
+function regression(x: number[], y: number[]) {
+  const n = x.length
+  const xMean = x.reduce((sum, value) => sum + value, 0) / n
+  const yMean = y.reduce((sum, value) => sum + value, 0) / n
+  let sxx = 0
+  let sxy = 0
+  for (let i = 0; i < n; i++) {
+    sxx += (x[i] - xMean) ** 2
+    sxy += (x[i] - xMean) * (y[i] - yMean)
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0
+  const intercept = yMean - slope * xMean
+  const sse = x.reduce((sum, value, i) => sum + (y[i] - intercept - slope * value) ** 2, 0)
+  const s = Math.sqrt(sse / Math.max(1, n - 2))
+  // Standard error of a new observation at x
+  const stderr = (at: number) => s * Math.sqrt(1 + 1 / n + (sxx > 0 ? (at - xMean) ** 2 / sxx : 0))
+  return { slope, intercept, stderr }
+}
+
+// Hours relative to the last point, so the fitted intercept is the current level
+function hours(points: Point[]): number[] {
+  const last = points[points.length - 1].timestamp
+  return points.map(point => (point.timestamp - last) / HOUR_MS)
+}
+
+function fitLinear(points: Point[]): Fit {
+  const { slope, intercept, stderr } = regression(hours(points), points.map(point => point.value))
+  return {
+    model: 'linear',
+    slopePerHour: slope,
+    predict(offsetMs) {
+      const at = offsetMs / HOUR_MS
+      const value = intercept + slope * at
+      return { value, lower: value - Z * stderr(at), upper: value + Z * stderr(at) }
+    }
+  }
+}
+
+// Linear in the logarithm: growth by a constant factor per hour
+function fitExponential(points: Point[]): Fit | null {
+  if (points.some(point => point.value <= 0)) return null
+  const { slope, intercept, stderr } = regression(hours(points), points.map(point => Math.log(point.value)))
+  return {
+    model: 'exponential',
+    slopePerHour: Math.exp(intercept) * slope,
+    predict(offsetMs) {
+      const at = offsetMs / HOUR_MS
+      const log = intercept + slope * at
+      return { value: Math.exp(log), lower: Math.exp(log - Z * stderr(at)), upper: Math.exp(log + Z * stderr(at)) }
+    }
+  }
+}
+
+function holtErrors(values: number[], alpha: number, beta: number) {
+  let level = values[0]
+  let trend = values[1] - values[0]
+  let sse = 0
+  for (let i = 1; i < values.length; i++) {
+    const error = values[i] - (level + trend)
+    sse += error ** 2
+    const previous = level
+    level = alpha * values[i] + (1 - alpha) * (level + trend)
+    trend = beta * (level - previous) + (1 - beta) * trend
+  }
+  return { level, trend, sse }
+}
+
+// Holt's linear trend (double exponential smoothing), parameters by grid search on one-step errors
+function fitHolt(points: Point[]): Fit {
+  const values = points.map(point => point.value)
+  const stepMs = (points[points.length - 1].timestamp - points[0].timestamp) / (points.length - 1)
+
+  // Kept smooth: with larger parameters the trend follows sample noise
+  let best = { alpha: 0.2, beta: 0.05, ...holtErrors(values, 0.2, 0.05) }
+  for (let alpha = 0.05; alpha <= 0.5; alpha += 0.05) {
+    for (let beta = 0.01; beta <= 0.2; beta += 0.01) {
+      const fit = holtErrors(values, alpha, beta)
+      if (fit.sse < best.sse) best = { alpha, beta, ...fit }
+    }
+  }
+
+  const { alpha, beta, level, trend } = best
+  const sigma = Math.sqrt(best.sse / Math.max(1, values.length - 3))
+  return {
+    model: 'holt',
+    slopePerHour: stepMs > 0 ? trend * HOUR_MS / stepMs : 0,
+    predict(offsetMs) {
+      const h = stepMs > 0 ? offsetMs / stepMs : 0
+      // 1 + alpha² Σ (1 + jβ)² for j = 1..m, m = steps ahead - 1
+      const m = Math.max(0, Math.ceil(h) - 1)
+      const variance = 1 + alpha ** 2 * (m + beta * m * (m + 1) + beta ** 2 * m * (m + 1) * (2 * m + 1) / 6)
+      const value = level + h * trend
+      const spread = Z * sigma * Math.sqrt(variance)
+      return { value, lower: value - spread, upper: value + spread }
+    }
+  }
+}
+
+function candidates(points: Point[]): Fit[] {
+  return [fitLinear(points), fitExponential(points), fitHolt(points)].filter((fit): fit is Fit => fit !== null)
+}
+
+// Fits every model on the first three quarters and keeps the one that best forecasts the rest
+function selectModel(points: Point[]): ForecastModel {
+  if (points.length < MIN_POINTS_FOR_HOLDOUT) return 'linear'
+  const split = Math.floor(points.length * 0.75)
+  const train = points.slice(0, split)
+  const test = points.slice(split)
+  const origin = train[train.length - 1].timestamp
+
+  let best: { model: ForecastModel; error: number } = { model: 'linear', error: Infinity }
+  for (const fit of candidates(train)) {
+    const error = test.reduce((sum, point) => sum + (fit.predict(point.timestamp - origin).value - point.value) ** 2, 0)
+    if (Number.isFinite(error) && error < best.error) best = { model: fit.model, error }
+  }
+  return best.model
+}
+
+/**
+ * Forecasts one metric and when it reaches `threshold`
+ * @param series Samples in chronological order
+ * @param now Reference for the ETA; usually just after the last sample
+ * @returns null with too few samples to fit a trend
+ */
+export function forecastMetric(
+  metric: ForecastMetric,
+  series: Point[],
+  threshold: number,
+  now: Date = new Date(),
+  options: ForecastOptions = DEFAULT_FORECAST_OPTIONS
+): MetricForecast | null {
+  const points = series.filter(point => Number.isFinite(point.value))
+  if (points.length < MIN_POINTS) return null
+
+  const last = points[points.length - 1].timestamp
+  const horizonMs = Math.min(last - points[0].timestamp, options.maxHorizonMs)
+  if (horizonMs <= 0) return null
+
+  const model = selectModel(points)
+  const fit = candidates(points).find(candidate => candidate.model === model) ?? fitLinear(points)
+  const [min, max] = BOUNDS[metric]
+  const project = (offsetMs: number) => {
+    const { value, lower, upper } = fit.predict(offsetMs)
+    const clamp = (v: number) => Math.min(max, Math.max(min, v))
+    return { timestamp: last + offsetMs, value: clamp(value), lower: clamp(lower), upper: clamp(upper) }
+  }
+
+  const minutesFromNow = (timestamp: number) => Math.max(0, Math.round((timestamp - now.getTime()) / 60_000))
+  const falling = FALLING.includes(metric)
+  const reached = (value: number) => falling ? value <= threshold : value >= threshold
+  let meanAt: number | null = null
+  let nearAt: number | null = null
+  let farAt: number | null = null
+  for (let i = 0; i <= CROSSING_STEPS; i++) {
+    const point = project(horizonMs * i / CROSSING_STEPS)
+    const [near, far] = falling ? [point.lower, point.upper] : [point.upper, point.lower]
+    if (nearAt === null && reached(near)) nearAt = point.timestamp
+    if (meanAt === null && reached(point.value)) meanAt = point.timestamp
+    if (farAt === null && reached(far)) farAt = point.timestamp
+  }
+
+  return {
+    metric,
+    model,
+    threshold,
+    slopePerHour: fit.slopePerHour,
+    points: Array.from({ length: options.steps + 1 }, (_, i) => project(horizonMs * i / options.steps)),
+    crossing: meanAt === null
+      ? null
+      : {
+          etaMinutes: minutesFromNow(meanAt),
+          lowMinutes: minutesFromNow(nearAt ?? meanAt),
+          highMinutes: farAt === null ? null : minutesFromNow(farAt)
+        }
+  }
+}
+
+// Metrics forecastHost projects from a host's stored series
+type HostForecastMetric = 'latency' | 'memory' | 'disk'
+
+/**
+ * Forecasts the degrading metrics of a host against the critical thresholds
+ * of its prediction profile (disk: DISK_CRITICAL_PERCENT). Link usage needs
+ * the interface speed and is only forecast by capacity planning; CPU and RF
+ * readings only by the prediction rules that flag them
+ */
+export function forecastHost(
+  series: Partial<Record<HostForecastMetric, Point[]>>,
+  profile: PredictionProfile,
+  now: Date = new Date(),
+  options: ForecastOptions = DEFAULT_FORECAST_OPTIONS
+): MetricForecast[] {
+  const thresholds: Record<HostForecastMetric, number> = {
+    latency: profile.thresholds.latency.criticalMs,
+    memory: profile.thresholds.memory.critical,
+    disk: DISK_CRITICAL_PERCENT
+  }
+
+  return (Object.keys(thresholds) as HostForecastMetric[])
+    .map(metric => forecastMetric(metric, series[metric] ?? [], thresholds[metric], now, options))
+    .filter((forecast): forecast is MetricForecast => forecast !== null)
+}
+
+export function formatEtaMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes}min`
+  if (minutes < 24 * 60) {
+    const remaining = minutes % 60
+    return remaining > 0 ? `${Math.floor(minutes / 60)}h ${remaining}min` : `${Math.floor(minutes / 60)}h`
+  }
+  const hoursLeft = Math.floor(minutes / 60) % 24
+  return hoursLeft > 0 ? `${Math.floor(minutes / 1440)}d ${hoursLeft}h` : `${Math.floor(minutes / 1440)}d`
+}
+
+const METRIC_LABELS: Record<ForecastMetric, { name: string; unit: string }> = {
+  latency: { name: 'Latência', unit: 'ms' },
+  cpu: { name: 'CPU', unit: '%' },
+  memory: { name: 'Memória', unit: '%' },
+  disk: { name: 'Disco', unit: '%' },
+  link: { name: 'Enlace', unit: '%' },
+  snr: { name: 'SNR', unit: ' dB' },
+  signal: { name: 'Sinal', unit: ' dBm' }
+}
+
+// Risk factor for a forecast that crosses its threshold within the horizon
+export function forecastFactor(forecast: MetricForecast, crossing: ThresholdCrossing): string {
+  const { name, unit } = METRIC_LABELS[forecast.metric]
+  const { etaMinutes, lowMinutes, highMinutes } = crossing
+  const range = `${formatEtaMinutes(lowMinutes)}–${highMinutes === null ? '?' : formatEtaMinutes(highMinutes)}`
+  const verb = FALLING.includes(forecast.metric) ? 'cair a' : 'atingir'
+  return `${name} deve ${verb} ${forecast.threshold}${unit} em ~${formatEtaMinutes(etaMinutes)} (${range})`
+}
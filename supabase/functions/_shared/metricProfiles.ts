@@ -0,0 +1,410 @@
+/**
+ * Declarative mapping of Zabbix item keys to canonical metrics.
+ * Shared by the zabbix-proxy edge function and the dashboard, so this module
+ * must stay free of runtime-specific imports.
+ */
+
+export type CanonicalMetric =
+  | 'cpu'
+  | 'memory'
+  | 'swap'
+  | 'disk'
+  | 'ping'
+  | 'latency'
+  | 'loss'
+  | 'rx'
+  | 'tx'
+  // Interface speed, the capacity rx/tx are measured against
+  | 'speed'
+  // Wireless link (see wireless.ts): dBm, dBm, dB, %, Mbps, Mbps, count, number, MHz
+  | 'signal'
+  | 'noise'
+  | 'snr'
+  | 'ccq'
+  | 'txRate'
+  | 'rxRate'
+  | 'stations'
+  | 'channel'
+  | 'frequency'
+  | 'uptime'
+  | 'load'
+  | 'processes'
+
+export const CANONICAL_METRICS: CanonicalMetric[] = [
+  'cpu', 'memory', 'swap', 'disk', 'ping', 'latency', 'loss', 'rx', 'tx', 'speed',
+  'signal', 'noise', 'snr', 'ccq', 'txRate', 'rxRate', 'stations', 'channel', 'frequency',
+  'uptime', 'load', 'processes'
+]
+
+// Dashboard category each canonical metric is grouped under (ZabbixMetric.type)
+export const METRIC_CATEGORY: Record<CanonicalMetric, string> = {
+  cpu: 'cpu',
+  memory: 'memory',
+  swap: 'swap',
+  disk: 'disk',
+  ping: 'ping',
+  latency: 'ping',
+  loss: 'ping',
+  rx: 'network',
+  tx: 'network',
+  speed: 'network',
+  signal: 'wireless',
+  noise: 'wireless',
+  snr: 'wireless',
+  ccq: 'wireless',
+  txRate: 'wireless',
+  rxRate: 'wireless',
+  stations: 'wireless',
+  channel: 'wireless',
+  frequency: 'wireless',
+  uptime: 'uptime',
+  load: 'load',
+  processes: 'processes'
+}
+
+export interface MetricRule {
+  metric: CanonicalMetric
+  // Case-insensitive regular expressions; a rule matches when every given one matches
+  key?: string
+  name?: string
+}
+
+export interface MetricProfile {
+  id: string
+  name: string
+  description?: string
+  // Case-insensitive regexes tested against linked template and host group names
+  templates?: string[]
+  hostGroups?: string[]
+  // Ordered by preference: earlier rules win when several items map to one metric
+  rules: MetricRule[]
+}
+
+export interface ProfileItem {
+  key_: string
+  name?: string
+}
+
+export interface ProfileHost {
+  templates?: string[]
+  groups?: string[]
+}
+
+export interface MetricMatch {
+  metric: CanonicalMetric
+  ruleIndex: number
+}
+
+export const DEFAULT_PROFILE_ID = 'default'
+
+// Rules shared by every built-in profile: ICMP simple checks and Zabbix agent keys
+const COMMON_RULES: MetricRule[] = [
+  { metric: 'ping', key: '^icmpping(\\[.*\\])?$' },
+  { metric: 'latency', key: '^icmppingsec(\\[.*\\])?$' },
+  { metric: 'loss', key: '^icmppingloss(\\[.*\\])?$' },
+  { metric: 'cpu', key: '^system\\.cpu\\.util(\\[.*\\])?$' },
+  { metric: 'memory', key: '^vm\\.memory\\.(utilization|util)$' },
+  { metric: 'memory', key: '^vm\\.memory\\.size\\[pused\\]$' },
+  { metric: 'swap', key: '^system\\.swap\\.size\\[.*pfree.*\\]$' },
+  { metric: 'disk', key: '^vfs\\.fs\\.(dependent\\.)?size\\[.*pused\\]$' },
+  { metric: 'rx', key: '^net\\.if\\.in(\\[|$)' },
+  { metric: 'tx', key: '^net\\.if\\.out(\\[|$)' },
+  { metric: 'speed', key: '^net\\.if\\.speed(\\[|$)' },
+  { metric: 'uptime', key: '^system\\.(net\\.)?uptime' },
+  { metric: 'load', key: '^system\\.cpu\\.load' },
+  { metric: 'processes', key: '^proc\\.num' }
+]
+
+export const BUILTIN_METRIC_PROFILES: MetricProfile[] = [
+  {
+    id: 'comfast',
+    name: 'Comfast CPE/AP',
+    description: 'Rádios Comfast monitorados por SNMP (MIBs genéricas e UCD-SNMP)',
+    templates: ['comfast'],
+    hostGroups: ['comfast', 'cpe'],
+    rules: [
+      ...COMMON_RULES,
+      { metric: 'cpu', key: 'hrProcessorLoad|cpu\\.(util|usage)' },
+      { metric: 'memory', key: 'memory.*(util|pused|percent)' },
+      // SNR before signal and noise: its keys usually contain both words
+      { metric: 'snr', key: 'snr|signal.?to.?noise' },
+      { metric: 'signal', key: 'signal|rssi' },
+      { metric: 'noise', key: 'noise' },
+      { metric: 'ccq', key: 'ccq' },
+      { metric: 'txRate', key: 'tx.?(bit)?rate' },
+      { metric: 'rxRate', key: 'rx.?(bit)?rate' },
+      { metric: 'stations', key: 'station|assoc|client.?(count|num)' },
+      { metric: 'channel', key: 'channel' },
+      { metric: 'frequency', key: 'freq' },
+      { metric: 'rx', key: 'ifHCInOctets|ifInOctets' },
+      { metric: 'tx', key: 'ifHCOutOctets|ifOutOctets' },
+      { metric: 'speed', key: 'ifHighSpeed|ifSpeed' },
+      { metric: 'uptime', key: 'sysUpTime|uptime' }
+    ]
+  },
+  {
+    id: 'mikrotik',
+    name: 'MikroTik RouterOS',
+    description: 'Template "Mikrotik by SNMP" do Zabbix',
+    templates: ['mikrotik'],
+    hostGroups: ['mikrotik'],
+    rules: [
+      ...COMMON_RULES,
+      { metric: 'cpu', key: '^system\\.cpu\\.util\\[' },
+      { metric: 'cpu', key: 'hrProcessorLoad' },
+      { metric: 'memory', key: '^vm\\.memory\\.util\\[' },
+      { metric: 'snr', key: 'mtxrWlRtabSignalToNoise|signal.?to.?noise' },
+      { metric: 'signal', key: 'mtxrWlRtabStrength|mtxrWlApSignal|signal' },
+      { metric: 'noise', key: 'mtxrWlApNoiseFloor|noise' },
+      { metric: 'ccq', key: 'mtxrWlRtabTxCCQ|mtxrWlApOverallTxCCQ|ccq' },
+      { metric: 'txRate', key: 'mtxrWlRtabTxRate|mtxrWlApTxRate' },
+      { metric: 'rxRate', key: 'mtxrWlRtabRxRate|mtxrWlApRxRate' },
+      { metric: 'stations', key: 'mtxrWlApClientCount' },
+      { metric: 'frequency', key: 'mtxrWlApFreq' },
+      { metric: 'rx', key: '^net\\.if\\.in\\[' },
+      { metric: 'tx', key: '^net\\.if\\.out\\[' },
+      { metric: 'uptime', key: '^system\\.(hw\\.)?uptime' }
+    ]
+  },
+  {
+    id: 'linux',
+    name: 'Linux (Zabbix agent)',
+    description: 'Template "Linux by Zabbix agent"',
+    templates: ['linux'],
+    hostGroups: ['linux'],
+    rules: [...COMMON_RULES]
+  },
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Genérico',
+    description: 'Usado quando nenhum outro perfil corresponde aos templates ou grupos do host',
+    rules: [
+      ...COMMON_RULES,
+      { metric: 'ping', key: 'ping(?!sec|loss|avg)' },
+      { metric: 'latency', key: 'icmppingavg|ping_avg|ping\\.avg|rtt' },
+      { metric: 'cpu', key: 'cpu\\.util|cpu_usage' },
+      { metric: 'memory', key: 'memory\\.util|memory_usage|memory.*pused' },
+      { metric: 'rx', key: 'net\\.if\\.in' },
+      { metric: 'tx', key: 'net\\.if\\.out' },
+      { metric: 'disk', key: 'vfs\\.fs' },
+      { metric: 'swap', key: 'swap' },
+      { metric: 'load', key: 'load' },
+      { metric: 'uptime', key: 'uptime' },
+      // Last resort for hosts whose keys only hint at the metric
+      { metric: 'cpu', key: 'cpu' },
+      { metric: 'memory', key: 'memory' }
+    ]
+  }
+]
+
+const regexCache = new Map<string, RegExp | null>()
+
+function toRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'))
+    } catch {
+      console.warn(`Invalid metric profile pattern: ${pattern}`)
+      regexCache.set(pattern, null)
+    }
+  }
+  return regexCache.get(pattern) ?? null
+}
+
+function anyMatches(patterns: string[] | undefined, values: string[] | undefined): boolean {
+  if (!patterns || !values) return false
+  return patterns.some(pattern => {
+    const regex = toRegex(pattern)
+    return !!regex && values.some(value => regex.test(value))
+  })
+}
+
+// Index just past the group or character class opening at `start`
+function closingIndex(pattern: string, start: number): number {
+  const close = pattern[start] === '[' ? ']' : ')'
+  let depth = 0
+  for (let i = start; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\') {
+      i++
+    } else if (close === ']') {
+      if (char === ']' && i > start + 1) return i + 1
+    } else if (char === '[') {
+      i = closingIndex(pattern, i) - 1
+    } else if (char === '(') {
+      depth++
+    } else if (char === ')' && --depth === 0) {
+      return i + 1
+    }
+  }
+  return pattern.length
+}
+
+// Splits a pattern on the alternations that are not inside a group
+function topLevelAlternatives(pattern: string): string[] {
+  const branches: string[] = []
+  let start = 0
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\') {
+      i++
+    } else if (char === '(' || char === '[') {
+      i = closingIndex(pattern, i) - 1
+    } else if (char === '|') {
+      branches.push(pattern.slice(start, i))
+      start = i + 1
+    }
+  }
+  branches.push(pattern.slice(start))
+  return branches
+}
+
+// Longest run of plain characters that every match of a branch contains
+function requiredLiteral(branch: string): string {
+  let longest = ''
+  let run = ''
+  const flush = () => {
+    if (run.length > longest.length) longest = run
+    run = ''
+  }
+
+  let i = 0
+  while (i < branch.length) {
+    const char = branch[i]
+    // A plain character, or null for anchors, wildcards, classes and groups
+    let atom: string | null = null
+    if (char === '\\') {
+      const escaped = branch[i + 1] ?? ''
+      atom = /[a-z0-9]/i.test(escaped) ? null : escaped
+      i += 2
+    } else if (char === '(' || char === '[') {
+      i = closingIndex(branch, i)
+    } else {
+      atom = '^$.|)]'.includes(char) ? null : char
+      i++
+    }
+
+    const quantifier = branch[i]
+    if (quantifier === '?' || quantifier === '*' || quantifier === '{') {
+      // The atom may be absent or repeated, so it splits the run
+      i = quantifier === '{' ? branch.indexOf('}', i) + 1 || branch.length : i + 1
+      if (branch[i] === '?') i++
+      flush()
+    } else if (quantifier === '+') {
+      i++
+      if (branch[i] === '?') i++
+      if (atom !== null) run += atom
+      flush()
+    } else if (atom === null) {
+      flush()
+    } else {
+      run += atom
+    }
+  }
+  flush()
+  return longest
+}
+
+/**
+ * Substrings for an item.get `search: { key_ }` with `searchByAny`, so Zabbix
+ * only returns items some rule of the profiles can match. Every key a rule
+ * matches contains one of them. Null when a rule cannot be narrowed this way
+ * (rules on the item name only, patterns such as `.*`); the caller then has
+ * to load every item.
+ */
+export function keySearchTerms(profiles: MetricProfile[], metrics?: readonly CanonicalMetric[]): string[] | null {
+  const terms = new Set<string>()
+  for (const profile of profiles) {
+    for (const rule of profile.rules) {
+      if (metrics && !metrics.includes(rule.metric)) continue
+      if (!rule.key) return null
+      // Invalid patterns never match, so they need no items
+      if (!toRegex(rule.key)) continue
+
+      for (const branch of topLevelAlternatives(rule.key)) {
+        const literal = requiredLiteral(branch).toLowerCase()
+        if (!literal) return null
+        terms.add(literal)
+      }
+    }
+  }
+
+  // Zabbix matches substrings, so a term containing a shorter one adds nothing
+  const all = [...terms]
+  return all.filter(term => !all.some(other => other !== term && term.includes(other)))
+}
+
+/**
+ * Merges profile overrides into the built-in list; an override replaces the
+ * built-in profile with the same id
+ */
+export function mergeProfiles(overrides: MetricProfile[] = []): MetricProfile[] {
+  const byId = new Map(BUILTIN_METRIC_PROFILES.map(profile => [profile.id, profile]))
+  for (const profile of overrides) {
+    byId.set(profile.id, profile)
+  }
+  // Keep the fallback profile last so specific profiles are tried first
+  return [...byId.values()].sort((a, b) =>
+    Number(a.id === DEFAULT_PROFILE_ID) - Number(b.id === DEFAULT_PROFILE_ID)
+  )
+}
+
+/**
+ * Picks the first profile whose template or host group patterns match the
+ * host, falling back to the default profile
+ */
+export function resolveProfile(profiles: MetricProfile[], host: ProfileHost): MetricProfile {
+  const matched = profiles.find(profile =>
+    anyMatches(profile.templates, host.templates) || anyMatches(profile.hostGroups, host.groups)
+  )
+  return matched
+    || profiles.find(profile => profile.id === DEFAULT_PROFILE_ID)
+    || BUILTIN_METRIC_PROFILES[BUILTIN_METRIC_PROFILES.length - 1]
+}
+
+/**
+ * Returns the canonical metric of an item under a profile, or null when no
+ * rule matches
+ */
+export function matchItem(profile: MetricProfile, item: ProfileItem): MetricMatch | null {
+  for (let ruleIndex = 0; ruleIndex < profile.rules.length; ruleIndex++) {
+    const rule = profile.rules[ruleIndex]
+    if (!rule.key && !rule.name) continue
+
+    const keyRegex = rule.key ? toRegex(rule.key) : null
+    const nameRegex = rule.name ? toRegex(rule.name) : null
+    if (rule.key && (!keyRegex || !keyRegex.test(item.key_))) continue
+    if (rule.name && (!nameRegex || !nameRegex.test(item.name || ''))) continue
+
+    return { metric: rule.metric, ruleIndex }
+  }
+  return null
+}
+
+/**
+ * Chooses one item per canonical metric: the item matched by the earliest
+ * rule wins, ties go to the most recently updated item
+ */
+export function selectCanonicalItems<T extends ProfileItem & { lastclock?: string }>(
+  profile: MetricProfile,
+  items: T[]
+): Partial<Record<CanonicalMetric, T>> {
+  const selected: Partial<Record<CanonicalMetric, { item: T; ruleIndex: number }>> = {}
+
+  for (const item of items) {
+    const match = matchItem(profile, item)
+    if (!match) continue
+
+    const current = selected[match.metric]
+    const newer = current && parseInt(item.lastclock || '0') > parseInt(current.item.lastclock || '0')
+    if (!current || match.ruleIndex < current.ruleIndex || (match.ruleIndex === current.ruleIndex && newer)) {
+      selected[match.metric] = { item, ruleIndex: match.ruleIndex }
+    }
+  }
+
+  const result: Partial<Record<CanonicalMetric, T>> = {}
+  for (const [metric, entry] of Object.entries(selected)) {
+    result[metric as CanonicalMetric] = entry.item
+  }
+  return result
+}
@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { forecastMetric } from './forecast.ts'
+import {
+  BUILTIN_PREDICTION_PROFILES,
+  CriticalSeries,
+  DEFAULT_PREDICTION_PROFILE,
+  DEFAULT_PREDICTION_PROFILE_ID,
+  mergePredictionProfiles,
+  predictInstability,
+  PredictionProfile,
+  resolvePredictionProfile
+} from './prediction.ts'
+
+const START = Date.UTC(2026, 0, 1)
+
+function points(values: number[]) {
+  return values.map((value, i) => ({ timestamp: START + i * 60_000, value }))
+}
+
+function metrics(series: Partial<Omit<CriticalSeries, 'timestamps'>>): CriticalSeries {
+  return { ping: [], latency: [], cpu: [], memory: [], timestamps: [], ...series }
+}
+
+// Now is the minute after the last sample of the longest series
+function nowAfter(values: number[]) {
+  return new Date(START + values.length * 60_000)
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('predictInstability', () => {
+  it('reports missing data as low risk without an ETA', () => {
+    const result = predictInstability(null)
+    expect(result).toMatchObject({ riskLevel: 'low', riskScore: 0, etaMinutes: null, etaRange: null })
+  })
+
+  it('gives ETA 0 to a host that is down now', () => {
+    const ping = [1, 1, 1, 1, 1, 0, 0, 0, 0, 0]
+    const result = predictInstability(metrics({ ping: points(ping) }), DEFAULT_PREDICTION_PROFILE, nowAfter(ping))
+    expect(result.riskScore).toBe(DEFAULT_PREDICTION_PROFILE.weights.ping)
+    expect(result.etaMinutes).toBe(0)
+    expect(result.etaRange).toBeNull()
+  })
+
+  it('keeps the fixed ETAs of the packet loss rules', () => {
+    const ping = [1, 1, 1, 1, 1, 0, 1, 0, 1, 0]
+    const result = predictInstability(metrics({ ping: points(ping) }), DEFAULT_PREDICTION_PROFILE, nowAfter(ping))
+    expect(result.factors[0]).toBe('Perda crítica de conectividade (60%)')
+    expect(result.etaMinutes).toBe(2)
+  })
+
+  it('keeps ETA 0 for a reading already past the critical threshold', () => {
+    const memory = Array.from({ length: 60 }, (_, i) => 90 + i * 0.15)
+    const now = nowAfter(memory)
+    // A forecast crossing later on must not replace the issue that is happening now
+    const forecast = forecastMetric('memory', points(memory.map(value => value - 10)), 98, now)
+    const result = predictInstability(metrics({ memory: points(memory) }), DEFAULT_PREDICTION_PROFILE, now, {
+      forecasts: forecast ? [forecast] : []
+    })
+    expect(result.factors[0]).toMatch(/^Memória crítica/)
+    expect(result.etaMinutes).toBe(0)
+    expect(result.etaRange).toBeNull()
+  })
+
+  it('takes the ETA of an approaching reading from the forecast of its series', () => {
+    // ~96.8% and rising 0.14 points a minute: 98% in about ten minutes
+    const memory = Array.from({ length: 120 }, (_, i) => 80 + i * 0.14 + (i % 2 === 0 ? 0.1 : -0.1))
+    const now = nowAfter(memory)
+    const result = predictInstability(metrics({ memory: points(memory) }), DEFAULT_PREDICTION_PROFILE, now)
+
+    expect(result.factors[0]).toMatch(/^Memória muito alta/)
+    expect(result.etaMinutes).toBeGreaterThan(0)
+    expect(result.etaMinutes).toBeLessThanOrEqual(20)
+    expect(result.etaRange?.lowMinutes).toBeLessThanOrEqual(result.etaMinutes!)
+  })
+
+  it('has no ETA when an approaching reading does not trend to the threshold', () => {
+    const memory = Array.from({ length: 120 }, (_, i) => 96 + (i % 2 === 0 ? 0.2 : -0.2))
+    const result = predictInstability(metrics({ memory: points(memory) }), DEFAULT_PREDICTION_PROFILE, nowAfter(memory))
+    expect(result.factors[0]).toMatch(/^Memória muito alta/)
+    expect(result.etaMinutes).toBeNull()
+  })
+
+  it('classifies the score with the levels of the profile', () => {
+    const ping = [1, 1, 1, 1, 1, 0, 0, 0, 0, 0]
+    const latency = Array.from({ length: 10 }, () => 3000)
+    const series = metrics({ ping: points(ping), latency: points(latency) })
+    const result = predictInstability(series, DEFAULT_PREDICTION_PROFILE, nowAfter(ping))
+    expect(result.riskScore).toBe(70)
+    expect(result.riskLevel).toBe('high')
+
+    const strict: PredictionProfile = {
+      ...DEFAULT_PREDICTION_PROFILE,
+      id: 'strict',
+      thresholds: { ...DEFAULT_PREDICTION_PROFILE.thresholds, levels: { critical: 60, high: 40, medium: 20 } }
+    }
+    expect(predictInstability(series, strict, nowAfter(ping))).toMatchObject({ riskLevel: 'critical', profile: 'strict' })
+  })
+})
+
+describe('prediction profiles', () => {
+  const custom: PredictionProfile = {
+    ...DEFAULT_PREDICTION_PROFILE,
+    id: 'core',
+    name: 'Core',
+    hosts: ['main:10084'],
+    hostGroups: ['^core']
+  }
+
+  it('keeps the default profile last and lets stored profiles replace built-in ones', () => {
+    const replaced = { ...BUILTIN_PREDICTION_PROFILES[0], name: 'Rádios' }
+    const merged = mergePredictionProfiles([{ ...DEFAULT_PREDICTION_PROFILE, name: 'Outro' }, custom, replaced])
+    expect(merged.map(profile => profile.id)).toEqual(['wireless', 'core', DEFAULT_PREDICTION_PROFILE_ID])
+    expect(merged[0].name).toBe('Rádios')
+    expect(merged[2].name).toBe('Outro')
+  })
+
+  it('resolves hosts by key first, then by group pattern, then to the default', () => {
+    const profiles = mergePredictionProfiles([custom])
+    expect(resolvePredictionProfile(profiles, { key: 'main:10084', groups: ['CPE'] }).id).toBe('core')
+    expect(resolvePredictionProfile(profiles, { key: 'main:1', groups: ['Clientes CPE'] }).id).toBe('wireless')
+    expect(resolvePredictionProfile(profiles, { key: 'main:2', groups: ['Core routers'] }).id).toBe('core')
+    expect(resolvePredictionProfile(profiles, { key: 'main:3', groups: ['Servers'] }).id).toBe(DEFAULT_PREDICTION_PROFILE_ID)
+  })
+
+  it('skips invalid group patterns', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const broken = { ...custom, hosts: [], hostGroups: ['('] }
+    expect(resolvePredictionProfile([broken, DEFAULT_PREDICTION_PROFILE], { key: 'main:1', groups: ['('] }).id)
+      .toBe(DEFAULT_PREDICTION_PROFILE_ID)
+    expect(warn).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,459 @@
+/**
+ * Rule-based instability prediction over the critical series of a host
+ * (ping, latency, CPU and memory) and, for radios, the RF readings of the
+ * wireless link (wireless.ts), passed as a signal. Shared by the dashboard, which scores the
+ * live window, and the metric-sampler function, which stores a score per run.
+ * Factor and recommendation texts are shown as-is in the dashboard.
+ *
+ * Weights and thresholds come from a prediction profile, assigned to hosts
+ * like metric profiles are: built-in profiles here, overridden or extended by
+ * the rows of the prediction_profiles table.
+ *
+ * Statistical anomalies (anomaly.ts) and trend forecasts (forecast.ts) do not
+ * change the score; recent anomalies and forecast threshold crossings are
+ * listed as extra factors. ETAs come from forecasts too: a rule whose reading
+ * is already past the profile's critical threshold means the issue is now
+ * (ETA 0); a rule that only sees it approaching takes the forecast crossing
+ * of its series, and the soonest crossing gives the ETA its confidence
+ * interval. Only packet loss, which has no trend to fit, keeps fixed ETAs.
+ */
+
+import { anomalyFactors, type Anomaly } from './anomaly.ts'
+import {
+  forecastFactor,
+  forecastMetric,
+  type ForecastMetric,
+  type MetricForecast,
+  type ThresholdCrossing
+} from './forecast.ts'
+import {
+  assessWireless,
+  DEFAULT_WIRELESS_THRESHOLDS,
+  snrSeries,
+  type WirelessSeries,
+  type WirelessThresholds
+} from './wireless.ts'
+import type { CriticalHistoryResponse } from './contract.ts'
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical'
+
+export interface PredictionResult {
+  riskLevel: RiskLevel
+  riskScore: number // 0-100
+  etaMinutes: number | null // estimated time to issue
+  // 95% interval of etaMinutes when it comes from a forecast; high is null when unbounded
+  etaRange: { lowMinutes: number; highMinutes: number | null } | null
+  factors: string[]
+  recommendation: string
+  lastUpdate: string
+  // Id of the prediction profile that produced the result
+  profile: string
+}
+
+export type CriticalSeries = CriticalHistoryResponse['metrics']
+
+// Signals computed outside the rules, from longer history or other models
+export interface PredictionSignals {
+  anomalies?: Anomaly[]
+  forecasts?: MetricForecast[]
+  // Stored RF samples of the last hour; scored with the wireless weight
+  wireless?: WirelessSeries
+}
+
+// Maximum points each signal adds to the score
+export interface PredictionWeights {
+  ping: number
+  latency: number
+  cpu: number
+  memory: number
+  wireless: number
+}
+
+export interface PredictionThresholds {
+  ping: {
+    // Consecutive failed checks that mean the host is down now
+    downIntervals: number
+    // Loss percentages over the last five checks
+    lossCritical: number
+    lossHigh: number
+    lossModerate: number
+  }
+  latency: {
+    criticalMs: number
+    highMs: number
+    // Points above twice the average within the last ten
+    spikeCount: number
+    // (max - min) / avg, in percent
+    variationPercent: number
+    elevatedMs: number
+  }
+  cpu: UsageThresholds
+  memory: UsageThresholds
+  wireless: WirelessThresholds
+  // Minimum score of each risk level
+  levels: {
+    critical: number
+    high: number
+    medium: number
+  }
+}
+
+// Percentages over the last five points
+export interface UsageThresholds {
+  // Average above
+  critical: number
+  veryHigh: number
+  // At least three points above
+  frequent: number
+  // Any point above
+  peak: number
+}
+
+export interface PredictionProfile {
+  id: string
+  name: string
+  description?: string
+  // Host keys (instance:hostId) assigned explicitly; they win over group patterns
+  hosts?: string[]
+  // Case-insensitive regexes tested against the host group names
+  hostGroups?: string[]
+  weights: PredictionWeights
+  thresholds: PredictionThresholds
+}
+
+export interface PredictionHost {
+  key: string
+  groups?: string[]
+}
+
+export const DEFAULT_PREDICTION_PROFILE_ID = 'default'
+
+export const DEFAULT_PREDICTION_PROFILE: PredictionProfile = {
+  id: DEFAULT_PREDICTION_PROFILE_ID,
+  name: 'Padrão',
+  description: 'Roteadores e servidores em rede cabeada',
+  // Wired hosts have no RF readings; the wireless weight is left to the radio profiles
+  weights: { ping: 40, latency: 30, cpu: 15, memory: 15, wireless: 0 },
+  thresholds: {
+    ping: { downIntervals: 3, lossCritical: 60, lossHigh: 40, lossModerate: 20 },
+    latency: { criticalMs: 2000, highMs: 1000, spikeCount: 5, variationPercent: 200, elevatedMs: 500 },
+    cpu: { critical: 95, veryHigh: 90, frequent: 80, peak: 85 },
+    memory: { critical: 98, veryHigh: 95, frequent: 85, peak: 90 },
+    wireless: DEFAULT_WIRELESS_THRESHOLDS,
+    levels: { critical: 80, high: 50, medium: 25 }
+  }
+}
+
+export const BUILTIN_PREDICTION_PROFILES: PredictionProfile[] = [
+  {
+    id: 'wireless',
+    name: 'Enlace sem fio',
+    description: 'CPEs e rádios: latência e perda esporádica são normais, queda e degradação do enlace pesam mais',
+    hostGroups: ['wireless', 'cpe', 'comfast', 'radio'],
+    weights: { ping: 40, latency: 20, cpu: 10, memory: 10, wireless: 20 },
+    thresholds: {
+      ...DEFAULT_PREDICTION_PROFILE.thresholds,
+      ping: { downIntervals: 3, lossCritical: 80, lossHigh: 60, lossModerate: 40 },
+      latency: { criticalMs: 4000, highMs: 2500, spikeCount: 7, variationPercent: 400, elevatedMs: 1000 }
+    }
+  },
+  DEFAULT_PREDICTION_PROFILE
+]
+
+// Share of a signal's weight each rule adds, relative to the default weights
+// (e.g. 35 of 40 points for critical packet loss)
+const SHARE = {
+  ping: { down: 1, lossCritical: 35 / 40, lossHigh: 25 / 40, lossModerate: 15 / 40, lossAny: 5 / 40 },
+  latency: { critical: 1, high: 20 / 30, spikes: 15 / 30, variation: 10 / 30, elevated: 5 / 30 },
+  usage: { critical: 1, veryHigh: 12 / 15, frequent: 8 / 15, peak: 5 / 15 },
+  // Relative to the 20 points of the wireless profile
+  wireless: { critical: 1, low: 12 / 20, degrading: 8 / 20 }
+}
+
+function matchesAny(patterns: string[] | undefined, values: string[] | undefined): boolean {
+  if (!patterns || !values) return false
+  return patterns.some(pattern => {
+    try {
+      const regex = new RegExp(pattern, 'i')
+      return values.some(value => regex.test(value))
+    } catch {
+      console.warn(`Invalid prediction profile pattern: ${pattern}`)
+      return false
+    }
+  })
+}
+
+/**
+ * Merges stored profiles into the built-in list; a stored profile replaces
+ * the built-in profile with the same id
+ */
+export function mergePredictionProfiles(overrides: PredictionProfile[] = []): PredictionProfile[] {
+  const byId = new Map(BUILTIN_PREDICTION_PROFILES.map(profile => [profile.id, profile]))
+  for (const profile of overrides) {
+    byId.set(profile.id, profile)
+  }
+  // Keep the fallback profile last so specific profiles are tried first
+  return [...byId.values()].sort((a, b) =>
+    Number(a.id === DEFAULT_PREDICTION_PROFILE_ID) - Number(b.id === DEFAULT_PREDICTION_PROFILE_ID)
+  )
+}
+
+/**
+ * Picks the profile the host is assigned to, then the first profile whose host
+ * group patterns match, falling back to the default profile
+ */
+export function resolvePredictionProfile(profiles: PredictionProfile[], host: PredictionHost): PredictionProfile {
+  return profiles.find(profile => profile.hosts?.includes(host.key))
+    || profiles.find(profile => matchesAny(profile.hostGroups, host.groups))
+    || profiles.find(profile => profile.id === DEFAULT_PREDICTION_PROFILE_ID)
+    || DEFAULT_PREDICTION_PROFILE
+}
+
+export function predictInstability(
+  metrics: CriticalSeries | null | undefined,
+  profile: PredictionProfile = DEFAULT_PREDICTION_PROFILE,
+  now: Date = new Date(),
+  signals: PredictionSignals = {}
+): PredictionResult {
+  if (!metrics) {
+    return {
+      riskLevel: 'low',
+      riskScore: 0,
+      etaMinutes: null,
+      etaRange: null,
+      factors: [],
+      recommendation: 'Sem dados suficientes para análise',
+      lastUpdate: now.toISOString(),
+      profile: profile.id
+    }
+  }
+
+  const { ping, latency, cpu, memory } = metrics
+  const { weights, thresholds } = profile
+
+  // Se não há dados suficientes, retorna risco baixo
+  if (ping.length === 0 && latency.length === 0 && cpu.length === 0 && memory.length === 0) {
+    return {
+      riskLevel: 'low',
+      riskScore: 5,
+      etaMinutes: null,
+      etaRange: null,
+      factors: ['Métricas insuficientes para análise'],
+      recommendation: 'Monitoramento insuficiente detectado',
+      lastUpdate: now.toISOString(),
+      profile: profile.id
+    }
+  }
+
+  let riskScore = 0
+  const factors: string[] = []
+  let etaMinutes: number | null = null
+
+  // Crossings of the critical threshold projected for the series a rule flagged;
+  // a forecast of the same metric and threshold passed in the signals is reused
+  const ruleCrossings: ThresholdCrossing[] = []
+  const forecastRule = (metric: ForecastMetric, series: { timestamp: number; value: number }[], threshold: number) => {
+    const forecast = signals.forecasts?.find(candidate => candidate.metric === metric && candidate.threshold === threshold)
+      ?? forecastMetric(metric, series, threshold, now)
+    if (forecast?.crossing) ruleCrossings.push(forecast.crossing)
+  }
+
+  // 1️⃣ Análise de Ping / Disponibilidade
+  // Busca por perda de pacotes nos últimos 5-10 minutos
+  if (ping.length > 0) {
+    const t = thresholds.ping
+    const recentPing = ping.slice(-20) // Últimos 20 registros para análise de tendência
+    const last5Minutes = recentPing.slice(-5) // Últimos 5 minutos críticos
+
+    // Calcular % de perda de pacotes
+    const pingFailures = last5Minutes.filter(p => p.value === 0).length
+    const pingLossPercentage = (pingFailures / last5Minutes.length) * 100
+
+    // Detectar quedas recentes
+    const lastSuccess = last5Minutes.reverse().findIndex(p => p.value === 1)
+    // Every check in the window failed when there is no success in it
+    const consecutiveFailures = lastSuccess === -1 ? last5Minutes.length : lastSuccess
+    const isDownNow = last5Minutes[0]?.value === 0
+
+    if (isDownNow && consecutiveFailures >= t.downIntervals) {
+      riskScore += weights.ping * SHARE.ping.down
+      factors.push(`Host offline há ${consecutiveFailures} intervalos consecutivos`)
+      etaMinutes = 0 // Já está em problema
+    } else if (pingLossPercentage >= t.lossCritical) {
+      riskScore += weights.ping * SHARE.ping.lossCritical
+      factors.push(`Perda crítica de conectividade (${pingLossPercentage.toFixed(0)}%)`)
+      etaMinutes = 2
+    } else if (pingLossPercentage >= t.lossHigh) {
+      riskScore += weights.ping * SHARE.ping.lossHigh
+      factors.push(`Perda alta de conectividade (${pingLossPercentage.toFixed(0)}%)`)
+      etaMinutes = 5
+    } else if (pingLossPercentage >= t.lossModerate) {
+      riskScore += weights.ping * SHARE.ping.lossModerate
+      factors.push(`Perda moderada de conectividade (${pingLossPercentage.toFixed(0)}%)`)
+      etaMinutes = 15
+    } else if (pingLossPercentage > 0) {
+      riskScore += weights.ping * SHARE.ping.lossAny
+      factors.push(`Perda esporádica detectada (${pingLossPercentage.toFixed(0)}%)`)
+    }
+  }
+
+  // 2️⃣ Análise de Latência
+  // Detecta picos súbitos de latência que indicam instabilidade
+  if (latency.length > 0) {
+    const t = thresholds.latency
+    const recentLatency = latency.slice(-10)
+    const avgLatency = recentLatency.reduce((sum, l) => sum + l.value, 0) / recentLatency.length
+    const maxLatency = Math.max(...recentLatency.map(l => l.value))
+    const minLatency = Math.min(...recentLatency.map(l => l.value))
+
+    // Calcular variação % nos últimos minutos
+    const latencyVariation = avgLatency > 0 ? ((maxLatency - minLatency) / avgLatency) * 100 : 0
+
+    // Detectar picos de latência (valores > 2x a média)
+    const latencySpikes = recentLatency.filter(l => l.value > avgLatency * 2).length
+
+    if (maxLatency > t.criticalMs) {
+      riskScore += weights.latency * SHARE.latency.critical
+      factors.push(`Latência crítica detectada (${maxLatency.toFixed(0)}ms)`)
+      etaMinutes = 0
+    } else if (maxLatency > t.highMs) {
+      riskScore += weights.latency * SHARE.latency.high
+      factors.push(`Latência muito alta (${maxLatency.toFixed(0)}ms)`)
+      forecastRule('latency', latency, t.criticalMs)
+    } else if (latencySpikes >= t.spikeCount) { // Muitos picos = instabilidade
+      riskScore += weights.latency * SHARE.latency.spikes
+      factors.push(`Instabilidade de latência (${latencySpikes} picos detectados)`)
+      forecastRule('latency', latency, t.criticalMs)
+    } else if (latencyVariation > t.variationPercent) { // Variação muito alta
+      riskScore += weights.latency * SHARE.latency.variation
+      factors.push(`Latência instável (variação de ${latencyVariation.toFixed(0)}%)`)
+      forecastRule('latency', latency, t.criticalMs)
+    } else if (avgLatency > t.elevatedMs) { // Latência base alta
+      riskScore += weights.latency * SHARE.latency.elevated
+      factors.push(`Latência elevada (média: ${avgLatency.toFixed(0)}ms)`)
+    }
+  }
+
+  // 3️⃣ Análise de CPU
+  // Uso de CPU acima de thresholds críticos
+  if (cpu.length > 0) {
+    const t = thresholds.cpu
+    const recentCpu = cpu.slice(-5) // Últimos 5 minutos
+    const avgCpu = recentCpu.reduce((sum, c) => sum + c.value, 0) / recentCpu.length
+    const maxCpu = Math.max(...recentCpu.map(c => c.value))
+
+    // Detectar CPU sustentada vs picos
+    const highCpuCount = recentCpu.filter(c => c.value > t.frequent).length
+
+    if (avgCpu > t.critical) {
+      riskScore += weights.cpu * SHARE.usage.critical
+      factors.push(`CPU crítica sustentada (${avgCpu.toFixed(1)}%)`)
+      etaMinutes = 0
+    } else if (avgCpu > t.veryHigh) {
+      riskScore += weights.cpu * SHARE.usage.veryHigh
+      factors.push(`CPU muito alta (${avgCpu.toFixed(1)}%)`)
+      forecastRule('cpu', cpu, t.critical)
+    } else if (highCpuCount >= 3) {
+      riskScore += weights.cpu * SHARE.usage.frequent
+      factors.push(`CPU frequentemente alta (${highCpuCount}/5 intervalos > ${t.frequent}%)`)
+      forecastRule('cpu', cpu, t.critical)
+    } else if (maxCpu > t.peak) {
+      riskScore += weights.cpu * SHARE.usage.peak
+      factors.push(`Picos de CPU detectados (máx: ${maxCpu.toFixed(1)}%)`)
+    }
+  }
+
+  // 4️⃣ Análise de Memória
+  // Uso de memória acima de thresholds críticos
+  if (memory.length > 0) {
+    const t = thresholds.memory
+    const recentMemory = memory.slice(-5)
+    const avgMemory = recentMemory.reduce((sum, m) => sum + m.value, 0) / recentMemory.length
+    const maxMemory = Math.max(...recentMemory.map(m => m.value))
+
+    // Detectar memória sustentada vs picos
+    const highMemoryCount = recentMemory.filter(m => m.value > t.frequent).length
+
+    if (avgMemory > t.critical) {
+      riskScore += weights.memory * SHARE.usage.critical
+      factors.push(`Memória crítica (${avgMemory.toFixed(1)}%)`)
+      etaMinutes = 0
+    } else if (avgMemory > t.veryHigh) {
+      riskScore += weights.memory * SHARE.usage.veryHigh
+      factors.push(`Memória muito alta (${avgMemory.toFixed(1)}%)`)
+      forecastRule('memory', memory, t.critical)
+    } else if (highMemoryCount >= 3) {
+      riskScore += weights.memory * SHARE.usage.frequent
+      factors.push(`Memória frequentemente alta (${highMemoryCount}/5 intervalos > ${t.frequent}%)`)
+      forecastRule('memory', memory, t.critical)
+    } else if (maxMemory > t.peak) {
+      riskScore += weights.memory * SHARE.usage.peak
+      factors.push(`Picos de memória detectados (máx: ${maxMemory.toFixed(1)}%)`)
+    }
+  }
+
+  // 5️⃣ Análise do enlace sem fio
+  // Sinal, SNR e CCQ ruins ou em queda na última hora
+  if (signals.wireless && weights.wireless > 0) {
+    const rf = assessWireless(signals.wireless, thresholds.wireless)
+    const t = thresholds.wireless
+    if (rf.level === 'critical') {
+      riskScore += weights.wireless * SHARE.wireless.critical
+      etaMinutes = 0
+    } else if (rf.level === 'low' || rf.level === 'degrading') {
+      riskScore += weights.wireless * (rf.level === 'low' ? SHARE.wireless.low : SHARE.wireless.degrading)
+      // SNR when the radio reports it or signal and noise; the signal alone otherwise
+      const snr = snrSeries(signals.wireless)
+      if (snr.length > 0) forecastRule('snr', snr, t.snrCritical)
+      else forecastRule('signal', signals.wireless.signal ?? [], t.signalCritical)
+    }
+    factors.push(...rf.factors)
+  }
+
+  // Shares of custom weights are fractional; the score stays an integer
+  riskScore = Math.min(100, Math.round(riskScore))
+
+  factors.push(...anomalyFactors(signals.anomalies ?? [], now.getTime()))
+
+  let etaRange: PredictionResult['etaRange'] = null
+  const crossings = (signals.forecasts ?? [])
+    .flatMap(forecast => (forecast.crossing ? [{ forecast, crossing: forecast.crossing }] : []))
+    .sort((a, b) => a.crossing.etaMinutes - b.crossing.etaMinutes)
+  for (const { forecast, crossing } of crossings) factors.push(forecastFactor(forecast, crossing))
+  const soonest = [...crossings.map(({ crossing }) => crossing), ...ruleCrossings]
+    .sort((a, b) => a.etaMinutes - b.etaMinutes)[0]
+  if (soonest && (etaMinutes === null || soonest.etaMinutes < etaMinutes)) {
+    etaMinutes = soonest.etaMinutes
+    etaRange = { lowMinutes: soonest.lowMinutes, highMinutes: soonest.highMinutes }
+  }
+
+  // Classificação de risco (verde, amarelo, laranja, vermelho)
+  const levels = thresholds.levels
+  let riskLevel: RiskLevel
+  let recommendation: string
+
+  if (riskScore >= levels.critical) {
+    riskLevel = 'critical'
+    recommendation = 'CRÍTICO: Intervenção imediata necessária - sistema instável'
+  } else if (riskScore >= levels.high) {
+    riskLevel = 'high'
+    recommendation = 'ALTO: Monitoramento intensivo e ação preventiva recomendada'
+  } else if (riskScore >= levels.medium) {
+    riskLevel = 'medium'
+    recommendation = 'MÉDIO: Atenção requerida - monitorar tendências'
+  } else {
+    riskLevel = 'low'
+    recommendation = 'BAIXO: Sistema operando dentro dos parâmetros normais'
+  }
+
+  return {
+    riskLevel,
+    riskScore,
+    etaMinutes,
+    etaRange,
+    factors,
+    recommendation,
+    lastUpdate: now.toISOString(),
+    profile: profile.id
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Zabbix trigger severities and their mapping to the internal P1-P4 scheme.
+ * Shared by the zabbix-proxy edge function and the dashboard.
+ */
+
+export type Severity =
+  | 'not_classified'
+  | 'information'
+  | 'warning'
+  | 'average'
+  | 'high'
+  | 'disaster'
+
+// Ordered like Zabbix priorities 0-5, least severe first
+export const SEVERITIES: Severity[] = ['not_classified', 'information', 'warning', 'average', 'high', 'disaster']
+
+export type PriorityLevel = 'P1' | 'P2' | 'P3' | 'P4'
+
+export const PRIORITY_LEVELS: PriorityLevel[] = ['P1', 'P2', 'P3', 'P4']
+
+export type PriorityMapping = Record<Severity, PriorityLevel>
+
+export const DEFAULT_PRIORITY_MAPPING: PriorityMapping = {
+  disaster: 'P1',
+  high: 'P2',
+  average: 'P3',
+  warning: 'P3',
+  information: 'P4',
+  not_classified: 'P4'
+}
+
+/**
+ * Converts a Zabbix priority/severity number (0-5) into a Severity
+ */
+export function severityFromPriority(priority: string | number): Severity {
+  const index = typeof priority === 'number' ? priority : parseInt(priority, 10)
+  return SEVERITIES[index] ?? 'not_classified'
+}
+
+/**
+ * Converts a Severity back into the Zabbix priority number used by the API
+ */
+export function severityToPriority(severity: Severity): number {
+  return SEVERITIES.indexOf(severity)
+}
+
+export function isSeverity(value: unknown): value is Severity {
+  return typeof value === 'string' && (SEVERITIES as string[]).includes(value)
+}
+
+/**
+ * Sort comparator putting the most severe first
+ */
+export function compareSeverityDesc(a: Severity, b: Severity): number {
+  return SEVERITIES.indexOf(b) - SEVERITIES.indexOf(a)
+}
+
+/**
+ * Applies overrides to the default mapping, ignoring unknown severities or levels
+ */
+export function resolvePriorityMapping(overrides: Partial<Record<string, string>> = {}): PriorityMapping {
+  const mapping = { ...DEFAULT_PRIORITY_MAPPING }
+  for (const [severity, level] of Object.entries(overrides)) {
+    if (isSeverity(severity) && (PRIORITY_LEVELS as string[]).includes(level ?? '')) {
+      mapping[severity] = level as PriorityLevel
+    }
+  }
+  return mapping
+}
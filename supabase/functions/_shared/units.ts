@@ -0,0 +1,23 @@
+/**
+ * Units metric samples are stored in. A sample keeps its item's own Zabbix
+ * units, so the rows of one item never mix units and aggregate safely; the
+ * dashboard scales them for display. Only conversions that do not depend on
+ * the value are applied, to the units the predictors and panels work in:
+ * latency in ms (as in the critical history), wireless PHY rates in Mbps and
+ * frequency in MHz.
+ */
+
+import type { CanonicalMetric } from './metricProfiles.ts'
+
+export interface UnitValue {
+  value: number
+  units: string
+}
+
+// A value in its item's Zabbix units, converted to the unit it is stored in
+export function storedSample(metric: CanonicalMetric, value: number, units: string): UnitValue {
+  if (metric === 'latency' && units === 's') return { value: value * 1000, units: 'ms' }
+  if ((metric === 'txRate' || metric === 'rxRate') && units === 'bps') return { value: value / 1e6, units: 'Mbps' }
+  if (metric === 'frequency' && units === 'Hz') return { value: value / 1e6, units: 'MHz' }
+  return { value, units }
+}
@@ -0,0 +1,147 @@
+/**
+ * Wireless link quality of CPEs and APs (Comfast, MikroTik): the RF canonical
+ * metrics, how good each reading is, and the degradation rule the instability
+ * prediction scores. RF metrics are not part of the critical history; they
+ * come from the samples the metric-sampler stores every five minutes.
+ */
+
+export const WIRELESS_METRICS = [
+  'signal',
+  'noise',
+  'snr',
+  'ccq',
+  'txRate',
+  'rxRate',
+  'stations',
+  'channel',
+  'frequency'
+] as const
+
+export type WirelessMetric = typeof WIRELESS_METRICS[number]
+
+export type WirelessSeries = Partial<Record<WirelessMetric, { timestamp: number; value: number }[]>>
+
+export type WirelessQuality = 'good' | 'fair' | 'poor'
+
+// Limits of the RF rule of the prediction; signal in dBm, SNR in dB, CCQ in %
+export interface WirelessThresholds {
+  signalCritical: number
+  signalWeak: number
+  snrCritical: number
+  snrLow: number
+  ccqCritical: number
+  ccqLow: number
+  // Fall of the signal within the window, in dB
+  signalDropDb: number
+  // Fall of the TX rate within the window, in %
+  rateDropPercent: number
+}
+
+export const DEFAULT_WIRELESS_THRESHOLDS: WirelessThresholds = {
+  signalCritical: -85,
+  signalWeak: -75,
+  snrCritical: 15,
+  snrLow: 25,
+  ccqCritical: 50,
+  ccqLow: 75,
+  signalDropDb: 8,
+  rateDropPercent: 50
+}
+
+export interface WirelessAssessment {
+  // Worst condition found: poor readings, merely fair ones, or a falling link
+  level: 'critical' | 'low' | 'degrading' | null
+  factors: string[]
+}
+
+// Points averaged for the current reading; samples are five minutes apart
+const RECENT_POINTS = 3
+
+// Window compared with the recent points to find a falling signal or rate
+const MIN_POINTS_FOR_TREND = 6
+
+function mean(points: { value: number }[]): number {
+  return points.reduce((sum, point) => sum + point.value, 0) / points.length
+}
+
+function recent(points: { value: number }[] | undefined): number | null {
+  return points && points.length > 0 ? mean(points.slice(-RECENT_POINTS)) : null
+}
+
+/**
+ * SNR of the series, derived from signal and noise sampled at the same time
+ * when the radio does not report it
+ */
+export function snrSeries(series: WirelessSeries): { timestamp: number; value: number }[] {
+  if (series.snr && series.snr.length > 0) return series.snr
+  const noise = new Map((series.noise ?? []).map(point => [point.timestamp, point.value]))
+  return (series.signal ?? []).flatMap(point => {
+    const floor = noise.get(point.timestamp)
+    return floor === undefined ? [] : [{ timestamp: point.timestamp, value: point.value - floor }]
+  })
+}
+
+/**
+ * Quality of one reading against the thresholds; null for the metrics that
+ * only describe the link (rates, stations, channel)
+ */
+export function wirelessQuality(
+  metric: WirelessMetric,
+  value: number,
+  thresholds: WirelessThresholds = DEFAULT_WIRELESS_THRESHOLDS
+): WirelessQuality | null {
+  const grade = (critical: number, low: number) => value < critical ? 'poor' : value < low ? 'fair' : 'good'
+  switch (metric) {
+    case 'signal': return grade(thresholds.signalCritical, thresholds.signalWeak)
+    case 'snr': return grade(thresholds.snrCritical, thresholds.snrLow)
+    case 'ccq': return grade(thresholds.ccqCritical, thresholds.ccqLow)
+    default: return null
+  }
+}
+
+/**
+ * Evaluates the RF readings of the window: a poor signal, SNR or CCQ is
+ * critical, a fair one low, and a signal or TX rate falling within the window
+ * is degrading even while the readings are still good
+ */
+export function assessWireless(
+  series: WirelessSeries,
+  thresholds: WirelessThresholds = DEFAULT_WIRELESS_THRESHOLDS
+): WirelessAssessment {
+  const snr = snrSeries(series)
+  const readings: { metric: WirelessMetric; value: number | null; text: (value: number) => string }[] = [
+    { metric: 'signal', value: recent(series.signal), text: value => `sinal ${value.toFixed(0)} dBm` },
+    { metric: 'snr', value: recent(snr), text: value => `SNR ${value.toFixed(0)} dB` },
+    { metric: 'ccq', value: recent(series.ccq), text: value => `CCQ ${value.toFixed(0)}%` }
+  ]
+
+  const graded = readings.flatMap(({ metric, value, text }) =>
+    value === null ? [] : [{ quality: wirelessQuality(metric, value, thresholds), text: text(value) }]
+  )
+  const poor = graded.filter(reading => reading.quality === 'poor')
+  if (poor.length > 0) {
+    return { level: 'critical', factors: [`Enlace sem fio crítico (${poor.map(reading => reading.text).join(', ')})`] }
+  }
+  const fair = graded.filter(reading => reading.quality === 'fair')
+  if (fair.length > 0) {
+    return { level: 'low', factors: [`Enlace sem fio fraco (${fair.map(reading => reading.text).join(', ')})`] }
+  }
+
+  const falls: string[] = []
+  const signal = series.signal ?? []
+  if (signal.length >= MIN_POINTS_FOR_TREND) {
+    const drop = mean(signal.slice(0, RECENT_POINTS)) - mean(signal.slice(-RECENT_POINTS))
+    if (drop >= thresholds.signalDropDb) falls.push(`sinal caiu ${drop.toFixed(0)} dB`)
+  }
+  const rate = series.txRate ?? []
+  if (rate.length >= MIN_POINTS_FOR_TREND) {
+    const before = mean(rate.slice(0, RECENT_POINTS))
+    const drop = before > 0 ? (before - mean(rate.slice(-RECENT_POINTS))) / before * 100 : 0
+    if (drop >= thresholds.rateDropPercent) falls.push(`taxa TX caiu ${drop.toFixed(0)}%`)
+  }
+  if (falls.length > 0) {
+    return { level: 'degrading', factors: [`Enlace sem fio degradando (${falls.join(', ')})`] }
+  }
+
+  return { level: null, factors: [] }
+}
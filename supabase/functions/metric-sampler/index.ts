@@ -0,0 +1,527 @@
+/**
+ * Scheduled sampler for long-term history. Every run (pg_cron, see
+ * supabase/migrations/20261019140000_metric_history.sql) reads hosts, canonical
+ * metrics, critical history (in batches of hosts) and problems through the
+ * zabbix-proxy v1 API and stores them, with an instability prediction per
+ * host, in Postgres. Stored samples also feed the seasonal baselines of the
+ * anomaly detectors, the disk usage forecast and, through the daily rollup,
+ * capacity planning.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  ActionResponse,
+  CriticalHistoryResponse,
+  InstanceError,
+  PredictionProfileSchema,
+  ProxyAction,
+  ProxyFailureSchema,
+  ProxySuccessSchema,
+  validateResponse,
+  ZabbixAlert,
+  ZabbixHost,
+  ZabbixMetric
+} from '../_shared/contract.ts'
+import {
+  ANOMALY_METRICS,
+  AnomalyMetric,
+  BaselineBucket,
+  detectAnomalies,
+  SeasonalBaseline,
+  seasonalBaselines
+} from '../_shared/anomaly.ts'
+import { forecastHost } from '../_shared/forecast.ts'
+import { CanonicalMetric } from '../_shared/metricProfiles.ts'
+import { storedSample } from '../_shared/units.ts'
+import { WIRELESS_METRICS, WirelessMetric, WirelessSeries } from '../_shared/wireless.ts'
+import {
+  mergePredictionProfiles,
+  predictInstability,
+  PredictionProfile,
+  resolvePredictionProfile
+} from '../_shared/prediction.ts'
+
+// Sampled from get-critical-histories at the proxy's resampled resolution
+// instead of the single last value get-metrics returns
+const CRITICAL_METRICS = ['ping', 'latency', 'cpu', 'memory'] as const
+
+// Critical series are stored as one aggregate per minute
+const BUCKET_MS = 60_000
+
+// Buckets older than this were stored by a previous run; the margin covers
+// a couple of missed runs without rewriting the whole hour
+const LOOKBACK_MS = 15 * 60_000
+
+// History the disk usage trend is fitted on
+const DISK_FORECAST_MS = 7 * 24 * 60 * 60_000
+
+// RF samples the wireless rule of the prediction sees, like its 1h critical window
+const WIRELESS_WINDOW_MS = 60 * 60_000
+
+const DEFAULT_CONCURRENCY = 4
+
+// Hosts per get-critical-histories call, so a run makes a few proxy calls
+// per instance rather than one per host
+const HOST_BATCH_SIZE = 25
+const INSERT_CHUNK = 1000
+
+interface SampleRow {
+  instance: string
+  host_id: string
+  item_id: string
+  metric: CanonicalMetric
+  value: number
+  units: string
+  sampled_at: string
+}
+
+interface PredictionRow {
+  instance: string
+  host_id: string
+  computed_at: string
+  risk_level: string
+  risk_score: number
+  eta_minutes: number | null
+  factors: string[]
+  recommendation: string
+  profile: string
+}
+
+interface ProxyRead<A extends ProxyAction> {
+  data: ActionResponse<A>
+  instanceErrors: InstanceError[]
+}
+
+function respond(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+/**
+ * Reads one v1 route of the zabbix-proxy function and validates the payload
+ * against the shared contract.
+ */
+async function proxyRead<A extends ProxyAction>(action: A, path: string): Promise<ProxyRead<A>> {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL') ?? ''}/functions/v1/zabbix-proxy${path}`, {
+    headers: { Authorization: `Bearer ${serviceKey}`, apikey: serviceKey }
+  })
+
+  const body = await response.json()
+  const failure = ProxyFailureSchema.safeParse(body)
+  if (failure.success) {
+    throw new Error(`${path} failed with ${failure.data.code}: ${failure.data.error}`)
+  }
+
+  const envelope = ProxySuccessSchema.parse(body)
+
+  return { data: validateResponse(action, envelope.data), instanceErrors: envelope.instanceErrors ?? [] }
+}
+
+/**
+ * Built-in prediction profiles merged with the ones edited on the Prediction
+ * page. Invalid rows are skipped so one bad edit does not stop sampling.
+ */
+async function loadPredictionProfiles(supabase: ReturnType<typeof createClient>): Promise<PredictionProfile[]> {
+  const { data, error } = await supabase.from('prediction_profiles').select('*')
+  if (error) {
+    console.error('Could not load prediction profiles, using the built-in ones:', error)
+    return mergePredictionProfiles()
+  }
+
+  const stored: PredictionProfile[] = []
+  for (const row of data ?? []) {
+    const parsed = PredictionProfileSchema.safeParse({
+      id: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      hosts: row.hosts,
+      hostGroups: row.host_groups,
+      weights: row.weights,
+      thresholds: row.thresholds
+    })
+    if (parsed.success) stored.push(parsed.data)
+    else console.error(`Ignoring invalid prediction profile ${row.id}:`, parsed.error.issues)
+  }
+  return mergePredictionProfiles(stored)
+}
+
+// Seasonal baselines of a host; without them only the detectors that need no history run
+async function loadBaselines(
+  supabase: ReturnType<typeof createClient>,
+  instance: string,
+  hostId: string
+): Promise<Partial<Record<AnomalyMetric, SeasonalBaseline>>> {
+  const { data, error } = await supabase.rpc('metric_baseline', {
+    p_instance: instance,
+    p_host_id: hostId,
+    p_metrics: [...ANOMALY_METRICS]
+  })
+  if (error) {
+    console.error(`Could not load baselines of ${instance}:${hostId}:`, error)
+    return {}
+  }
+  return seasonalBaselines((data ?? []) as (BaselineBucket & { metric: string })[])
+}
+
+// Stored disk usage (%) of a host, hourly, for its forecast; the critical history has no disk series
+async function loadDiskSeries(
+  supabase: ReturnType<typeof createClient>,
+  instance: string,
+  hostId: string,
+  now: Date
+): Promise<{ timestamp: number; value: number }[]> {
+  const { data, error } = await supabase.rpc('metric_series', {
+    p_instance: instance,
+    p_host_id: hostId,
+    p_metric: 'disk',
+    p_from: new Date(now.getTime() - DISK_FORECAST_MS).toISOString(),
+    p_to: now.toISOString(),
+    p_bucket_seconds: 3600,
+    // Disk items in bytes are not a usage the threshold applies to
+    p_units: '%'
+  })
+  if (error) {
+    console.error(`Could not load disk history of ${instance}:${hostId}:`, error)
+    return []
+  }
+  return ((data ?? []) as { bucket: string; avg_value: number }[])
+    .map(row => ({ timestamp: new Date(row.bucket).getTime(), value: row.avg_value }))
+}
+
+/**
+ * Stored RF samples of a host over the last hour. This run's readings are
+ * stored after the predictions, so they are appended here.
+ */
+async function loadWirelessSeries(
+  supabase: ReturnType<typeof createClient>,
+  instance: string,
+  hostId: string,
+  now: Date,
+  current: ZabbixMetric[]
+): Promise<WirelessSeries> {
+  const wireless: readonly string[] = WIRELESS_METRICS
+  const readings = current.filter(metric => wireless.includes(metric.metric) && Number.isFinite(parseFloat(metric.rawValue)))
+  if (readings.length === 0) return {}
+
+  const { data, error } = await supabase.rpc('host_metric_samples', {
+    p_instance: instance,
+    p_host_id: hostId,
+    p_metrics: [...WIRELESS_METRICS],
+    p_from: new Date(now.getTime() - WIRELESS_WINDOW_MS).toISOString(),
+    p_to: now.toISOString()
+  })
+  if (error) console.error(`Could not load wireless history of ${instance}:${hostId}:`, error)
+
+  const series: WirelessSeries = {}
+  for (const row of (data ?? []) as { metric: string; sampled_at: string[]; value: number[] }[]) {
+    series[row.metric as WirelessMetric] = row.sampled_at.map((sampledAt, index) => ({
+      timestamp: new Date(sampledAt).getTime(),
+      value: row.value[index]
+    }))
+  }
+  for (const reading of readings) {
+    const points = series[reading.metric as WirelessMetric] ?? []
+    const timestamp = new Date(reading.lastUpdate).getTime()
+    if (points.length === 0 || timestamp > points[points.length - 1].timestamp) {
+      points.push({ timestamp, value: storedSample(reading.metric, parseFloat(reading.rawValue), reading.rawUnits).value })
+    }
+    series[reading.metric as WirelessMetric] = points
+  }
+  return series
+}
+
+// Hosts grouped by instance and split into get-critical-histories batches
+function hostBatches(hosts: ZabbixHost[]): ZabbixHost[][] {
+  const byInstance = new Map<string, ZabbixHost[]>()
+  for (const host of hosts) {
+    byInstance.set(host.instance, [...(byInstance.get(host.instance) || []), host])
+  }
+  const batches: ZabbixHost[][] = []
+  for (const instanceHosts of byInstance.values()) {
+    for (let i = 0; i < instanceHosts.length; i += HOST_BATCH_SIZE) {
+      batches.push(instanceHosts.slice(i, i + HOST_BATCH_SIZE))
+    }
+  }
+  return batches
+}
+
+// Runs task over items with at most `limit` in flight
+async function forEachLimited<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await task(items[next++])
+    }
+  })
+  await Promise.all(workers)
+}
+
+/**
+ * One-minute aggregates of the critical series, skipping the current (still
+ * filling) minute and minutes before the lookback window. Ping keeps the
+ * minimum so a single failed check in the minute is not averaged away.
+ */
+function criticalSamples(history: CriticalHistoryResponse, now: number): SampleRow[] {
+  const currentBucket = Math.floor(now / BUCKET_MS) * BUCKET_MS
+  const rows: SampleRow[] = []
+
+  for (const metric of CRITICAL_METRICS) {
+    const source = history.sources[metric]
+    if (!source) continue
+
+    const buckets = new Map<number, number[]>()
+    for (const point of history.metrics[metric]) {
+      const bucket = Math.floor(point.timestamp / BUCKET_MS) * BUCKET_MS
+      if (bucket >= currentBucket || bucket < now - LOOKBACK_MS || !Number.isFinite(point.value)) continue
+      const values = buckets.get(bucket) ?? []
+      values.push(point.value)
+      buckets.set(bucket, values)
+    }
+
+    for (const [bucket, values] of buckets) {
+      rows.push({
+        instance: history.instance,
+        host_id: history.hostId,
+        item_id: source.itemId,
+        metric,
+        value: metric === 'ping'
+          ? Math.min(...values)
+          : values.reduce((sum, value) => sum + value, 0) / values.length,
+        // Latency is converted to ms by the proxy
+        units: metric === 'latency' ? 'ms' : source.units,
+        sampled_at: new Date(bucket).toISOString()
+      })
+    }
+  }
+
+  return rows
+}
+
+// Last values of the non-critical canonical metrics, at the time Zabbix collected
+// them, in their storage units (_shared/units.ts) rather than the display scaling
+function metricSamples(metrics: ZabbixMetric[]): SampleRow[] {
+  const critical: readonly string[] = CRITICAL_METRICS
+  return metrics
+    .filter(metric => !critical.includes(metric.metric) && Number.isFinite(parseFloat(metric.rawValue)))
+    .map(metric => {
+      const { value, units } = storedSample(metric.metric, parseFloat(metric.rawValue), metric.rawUnits)
+      return {
+        instance: metric.instance,
+        host_id: metric.hostId,
+        item_id: metric.itemId,
+        metric: metric.metric,
+        value,
+        units,
+        sampled_at: metric.lastUpdate
+      }
+    })
+}
+
+function problemRow(alert: ZabbixAlert, seenAt: string) {
+  return {
+    instance: alert.instance,
+    trigger_id: alert.id,
+    event_id: alert.eventId,
+    host: alert.host,
+    title: alert.title,
+    severity: alert.severity,
+    priority: alert.priority,
+    started_at: alert.timestamp,
+    acknowledged: alert.acknowledged,
+    last_seen_at: seenAt,
+    resolved_at: null
+  }
+}
+
+serve(async (req) => {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  // Only the scheduled job may trigger a run; it authenticates with the service role key
+  if (!serviceKey || req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return respond({ success: false, error: 'Unauthorized' }, 401)
+  }
+
+  const runAt = new Date()
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey, { auth: { persistSession: false } })
+  const errors: string[] = []
+
+  try {
+    const [instances, hosts, metrics, alerts] = await Promise.all([
+      proxyRead('get-instances', '/v1/instances'),
+      proxyRead('get-hosts', '/v1/hosts'),
+      proxyRead('get-metrics', '/v1/items'),
+      proxyRead('get-open-problems', '/v1/problems/open')
+    ])
+    for (const read of [hosts, metrics, alerts]) {
+      errors.push(...read.instanceErrors.map(failure => `${failure.instance}: ${failure.error}`))
+    }
+
+    // Hosts
+    const hostRows = hosts.data.map((host: ZabbixHost) => ({
+      instance: host.instance,
+      host_id: host.id,
+      name: host.name,
+      host: host.host,
+      status: host.status,
+      available: host.available,
+      ip: host.ip,
+      dns: host.dns,
+      groups: host.groups,
+      last_seen_at: runAt.toISOString()
+    }))
+    if (hostRows.length > 0) {
+      const { error } = await supabase.from('zabbix_hosts').upsert(hostRows, { onConflict: 'instance,host_id' })
+      if (error) throw new Error(`Could not store hosts: ${error.message}`)
+    }
+
+    // Items, so capacity planning can name disks and pair interface counters with their speed
+    const itemRows = metrics.data.map((metric: ZabbixMetric) => ({
+      instance: metric.instance,
+      item_id: metric.itemId,
+      host_id: metric.hostId,
+      metric: metric.metric,
+      key: metric.key,
+      name: metric.name,
+      units: metric.rawUnits,
+      last_seen_at: runAt.toISOString()
+    }))
+    for (let i = 0; i < itemRows.length; i += INSERT_CHUNK) {
+      const { error } = await supabase
+        .from('zabbix_items')
+        .upsert(itemRows.slice(i, i + INSERT_CHUNK), { onConflict: 'instance,item_id' })
+      if (error) throw new Error(`Could not store items: ${error.message}`)
+    }
+
+    // Critical history and predictions of every enabled host
+    const samples = metricSamples(metrics.data)
+    const predictions: PredictionRow[] = []
+    const profiles = await loadPredictionProfiles(supabase)
+    const parsedConcurrency = parseInt(Deno.env.get('SAMPLER_CONCURRENCY') || '', 10)
+
+    await forEachLimited(
+      hostBatches(hosts.data.filter(host => host.status === 'enabled')),
+      parsedConcurrency > 0 ? parsedConcurrency : DEFAULT_CONCURRENCY,
+      async (batch) => {
+        const instance = batch[0].instance
+        let histories: Map<string, CriticalHistoryResponse>
+        try {
+          const { data } = await proxyRead(
+            'get-critical-histories',
+            `/v1/critical-history?instance=${encodeURIComponent(instance)}` +
+              `&hostIds=${batch.map(host => host.id).join(',')}&timeRange=1h`
+          )
+          histories = new Map(data.map(history => [history.hostId, history]))
+        } catch (error) {
+          console.error(`Could not sample critical history of ${batch.length} host(s) of ${instance}:`, error)
+          const message = error instanceof Error ? error.message : String(error)
+          errors.push(...batch.map(host => `${host.instance}:${host.id}: ${message}`))
+          return
+        }
+
+        for (const host of batch) {
+          try {
+            const history = histories.get(host.id)
+            if (!history) throw new Error('Missing from the critical history batch')
+            if (history.truncated) {
+              // Still stored and scored, but the newest minutes are missing
+              errors.push(`${host.instance}:${host.id}: critical history truncated at the history page cap`)
+            }
+            samples.push(...criticalSamples(history, runAt.getTime()))
+
+            const [baselines, disk, wireless] = await Promise.all([
+              loadBaselines(supabase, host.instance, host.id),
+              loadDiskSeries(supabase, host.instance, host.id, runAt),
+              loadWirelessSeries(
+                supabase,
+                host.instance,
+                host.id,
+                runAt,
+                metrics.data.filter(metric => metric.instance === host.instance && metric.hostId === host.id)
+              )
+            ])
+            const profile = resolvePredictionProfile(profiles, { key: `${host.instance}:${host.id}`, groups: host.groups })
+            const anomalies = detectAnomalies(history.metrics, baselines)
+            const forecasts = forecastHost({
+              latency: history.metrics.latency,
+              memory: history.metrics.memory,
+              disk
+            }, profile, runAt)
+            const prediction = predictInstability(history.metrics, profile, runAt, { anomalies, forecasts, wireless })
+            predictions.push({
+              instance: host.instance,
+              host_id: host.id,
+              computed_at: prediction.lastUpdate,
+              risk_level: prediction.riskLevel,
+              risk_score: prediction.riskScore,
+              eta_minutes: prediction.etaMinutes,
+              factors: prediction.factors,
+              recommendation: prediction.recommendation,
+              profile: prediction.profile
+            })
+          } catch (error) {
+            console.error(`Could not sample critical history of ${host.instance}:${host.id}:`, error)
+            errors.push(`${host.instance}:${host.id}: ${error instanceof Error ? error.message : String(error)}`)
+          }
+        }
+      }
+    )
+
+    for (let i = 0; i < samples.length; i += INSERT_CHUNK) {
+      const { error } = await supabase
+        .from('metric_samples')
+        .upsert(samples.slice(i, i + INSERT_CHUNK), { onConflict: 'instance,item_id,sampled_at', ignoreDuplicates: true })
+      if (error) throw new Error(`Could not store metric samples: ${error.message}`)
+    }
+
+    if (predictions.length > 0) {
+      const { error } = await supabase.from('prediction_results').insert(predictions)
+      if (error) throw new Error(`Could not store predictions: ${error.message}`)
+    }
+
+    // Problems: upsert what is open now, then resolve what this run no longer sees.
+    // An instance answers with its complete list of open problems or fails, so a
+    // missing problem was closed in Zabbix. Instances that failed to answer keep
+    // their problems open until they answer again
+    const seenAt = runAt.toISOString()
+    if (alerts.data.length > 0) {
+      const { error } = await supabase
+        .from('zabbix_problems')
+        .upsert(alerts.data.map(alert => problemRow(alert, seenAt)), { onConflict: 'instance,trigger_id,started_at' })
+      if (error) throw new Error(`Could not store problems: ${error.message}`)
+    }
+
+    const failed = new Set(alerts.instanceErrors.map(failure => failure.instance))
+    const answered = instances.data.map(instance => instance.name).filter(name => !failed.has(name))
+    if (answered.length > 0) {
+      const { error } = await supabase
+        .from('zabbix_problems')
+        .update({ resolved_at: seenAt })
+        .is('resolved_at', null)
+        .lt('last_seen_at', seenAt)
+        .in('instance', answered)
+      if (error) throw new Error(`Could not resolve problems: ${error.message}`)
+    }
+
+    const summary = {
+      hosts: hostRows.length,
+      samples: samples.length,
+      predictions: predictions.length,
+      problems: alerts.data.length,
+      errors
+    }
+    console.log(`Metric sampler stored ${summary.samples} samples, ${summary.predictions} predictions, ` +
+      `${summary.hosts} hosts and ${summary.problems} problems in ${Date.now() - runAt.getTime()}ms`)
+
+    return respond({ success: true, data: summary }, 200)
+  } catch (error) {
+    console.error('Metric sampler run failed:', error)
+    return respond({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errors
+    }, 500)
+  }
+})
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ResponseCache } from './cache.ts'
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  let reject!: (error: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('ResponseCache', () => {
+  it('serves a stored value until it expires', async () => {
+    vi.useFakeTimers()
+    const cache = new ResponseCache<number>(10)
+    const load = vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2)
+
+    expect(await cache.get('k', 30, load)).toEqual({ value: 1, status: 'MISS', age: 0 })
+    vi.advanceTimersByTime(5_000)
+    expect(await cache.get('k', 30, load)).toEqual({ value: 1, status: 'HIT', age: 5 })
+    vi.advanceTimersByTime(25_000)
+    expect(await cache.get('k', 30, load)).toEqual({ value: 2, status: 'MISS', age: 0 })
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it('coalesces identical requests into one load', async () => {
+    const cache = new ResponseCache<string>(10)
+    const pending = deferred<string>()
+    const load = vi.fn(() => pending.promise)
+
+    const first = cache.get('k', 30, load)
+    const second = cache.get('k', 30, load)
+    pending.resolve('value')
+
+    expect((await first).status).toBe('MISS')
+    expect(await second).toEqual({ value: 'value', status: 'COALESCED', age: 0 })
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not cache failed loads', async () => {
+    const cache = new ResponseCache<number>(10)
+    const load = vi.fn().mockRejectedValueOnce(new Error('upstream')).mockResolvedValueOnce(1)
+
+    await expect(cache.get('k', 30, load)).rejects.toThrow('upstream')
+    expect(await cache.get('k', 30, load)).toEqual({ value: 1, status: 'MISS', age: 0 })
+  })
+
+  it('refreshes the entry on bypass', async () => {
+    const cache = new ResponseCache<number>(10)
+    await cache.get('k', 30, async () => 1)
+
+    expect(await cache.get('k', 30, async () => 2, true)).toEqual({ value: 2, status: 'BYPASS', age: 0 })
+    expect(await cache.get('k', 30, async () => 3)).toEqual({ value: 2, status: 'HIT', age: 0 })
+  })
+
+  it('neither joins nor stores loads started before clear', async () => {
+    const cache = new ResponseCache<string>(10)
+    const stale = deferred<string>()
+    const before = cache.get('k', 30, () => stale.promise)
+
+    cache.clear()
+    const after = cache.get('k', 30, async () => 'fresh')
+    stale.resolve('stale')
+
+    expect((await before).value).toBe('stale')
+    expect(await after).toEqual({ value: 'fresh', status: 'MISS', age: 0 })
+    expect((await cache.get('k', 30, async () => 'reloaded')).value).toBe('fresh')
+  })
+
+  it('evicts the oldest entries beyond its capacity', async () => {
+    const cache = new ResponseCache<string>(2)
+    await cache.get('a', 30, async () => 'a')
+    await cache.get('b', 30, async () => 'b')
+    await cache.get('c', 30, async () => 'c')
+
+    expect((await cache.get('a', 30, async () => 'a2')).status).toBe('MISS')
+    expect((await cache.get('c', 30, async () => 'c2')).status).toBe('HIT')
+  })
+})
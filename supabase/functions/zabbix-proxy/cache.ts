@@ -0,0 +1,103 @@
+/**
+ * Short-lived response cache with request coalescing. It lives in the
+ * isolate's memory, so it is shared by every request the edge runtime sends
+ * to the same warm instance and starts empty after a cold start.
+ */
+
+// HIT: served from cache; COALESCED: joined an identical request already in
+// flight; MISS: fetched and stored; BYPASS: fetched without touching the cache
+export type CacheStatus = 'HIT' | 'COALESCED' | 'MISS' | 'BYPASS'
+
+export interface CacheResult<T> {
+  value: T
+  status: CacheStatus
+  // Seconds since the value was fetched upstream
+  age: number
+}
+
+interface CacheEntry<T> {
+  value: T
+  storedAt: number
+  expiresAt: number
+}
+
+export class ResponseCache<T> {
+  private entries = new Map<string, CacheEntry<T>>()
+  private inflight = new Map<string, Promise<CacheEntry<T>>>()
+  // Bumped by clear(); loads started before it are not stored
+  private generation = 0
+
+  constructor(private maxEntries: number) {}
+
+  /**
+   * Returns the cached value for `key` if it is younger than `ttlSeconds`,
+   * otherwise joins or starts a `load`. Failed loads are never cached.
+   * `bypass` skips the lookup but still refreshes the entry.
+   */
+  async get(key: string, ttlSeconds: number, load: () => Promise<T>, bypass = false): Promise<CacheResult<T>> {
+    if (!bypass) {
+      const cached = this.entries.get(key)
+      if (cached && cached.expiresAt > Date.now()) {
+        return { value: cached.value, status: 'HIT', age: ageOf(cached) }
+      }
+
+      const pending = this.inflight.get(key)
+      if (pending) {
+        const entry = await pending
+        return { value: entry.value, status: 'COALESCED', age: ageOf(entry) }
+      }
+    }
+
+    const entry = await this.load(key, ttlSeconds, load)
+    return { value: entry.value, status: bypass ? 'BYPASS' : 'MISS', age: 0 }
+  }
+
+  /**
+   * Drops every cached value. Loads still in flight may have read the state
+   * from before the change, so new requests don't join them and their
+   * results are not stored.
+   */
+  clear() {
+    this.generation++
+    this.entries.clear()
+    this.inflight.clear()
+  }
+
+  private load(key: string, ttlSeconds: number, load: () => Promise<T>): Promise<CacheEntry<T>> {
+    const generation = this.generation
+    const pending: Promise<CacheEntry<T>> = load()
+      .then(value => {
+        const storedAt = Date.now()
+        const entry = { value, storedAt, expiresAt: storedAt + ttlSeconds * 1000 }
+        if (generation === this.generation) this.store(key, entry)
+        return entry
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === pending) this.inflight.delete(key)
+      })
+
+    this.inflight.set(key, pending)
+    return pending
+  }
+
+  private store(key: string, entry: CacheEntry<T>) {
+    const now = Date.now()
+    for (const [cachedKey, cached] of this.entries) {
+      if (cached.expiresAt <= now) this.entries.delete(cachedKey)
+    }
+
+    // Re-inserting keeps the Map ordered from oldest to newest
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+}
+
+function ageOf(entry: CacheEntry<unknown>): number {
+  return Math.floor((Date.now() - entry.storedAt) / 1000)
+}
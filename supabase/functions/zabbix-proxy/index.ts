@@ -1,22 +1,191 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
+import { collapseTextSeries, downsampleLTTB, HistoryPoint, resampleSeries, SeriesPoint } from './series.ts'
+import {
+  CanonicalMetric,
+  keySearchTerms,
+  matchItem,
+  mergeProfiles,
+  METRIC_CATEGORY,
+  MetricProfile,
+  resolveProfile,
+  selectCanonicalItems
+} from '../_shared/metricProfiles.ts'
+import {
+  compareSeverityDesc,
+  PriorityMapping,
+  resolvePriorityMapping,
+  Severity,
+  severityFromPriority,
+  severityToPriority
+} from '../_shared/severity.ts'
+import { API_VERSION, apiPath, buildParams, matchRoute } from './routes.ts'
+import { buildOpenApiDocument } from './openapi.ts'
+import { CacheResult, ResponseCache } from './cache.ts'
+import { createLiveStream } from './live.ts'
+import { secretMatches, toNotification, WEBHOOK_SECRET_HEADER } from './webhook.ts'
+import {
+  ActionResponse,
+  Availability,
+  combineAvailability,
+  ContractError,
+  CriticalHistoryResponse,
+  CriticalTimeRange,
+  ErrorCode,
+  HostDetails,
+  HostInterface,
+  HostItem,
+  HostMacro,
+  HostProblem,
+  InstanceError,
+  InterfaceType,
+  isProxyAction,
+  issueDetails,
+  NOTIFICATION_CHANNEL,
+  NOTIFICATION_EVENT,
+  PROXY_ACTIONS,
+  ProxyAction,
+  ProxyFailure,
+  validateRequest,
+  validateResponse,
+  WebhookPayloadSchema,
+  ZabbixAcknowledge,
+  ZabbixAlert,
+  ZabbixEvent,
+  ZabbixHost,
+  ZabbixHostGraphs,
+  ZabbixLatestValuesResponse,
+  ZabbixMetric
+} from '../_shared/contract.ts'
+
+// cache-control is allowed so browsers can send `Cache-Control: no-cache` to skip the response cache
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, cache-control',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'X-Cache, Age',
+}
+
+// Hosts per item.get call inside a get-metrics batch
+const METRICS_HOST_CHUNK_SIZE = 100
+
+// Per-host cap on items matched by the host's metric profile
+const METRICS_ITEMS_PER_HOST = 100
+
+// Zabbix item value types; each one is stored in its own history table
+const VALUE_TYPE_FLOAT = 0
+const VALUE_TYPE_UNSIGNED = 3
+const NUMERIC_VALUE_TYPES = [VALUE_TYPE_FLOAT, VALUE_TYPE_UNSIGNED]
+
+// Rows per history.get page when reading a full window
+const HISTORY_PAGE_SIZE = 5000
+
+// Safety cap on history.get pages per item; a read of several items gets this many per item
+const HISTORY_MAX_PAGES = 50
+
+// Windows longer than this (seconds) are read from trends instead of raw history
+const HISTORY_TREND_THRESHOLD = 3 * 24 * 3600
+
+// Default point budget for get-history responses
+const DEFAULT_HISTORY_POINTS = 500
+
+// Window lengths (seconds) accepted by get-critical-history
+const CRITICAL_TIME_RANGES: Record<CriticalTimeRange, number> = {
+  '1h': 3600,
+  '6h': 21600,
+  '24h': 86400
+}
+
+// Upper bound on points per critical series; sets the resampling step
+const CRITICAL_HISTORY_MAX_POINTS = 360
+
+// Cap on problem events returned per instance by get-events
+const EVENTS_MAX = 1000
+
+// Problems per problem.get page of get-open-problems, and the pages read
+// before the instance is reported as failed rather than answered in part
+const OPEN_PROBLEMS_PAGE_SIZE = 1000
+const OPEN_PROBLEMS_MAX_PAGES = 50
+
+// Actions that change state in Zabbix. They are dispatched apart from the
+// read-only actions and require a signed-in Supabase user listed in ZABBIX_WRITE_USERS
+const WRITE_ACTIONS: ProxyAction[] = ['acknowledge-event']
+
+// Seconds a read response is reused, per action; 0 disables caching.
+// Polled actions sit a bit under the dashboard's refresh interval so every
+// open screen shares about one upstream query per interval.
+const DEFAULT_CACHE_TTL: Record<ProxyAction, number> = {
+  'get-instances': 0,
+  'get-metric-profiles': 0,
+  'get-hosts': 15,
+  'get-alerts': 8,
+  'get-open-problems': 0,
+  'get-events': 30,
+  'get-metrics': 4,
+  'get-history': 30,
+  'get-host-details': 15,
+  'get-host-graphs': 60,
+  'get-critical-history': 15,
+  'get-critical-histories': 15,
+  'get-latest-values': 4,
+  'acknowledge-event': 0
+}
+
+// Bound on cached responses, oldest evicted first
+const CACHE_MAX_ENTRIES = 500
+
+// Seconds between reads of a live stream; matches the fastest dashboard poll
+const LIVE_TICK_SECONDS = 5
+
+// Lifetime of one live stream connection before the client reconnects
+const LIVE_STREAM_MAX_SECONDS = 120
+
+// event.acknowledge action bits
+const ACK_CLOSE = 1
+const ACK_ACKNOWLEDGE = 2
+const ACK_MESSAGE = 4
+const ACK_CHANGE_SEVERITY = 8
+const ACK_UNACKNOWLEDGE = 16
+
+// Canonical metrics read by get-critical-history
+const CRITICAL_METRICS = ['ping', 'latency', 'cpu', 'memory'] as const
+
+// Zabbix interface types (hostinterface.type) and availability codes
+const INTERFACE_TYPES: Record<string, InterfaceType> = { '1': 'agent', '2': 'snmp', '3': 'ipmi', '4': 'jmx' }
+const AVAILABILITY_CODES: Availability[] = ['unknown', 'available', 'unavailable']
+
+// Host-level availability fields used by Zabbix versions before 5.4
+const LEGACY_AVAILABILITY_FIELDS: Record<InterfaceType, LegacyAvailabilityField> = {
+  agent: 'available',
+  snmp: 'snmp_available',
+  ipmi: 'ipmi_available',
+  jmx: 'jmx_available'
 }
 
+// hostmacro.type values
+const MACRO_TYPES = ['text', 'secret', 'vault'] as const
+const SECRET_MACRO_MASK = '******'
+
+// Host fields used to resolve a host's metric profile
+const PROFILE_HOST_FIELDS = {
+  selectParentTemplates: ['name'],
+  selectGroups: ['name']
+}
+
+// JSON-RPC params: an object for API methods, an empty array for apiinfo.version
+type ZabbixParams = Record<string, unknown> | unknown[]
+
 interface ZabbixRequest {
   jsonrpc: string
   method: string
-  params: any
+  params: ZabbixParams
   auth?: string
   id: number
 }
 
 interface ZabbixResponse {
   jsonrpc: string
-  result?: any
+  result?: unknown
   error?: {
     code: number
     message: string
@@ -25,95 +194,507 @@ interface ZabbixResponse {
   id: number
 }
 
+// Objects as the Zabbix API returns them, limited to the fields requested
+// here. Zabbix sends numbers, flags and timestamps as strings.
+interface RawTag {
+  tag: string
+  value?: string
+}
+
+interface RawInterface {
+  interfaceid?: string
+  type: string
+  main?: string
+  useip?: string
+  ip?: string
+  dns?: string
+  port?: string
+  available?: string
+  error?: string
+  errors_from?: string
+}
+
+interface RawMacro {
+  macro: string
+  value?: string
+  type?: string
+  description?: string
+}
+
+type LegacyAvailabilityField = 'available' | 'snmp_available' | 'ipmi_available' | 'jmx_available'
+
+interface RawHost extends Partial<Record<LegacyAvailabilityField, string>> {
+  hostid: string
+  host?: string
+  name: string
+  description?: string
+  status?: string
+  maintenance_status?: string
+  interfaces?: RawInterface[]
+  groups?: { name: string }[]
+  parentTemplates?: { name: string }[]
+  tags?: RawTag[]
+  // An empty array when inventory is disabled on the host
+  inventory?: Record<string, string> | []
+  macros?: RawMacro[]
+}
+
+// Calls that leave lastvalue, lastclock, units or value_type out of their
+// output never read them
+interface RawItem {
+  itemid: string
+  hostid?: string
+  name: string
+  key_: string
+  lastvalue: string
+  lastclock: string
+  units: string
+  value_type: string
+  status?: string
+  state?: string
+  error?: string
+  tags?: RawTag[]
+}
+
+interface RawTrigger {
+  triggerid: string
+  description: string
+  priority: string
+  lastchange: string
+  manual_close?: string
+  hosts?: { name: string }[]
+  lastEvent?: { eventid?: string; acknowledged?: string }
+}
+
+// select_acknowledges: 'extend'; the user fields depend on the Zabbix version
+interface RawAcknowledge {
+  acknowledgeid: string
+  clock: string
+  action: string
+  message: string
+  old_severity: string
+  new_severity: string
+  name?: string
+  surname?: string
+  username?: string
+  alias?: string
+}
+
+// Events from event.get and problems from problem.get; calls that request
+// fewer fields pick from it
+interface RawEvent {
+  eventid: string
+  objectid: string
+  clock: string
+  name: string
+  severity: string
+  r_eventid: string
+  acknowledged: string
+  hosts?: { hostid: string; name: string }[]
+  acknowledges?: RawAcknowledge[]
+}
+
+interface RawGraph {
+  graphid: string
+  name: string
+  gitems?: { itemid: string; color: string; sortorder: string }[]
+}
+
+interface RawHistory {
+  itemid: string
+  clock: string
+  value: string
+}
+
+interface RawTrend {
+  clock: string
+  value_min: string
+  value_avg: string
+  value_max: string
+}
+
+type AuthHeaderMode = 'auto' | 'bearer' | 'field'
+
+interface ZabbixConfig {
+  // Registry name, attached to every host, alert and metric as `instance`
+  name: string
+  url: string
+  token?: string
+  username?: string
+  password?: string
+  // How the session/token is sent: `Authorization: Bearer` (Zabbix 6.4+),
+  // the legacy `auth` field, or auto-detected from apiinfo.version
+  authHeader?: AuthHeaderMode
+  // Seconds a validated token or user.login session is reused for
+  sessionTtl?: number
+}
+
+interface AcknowledgeOptions {
+  message?: string
+  acknowledge?: boolean
+  close?: boolean
+  severity?: Severity
+}
+
+interface ReadResult {
+  data: unknown
+  instanceErrors: InstanceError[]
+}
+
+// Instances and settings an action runs with
+interface ActionTarget {
+  selected: ZabbixConfig[]
+  clients: ZabbixAPI[]
+  profiles: MetricProfile[]
+  priorityMapping: PriorityMapping
+}
+
+interface WriteUser {
+  id: string
+  email: string
+}
+
+// Failure that serve turns into an error envelope with this code and status
+class ApiError extends Error {
+  constructor(readonly code: ErrorCode, message: string, readonly status: number) {
+    super(message)
+  }
+}
+
+interface CachedSession {
+  authToken: string
+  useBearer: boolean
+  expiresAt: number
+}
+
+// Methods that Zabbix rejects when an auth token is attached
+const UNAUTHENTICATED_METHODS = ['apiinfo.version', 'user.login']
+
+// Error text Zabbix returns when a user.login session has expired
+const SESSION_EXPIRED_PATTERN = /session terminated|not authori[sz]ed/i
+
+const DEFAULT_SESSION_TTL = 600
+
+// Instance name used when only ZABBIX_URL is configured
+const DEFAULT_INSTANCE = 'default'
+
+// Sessions survive across invocations while the edge runtime keeps this isolate warm
+const sessionCache = new Map<string, CachedSession>()
+
+// Logins in progress per session key; concurrent requests wait for the same one
+const pendingLogins = new Map<string, Promise<CachedSession | null>>()
+
+// Read responses shared across requests of this isolate; see cache.ts
+const responseCache = new ResponseCache<ReadResult>(CACHE_MAX_ENTRIES)
+
+// JSON response with CORS headers; bodies follow ProxyEnvelopeSchema except the OpenAPI document
+function respond(body: unknown, status: number, headers: Record<string, string> = {}): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' } }
+  )
+}
+
+function fail(failure: Omit<ProxyFailure, 'success'>, status: number, headers: Record<string, string> = {}): Response {
+  return respond({ success: false, ...failure }, status, headers)
+}
+
+// Builds the event.acknowledge action bitmask for a set of options
+function acknowledgeAction(options: AcknowledgeOptions): number {
+  let action = 0
+  if (options.close) action |= ACK_CLOSE
+  if (options.acknowledge) action |= ACK_ACKNOWLEDGE
+  if (options.message) action |= ACK_MESSAGE
+  if (options.severity !== undefined && options.severity !== null) action |= ACK_CHANGE_SEVERITY
+  return action
+}
+
+// Converts a Zabbix Unix timestamp (seconds) into an ISO string
+function toIsoTime(clock: string | number): string {
+  return new Date(Number(clock) * 1000).toISOString()
+}
+
+// Compares dotted version strings, e.g. compareVersions('6.4.1', '6.4') > 0
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number)
+  const right = b.split('.').map(Number)
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
 class ZabbixAPI {
+  readonly instance: string
   private baseUrl: string
-  private token: string
+  private config: ZabbixConfig
   private authToken: string | null = null
+  private useBearer = false
+  private apiVersion: string | null = null
   private requestId: number = 1
+  private profiles: MetricProfile[]
 
-  constructor(baseUrl: string, token: string) {
-    this.baseUrl = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`
-    this.token = token
+  constructor(config: ZabbixConfig, profiles: MetricProfile[] = mergeProfiles()) {
+    this.instance = config.name
+    this.baseUrl = config.url.endsWith('/') ? config.url : `${config.url}/`
+    this.config = config
+    this.profiles = profiles
   }
 
-  private async makeRequest(method: string, params: any = {}): Promise<any> {
-    const requestData: ZabbixRequest = {
-      jsonrpc: '2.0',
-      method,
-      params,
-      id: Date.now(),
+  private get usesPassword(): boolean {
+    return !this.config.token && !!this.config.username
+  }
+
+  private get sessionKey(): string {
+    return `${this.baseUrl}|${this.usesPassword ? `user:${this.config.username}` : 'token'}`
+  }
+
+  /**
+   * Posts a JSON-RPC request (or batch) attaching credentials either as the
+   * `auth` field or as a Bearer header. Expired user.login sessions are
+   * renewed once transparently.
+   */
+  private async sendRpc(payload: ZabbixRequest | ZabbixRequest[], retryOnExpiredSession = true): Promise<ZabbixResponse | ZabbixResponse[]> {
+    const requests = Array.isArray(payload) ? payload : [payload]
+    const headers: Record<string, string> = { 'Content-Type': 'application/json-rpc' }
+    const needsAuth = !requests.every(r => UNAUTHENTICATED_METHODS.includes(r.method))
+
+    for (const request of requests) {
+      delete request.auth
+      if (this.authToken && !this.useBearer && !UNAUTHENTICATED_METHODS.includes(request.method)) {
+        request.auth = this.authToken
+      }
     }
 
-    // Add auth token if available and not for user.login
-    if (this.authToken && method !== 'user.login') {
-      requestData.auth = this.authToken
+    if (this.authToken && this.useBearer && needsAuth) {
+      headers['Authorization'] = `Bearer ${this.authToken}`
     }
+    const sentToken = this.authToken
 
-    console.log(`Making Zabbix request: ${method}`)
-    
     const response = await fetch(`${this.baseUrl}api_jsonrpc.php`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestData),
+      headers,
+      body: JSON.stringify(payload),
     })
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`)
     }
 
-    const data: ZabbixResponse = await response.json()
+    const data: ZabbixResponse | ZabbixResponse[] = await response.json()
+    const responses = Array.isArray(data) ? data : [data]
+    const sessionExpired = responses.some(entry =>
+      entry.error && SESSION_EXPIRED_PATTERN.test(`${entry.error.message} ${entry.error.data}`)
+    )
+
+    if (sessionExpired && retryOnExpiredSession && needsAuth && this.usesPassword) {
+      // Another call may already have renewed the session while this one was in flight
+      if (this.authToken !== sentToken || await this.authenticate(sentToken)) {
+        return this.sendRpc(payload, false)
+      }
+    }
+
+    return data
+  }
+
+  /**
+   * Calls one API method; T is the raw result shape, see the Raw* interfaces
+   */
+  private async makeRequest<T>(method: string, params: ZabbixParams = {}): Promise<T> {
+    const requestData: ZabbixRequest = {
+      jsonrpc: '2.0',
+      method,
+      params,
+      id: this.requestId++,
+    }
+
+    console.log(`Making Zabbix request: ${method}`)
+
+    const data = await this.sendRpc(requestData) as ZabbixResponse
     
     if (data.error) {
       console.error('Zabbix API error:', data.error)
       throw new Error(`Zabbix API error: ${data.error.message}`)
     }
 
-    return data.result
+    return data.result as T
   }
 
-  async authenticate(): Promise<boolean> {
-    try {
-      console.log('Authenticating with Zabbix using API token...')
-      
-      // Try to authenticate using the API token directly
-      // For API tokens, we can test with a simple method call
-      this.authToken = this.token
-      
-      // Test the token by making a simple API call
-      await this.makeRequest('user.get', { output: ['userid'] })
-      
-      console.log('Authentication successful with API token')
+  /**
+   * Sends several calls in a single JSON-RPC batch array and returns the
+   * results in the same order as the calls; T lists the raw result shapes
+   */
+  private async makeBatchRequest<T extends unknown[]>(calls: Array<{ method: string; params: ZabbixParams }>): Promise<T> {
+    if (calls.length === 0) return [] as unknown[] as T
+    if (calls.length === 1) return [await this.makeRequest(calls[0].method, calls[0].params)] as T
+
+    const batch: ZabbixRequest[] = calls.map(call => ({
+      jsonrpc: '2.0',
+      method: call.method,
+      params: call.params,
+      id: this.requestId++,
+    }))
+
+    console.log(`Making Zabbix batch request: ${calls.length}x ${calls[0].method}`)
+
+    const data = await this.sendRpc(batch)
+
+    if (!Array.isArray(data)) {
+      console.error('Zabbix API error:', data.error)
+      throw new Error(`Zabbix API error: ${data.error?.message || 'invalid batch response'}`)
+    }
+
+    const byId = new Map(data.map(entry => [entry.id, entry]))
+
+    return batch.map(request => {
+      const entry = byId.get(request.id)
+      if (!entry) {
+        throw new Error(`Zabbix API error: missing batch response for ${request.method}`)
+      }
+      if (entry.error) {
+        console.error('Zabbix API error:', entry.error)
+        throw new Error(`Zabbix API error: ${entry.error.message}`)
+      }
+      return entry.result
+    }) as T
+  }
+
+  /**
+   * Reuses a cached session or token when one is still valid, otherwise
+   * authenticates against Zabbix. Throws when no session can be opened.
+   */
+  async ensureAuthenticated(): Promise<void> {
+    if (this.authToken) return
+
+    const cached = sessionCache.get(this.sessionKey)
+    if (cached && cached.expiresAt > Date.now()) {
+      this.adoptSession(cached)
+      return
+    }
+
+    if (!await this.authenticate()) {
+      throw new Error(`Zabbix authentication failed for instance ${this.instance}`)
+    }
+  }
+
+  /**
+   * Opens a new session, joining a login already in progress for the same
+   * credentials. `expiredToken` is the token Zabbix rejected; a cached session
+   * with a different token was renewed meanwhile and is reused as is. The
+   * current token stays in place until the new one arrives.
+   */
+  async authenticate(expiredToken?: string | null): Promise<boolean> {
+    const key = this.sessionKey
+    const cached = sessionCache.get(key)
+    if (expiredToken && cached && cached.authToken !== expiredToken && cached.expiresAt > Date.now()) {
+      this.adoptSession(cached)
       return true
-    } catch (error) {
-      console.error('Authentication failed:', error)
+    }
+
+    let pending = pendingLogins.get(key)
+    if (!pending) {
+      pending = this.login().finally(() => pendingLogins.delete(key))
+      pendingLogins.set(key, pending)
+    }
+
+    const session = await pending
+    if (!session) {
       this.authToken = null
       return false
     }
+    this.adoptSession(session)
+    return true
   }
 
-  async getHosts(): Promise<any[]> {
+  private async login(): Promise<CachedSession | null> {
     try {
-      if (!this.authToken) {
-        await this.authenticate()
+      const useBearer = await this.detectBearerSupport()
+      let authToken: string
+
+      if (this.usesPassword) {
+        console.log(`Authenticating with Zabbix as ${this.config.username}...`)
+
+        // Zabbix 5.4 renamed the user.login `user` parameter to `username`
+        const version = await this.getApiVersion()
+        const loginParams = compareVersions(version, '5.4') >= 0
+          ? { username: this.config.username, password: this.config.password }
+          : { user: this.config.username, password: this.config.password }
+
+        authToken = await this.makeRequest('user.login', loginParams)
+        console.log('Authentication successful with user.login')
+      } else {
+        console.log('Authenticating with Zabbix using API token...')
+
+        // The token never changes, so it can be attached before it is verified
+        authToken = this.config.token as string
+        this.adoptSession({ authToken, useBearer, expiresAt: 0 })
+
+        // Test the token by making a simple API call
+        await this.makeRequest('user.get', { output: ['userid'] })
+
+        console.log('Authentication successful with API token')
       }
 
-      const hosts = await this.makeRequest('host.get', {
+      const session = {
+        authToken,
+        useBearer,
+        expiresAt: Date.now() + (this.config.sessionTtl ?? DEFAULT_SESSION_TTL) * 1000
+      }
+      sessionCache.set(this.sessionKey, session)
+      return session
+    } catch (error) {
+      console.error('Authentication failed:', error)
+      sessionCache.delete(this.sessionKey)
+      return null
+    }
+  }
+
+  private adoptSession(session: CachedSession) {
+    this.authToken = session.authToken
+    this.useBearer = session.useBearer
+  }
+
+  private async getApiVersion(): Promise<string> {
+    if (!this.apiVersion) {
+      this.apiVersion = await this.makeRequest('apiinfo.version', [])
+    }
+    return this.apiVersion as string
+  }
+
+  private async detectBearerSupport(): Promise<boolean> {
+    switch (this.config.authHeader) {
+      case 'bearer': return true
+      case 'field': return false
+      default:
+        try {
+          return compareVersions(await this.getApiVersion(), '6.4') >= 0
+        } catch (error) {
+          console.warn('Could not detect Zabbix API version, using auth field:', error)
+          return false
+        }
+    }
+  }
+
+  async getHosts(): Promise<ZabbixHost[]> {
+    try {
+      await this.ensureAuthenticated()
+
+      const hosts = await this.makeRequest<RawHost[]>('host.get', {
         output: ['hostid', 'name', 'status', 'available'],
         selectInterfaces: ['interfaceid', 'ip', 'available'],
         selectGroups: ['name'],
         sortfield: 'name'
       })
 
-      return hosts.map((host: any) => {
+      return hosts.map(host => {
         // Get primary interface for IP and status
         const primaryInterface = host.interfaces?.[0]
         const ip = primaryInterface?.ip || 'N/A'
         
         // Determine final availability status according to Zabbix standard:
         // 0 = unknown, 1 = online, 2 = offline
-        let finalAvailable = 'unknown'
+        let finalAvailable: ZabbixHost['available'] = 'unknown'
         if (host.available === '1') {
           finalAvailable = 'online'
         } else if (host.available === '2') {
@@ -128,14 +709,15 @@ class ZabbixAPI {
         }
 
         return {
+          instance: this.instance,
           id: host.hostid,
-          name: host.name || host.host,
+          name: host.name || host.host || host.hostid,
           host: host.host || host.name,
           status: host.status === '0' ? 'enabled' : 'disabled',
           available: finalAvailable,
           ip: ip,
           dns: 'N/A',
-          groups: host.groups?.map((g: any) => g.name) || []
+          groups: host.groups?.map(g => g.name) || []
         }
       })
     } catch (error) {
@@ -144,15 +726,15 @@ class ZabbixAPI {
     }
   }
 
-  async getAlerts(): Promise<any[]> {
+  // Priority is added by the caller from the configured severity mapping
+  async getAlerts(): Promise<Omit<ZabbixAlert, 'priority'>[]> {
     try {
-      if (!this.authToken) {
-        await this.authenticate()
-      }
+      await this.ensureAuthenticated()
 
-      const triggers = await this.makeRequest('trigger.get', {
-        output: ['triggerid', 'description', 'priority', 'lastchange', 'value'],
+      const triggers = await this.makeRequest<RawTrigger[]>('trigger.get', {
+        output: ['triggerid', 'description', 'priority', 'lastchange', 'value', 'manual_close'],
         selectHosts: ['name'],
+        selectLastEvent: ['eventid', 'acknowledged'],
         filter: {
           value: 1, // Only active triggers
           status: 0  // Only enabled triggers
@@ -162,76 +744,245 @@ class ZabbixAPI {
         limit: 50
       })
 
-      return triggers.map((trigger: any) => ({
-        id: trigger.triggerid,
-        title: trigger.description,
-        host: trigger.hosts?.[0]?.name || 'Unknown',
-        severity: this.mapPriority(trigger.priority),
-        timestamp: new Date(parseInt(trigger.lastchange) * 1000).toISOString(),
-        description: trigger.description,
-        acknowledged: false // Default for now
-      }))
+      // Acknowledgement state and history live on the problem event, not the trigger
+      const eventIds = triggers.map(trigger => trigger.lastEvent?.eventid).filter(Boolean)
+      const events = eventIds.length > 0
+        ? await this.makeRequest<Pick<RawEvent, 'eventid' | 'acknowledged' | 'acknowledges'>[]>('event.get', {
+            eventids: eventIds,
+            output: ['eventid', 'acknowledged'],
+            select_acknowledges: 'extend'
+          })
+        : []
+      const eventsById = new Map(events.map(event => [event.eventid, event]))
+
+      return triggers.map(trigger => {
+        const event = eventsById.get(trigger.lastEvent?.eventid ?? '')
+        return {
+          instance: this.instance,
+          id: trigger.triggerid,
+          eventId: trigger.lastEvent?.eventid || null,
+          title: trigger.description,
+          host: trigger.hosts?.[0]?.name || 'Unknown',
+          severity: severityFromPriority(trigger.priority),
+          timestamp: new Date(parseInt(trigger.lastchange) * 1000).toISOString(),
+          description: trigger.description,
+          acknowledged: (event?.acknowledged ?? trigger.lastEvent?.acknowledged) === '1',
+          manualClose: trigger.manual_close === '1',
+          acknowledges: (event?.acknowledges || []).map(ack => this.mapAcknowledge(ack))
+        }
+      })
     } catch (error) {
       console.error('Error fetching alerts:', error)
       throw error
     }
   }
 
-  async getMetrics(hostIds?: string[]): Promise<any[]> {
+  /**
+   * Gets every open problem, paging problem.get by event ID, with the host and
+   * manual close flag of its trigger. Unlike getAlerts nothing is capped: past
+   * OPEN_PROBLEMS_MAX_PAGES pages the call fails instead of returning part of
+   * the list, since a missing problem would read as recovered.
+   */
+  async getOpenProblems(): Promise<Omit<ZabbixAlert, 'priority'>[]> {
     try {
-      if (!this.authToken) {
-        await this.authenticate()
+      await this.ensureAuthenticated()
+
+      const problems: Omit<RawEvent, 'hosts'>[] = []
+      let eventIdFrom: string | null = null
+
+      for (let page = 0; ; page++) {
+        if (page === OPEN_PROBLEMS_MAX_PAGES) {
+          throw new Error(`More than ${OPEN_PROBLEMS_MAX_PAGES * OPEN_PROBLEMS_PAGE_SIZE} open problems`)
+        }
+
+        const pageProblems: Omit<RawEvent, 'hosts'>[] = await this.makeRequest('problem.get', {
+          output: ['eventid', 'objectid', 'clock', 'name', 'severity', 'r_eventid', 'acknowledged'],
+          source: 0, // Trigger problems
+          object: 0,
+          selectAcknowledges: 'extend',
+          ...(eventIdFrom ? { eventid_from: eventIdFrom } : {}),
+          sortfield: ['eventid'],
+          sortorder: 'ASC',
+          limit: OPEN_PROBLEMS_PAGE_SIZE
+        })
+        problems.push(...pageProblems)
+
+        if (pageProblems.length < OPEN_PROBLEMS_PAGE_SIZE) break
+        // eventid_from is inclusive
+        eventIdFrom = String(Number(pageProblems[pageProblems.length - 1].eventid) + 1)
+      }
+
+      // problem.get cannot select hosts; they come from the problems' triggers
+      const triggerIds = [...new Set(problems.map(problem => problem.objectid))]
+      const triggerChunks: string[][] = []
+      for (let i = 0; i < triggerIds.length; i += OPEN_PROBLEMS_PAGE_SIZE) {
+        triggerChunks.push(triggerIds.slice(i, i + OPEN_PROBLEMS_PAGE_SIZE))
       }
+      const triggers = await this.makeBatchRequest<Pick<RawTrigger, 'triggerid' | 'manual_close' | 'hosts'>[][]>(
+        triggerChunks.map(chunk => ({
+          method: 'trigger.get',
+          params: { triggerids: chunk, output: ['triggerid', 'manual_close'], selectHosts: ['name'] }
+        }))
+      )
+      const triggersById = new Map(triggers.flat().map(trigger => [trigger.triggerid, trigger]))
+
+      console.log(`Found ${problems.length} open problems on ${triggerIds.length} triggers`)
+
+      return problems.map(problem => {
+        const trigger = triggersById.get(problem.objectid)
+        return {
+          instance: this.instance,
+          id: problem.objectid,
+          eventId: problem.eventid,
+          title: problem.name,
+          host: trigger?.hosts?.[0]?.name || 'Unknown',
+          severity: severityFromPriority(problem.severity),
+          timestamp: toIsoTime(problem.clock),
+          description: problem.name,
+          acknowledged: problem.acknowledged === '1',
+          manualClose: trigger?.manual_close === '1',
+          acknowledges: (problem.acknowledges || []).map(ack => this.mapAcknowledge(ack))
+        }
+      })
+    } catch (error) {
+      console.error('Error fetching open problems:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Gets trigger problem events that were active at any point in the window,
+   * including problems that started before it. Each problem is paired with
+   * its recovery event so the duration is known; open problems are measured
+   * up to now.
+   */
+  async getEvents(timeFrom: number, timeTill: number, hostIds?: string[]): Promise<Omit<ZabbixEvent, 'priority'>[]> {
+    try {
+      await this.ensureAuthenticated()
+
+      const problems = await this.makeRequest<RawEvent[]>('event.get', {
+        output: ['eventid', 'objectid', 'clock', 'name', 'severity', 'r_eventid', 'acknowledged'],
+        source: 0, // Trigger events
+        object: 0,
+        value: 1, // Problem events only; recoveries are loaded below
+        problem_time_from: timeFrom,
+        problem_time_till: timeTill,
+        selectHosts: ['hostid', 'name'],
+        ...(hostIds && hostIds.length > 0 ? { hostids: hostIds } : {}),
+        sortfield: ['clock', 'eventid'],
+        sortorder: 'DESC',
+        limit: EVENTS_MAX
+      })
+
+      const recoveryIds = problems
+        .map(problem => problem.r_eventid)
+        .filter(eventId => eventId && eventId !== '0')
+
+      const recoveries = recoveryIds.length > 0
+        ? await this.makeRequest<Pick<RawEvent, 'eventid' | 'clock'>[]>('event.get', {
+            output: ['eventid', 'clock'],
+            eventids: recoveryIds
+          })
+        : []
+
+      const recoveryClock = new Map<string, number>(
+        recoveries.map(recovery => [recovery.eventid, parseInt(recovery.clock)])
+      )
+      const now = Math.floor(Date.now() / 1000)
+
+      console.log(`Found ${problems.length} problem events, ${recoveries.length} recovered`)
+
+      return problems.map(problem => {
+        const startedAt = parseInt(problem.clock)
+        const resolvedAt = recoveryClock.get(problem.r_eventid) ?? null
+
+        return {
+          instance: this.instance,
+          id: problem.eventid,
+          triggerId: problem.objectid,
+          title: problem.name,
+          hostId: problem.hosts?.[0]?.hostid || '',
+          host: problem.hosts?.[0]?.name || 'Unknown',
+          severity: severityFromPriority(problem.severity),
+          status: resolvedAt !== null ? 'resolved' : 'problem',
+          startedAt: new Date(startedAt * 1000).toISOString(),
+          resolvedAt: resolvedAt !== null ? new Date(resolvedAt * 1000).toISOString() : null,
+          duration: (resolvedAt ?? now) - startedAt,
+          acknowledged: problem.acknowledged === '1'
+        }
+      })
+    } catch (error) {
+      console.error('Error fetching events:', error)
+      throw error
+    }
+  }
+
+  async getMetrics(hostIds?: string[]): Promise<ZabbixMetric[]> {
+    try {
+      await this.ensureAuthenticated()
 
       // Get all hosts with status info if no specific IDs provided
       const hosts = hostIds ? 
-        await this.makeRequest('host.get', {
+        await this.makeRequest<RawHost[]>('host.get', {
           output: ['hostid', 'name', 'host', 'status', 'available'],
           selectInterfaces: ['ip'],
+          ...PROFILE_HOST_FIELDS,
           hostids: hostIds
         }) :
-        await this.makeRequest('host.get', {
+        await this.makeRequest<RawHost[]>('host.get', {
           output: ['hostid', 'name', 'host', 'status', 'available'],
-          selectInterfaces: ['ip']
+          selectInterfaces: ['ip'],
+          ...PROFILE_HOST_FIELDS
         })
 
-      const metrics = []
+      const metrics: ZabbixMetric[] = []
 
-      for (const host of hosts) {
-        // Get comprehensive system metrics for this host
-        const items = await this.makeRequest('item.get', {
-          output: ['itemid', 'name', 'key_', 'lastvalue', 'units', 'lastclock', 'value_type'],
-          hostids: host.hostid,
+      // Fetch items for every host in a single batch instead of one item.get per host.
+      // Host IDs are chunked so no single call grows without bound.
+      const hostChunks: string[][] = []
+      for (let i = 0; i < hosts.length; i += METRICS_HOST_CHUNK_SIZE) {
+        hostChunks.push(hosts.slice(i, i + METRICS_HOST_CHUNK_SIZE).map(host => host.hostid))
+      }
+
+      const chunkResults = await this.makeBatchRequest<RawItem[][]>(hostChunks.map(chunk => ({
+        method: 'item.get',
+        params: {
+          output: ['itemid', 'hostid', 'name', 'key_', 'lastvalue', 'units', 'lastclock', 'value_type'],
+          hostids: chunk,
           monitored: true,
           filter: {
-            value_type: [0, 3] // Numeric values only
+            value_type: NUMERIC_VALUE_TYPES
           },
-          limit: 100
-        })
+          ...this.keySearch(this.profiles)
+        }
+      })))
 
-        // Filter for relevant metrics
-        const relevantItems = items.filter((item: any) => {
-          const key = item.key_.toLowerCase()
-          return key.includes('cpu') || 
-                 key.includes('memory') || 
-                 key.includes('vm.memory') ||
-                 key.includes('ping') ||
-                 key.includes('uptime') ||
-                 key.includes('vfs.fs') ||
-                 key.includes('net.if') ||
-                 key.includes('load') ||
-                 key.includes('proc.num') ||
-                 key.includes('swap')
-        })
+      const itemsByHost = new Map<string, RawItem[]>()
+      for (const item of chunkResults.flat()) {
+        const hostItems = itemsByHost.get(item.hostid ?? '') || []
+        hostItems.push(item)
+        itemsByHost.set(item.hostid ?? '', hostItems)
+      }
+
+      for (const host of hosts) {
+        const profile = this.profileForHost(host)
+        const items = itemsByHost.get(host.hostid) || []
+
+        // Keep only items the host's profile maps to a canonical metric
+        const relevantItems = items
+          .map(item => ({ item, match: matchItem(profile, item) }))
+          .filter(({ match }) => match !== null)
+          .slice(0, METRICS_ITEMS_PER_HOST)
 
-        for (const item of relevantItems) {
+        for (const { item, match } of relevantItems) {
           const rawValue = parseFloat(item.lastvalue || '0')
-          const normalizedValue = this.normalizeMetricValue(rawValue, item.key_, item.units)
+          const normalizedValue = this.normalizeMetricValue(rawValue, match!.metric, item.units)
           
           metrics.push({
+            instance: this.instance,
             hostId: host.hostid,
             hostName: host.name,
-            hostHost: host.host,
+            hostHost: host.host ?? host.name,
             hostStatus: host.status === '0' ? 'enabled' : 'disabled',
             // Fix: Zabbix available field - '0' = unknown, '1' = online, '2' = offline
             hostAvailable: host.available === '1' ? 'online' : host.available === '2' ? 'offline' : 'unknown',
@@ -241,7 +992,11 @@ class ZabbixAPI {
             key: item.key_,
             value: normalizedValue.value.toString(),
             units: normalizedValue.unit,
-            type: this.getMetricType(item.key_),
+            rawValue: item.lastvalue || '0',
+            rawUnits: item.units || '',
+            type: METRIC_CATEGORY[match!.metric],
+            metric: match!.metric,
+            profile: profile.id,
             lastUpdate: item.lastclock ? new Date(parseInt(item.lastclock) * 1000).toISOString() : new Date().toISOString()
           })
         }
@@ -254,108 +1009,412 @@ class ZabbixAPI {
     }
   }
 
-  async getHistory(itemId: string, timeFrom: number, timeTill: number): Promise<any[]> {
+  /**
+   * Lists the graphs configured on a host together with its numeric items,
+   * so the dashboard can plot a graph's items or an ad-hoc selection
+   */
+  async getHostGraphs(hostId: string): Promise<ZabbixHostGraphs> {
     try {
-      if (!this.authToken) {
-        await this.authenticate()
-      }
+      await this.ensureAuthenticated()
+
+      const [graphs, items] = await this.makeBatchRequest<[RawGraph[], RawItem[]]>([
+        {
+          method: 'graph.get',
+          params: {
+            hostids: hostId,
+            output: ['graphid', 'name', 'graphtype'],
+            selectGraphItems: ['itemid', 'color', 'sortorder'],
+            sortfield: 'name'
+          }
+        },
+        {
+          method: 'item.get',
+          params: {
+            hostids: hostId,
+            output: ['itemid', 'name', 'key_', 'units', 'lastvalue', 'lastclock'],
+            monitored: true,
+            filter: {
+              value_type: NUMERIC_VALUE_TYPES
+            },
+            sortfield: 'name'
+          }
+        }
+      ])
 
-      const history = await this.makeRequest('history.get', {
-        output: 'extend',
-        itemids: itemId,
-        time_from: timeFrom,
-        time_till: timeTill,
-        sortfield: 'clock',
-        sortorder: 'ASC',
-        limit: 1000
-      })
+      // Graphs may reference items that are disabled or not numeric; those cannot be plotted
+      const numericIds = new Set(items.map(item => item.itemid))
 
-      return history.map((entry: any) => ({
-        timestamp: parseInt(entry.clock) * 1000,
-        value: parseFloat(entry.value) || 0
-      }))
+      console.log(`Found ${graphs.length} graphs and ${items.length} numeric items for host ${hostId}`)
+
+      return {
+        instance: this.instance,
+        hostId,
+        graphs: graphs.map(graph => ({
+          id: graph.graphid,
+          name: graph.name,
+          items: (graph.gitems || [])
+            .filter(gitem => numericIds.has(gitem.itemid))
+            .sort((a, b) => parseInt(a.sortorder) - parseInt(b.sortorder))
+            .map(gitem => ({ itemId: gitem.itemid, color: `#${gitem.color}` }))
+        })),
+        items: items.map(item => ({
+          itemId: item.itemid,
+          name: item.name,
+          key: item.key_,
+          units: item.units || '',
+          lastValue: item.lastvalue,
+          lastUpdate: item.lastclock ? new Date(parseInt(item.lastclock) * 1000).toISOString() : null
+        }))
+      }
     } catch (error) {
-      console.error('Error fetching history:', error)
+      console.error('Error getting host graphs:', error)
       throw error
     }
   }
 
-  private mapPriority(priority: string): 'low' | 'medium' | 'high' | 'critical' {
-    switch (priority) {
-      case '5': return 'critical'
-      case '4': return 'high'
-      case '3': return 'medium'
-      case '2': return 'medium'
-      case '1': return 'low'
-      default: return 'low'
-    }
+  /**
+   * Gets the history of an item for the whole requested window.
+   * The history table is picked from the item's value_type. Numeric windows
+   * longer than HISTORY_TREND_THRESHOLD are read from trend.get (hourly
+   * min/avg/max); the series is then downsampled with LTTB to at most
+   * maxPoints so charts keep a faithful shape for any range. Character, log
+   * and text items come back as string series.
+   */
+  async getHistory(itemId: string, timeFrom: number, timeTill: number, maxPoints: number = DEFAULT_HISTORY_POINTS): Promise<HistoryPoint[]> {
+    try {
+      await this.ensureAuthenticated()
+
+      const item = await this.getItemInfo(itemId)
+      const valueType = parseInt(item.value_type)
+
+      if (!NUMERIC_VALUE_TYPES.includes(valueType)) {
+        const { entries: history } = await this.fetchHistoryRange(itemId, timeFrom, timeTill, valueType)
+        const textPoints = collapseTextSeries(history.map(entry => ({
+          timestamp: parseInt(entry.clock) * 1000,
+          value: String(entry.value ?? '')
+        })))
+        console.log(`Loaded ${textPoints.length} text history points for item ${itemId}`)
+        return textPoints.slice(-maxPoints)
+      }
+
+      let points: SeriesPoint[] = []
+
+      if (timeTill - timeFrom > HISTORY_TREND_THRESHOLD) {
+        points = await this.fetchTrendRange(itemId, timeFrom, timeTill)
+        console.log(`Loaded ${points.length} trend points for item ${itemId}`)
+      }
+
+      // Short windows, or trends not yet computed/disabled for this item
+      if (points.length === 0) {
+        const { entries: history } = await this.fetchHistoryRange(itemId, timeFrom, timeTill, valueType)
+        points = history.map(entry => ({
+          timestamp: parseInt(entry.clock) * 1000,
+          value: parseFloat(entry.value) || 0
+        }))
+        console.log(`Loaded ${points.length} history points for item ${itemId}`)
+      }
+
+      return downsampleLTTB(points, maxPoints)
+    } catch (error) {
+      console.error('Error fetching history:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Pages through history.get in ascending clock order until the window is
+   * exhausted, instead of stopping at the first page. Several items of the
+   * same value type can be read together; their entries are interleaved.
+   * `truncated` is set when the page cap cut off the end of the window.
+   */
+  private async fetchHistoryRange(
+    itemIds: string | string[],
+    timeFrom: number,
+    timeTill: number,
+    historyType: number
+  ): Promise<{ entries: RawHistory[]; truncated: boolean }> {
+    const entries: RawHistory[] = []
+    const maxPages = HISTORY_MAX_PAGES * [itemIds].flat().length
+    let pageFrom = timeFrom
+
+    for (let page = 0; page < maxPages; page++) {
+      const pageEntries = await this.makeRequest<RawHistory[]>('history.get', {
+        output: 'extend',
+        history: historyType,
+        itemids: itemIds,
+        time_from: pageFrom,
+        time_till: timeTill,
+        sortfield: 'clock',
+        sortorder: 'ASC',
+        limit: HISTORY_PAGE_SIZE
+      })
+      entries.push(...pageEntries)
+
+      if (pageEntries.length < HISTORY_PAGE_SIZE) {
+        return { entries, truncated: false }
+      }
+
+      // Resume after the last second read; values sharing that second are
+      // dropped from the next page to avoid duplicates
+      const lastClock = parseInt(pageEntries[pageEntries.length - 1].clock)
+      while (entries.length > 0 && parseInt(entries[entries.length - 1].clock) === lastClock) {
+        entries.pop()
+      }
+      pageFrom = lastClock
+    }
+
+    console.warn(`History for item ${[itemIds].flat().join(', ')} truncated after ${maxPages} pages`)
+    return { entries, truncated: true }
+  }
+
+  /**
+   * Reads hourly trends (min/avg/max) for long windows
+   */
+  private async fetchTrendRange(itemId: string, timeFrom: number, timeTill: number): Promise<SeriesPoint[]> {
+    const trends = await this.makeRequest<RawTrend[]>('trend.get', {
+      output: ['itemid', 'clock', 'value_min', 'value_avg', 'value_max'],
+      itemids: itemId,
+      time_from: timeFrom,
+      time_till: timeTill
+    })
+
+    return trends
+      .map(trend => ({
+        timestamp: parseInt(trend.clock) * 1000,
+        value: parseFloat(trend.value_avg) || 0,
+        min: parseFloat(trend.value_min) || 0,
+        max: parseFloat(trend.value_max) || 0
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp)
+  }
+
+  /**
+   * Acknowledges, comments on, re-prioritizes or closes problem events
+   */
+  async acknowledgeEvents(eventIds: string[], options: AcknowledgeOptions): Promise<Omit<ActionResponse<'acknowledge-event'>, 'auditId'>> {
+    await this.ensureAuthenticated()
+
+    const action = acknowledgeAction(options)
+    if (action === 0) {
+      throw new Error('Nothing to do: provide a message, acknowledge, close or severity')
+    }
+
+    console.log(`Acknowledging events ${eventIds.join(', ')} with action ${action}`)
+
+    const result = await this.makeRequest<{ eventids?: string[] } | null>('event.acknowledge', {
+      eventids: eventIds,
+      action,
+      ...(options.message ? { message: options.message } : {}),
+      ...(action & ACK_CHANGE_SEVERITY ? { severity: severityToPriority(options.severity!) } : {})
+    })
+
+    return { eventIds: result?.eventids || eventIds, action }
+  }
+
+  private mapAcknowledge(ack: RawAcknowledge): ZabbixAcknowledge {
+    const action = parseInt(ack.action || '0')
+    const fullName = [ack.name, ack.surname].filter(Boolean).join(' ')
+    return {
+      id: ack.acknowledgeid,
+      timestamp: new Date(parseInt(ack.clock) * 1000).toISOString(),
+      user: fullName || ack.username || ack.alias || 'Unknown',
+      message: ack.message || '',
+      close: (action & ACK_CLOSE) !== 0,
+      acknowledge: (action & ACK_ACKNOWLEDGE) !== 0,
+      unacknowledge: (action & ACK_UNACKNOWLEDGE) !== 0,
+      severityChange: (action & ACK_CHANGE_SEVERITY) !== 0
+        ? { from: severityFromPriority(ack.old_severity), to: severityFromPriority(ack.new_severity) }
+        : null
+    }
+  }
+
+  /**
+   * item.get parameters that limit the items to keys the profiles' rules can
+   * match; empty when a rule cannot be expressed as a key search
+   */
+  private keySearch(profiles: MetricProfile[], metrics?: readonly CanonicalMetric[]) {
+    const terms = keySearchTerms(profiles, metrics)
+    return terms ? { search: { key_: terms }, searchByAny: true } : {}
   }
 
-  private getMetricType(key: string): string {
-    const lowerKey = key.toLowerCase()
-    if (lowerKey.includes('cpu')) return 'cpu'
-    if (lowerKey.includes('memory') || lowerKey.includes('vm.memory')) return 'memory'
-    if (lowerKey.includes('ping') || lowerKey.includes('icmp')) return 'ping'
-    if (lowerKey.includes('net.if')) return 'network'
-    if (lowerKey.includes('vfs.fs') || lowerKey.includes('disk')) return 'disk'
-    if (lowerKey.includes('uptime')) return 'uptime'
-    if (lowerKey.includes('load')) return 'load'
-    if (lowerKey.includes('proc.num')) return 'processes'
-    if (lowerKey.includes('swap')) return 'swap'
-    return 'other'
+  /**
+   * Resolves the metric profile of a host fetched with PROFILE_HOST_FIELDS
+   */
+  private profileForHost(host: { parentTemplates?: { name: string }[]; groups?: { name: string }[] }): MetricProfile {
+    return resolveProfile(this.profiles, {
+      templates: (host.parentTemplates || []).map(template => template.name),
+      groups: (host.groups || []).map(group => group.name)
+    })
   }
 
-  async getHostDetails(hostId: string): Promise<any> {
+  /**
+   * Gets everything the host details modal shows: configuration (interfaces,
+   * templates, groups, tags, inventory, macros), items with units and state,
+   * and the host's active problems
+   */
+  async getHostDetails(hostId: string): Promise<HostDetails> {
     console.log(`Getting host details for: ${hostId}`)
-    
-    try {
-      await this.authenticate()
 
-      // Use exactly the same request structure as the user's working example
-      const itemsRequest: ZabbixRequest = {
-        jsonrpc: '2.0',
-        method: 'item.get',
-        params: {
-          hostids: hostId, // String format as in user's example
-          output: ['itemid', 'name', 'key_', 'lastvalue', 'lastclock'],
-          sortfield: 'name'
+    try {
+      await this.ensureAuthenticated()
+
+      const [hosts, items, problems] = await this.makeBatchRequest<[RawHost[], RawItem[], Omit<RawEvent, 'objectid'>[]]>([
+        {
+          method: 'host.get',
+          params: {
+            hostids: hostId,
+            output: [
+              'hostid', 'host', 'name', 'description', 'status', 'maintenance_status',
+              ...Object.values(LEGACY_AVAILABILITY_FIELDS)
+            ],
+            selectInterfaces: ['interfaceid', 'type', 'main', 'useip', 'ip', 'dns', 'port', 'available', 'error', 'errors_from'],
+            selectParentTemplates: ['name'],
+            selectGroups: ['name'],
+            selectTags: ['tag', 'value'],
+            selectInventory: 'extend',
+            selectMacros: ['macro', 'value', 'type', 'description']
+          }
         },
-        auth: this.authToken,
-        id: this.requestId++
+        {
+          method: 'item.get',
+          params: {
+            hostids: hostId,
+            output: ['itemid', 'name', 'key_', 'lastvalue', 'lastclock', 'units', 'value_type', 'status', 'state', 'error'],
+            selectTags: ['tag', 'value'],
+            sortfield: 'name'
+          }
+        },
+        {
+          method: 'problem.get',
+          params: {
+            hostids: hostId,
+            output: ['eventid', 'name', 'severity', 'clock', 'acknowledged', 'r_eventid'],
+            sortfield: ['eventid'],
+            sortorder: 'DESC'
+          }
+        }
+      ])
+
+      const host = hosts[0]
+      if (!host) {
+        throw new Error(`Host ${hostId} not found`)
       }
+      console.log(`Found ${items.length} items and ${problems.length} problems`)
 
-      console.log('Making Zabbix request: item.get')
-      
-      const response = await fetch(`${this.baseUrl}api_jsonrpc.php`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json-rpc' },
-        body: JSON.stringify(itemsRequest)
+      const interfaces: HostInterface[] = (host.interfaces || []).map(iface => {
+        const type = INTERFACE_TYPES[iface.type] || 'agent'
+        // Zabbix < 5.4 has no per-interface availability, only host-level fields
+        const code = iface.available ?? host[LEGACY_AVAILABILITY_FIELDS[type]] ?? '0'
+        return {
+          interfaceid: iface.interfaceid ?? '',
+          type,
+          main: iface.main === '1',
+          ip: iface.ip || '',
+          dns: iface.dns || '',
+          port: iface.port || '',
+          useIp: iface.useip !== '0',
+          available: AVAILABILITY_CODES[parseInt(code)] || 'unknown',
+          error: iface.error || '',
+          errorsFrom: iface.errors_from && parseInt(iface.errors_from) > 0 ? toIsoTime(iface.errors_from) : null
+        }
       })
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
+      const availability: Partial<Record<InterfaceType, Availability>> = {}
+      for (const type of new Set(interfaces.map(iface => iface.type))) {
+        availability[type] = combineAvailability(
+          interfaces.filter(iface => iface.type === type).map(iface => iface.available)
+        )
       }
+      const states = Object.values(availability)
+      const available = states.includes('available') ? 'online' : states.includes('unavailable') ? 'offline' : 'unknown'
+
+      // Main interface, agent first, gives the address shown for the host
+      const mainInterface = interfaces.find(iface => iface.main && iface.type === 'agent')
+        || interfaces.find(iface => iface.main)
+        || interfaces[0]
+
+      const hostItems: HostItem[] = items.map(item => ({
+        itemid: item.itemid,
+        name: item.name,
+        key: item.key_,
+        lastvalue: item.lastvalue ?? '',
+        lastclock: item.lastclock && parseInt(item.lastclock) > 0 ? toIsoTime(item.lastclock) : null,
+        units: item.units || '',
+        valueType: parseInt(item.value_type),
+        status: item.status === '0' ? 'active' : 'disabled',
+        state: item.state === '1' ? 'unsupported' : 'normal',
+        error: item.error || '',
+        tags: (item.tags || []).map(tag => ({ tag: tag.tag, value: tag.value || '' }))
+      }))
 
-      const data: ZabbixResponse = await response.json()
-      
-      if (data.error) {
-        throw new Error(`Zabbix API error: ${data.error.message}`)
+      const lastCheck = items.reduce((latest, item) => Math.max(latest, parseInt(item.lastclock || '0')), 0)
+
+      const uptimeItem = selectCanonicalItems(this.profileForHost(host), items).uptime
+      const uptime = uptimeItem?.lastvalue ? parseFloat(uptimeItem.lastvalue) : null
+
+      // selectInventory returns an empty array when inventory is disabled
+      const inventory: Record<string, string> = {}
+      if (host.inventory && !Array.isArray(host.inventory)) {
+        for (const [field, value] of Object.entries(host.inventory)) {
+          if (typeof value === 'string' && value !== '') inventory[field] = value
+        }
       }
 
-      const items = data.result || []
-      console.log(`Found ${items.length} items`)
+      const macros: HostMacro[] = (host.macros || []).map(macro => {
+        const type = MACRO_TYPES[parseInt(macro.type || '0')] || 'text'
+        return {
+          macro: macro.macro,
+          value: type === 'secret' ? SECRET_MACRO_MASK : macro.value ?? '',
+          type,
+          description: macro.description || ''
+        }
+      })
+
+      const alerts: HostProblem[] = problems.map(problem => ({
+        id: problem.eventid,
+        name: problem.name,
+        severity: severityFromPriority(problem.severity),
+        status: problem.r_eventid && problem.r_eventid !== '0' ? 'resolved' : 'active',
+        acknowledged: problem.acknowledged === '1',
+        lastChange: toIsoTime(problem.clock)
+      }))
 
-      // Return exactly as Zabbix provides, but map key_ to key for frontend compatibility
       return {
-        hostId,
-        items: items.map(item => ({
-          itemid: item.itemid,
-          name: item.name,
-          key: item.key_, // Map key_ to key for frontend
-          key_: item.key_, // Keep original for compatibility
-          lastvalue: item.lastvalue,
-          lastclock: item.lastclock
-        })),
+        instance: this.instance,
+        id: host.hostid,
+        name: host.name || host.host || host.hostid,
+        host: host.host ?? host.name,
+        description: host.description || '',
+        status: host.status === '0' ? 'enabled' : 'disabled',
+        maintenance: host.maintenance_status === '1',
+        available,
+        availability,
+        ip: mainInterface?.ip || '',
+        dns: mainInterface?.dns || '',
+        uptime,
+        lastCheck: lastCheck > 0 ? toIsoTime(lastCheck) : null,
+        groups: (host.groups || []).map(group => group.name),
+        templates: (host.parentTemplates || []).map(template => template.name),
+        tags: (host.tags || []).map(tag => ({ tag: tag.tag, value: tag.value || '' })),
+        inventory,
+        macros,
+        interfaces,
+        items: hostItems,
+        alerts,
+        operationalStatus: {
+          adminStatus: host.status === '0' ? 'up' : 'down',
+          operStatus: available === 'online' ? 'up' : available === 'offline' ? 'down' : 'unknown',
+          lastStatusChange: interfaces
+            .map(iface => iface.errorsFrom)
+            .filter((from): from is string => from !== null)
+            .sort()[0] || null
+        },
+        checks: {
+          total: hostItems.length,
+          active: hostItems.filter(item => item.status === 'active' && item.state === 'normal').length,
+          unsupported: hostItems.filter(item => item.state === 'unsupported').length,
+          alerts: alerts.filter(alert => alert.status === 'active').length
+        },
         generatedAt: new Date().toISOString()
       }
 
@@ -366,189 +1425,110 @@ class ZabbixAPI {
   }
 
   /**
-   * Gets critical metrics history for instability prediction
+   * Gets critical metrics history for instability prediction.
+   * Each metric is read from one canonical item over the full window and
+   * resampled onto a common time step so all series line up.
    */
-  async getCriticalHistory(hostId: string, timeRange: string = '1h'): Promise<any> {
-    console.log(`Getting critical history for host: ${hostId}, timeRange: ${timeRange}`)
+  async getCriticalHistory(hostId: string, timeRange: CriticalTimeRange = '1h'): Promise<CriticalHistoryResponse> {
+    const [history] = await this.getCriticalHistories([hostId], timeRange)
+    return history
+  }
+
+  /**
+   * Critical history of several hosts of this instance, one response per host
+   * in the order given. The calls do not grow with the number of hosts: one
+   * host.get, one item.get and one paged history.get per value type. Any
+   * failed read fails the call for all of them.
+   */
+  async getCriticalHistories(hostIds: string[], timeRange: CriticalTimeRange = '1h'): Promise<CriticalHistoryResponse[]> {
+    console.log(`Getting critical history for ${hostIds.length} host(s): ${hostIds.join(', ')}, timeRange: ${timeRange}`)
     
     try {
-      await this.authenticate()
+      await this.ensureAuthenticated()
       
       // Get time range in seconds
       const now = Math.floor(Date.now() / 1000)
-      let timeFrom: number
-      
-      switch (timeRange) {
-        case '1h':
-          timeFrom = now - 3600
-          break
-        case '6h':
-          timeFrom = now - 21600
-          break
-        case '24h':
-          timeFrom = now - 86400
-          break
-        default:
-          timeFrom = now - 3600
-      }
-
-      const criticalMetrics: any = {
-        ping: [],
-        latency: [],
-        cpu: [],
-        memory: [],
-        timestamps: []
-      }
-
-      // 1️⃣ Ping / Disponibilidade (ICMP Ping)
-      console.log('Searching for ping items...')
-      const pingItems = await this.searchItems(hostId, 'icmpping')
-      console.log(`Found ${pingItems.length} ping items`)
-      
-      // Try additional ping patterns if none found
-      if (pingItems.length === 0) {
-        const altPingItems = await this.searchItems(hostId, 'ping')
-        console.log(`Found ${altPingItems.length} alternative ping items`)
-        pingItems.push(...altPingItems)
-      }
-      
-      for (const item of pingItems) {
-        console.log(`Getting history for ping item: ${item.itemid} (${item.name})`)
-        const history = await this.getItemHistory(item.itemid, timeFrom, now, 3) // history: 3 for integers
-        if (history.length > 0) {
-          criticalMetrics.ping.push(...history.map(h => ({
-            timestamp: parseInt(h.clock) * 1000,
-            value: parseInt(h.value) || 0 // 0 = down, 1 = up
-          })))
-        }
+      const rangeSeconds = CRITICAL_TIME_RANGES[timeRange]
+      const timeFrom = now - rangeSeconds
+      const step = Math.max(60, Math.ceil(rangeSeconds / CRITICAL_HISTORY_MAX_POINTS))
+
+      const hosts = await this.makeRequest<RawHost[]>('host.get', {
+        hostids: hostIds,
+        output: ['hostid'],
+        ...PROFILE_HOST_FIELDS
+      })
+      const hostsById = new Map(hosts.map(host => [host.hostid, host]))
+      const profiles = new Map(hostIds.map(hostId => [hostId, this.profileForHost(hostsById.get(hostId) || {})]))
+
+      const items = await this.findCriticalItems(hostIds, [...new Set(profiles.values())])
+      const itemsByHost = new Map<string, RawItem[]>()
+      for (const item of items) {
+        const hostItems = itemsByHost.get(item.hostid ?? '') || []
+        hostItems.push(item)
+        itemsByHost.set(item.hostid ?? '', hostItems)
       }
 
-      // 2️⃣ Latência (ICMP Ping RTT / avg)
-      console.log('Searching for latency items...')
-      const latencyItems = await this.searchItems(hostId, 'icmppingsec')
-      console.log(`Found ${latencyItems.length} latency items`)
-      
-      for (const item of latencyItems) {
-        console.log(`Getting history for latency item: ${item.itemid} (${item.name})`)
-        const history = await this.getItemHistory(item.itemid, timeFrom, now, 0) // history: 0 for floats
-        if (history.length > 0) {
-          criticalMetrics.latency.push(...history.map(h => ({
-            timestamp: parseInt(h.clock) * 1000,
-            value: parseFloat(h.value) || 0
-          })))
+      const canonicalItems = new Map(hostIds.map(hostId =>
+        [hostId, selectCanonicalItems(profiles.get(hostId)!, itemsByHost.get(hostId) || [])]
+      ))
+      const selected = [...canonicalItems.values()].flatMap(hostItems =>
+        CRITICAL_METRICS.flatMap(metric => hostItems[metric] ? [hostItems[metric]!] : [])
+      )
+      const history = await this.getItemsHistory(selected, timeFrom, now)
+
+      return hostIds.map(hostId => {
+        const hostItems = canonicalItems.get(hostId)!
+        const criticalMetrics: CriticalHistoryResponse['metrics'] = {
+          ping: [],
+          latency: [],
+          cpu: [],
+          memory: [],
+          timestamps: []
         }
-      }
+        const sources: CriticalHistoryResponse['sources'] = { ping: null, latency: null, cpu: null, memory: null }
 
-      // Try alternative latency patterns
-      if (criticalMetrics.latency.length === 0) {
-        console.log('Trying alternative latency patterns...')
-        const patterns = ['icmppingavg', 'ping_avg', 'ping.avg', 'rtt']
-        for (const pattern of patterns) {
-          const altLatencyItems = await this.searchItems(hostId, pattern)
-          console.log(`Found ${altLatencyItems.length} items for pattern: ${pattern}`)
-          for (const item of altLatencyItems) {
-            const history = await this.getItemHistory(item.itemid, timeFrom, now, 0)
-            if (history.length > 0) {
-              criticalMetrics.latency.push(...history.map(h => ({
-                timestamp: parseInt(h.clock) * 1000,
-                value: parseFloat(h.value) || 0
-              })))
-            }
+        for (const metric of CRITICAL_METRICS) {
+          const item = hostItems[metric]
+          if (!item) {
+            console.log(`No ${metric} item found for host ${hostId}`)
+            continue
           }
-          if (criticalMetrics.latency.length > 0) break
-        }
-      }
+          sources[metric] = { itemId: item.itemid, name: item.name, key: item.key_, units: item.units || '' }
 
-      // 3️⃣ Uso de CPU
-      console.log('Searching for CPU items...')
-      const cpuItems = await this.searchItems(hostId, 'cpu')
-      console.log(`Found ${cpuItems.length} CPU items`)
-      
-      for (const item of cpuItems) {
-        console.log(`Getting history for CPU item: ${item.itemid} (${item.name})`)
-        const history = await this.getItemHistory(item.itemid, timeFrom, now, 0) // history: 0 for floats
-        if (history.length > 0) {
-          criticalMetrics.cpu.push(...history.map(h => ({
-            timestamp: parseInt(h.clock) * 1000,
-            value: parseFloat(h.value) || 0
-          })))
-        }
-      }
+          let points = history.series.get(item.itemid) || []
 
-      // Try specific CPU patterns
-      if (criticalMetrics.cpu.length === 0) {
-        console.log('Trying alternative CPU patterns...')
-        const patterns = ['system.cpu.util', 'cpu.util', 'proc.cpu.util', 'cpu_usage']
-        for (const pattern of patterns) {
-          const altCpuItems = await this.searchItems(hostId, pattern)
-          console.log(`Found ${altCpuItems.length} items for CPU pattern: ${pattern}`)
-          for (const item of altCpuItems) {
-            const history = await this.getItemHistory(item.itemid, timeFrom, now, 0)
-            if (history.length > 0) {
-              criticalMetrics.cpu.push(...history.map(h => ({
-                timestamp: parseInt(h.clock) * 1000,
-                value: parseFloat(h.value) || 0
-              })))
-            }
+          // icmppingsec reports seconds; the predictor and charts work in ms
+          if (metric === 'latency' && item.units === 's') {
+            points = points.map(point => ({ ...point, value: point.value * 1000 }))
           }
-          if (criticalMetrics.cpu.length > 0) break
-        }
-      }
-
-      // 4️⃣ Uso de Memória
-      console.log('Searching for memory items...')
-      const memoryItems = await this.searchItems(hostId, 'memory')
-      console.log(`Found ${memoryItems.length} memory items`)
-      
-      for (const item of memoryItems) {
-        console.log(`Getting history for memory item: ${item.itemid} (${item.name})`)
-        const history = await this.getItemHistory(item.itemid, timeFrom, now, 0) // history: 0 for floats
-        if (history.length > 0) {
-          criticalMetrics.memory.push(...history.map(h => ({
-            timestamp: parseInt(h.clock) * 1000,
-            value: parseFloat(h.value) || 0
-          })))
-        }
-      }
 
-      // Try specific memory patterns
-      if (criticalMetrics.memory.length === 0) {
-        console.log('Trying alternative memory patterns...')
-        const patterns = ['vm.memory.utilization', 'vm.memory.pused', 'memory.util', 'memory_usage']
-        for (const pattern of patterns) {
-          const altMemoryItems = await this.searchItems(hostId, pattern)
-          console.log(`Found ${altMemoryItems.length} items for memory pattern: ${pattern}`)
-          for (const item of altMemoryItems) {
-            const history = await this.getItemHistory(item.itemid, timeFrom, now, 0)
-            if (history.length > 0) {
-              criticalMetrics.memory.push(...history.map(h => ({
-                timestamp: parseInt(h.clock) * 1000,
-                value: parseFloat(h.value) || 0
-              })))
-            }
-          }
-          if (criticalMetrics.memory.length > 0) break
+          // Ping is down for a step if any sample in it failed
+          criticalMetrics[metric] = resampleSeries(points, timeFrom, now, step, metric === 'ping' ? 'min' : 'avg')
         }
-      }
 
-      // Generate unified timestamp array
-      const allTimestamps = [
-        ...criticalMetrics.ping.map((h: any) => h.timestamp),
-        ...criticalMetrics.latency.map((h: any) => h.timestamp),
-        ...criticalMetrics.cpu.map((h: any) => h.timestamp),
-        ...criticalMetrics.memory.map((h: any) => h.timestamp)
-      ]
-      
-      criticalMetrics.timestamps = [...new Set(allTimestamps)].sort((a, b) => a - b)
+        // Generate unified timestamp array
+        const allTimestamps = [
+          ...criticalMetrics.ping.map(point => point.timestamp),
+          ...criticalMetrics.latency.map(point => point.timestamp),
+          ...criticalMetrics.cpu.map(point => point.timestamp),
+          ...criticalMetrics.memory.map(point => point.timestamp)
+        ]
+        criticalMetrics.timestamps = [...new Set(allTimestamps)].sort((a, b) => a - b)
 
-      console.log(`Critical metrics collected: ping=${criticalMetrics.ping.length}, latency=${criticalMetrics.latency.length}, cpu=${criticalMetrics.cpu.length}, memory=${criticalMetrics.memory.length}`)
+        console.log(`Critical metrics of host ${hostId}: ping=${criticalMetrics.ping.length}, latency=${criticalMetrics.latency.length}, cpu=${criticalMetrics.cpu.length}, memory=${criticalMetrics.memory.length}`)
 
-      return {
-        hostId,
-        timeRange,
-        metrics: criticalMetrics,
-        generatedAt: new Date().toISOString()
-      }
+        return {
+          instance: this.instance,
+          hostId,
+          timeRange,
+          step,
+          metrics: criticalMetrics,
+          sources,
+          profile: profiles.get(hostId)!.id,
+          truncated: CRITICAL_METRICS.some(metric => history.truncated.has(hostItems[metric]?.itemid ?? '')),
+          generatedAt: new Date().toISOString()
+        }
+      })
 
     } catch (error) {
       console.error('Error getting critical history:', error)
@@ -557,136 +1537,116 @@ class ZabbixAPI {
   }
 
   /**
-   * Helper method to search for items by key pattern
+   * Loads the numeric items of the hosts whose keys the profiles' critical
+   * rules can match, in a single item.get; each host's profile then picks the
+   * ones that feed its critical metrics
    */
-  private async searchItems(hostId: string, keyPattern: string): Promise<any[]> {
-    const itemsRequest: ZabbixRequest = {
-      jsonrpc: '2.0',
-      method: 'item.get',
-      params: {
-        hostids: hostId,
-        search: { key_: keyPattern },
-        output: ['itemid', 'name', 'key_', 'lastvalue', 'lastclock']
+  private async findCriticalItems(hostIds: string[], profiles: MetricProfile[]): Promise<RawItem[]> {
+    const items = await this.makeRequest<RawItem[]>('item.get', {
+      hostids: hostIds,
+      output: ['itemid', 'hostid', 'name', 'key_', 'units', 'value_type', 'lastclock'],
+      monitored: true,
+      filter: {
+        value_type: NUMERIC_VALUE_TYPES
       },
-      auth: this.authToken,
-      id: this.requestId++
-    }
-
-    console.log(`Searching for items with pattern: ${keyPattern}`)
-    
-    const response = await fetch(`${this.baseUrl}api_jsonrpc.php`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json-rpc' },
-      body: JSON.stringify(itemsRequest)
+      ...this.keySearch(profiles, CRITICAL_METRICS)
     })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    const data: ZabbixResponse = await response.json()
-    
-    if (data.error) {
-      console.error(`Zabbix API error searching for ${keyPattern}:`, data.error.message)
-      return []
-    }
-
-    const items = data.result || []
-    console.log(`Found ${items.length} items for pattern: ${keyPattern}`)
+    console.log(`Found ${items.length} candidate items for critical metrics`)
     return items
   }
 
   /**
-   * Helper method to get item history
+   * Full-window history of numeric items by item ID, read with one paged
+   * history.get per value type for all of them. A failed read fails the
+   * whole call, so no item is silently left empty; `truncated` lists the
+   * items whose read hit the page cap.
    */
-  private async getItemHistory(itemId: string, timeFrom: number, timeTill: number, historyType: number): Promise<any[]> {
-    const historyRequest: ZabbixRequest = {
-      jsonrpc: '2.0',
-      method: 'history.get',
-      params: {
-        output: 'extend',
-        history: historyType,
-        itemids: itemId,
-        sortfield: 'clock',
-        sortorder: 'DESC',
-        limit: 20,
-        time_from: timeFrom,
-        time_till: timeTill
-      },
-      auth: this.authToken,
-      id: this.requestId++
+  private async getItemsHistory(
+    items: RawItem[],
+    timeFrom: number,
+    timeTill: number
+  ): Promise<{ series: Map<string, SeriesPoint[]>; truncated: Set<string> }> {
+    const series = new Map<string, SeriesPoint[]>(items.map(item => [item.itemid, []]))
+    const truncated = new Set<string>()
+
+    for (const valueType of NUMERIC_VALUE_TYPES) {
+      const itemIds = items.filter(item => parseInt(item.value_type) === valueType).map(item => item.itemid)
+      if (itemIds.length === 0) continue
+
+      const history = await this.fetchHistoryRange(itemIds, timeFrom, timeTill, valueType)
+      for (const entry of history.entries) {
+        series.get(entry.itemid)?.push({ timestamp: parseInt(entry.clock) * 1000, value: parseFloat(entry.value) || 0 })
+      }
+      if (history.truncated) itemIds.forEach(itemId => truncated.add(itemId))
     }
 
-    const response = await fetch(`${this.baseUrl}api_jsonrpc.php`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json-rpc' },
-      body: JSON.stringify(historyRequest)
-    })
-
-    if (!response.ok) {
-      return []
-    }
+    return { series, truncated }
+  }
 
-    const data: ZabbixResponse = await response.json()
-    
-    if (data.error) {
-      console.error(`Error getting history for item ${itemId}:`, data.error.message)
-      return []
+  /**
+   * Reads the value_type (and units) needed to pick an item's history table
+   */
+  private async getItemInfo(itemId: string): Promise<RawItem> {
+    const [item] = await this.makeRequest<RawItem[]>('item.get', {
+      itemids: itemId,
+      output: ['itemid', 'key_', 'value_type', 'units'],
+      webitems: true
+    })
+    if (!item) {
+      throw new Error(`Item not found: ${itemId}`)
     }
-
-    return data.result || []
+    return item
   }
 
   /**
    * Gets latest values for all items of a host (new action)
    */
-  async getLatestValues(hostId: string): Promise<any> {
+  async getLatestValues(hostId: string): Promise<ZabbixLatestValuesResponse> {
     console.log(`Getting latest values for host: ${hostId}`)
     
     try {
-      await this.authenticate()
+      await this.ensureAuthenticated()
 
       const itemsRequest: ZabbixRequest = {
         jsonrpc: '2.0',
         method: 'item.get',
         params: {
           hostids: hostId,
-          output: ['itemid', 'name', 'key_', 'lastvalue', 'lastclock'],
+          output: ['itemid', 'name', 'key_', 'lastvalue', 'lastclock', 'units', 'value_type'],
           sortfield: 'name'
         },
-        auth: this.authToken,
         id: this.requestId++
       }
 
       console.log('Making Zabbix request: item.get for latest values')
       
-      const response = await fetch(`${this.baseUrl}api_jsonrpc.php`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json-rpc' },
-        body: JSON.stringify(itemsRequest)
-      })
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
-      const data: ZabbixResponse = await response.json()
+      const data = await this.sendRpc(itemsRequest) as ZabbixResponse
       
       if (data.error) {
         throw new Error(`Zabbix API error: ${data.error.message}`)
       }
 
-      const items = data.result || []
+      const items = (data.result || []) as RawItem[]
       console.log(`Found ${items.length} items with latest values`)
 
+      const [host] = await this.makeRequest<RawHost[]>('host.get', {
+        hostids: hostId,
+        output: ['hostid'],
+        ...PROFILE_HOST_FIELDS
+      })
+
       return {
+        instance: this.instance,
         hostId,
+        profile: this.profileForHost(host || {}).id,
         items: items.map(item => ({
           itemid: item.itemid,
           name: item.name,
           key_: item.key_,
           lastvalue: item.lastvalue,
-          lastclock: item.lastclock
+          lastclock: item.lastclock,
+          units: item.units,
+          value_type: item.value_type
         })),
         generatedAt: new Date().toISOString()
       }
@@ -697,28 +1657,31 @@ class ZabbixAPI {
     }
   }
 
-  private normalizeMetricValue(value: number, key: string, units: string): { value: number; unit: string } {
-    const lowerKey = key.toLowerCase()
-    
+  private normalizeMetricValue(value: number, metric: CanonicalMetric, units: string): { value: number; unit: string } {
     // CPU metrics - convert to percentage
-    if (lowerKey.includes('cpu') && lowerKey.includes('util')) {
+    if (metric === 'cpu') {
       return { value: Math.min(100, Math.max(0, value)), unit: '%' }
     }
-    
+
     // Memory metrics
-    if (lowerKey.includes('memory') || lowerKey.includes('vm.memory')) {
+    if (metric === 'memory') {
       if (units === 'B' && value > 1000000) {
         // Convert bytes to MB
         return { value: Math.round(value / 1024 / 1024 * 100) / 100, unit: 'MB' }
       }
-      if (lowerKey.includes('pused') || lowerKey.includes('util')) {
+      if (units === '%') {
         // Already in percentage
         return { value: Math.min(100, Math.max(0, value)), unit: '%' }
       }
     }
-    
+
+    // ICMP response time is reported in seconds
+    if (metric === 'latency' && units === 's') {
+      return { value: Math.round(value * 1000 * 100) / 100, unit: 'ms' }
+    }
+
     // Network metrics - convert bytes to more readable units
-    if (lowerKey.includes('net.if')) {
+    if (metric === 'rx' || metric === 'tx' || metric === 'speed') {
       if (units === 'bps' || units === 'B') {
         if (value > 1000000) {
           return { value: Math.round(value / 1000000 * 100) / 100, unit: 'Mbps' }
@@ -727,21 +1690,30 @@ class ZabbixAPI {
         }
       }
     }
-    
+
+    // Wireless PHY rates are compared with each other, so always in Mbps
+    if ((metric === 'txRate' || metric === 'rxRate') && units === 'bps') {
+      return { value: Math.round(value / 1000000 * 100) / 100, unit: 'Mbps' }
+    }
+
+    if (metric === 'frequency' && units === 'Hz') {
+      return { value: Math.round(value / 1000000), unit: 'MHz' }
+    }
+
     // Disk metrics
-    if (lowerKey.includes('vfs.fs')) {
+    if (metric === 'disk') {
       if (units === 'B' && value > 1000000000) {
         // Convert bytes to GB
         return { value: Math.round(value / 1024 / 1024 / 1024 * 100) / 100, unit: 'GB' }
       }
-      if (lowerKey.includes('pused')) {
+      if (units === '%') {
         // Already in percentage
         return { value: Math.min(100, Math.max(0, value)), unit: '%' }
       }
     }
-    
+
     // Uptime - convert seconds to hours/days
-    if (lowerKey.includes('uptime') && units === 's') {
+    if (metric === 'uptime' && units === 's') {
       const hours = Math.floor(value / 3600)
       if (hours > 24) {
         const days = Math.floor(hours / 24)
@@ -749,143 +1721,650 @@ class ZabbixAPI {
       }
       return { value: hours, unit: 'hours' }
     }
-    
+
     // Default: return as-is with original or simplified unit
     const cleanUnit = units || ''
     return { value: Math.round(value * 100) / 100, unit: cleanUnit }
   }
+
 }
 
-serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders })
+/**
+ * Builds the registry of Zabbix instances. ZABBIX_INSTANCES holds a JSON array
+ * of `{ name, url, token }` or `{ name, url, username, password }` entries;
+ * without it the single ZABBIX_URL/ZABBIX_TOKEN pair is exposed as "default".
+ */
+function loadInstances(): ZabbixConfig[] {
+  const parsedTtl = parseInt(Deno.env.get('ZABBIX_SESSION_TTL') || '', 10)
+  const defaults = {
+    authHeader: (Deno.env.get('ZABBIX_AUTH_HEADER') as AuthHeaderMode) || 'auto',
+    sessionTtl: Number.isNaN(parsedTtl) ? undefined : parsedTtl
   }
 
+  const registry = Deno.env.get('ZABBIX_INSTANCES')
+  const instances: ZabbixConfig[] = registry
+    ? (JSON.parse(registry) as ZabbixConfig[]).map(instance => ({ ...defaults, ...instance }))
+    : [{
+        ...defaults,
+        name: DEFAULT_INSTANCE,
+        url: Deno.env.get('ZABBIX_URL') || '',
+        token: Deno.env.get('ZABBIX_TOKEN'),
+        username: Deno.env.get('ZABBIX_USER'),
+        password: Deno.env.get('ZABBIX_PASSWORD')
+      }]
+
+  return instances.filter(instance => {
+    const valid = !!instance.name && !!instance.url &&
+      (!!instance.token || !!(instance.username && instance.password))
+    if (!valid) {
+      console.error('Ignoring incomplete Zabbix instance configuration:', {
+        name: instance.name,
+        hasUrl: !!instance.url,
+        hasToken: !!instance.token,
+        hasCredentials: !!(instance.username && instance.password)
+      })
+    }
+    return valid
+  })
+}
+
+/**
+ * Built-in metric profiles merged with the JSON array in METRIC_PROFILES
+ */
+function loadMetricProfiles(): MetricProfile[] {
+  const overrides = Deno.env.get('METRIC_PROFILES')
+  if (!overrides) return mergeProfiles()
+
   try {
-    // Get environment variables
-    const ZABBIX_URL = Deno.env.get('ZABBIX_URL')
-    const ZABBIX_TOKEN = Deno.env.get('ZABBIX_TOKEN')
-
-    if (!ZABBIX_URL || !ZABBIX_TOKEN) {
-      console.error('Missing environment variables:', { 
-        hasUrl: !!ZABBIX_URL, 
-        hasToken: !!ZABBIX_TOKEN 
+    return mergeProfiles(JSON.parse(overrides) as MetricProfile[])
+  } catch (error) {
+    console.error('Ignoring invalid METRIC_PROFILES configuration:', error)
+    return mergeProfiles()
+  }
+}
+
+/**
+ * Runs a list query against every selected instance and merges the results.
+ * Instances that fail are reported instead of failing the whole request,
+ * unless all of them fail.
+ */
+async function queryInstances<T>(
+  clients: ZabbixAPI[],
+  run: (zabbix: ZabbixAPI) => Promise<T[]>
+): Promise<{ data: T[]; errors: InstanceError[] }> {
+  const settled = await Promise.allSettled(clients.map(run))
+  const data: T[] = []
+  const errors: InstanceError[] = []
+
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      data.push(...outcome.value)
+    } else {
+      console.error(`Error querying Zabbix instance ${clients[index].instance}:`, outcome.reason)
+      errors.push({
+        instance: clients[index].instance,
+        error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)
       })
-      return new Response(
-        JSON.stringify({ 
-          error: 'Missing Zabbix configuration. Please configure ZABBIX_URL and ZABBIX_TOKEN.' 
-        }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
     }
+  })
 
-    // Parse request body for action and parameters
-    let action: string | null = null;
-    let requestData: any = {};
+  if (errors.length > 0 && errors.length === clients.length) {
+    throw new Error(errors.map(e => `[${e.instance}] ${e.error}`).join('; '))
+  }
 
-    try {
-      if (req.method === 'POST') {
-        const body = await req.json();
-        action = body.action;
-        requestData = body;
-      } else {
-        // Fallback to URL parameters for GET requests
-        const url = new URL(req.url);
-        action = url.searchParams.get('action');
+  return { data, errors }
+}
+
+/**
+ * Severity to P1-P4 mapping, overridable with a JSON object in
+ * SEVERITY_PRIORITY_MAP, e.g. {"warning": "P4"}
+ */
+function loadPriorityMapping(): PriorityMapping {
+  const overrides = Deno.env.get('SEVERITY_PRIORITY_MAP')
+  if (!overrides) return resolvePriorityMapping()
+
+  try {
+    return resolvePriorityMapping(JSON.parse(overrides))
+  } catch (error) {
+    console.error('Ignoring invalid SEVERITY_PRIORITY_MAP configuration:', error)
+    return resolvePriorityMapping()
+  }
+}
+
+/**
+ * Cache TTLs per action, overridable with a JSON object in PROXY_CACHE_TTL,
+ * e.g. {"get-alerts": 5, "get-history": 0}
+ */
+function loadCacheTtls(): Record<ProxyAction, number> {
+  const overrides = Deno.env.get('PROXY_CACHE_TTL')
+  const ttls = { ...DEFAULT_CACHE_TTL }
+  if (!overrides) return ttls
+
+  try {
+    for (const [action, ttl] of Object.entries(JSON.parse(overrides))) {
+      if (isProxyAction(action) && !WRITE_ACTIONS.includes(action) && typeof ttl === 'number' && ttl >= 0) {
+        ttls[action] = ttl
       }
-    } catch (error) {
-      // If body parsing fails, try URL parameters
-      const url = new URL(req.url);
-      action = url.searchParams.get('action');
     }
+  } catch (error) {
+    console.error('Ignoring invalid PROXY_CACHE_TTL configuration:', error)
+  }
+  return ttls
+}
+
+/**
+ * Resolves the Supabase user behind the request and checks it may run write
+ * actions. Writes are off unless ZABBIX_WRITE_ENABLED is 'true', and the user
+ * id or email must be listed in ZABBIX_WRITE_USERS ('*' allows any signed-in user).
+ */
+async function authorizeWriter(req: Request): Promise<WriteUser> {
+  if (Deno.env.get('ZABBIX_WRITE_ENABLED') !== 'true') {
+    throw new ApiError('forbidden', 'Write actions are disabled on this proxy', 403)
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) {
+    throw new ApiError('unauthorized', 'Sign in required', 401)
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '')
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data.user) {
+    throw new ApiError('unauthorized', 'Sign in required', 401)
+  }
 
-    if (!action) {
-      return new Response(
-        JSON.stringify({ error: 'Missing action parameter' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  const allowed = (Deno.env.get('ZABBIX_WRITE_USERS') || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+  const user = data.user
+  const email = (user.email || '').toLowerCase()
+
+  if (!allowed.includes('*') && !allowed.includes(user.id) && !(email && allowed.includes(email))) {
+    throw new ApiError('forbidden', 'User is not allowed to change Zabbix events', 403)
+  }
+
+  return { id: user.id, email: user.email || user.id }
+}
+
+/**
+ * Runs a write action for an authorized user. Every attempt is recorded in
+ * zabbix_acknowledgements before Zabbix is called, so nothing is changed
+ * without an audit row.
+ */
+async function handleWriteAction(req: Request, action: ProxyAction, zabbix: ZabbixAPI, requestData: unknown): Promise<Response> {
+  const user = await authorizeWriter(req)
+
+  switch (action) {
+    case 'acknowledge-event': {
+      const { eventIds, severity, ...params } = validateRequest(action, requestData)
+
+      const message = params.message?.trim() || ''
+      const options: AcknowledgeOptions = {
+        // Zabbix records the API user, so the message carries who acted
+        message: message ? `[${user.email}] ${message}` : undefined,
+        acknowledge: params.acknowledge !== false,
+        close: params.close === true,
+        severity
+      }
+
+      const audit = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+        { auth: { persistSession: false } }
       )
-    }
 
-    console.log(`Processing action: ${action}`, requestData)
+      const { data: entry, error: auditError } = await audit
+        .from('zabbix_acknowledgements')
+        .insert({
+          user_id: user.id,
+          user_email: user.email,
+          instance: zabbix.instance,
+          event_ids: eventIds,
+          action: acknowledgeAction(options),
+          message: message || null,
+          new_severity: severity !== undefined ? severityToPriority(severity) : null
+        })
+        .select('id')
+        .single()
 
-    const zabbix = new ZabbixAPI(ZABBIX_URL, ZABBIX_TOKEN)
+      if (auditError) {
+        console.error('Could not write audit record, refusing write action:', auditError)
+        throw new ApiError('audit_unavailable', 'Audit trail unavailable', 500)
+      }
 
-    let result
-    
-    switch (action) {
-      case 'get-hosts':
-        result = await zabbix.getHosts()
-        break
-        
-      case 'get-alerts':
-        result = await zabbix.getAlerts()
-        break
-        
-      case 'get-metrics':
-        result = await zabbix.getMetrics(requestData.hostIds)
-        break
-        
-      case 'get-history':
-        if (!requestData.itemId || !requestData.timeFrom || !requestData.timeTill) {
-          return new Response(
-            JSON.stringify({ error: 'Missing required parameters: itemId, timeFrom, timeTill' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
-        }
-        result = await zabbix.getHistory(requestData.itemId, requestData.timeFrom, requestData.timeTill)
-        break
-        
-      case 'get-host-details':
-        if (!requestData.hostId) {
-          return new Response(
-            JSON.stringify({ error: 'Missing required parameter: hostId' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
-        }
-        result = await zabbix.getHostDetails(requestData.hostId)
-        break
-
-      case 'get-critical-history':
-        if (!requestData.hostId) {
-          return new Response(
-            JSON.stringify({ error: 'Missing required parameter: hostId' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
-        }
-        result = await zabbix.getCriticalHistory(requestData.hostId, requestData.timeRange || '1h')
-        break
-
-      case 'get-latest-values':
-        if (!requestData.hostId) {
-          return new Response(
-            JSON.stringify({ error: 'Missing required parameter: hostId' }),
-            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          )
-        }
-        result = await zabbix.getLatestValues(requestData.hostId)
-        break
-        
-      default:
-        return new Response(
-          JSON.stringify({ error: `Unknown action: ${action}` }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        )
+      console.log(`User ${user.email} acknowledging ${eventIds.join(', ')} on ${zabbix.instance}`)
+
+      try {
+        const result = await zabbix.acknowledgeEvents(eventIds, options)
+        await audit.from('zabbix_acknowledgements').update({ status: 'succeeded' }).eq('id', entry.id)
+        return respond({ success: true, data: validateResponse(action, { ...result, auditId: entry.id }) }, 200)
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        await audit.from('zabbix_acknowledgements').update({ status: 'failed', error: reason }).eq('id', entry.id)
+        throw error
+      }
     }
 
-    return new Response(
-      JSON.stringify({ success: true, data: result }),
-      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    default:
+      throw new ApiError('unknown_action', `Unknown write action: ${action}`, 400)
+  }
+}
+
+/**
+ * Validates the parameters of an action and resolves the instances it runs
+ * against. Throws an ApiError when the request cannot be served.
+ */
+function resolveTarget(action: ProxyAction, requestData: Record<string, unknown>): ActionTarget & { cacheKey: string } {
+  const instances = loadInstances()
+
+  if (instances.length === 0) {
+    throw new ApiError(
+      'not_configured',
+      'Missing Zabbix configuration. Please configure ZABBIX_INSTANCES, or ZABBIX_URL and either ZABBIX_TOKEN or ZABBIX_USER/ZABBIX_PASSWORD.',
+      500
     )
+  }
+
+  // Rejects malformed parameters before any Zabbix call; readAction
+  // validates again with the narrowed action to get typed parameters
+  const params = validateRequest(action, requestData)
+
+  // A named instance narrows the query; otherwise list actions fan out to all
+  const selected = params.instance
+    ? instances.filter(instance => instance.name === params.instance)
+    : instances
+
+  if (selected.length === 0) {
+    throw new ApiError('unknown_instance', `Unknown Zabbix instance: ${params.instance}`, 400)
+  }
+
+  const profiles = loadMetricProfiles()
+  const clients = selected.map(instance => new ZabbixAPI(instance, profiles))
+
+  // Host and item IDs are only unique within one instance
+  const SINGLE_INSTANCE_ACTIONS = [
+    'get-history', 'get-host-details', 'get-host-graphs', 'get-critical-history', 'get-critical-histories',
+    'get-latest-values', ...WRITE_ACTIONS
+  ]
+  // List actions filtered by host IDs (get-metrics, get-events) must name one too
+  const byHostIds = 'hostIds' in params && params.hostIds !== undefined
+  if ((SINGLE_INSTANCE_ACTIONS.includes(action) || byHostIds) && clients.length > 1) {
+    throw new ApiError('instance_required', 'Missing required parameter: instance', 400)
+  }
+
+  return {
+    selected,
+    clients,
+    profiles,
+    priorityMapping: loadPriorityMapping(),
+    // Validated parameters, so defaults and stray fields don't split the cache
+    cacheKey: `${action}:${JSON.stringify(params)}`
+  }
+}
+
+/**
+ * Serves a read action from the response cache, reading Zabbix on a miss
+ */
+async function cachedRead(action: ProxyAction, requestData: Record<string, unknown>, bypass: boolean): Promise<CacheResult<ReadResult>> {
+  const { cacheKey, ...target } = resolveTarget(action, requestData)
+  const ttl = loadCacheTtls()[action]
+
+  const result = await responseCache.get(
+    cacheKey,
+    ttl,
+    () => readAction(action, requestData, target),
+    bypass || ttl <= 0
+  )
+
+  console.log(`Cache ${result.status} for ${cacheKey} (age ${result.age}s)`)
+  return result
+}
+
+/**
+ * Runs one proxy action. Both the v1 API and the action protocol end up
+ * here, so they share validation, caching and behaviour.
+ */
+async function runAction(req: Request, action: ProxyAction, requestData: Record<string, unknown>): Promise<Response> {
+  console.log(`Processing action: ${action}`, requestData)
+
+  if (WRITE_ACTIONS.includes(action)) {
+    const { clients } = resolveTarget(action, requestData)
+    const response = await handleWriteAction(req, action, clients[0], requestData)
+    // Problems and events just changed; don't serve them from before the write
+    if (response.ok) responseCache.clear()
+    return response
+  }
+
+  const { value, status, age } = await cachedRead(action, requestData, /no-cache/i.test(req.headers.get('Cache-Control') || ''))
+
+  return respond({
+    success: true,
+    data: value.data,
+    ...(value.instanceErrors.length > 0 ? { instanceErrors: value.instanceErrors } : {})
+  }, 200, { 'X-Cache': status, Age: String(age) })
+}
+
+/**
+ * Live changes of hosts, problems and metrics as Server-Sent Events.
+ * Reads go through the response cache, so streams and polling clients
+ * share upstream queries.
+ */
+function handleLiveStream(url: URL): Response {
+  const requestData = { instance: url.searchParams.get('instance') || undefined }
+  // Fail with a normal error response before the stream starts
+  resolveTarget('get-hosts', requestData)
+
+  const read = async (action: ProxyAction) => (await cachedRead(action, requestData, false)).value.data
+
+  const stream = createLiveStream({
+    hosts: async () => await read('get-hosts') as ZabbixHost[],
+    problems: async () => await read('get-alerts') as ZabbixAlert[],
+    metrics: async () => await read('get-metrics') as ZabbixMetric[]
+  }, { tickSeconds: LIVE_TICK_SECONDS, maxSeconds: LIVE_STREAM_MAX_SECONDS })
+
+  return new Response(stream, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+  })
+}
 
+/**
+ * Runs a read-only action against the selected instances
+ */
+async function readAction(action: ProxyAction, requestData: Record<string, unknown>, target: ActionTarget): Promise<ReadResult> {
+  const { selected, clients, profiles, priorityMapping } = target
+  const zabbix = clients[0]
+  let result: unknown
+  let instanceErrors: InstanceError[] = []
+
+  switch (action) {
+    case 'get-instances':
+      result = selected.map(instance => ({ name: instance.name }))
+      break
+
+    case 'get-metric-profiles':
+      result = profiles
+      break
+
+    case 'get-hosts': {
+      const merged = await queryInstances(clients, client => client.getHosts())
+      result = merged.data.sort((a, b) => a.name.localeCompare(b.name))
+      instanceErrors = merged.errors
+      break
+    }
+
+    case 'get-alerts': {
+      const merged = await queryInstances(clients, client => client.getAlerts())
+      result = merged.data
+        .sort((a, b) => compareSeverityDesc(a.severity, b.severity))
+        .map(alert => ({ ...alert, priority: priorityMapping[alert.severity] }))
+      instanceErrors = merged.errors
+      break
+    }
+
+    case 'get-open-problems': {
+      const merged = await queryInstances(clients, client => client.getOpenProblems())
+      result = merged.data.map(problem => ({ ...problem, priority: priorityMapping[problem.severity] }))
+      instanceErrors = merged.errors
+      break
+    }
+
+    case 'get-events': {
+      const { timeFrom, timeTill, hostIds } = validateRequest(action, requestData)
+      // Host IDs only identify hosts within one instance
+      if (hostIds?.length && clients.length > 1) {
+        throw new ApiError('instance_required', 'Missing required parameter: instance', 400)
+      }
+      const merged = await queryInstances(clients, client => client.getEvents(timeFrom, timeTill, hostIds))
+      result = merged.data
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+        .map(event => ({ ...event, priority: priorityMapping[event.severity] }))
+      instanceErrors = merged.errors
+      break
+    }
+
+    case 'get-metrics': {
+      const { hostIds } = validateRequest(action, requestData)
+      const merged = await queryInstances(clients, client => client.getMetrics(hostIds))
+      result = merged.data
+      instanceErrors = merged.errors
+      break
+    }
+
+    case 'get-history': {
+      const { itemId, timeFrom, timeTill, maxPoints } = validateRequest(action, requestData)
+      result = await zabbix.getHistory(itemId, timeFrom, timeTill, maxPoints || DEFAULT_HISTORY_POINTS)
+      break
+    }
+
+    case 'get-host-details':
+      result = await zabbix.getHostDetails(validateRequest(action, requestData).hostId)
+      break
+
+    case 'get-host-graphs':
+      result = await zabbix.getHostGraphs(validateRequest(action, requestData).hostId)
+      break
+
+    case 'get-critical-history': {
+      const { hostId, timeRange } = validateRequest(action, requestData)
+      result = await zabbix.getCriticalHistory(hostId, timeRange)
+      break
+    }
+
+    case 'get-critical-histories': {
+      const { hostIds, timeRange } = validateRequest(action, requestData)
+      result = await zabbix.getCriticalHistories(hostIds, timeRange)
+      break
+    }
+
+    case 'get-latest-values':
+      result = await zabbix.getLatestValues(validateRequest(action, requestData).hostId)
+      break
+  }
+
+  // A response that breaks the contract is a proxy bug; fail loudly instead
+  // of letting the dashboard render half-shaped data
+  return { data: validateResponse(action, result), instanceErrors }
+}
+
+/**
+ * Stores a notification pushed by the Zabbix webhook media type and
+ * broadcasts it to connected dashboards. Deliveries Zabbix retries are stored
+ * once; a failure to store answers 500 so Zabbix retries again.
+ */
+async function handleWebhook(req: Request): Promise<Response> {
+  const secret = Deno.env.get('ZABBIX_WEBHOOK_SECRET')
+  if (!secret) {
+    throw new ApiError('forbidden', 'Webhook ingestion is disabled on this proxy', 403)
+  }
+  if (!await secretMatches(req.headers.get(WEBHOOK_SECRET_HEADER), secret)) {
+    throw new ApiError('unauthorized', 'Invalid webhook secret', 401)
+  }
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    throw new ApiError('invalid_request', 'Request body must be a JSON object', 400)
+  }
+
+  const parsed = WebhookPayloadSchema.safeParse(body)
+  if (!parsed.success) {
+    throw new ContractError('Invalid webhook payload', 'request', parsed.error.issues)
+  }
+  const payload = parsed.data
+
+  if (!loadInstances().some(instance => instance.name === payload.instance)) {
+    throw new ApiError('unknown_instance', `Unknown Zabbix instance: ${payload.instance}`, 400)
+  }
+
+  const notification = toNotification(payload, loadPriorityMapping())
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    { auth: { persistSession: false } }
+  )
+
+  const { data: stored, error: storeError } = await supabase
+    .from('zabbix_notifications')
+    .upsert({
+      instance: payload.instance,
+      event_id: payload.eventId,
+      trigger_id: payload.triggerId,
+      status: payload.status,
+      severity: payload.severity,
+      occurred_at: notification.alert.timestamp,
+      alert: notification.alert,
+      payload
+    }, { onConflict: 'instance,event_id,status,occurred_at', ignoreDuplicates: true })
+    .select('id')
+
+  if (storeError) {
+    console.error('Could not store webhook notification:', storeError)
+    throw new ApiError('internal_error', 'Notification store unavailable', 500)
+  }
+
+  const duplicate = !stored || stored.length === 0
+  console.log(`Webhook ${payload.status} for event ${payload.eventId} on ${payload.instance}${duplicate ? ' (duplicate)' : ''}`)
+
+  if (!duplicate) {
+    // Reads served from this isolate's cache would hide the change until the TTL ends
+    responseCache.clear()
+
+    const channel = supabase.channel(NOTIFICATION_CHANNEL)
+    const sent = await channel.send({ type: 'broadcast', event: NOTIFICATION_EVENT, payload: notification })
+    if (sent !== 'ok') console.error('Could not broadcast webhook notification:', sent)
+    await supabase.removeChannel(channel)
+  }
+
+  return respond({ success: true, data: { ...notification, duplicate } }, 200)
+}
+
+/**
+ * Resource-style API, e.g. GET /v1/hosts/10084/items?instance=prod.
+ * The routes are listed in routes.ts and described by GET /v1/openapi.json.
+ */
+async function handleApiRequest(req: Request, url: URL, path: string): Promise<Response> {
+  if (path === `/${API_VERSION}/openapi.json`) {
+    if (req.method !== 'GET') {
+      return fail({ code: 'method_not_allowed', error: `Method ${req.method} not allowed` }, 405, { Allow: 'GET' })
+    }
+    return respond(buildOpenApiDocument(), 200)
+  }
+
+  if (path === `/${API_VERSION}/webhooks/zabbix`) {
+    if (req.method !== 'POST') {
+      return fail({ code: 'method_not_allowed', error: `Method ${req.method} not allowed` }, 405, { Allow: 'POST' })
+    }
+    return await handleWebhook(req)
+  }
+
+  if (path === `/${API_VERSION}/stream`) {
+    if (req.method !== 'GET') {
+      return fail({ code: 'method_not_allowed', error: `Method ${req.method} not allowed` }, 405, { Allow: 'GET' })
+    }
+    return handleLiveStream(url)
+  }
+
+  let routed: ReturnType<typeof matchRoute>
+  try {
+    routed = matchRoute(req.method, path)
   } catch (error) {
-    console.error('Error in zabbix-proxy:', error)
-    return new Response(
-      JSON.stringify({ 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Unknown error occurred' 
-      }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    // Path parameters are percent-decoded; a broken escape like %E0 is the client's fault
+    if (error instanceof URIError) {
+      throw new ApiError('invalid_request', `Malformed percent-encoding in path ${path}`, 400)
+    }
+    throw error
+  }
+  const { match, allowed } = routed
+  if (!match) {
+    if (allowed.length > 0) {
+      return fail({ code: 'method_not_allowed', error: `Method ${req.method} not allowed` }, 405, { Allow: allowed.join(', ') })
+    }
+    return fail({ code: 'not_found', error: `No route for ${req.method} ${path}` }, 404)
+  }
+
+  let body: unknown
+  if (req.method === 'POST') {
+    try {
+      body = await req.json()
+    } catch {
+      throw new ApiError('invalid_request', 'Request body must be a JSON object', 400)
+    }
+  }
+
+  return await runAction(req, match.route.action, buildParams(match, url.searchParams, body))
+}
+
+/**
+ * Compatibility shim for the original protocol: a POST body carrying
+ * `action` plus its parameters, or GET ?action=...&instance=...
+ */
+async function handleActionRequest(req: Request, url: URL): Promise<Response> {
+  let action: unknown = null
+  let requestData: Record<string, unknown> = {}
+
+  try {
+    if (req.method === 'POST') {
+      const body = await req.json()
+      action = body.action
+      requestData = body
+    } else {
+      action = url.searchParams.get('action')
+      requestData = { instance: url.searchParams.get('instance') || undefined }
+    }
+  } catch (error) {
+    // If body parsing fails, try URL parameters
+    action = url.searchParams.get('action')
+  }
+
+  if (!action) {
+    throw new ApiError('invalid_request', 'Missing action parameter', 400)
+  }
+
+  if (!isProxyAction(action)) {
+    throw new ApiError('unknown_action', `Unknown action: ${action}. Expected one of: ${PROXY_ACTIONS.join(', ')}`, 400)
+  }
+
+  return await runAction(req, action, requestData)
+}
+
+function errorResponse(error: unknown): Response {
+  if (error instanceof ApiError) {
+    return fail({ code: error.code, error: error.message }, error.status)
+  }
+
+  if (error instanceof ContractError) {
+    console.error(`Contract violation (${error.side}):`, error.issues)
+    return error.side === 'request'
+      ? fail({ code: 'invalid_request', error: error.message, details: issueDetails(error.issues) }, 400)
+      : fail({ code: 'contract_violation', error: error.message }, 500)
+  }
+
+  console.error('Error in zabbix-proxy:', error)
+  return fail({
+    code: 'internal_error',
+    error: error instanceof Error ? error.message : 'Unknown error occurred'
+  }, 500)
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const url = new URL(req.url)
+    const path = apiPath(url.pathname)
+
+    if (path === `/${API_VERSION}` || path.startsWith(`/${API_VERSION}/`)) {
+      return await handleApiRequest(req, url, path)
+    }
+
+    return await handleActionRequest(req, url)
+  } catch (error) {
+    return errorResponse(error)
   }
-})
\ No newline at end of file
+})
@@ -0,0 +1,108 @@
+/**
+ * Server-Sent Events stream of live changes. Every tick reads hosts, problems
+ * and metrics and sends only what changed since the previous tick; the first
+ * tick of a connection sends everything.
+ */
+
+import { LIVE_KEYS, LiveDelta, ZabbixAlert, ZabbixHost, ZabbixMetric } from '../_shared/contract.ts'
+
+export interface LiveSources {
+  hosts: () => Promise<ZabbixHost[]>
+  problems: () => Promise<ZabbixAlert[]>
+  metrics: () => Promise<ZabbixMetric[]>
+}
+
+export interface LiveStreamOptions {
+  tickSeconds: number
+  // Streams end after this long and the client reconnects, staying under
+  // the edge runtime's wall-clock limit
+  maxSeconds: number
+}
+
+type LiveSource = keyof LiveSources
+
+// Delay EventSource-style clients wait before reconnecting after the stream ends
+const RECONNECT_MS = 1000
+
+const LIVE_SOURCES: LiveSource[] = ['hosts', 'problems', 'metrics']
+
+// Serialized entries of the previous tick, by LIVE_KEYS key
+type Known = Map<string, string>
+
+function diff<T>(known: Known | undefined, items: T[], key: (item: T) => string): { delta: LiveDelta<T>; next: Known } {
+  const next: Known = new Map(items.map(item => [key(item), JSON.stringify(item)]))
+  if (!known) {
+    return { delta: { full: true, upserted: items, removed: [] }, next }
+  }
+
+  return {
+    delta: {
+      full: false,
+      upserted: items.filter(item => known.get(key(item)) !== next.get(key(item))),
+      removed: [...known.keys()].filter(k => !next.has(k))
+    },
+    next
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+export function createLiveStream(sources: LiveSources, options: LiveStreamOptions): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let cancelled = false
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (text: string) => {
+        if (!cancelled) controller.enqueue(encoder.encode(text))
+      }
+      const emit = (event: string, data: unknown) => send(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+
+      const known: Partial<Record<LiveSource, Known>> = {}
+      const deadline = Date.now() + options.maxSeconds * 1000
+
+      send(`retry: ${RECONNECT_MS}\n\n`)
+
+      while (!cancelled && Date.now() < deadline) {
+        const settled = await Promise.allSettled(LIVE_SOURCES.map(source => sources[source]()))
+        let changed = false
+
+        settled.forEach((outcome, index) => {
+          const source = LIVE_SOURCES[index]
+          if (outcome.status === 'rejected') {
+            console.error(`Live stream could not read ${source}:`, outcome.reason)
+            // Resend the whole list once the source is back, so clients that
+            // fell back to polling see it recover even if nothing changed
+            delete known[source]
+            emit('unavailable', {
+              source,
+              error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)
+            })
+            return
+          }
+
+          const key = LIVE_KEYS[source] as (item: unknown) => string
+          const { delta, next } = diff(known[source], outcome.value as unknown[], key)
+          known[source] = next
+          if (delta.full || delta.upserted.length > 0 || delta.removed.length > 0) {
+            emit(source, delta)
+            changed = true
+          }
+        })
+
+        // Comment lines keep proxies from closing an idle connection
+        if (!changed) send(': keep-alive\n\n')
+
+        await sleep(options.tickSeconds * 1000)
+      }
+
+      if (!cancelled) controller.close()
+    },
+
+    cancel() {
+      cancelled = true
+    }
+  })
+}
@@ -0,0 +1,203 @@
+/**
+ * OpenAPI 3.1 document of the v1 API, generated from the route table and the
+ * shared contract so it describes exactly what the proxy validates.
+ */
+
+import { z } from 'zod'
+import {
+  LIVE_EVENT_SCHEMAS,
+  ProxyFailureSchema,
+  ProxySuccessSchema,
+  REQUEST_SCHEMAS,
+  RESPONSE_SCHEMAS,
+  WebhookPayloadSchema,
+  WebhookResultSchema
+} from '../_shared/contract.ts'
+import { API_VERSION, isArrayParam, Route, ROUTES } from './routes.ts'
+import { WEBHOOK_SECRET_HEADER } from './webhook.ts'
+
+type JsonSchema = Record<string, unknown>
+
+// Relative to the document's origin, which is where Supabase serves functions
+const SERVER_URL = '/functions/v1/zabbix-proxy'
+
+/**
+ * Converts the zod types used by the contract into JSON Schema (2020-12, the
+ * dialect of OpenAPI 3.1). Unsupported types become an unconstrained schema.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional) return toJsonSchema(schema.unwrap())
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() }
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [toJsonSchema(schema.unwrap()), { type: 'null' }] }
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {}
+    const required: string[] = []
+    for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+      properties[key] = toJsonSchema(value)
+      if (!value.isOptional()) required.push(key)
+    }
+    return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) }
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const minItems = schema._def.minLength?.value
+    return { type: 'array', items: toJsonSchema(schema.element), ...(minItems !== undefined ? { minItems } : {}) }
+  }
+
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: 'string' }
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') result.minLength = check.value
+      if (check.kind === 'max') result.maxLength = check.value
+      if (check.kind === 'regex') result.pattern = check.regex.source
+    }
+    return result
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: schema.isInt ? 'integer' : 'number' }
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value
+      if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value
+    }
+    return result
+  }
+
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' }
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: schema.options }
+  if (schema instanceof z.ZodLiteral) return { const: schema.value }
+  if (schema instanceof z.ZodRecord) return { type: 'object', additionalProperties: toJsonSchema(schema.valueSchema) }
+  if (schema instanceof z.ZodUnion) return { anyOf: (schema.options as z.ZodTypeAny[]).map(toJsonSchema) }
+
+  return {}
+}
+
+function operation(route: Route): JsonSchema {
+  const shape: z.ZodRawShape = REQUEST_SCHEMAS[route.action].shape
+  const bound = Object.values(route.bind ?? {})
+  const fields = Object.entries(shape).filter(([key]) => !bound.includes(key))
+
+  const pathParameters = Object.entries(route.bind ?? {}).map(([name, key]) => {
+    const schema = toJsonSchema(shape[key])
+    return { name, in: 'path', required: true, schema: schema.type === 'array' ? schema.items : schema }
+  })
+
+  const queryParameters = route.method === 'GET'
+    ? fields.map(([name, schema]) => ({
+        name,
+        in: 'query',
+        required: !schema.isOptional(),
+        schema: toJsonSchema(schema),
+        // Lists travel comma-separated: ?hostIds=10084,10105
+        ...(isArrayParam(schema) ? { style: 'form', explode: false } : {})
+      }))
+    : []
+
+  const requestBody = route.method === 'POST'
+    ? {
+        required: true,
+        content: { 'application/json': { schema: toJsonSchema(z.object(Object.fromEntries(fields))) } }
+      }
+    : undefined
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    // Same operation as the legacy { "action": ... } request
+    'x-proxy-action': route.action,
+    parameters: [...pathParameters, ...queryParameters],
+    ...(requestBody ? { requestBody } : {}),
+    ...(route.auth ? { security: [{ bearerAuth: [] }] } : {}),
+    responses: {
+      200: {
+        description: 'Success envelope',
+        content: {
+          'application/json': {
+            schema: toJsonSchema(ProxySuccessSchema.extend({ data: RESPONSE_SCHEMAS[route.action] }))
+          }
+        }
+      },
+      default: { $ref: '#/components/responses/Error' }
+    }
+  }
+}
+
+export function buildOpenApiDocument(): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {}
+  for (const route of ROUTES) {
+    paths[route.path] = { ...paths[route.path], [route.method.toLowerCase()]: operation(route) }
+  }
+
+  paths[`/${API_VERSION}/stream`] = {
+    get: {
+      operationId: 'streamLiveUpdates',
+      summary: 'Stream host, problem and metric changes as Server-Sent Events',
+      description: 'Each SSE `event` is one of the keys of `x-live-events`, with the JSON `data` described there. ' +
+        'The first event per source has `full: true`. The stream ends after a few minutes; reconnect to resume.',
+      tags: ['Live'],
+      parameters: [{ name: 'instance', in: 'query', required: false, schema: { type: 'string', minLength: 1 } }],
+      'x-live-events': Object.fromEntries(
+        Object.entries(LIVE_EVENT_SCHEMAS).map(([event, schema]) => [event, toJsonSchema(schema)])
+      ),
+      responses: {
+        200: { description: 'Event stream', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+        default: { $ref: '#/components/responses/Error' }
+      }
+    }
+  }
+
+  paths[`/${API_VERSION}/webhooks/zabbix`] = {
+    post: {
+      operationId: 'ingestZabbixNotification',
+      summary: 'Receive a problem, recovery or update notification from the Zabbix webhook media type',
+      tags: ['Webhooks'],
+      security: [{ webhookSecret: [] }],
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: toJsonSchema(WebhookPayloadSchema) } }
+      },
+      responses: {
+        200: {
+          description: 'Success envelope',
+          content: {
+            'application/json': { schema: toJsonSchema(ProxySuccessSchema.extend({ data: WebhookResultSchema })) }
+          }
+        },
+        default: { $ref: '#/components/responses/Error' }
+      }
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Zabbix proxy',
+      version: API_VERSION,
+      description: 'Read access to one or more Zabbix instances, plus audited event acknowledgement. ' +
+        'Every response uses the same envelope; failures carry a machine-readable `code`.'
+    },
+    servers: [{ url: SERVER_URL }],
+    paths,
+    components: {
+      schemas: {
+        Error: toJsonSchema(ProxyFailureSchema)
+      },
+      responses: {
+        Error: {
+          description: 'Error envelope',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+        }
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Supabase access token of an allowed user' },
+        webhookSecret: { type: 'apiKey', in: 'header', name: WEBHOOK_SECRET_HEADER, description: 'ZABBIX_WEBHOOK_SECRET' }
+      }
+    }
+  }
+}
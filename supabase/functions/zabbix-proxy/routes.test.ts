@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { validateRequest } from '../_shared/contract.ts'
+import { apiPath, buildParams, matchRoute, ROUTES } from './routes.ts'
+
+function match(method: string, path: string) {
+  const { match } = matchRoute(method, path)
+  if (!match) throw new Error(`No route for ${method} ${path}`)
+  return match
+}
+
+describe('apiPath', () => {
+  it('strips everything up to the function name and trailing slashes', () => {
+    expect(apiPath('/functions/v1/zabbix-proxy/v1/hosts/')).toBe('/v1/hosts')
+    expect(apiPath('/zabbix-proxy')).toBe('/')
+    expect(apiPath('/v1/hosts')).toBe('/v1/hosts')
+  })
+})
+
+describe('matchRoute', () => {
+  it('binds path parameters', () => {
+    const { route, pathParams } = match('GET', '/v1/hosts/10084/items')
+    expect(route.action).toBe('get-metrics')
+    expect(pathParams).toEqual({ hostId: '10084' })
+  })
+
+  it('decodes percent-encoded path parameters', () => {
+    expect(match('GET', '/v1/items/10%3A2/history').pathParams).toEqual({ itemId: '10:2' })
+  })
+
+  it('throws URIError on malformed percent-encoding', () => {
+    expect(() => matchRoute('GET', '/v1/hosts/%E0%A4%A/items')).toThrow(URIError)
+  })
+
+  it('lists the accepted methods when only the method differs', () => {
+    expect(matchRoute('GET', '/v1/events/acknowledge')).toEqual({ match: null, allowed: ['POST'] })
+  })
+
+  it('does not match unknown paths or extra segments', () => {
+    expect(matchRoute('GET', '/v1/unknown')).toEqual({ match: null, allowed: [] })
+    expect(matchRoute('GET', '/v1/hosts/1/items/2')).toEqual({ match: null, allowed: [] })
+  })
+
+  it('has one route per method and path', () => {
+    const keys = ROUTES.map(route => `${route.method} ${route.path}`)
+    expect(new Set(keys).size).toBe(keys.length)
+  })
+})
+
+describe('buildParams', () => {
+  it('wraps a path parameter bound to an array parameter', () => {
+    const params = buildParams(match('GET', '/v1/hosts/10084/items'), new URLSearchParams(), null)
+    expect(params).toEqual({ hostIds: ['10084'] })
+  })
+
+  it('coerces query values to the types of the contract', () => {
+    const query = new URLSearchParams('timeFrom=100&timeTill=200&hostIds=1, 2,,3&ignored=x')
+    const params = buildParams(match('GET', '/v1/events'), query, null)
+    expect(params).toEqual({ timeFrom: 100, timeTill: 200, hostIds: ['1', '2', '3'] })
+    expect(validateRequest('get-events', params)).toEqual(params)
+  })
+
+  it('leaves values it cannot coerce for the contract to reject', () => {
+    const query = new URLSearchParams('timeFrom=&timeTill=soon')
+    const params = buildParams(match('GET', '/v1/events'), query, null)
+    expect(params).toEqual({ timeFrom: '', timeTill: NaN })
+    expect(() => validateRequest('get-events', params)).toThrow()
+  })
+
+  it('lets path parameters win over the query string, and the query over the body', () => {
+    const query = new URLSearchParams('itemId=1&maxPoints=50')
+    const body = { itemId: '2', maxPoints: 10, timeFrom: 0 }
+    const params = buildParams(match('GET', '/v1/items/3/history'), query, body)
+    expect(params).toEqual({ itemId: '3', maxPoints: 50, timeFrom: 0 })
+  })
+
+  it('converts booleans and ignores a body that is not an object', () => {
+    const query = new URLSearchParams('acknowledge=true&close=no')
+    const params = buildParams(match('POST', '/v1/events/acknowledge'), query, ['1'])
+    expect(params).toEqual({ acknowledge: true, close: 'no' })
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Resource-style v1 API of the proxy. Every route binds an HTTP path onto one
+ * proxy action: path segments, query string and JSON body become the action's
+ * parameters, which are then validated by the same contract as the action
+ * protocol.
+ */
+
+import { z } from 'zod'
+import { ProxyAction, REQUEST_SCHEMAS } from '../_shared/contract.ts'
+
+export const API_VERSION = 'v1'
+
+// Name the function is deployed under; leads every request path
+const FUNCTION_NAME = 'zabbix-proxy'
+
+export interface Route {
+  method: 'GET' | 'POST'
+  // OpenAPI path template, e.g. /v1/hosts/{hostId}/items
+  path: string
+  action: ProxyAction
+  operationId: string
+  summary: string
+  tag: string
+  // Path parameter -> action parameter it fills; array parameters get a one-element list
+  bind?: Record<string, string>
+  // Needs a signed-in Supabase user (Authorization: Bearer <access token>)
+  auth?: boolean
+}
+
+export interface RouteMatch {
+  route: Route
+  pathParams: Record<string, string>
+}
+
+export const ROUTES: Route[] = [
+  {
+    method: 'GET', path: '/v1/instances', action: 'get-instances',
+    operationId: 'listInstances', tag: 'Instances', summary: 'List the configured Zabbix instances'
+  },
+  {
+    method: 'GET', path: '/v1/metric-profiles', action: 'get-metric-profiles',
+    operationId: 'listMetricProfiles', tag: 'Instances', summary: 'List the active metric profiles in resolution order'
+  },
+  {
+    method: 'GET', path: '/v1/hosts', action: 'get-hosts',
+    operationId: 'listHosts', tag: 'Hosts', summary: 'List monitored hosts of every selected instance'
+  },
+  {
+    method: 'GET', path: '/v1/hosts/{hostId}', action: 'get-host-details',
+    operationId: 'getHost', tag: 'Hosts', summary: 'Get host details, inventory, items and active problems',
+    bind: { hostId: 'hostId' }
+  },
+  {
+    method: 'GET', path: '/v1/hosts/{hostId}/items', action: 'get-metrics',
+    operationId: 'listHostItems', tag: 'Hosts', summary: 'List the items of a host mapped to canonical metrics by its metric profile',
+    bind: { hostId: 'hostIds' }
+  },
+  {
+    method: 'GET', path: '/v1/hosts/{hostId}/graphs', action: 'get-host-graphs',
+    operationId: 'listHostGraphs', tag: 'Hosts', summary: 'List graphs configured on a host and its plottable items',
+    bind: { hostId: 'hostId' }
+  },
+  {
+    method: 'GET', path: '/v1/hosts/{hostId}/latest-values', action: 'get-latest-values',
+    operationId: 'getHostLatestValues', tag: 'Hosts', summary: 'Get the latest value of every item of a host',
+    bind: { hostId: 'hostId' }
+  },
+  {
+    method: 'GET', path: '/v1/hosts/{hostId}/critical-history', action: 'get-critical-history',
+    operationId: 'getHostCriticalHistory', tag: 'Hosts', summary: 'Get ping, latency, CPU and memory history of a host',
+    bind: { hostId: 'hostId' }
+  },
+  {
+    method: 'GET', path: '/v1/critical-history', action: 'get-critical-histories',
+    operationId: 'listCriticalHistories', tag: 'Hosts', summary: 'Get ping, latency, CPU and memory history of several hosts of one instance'
+  },
+  {
+    method: 'GET', path: '/v1/hosts/{hostId}/events', action: 'get-events',
+    operationId: 'listHostEvents', tag: 'Hosts', summary: 'List problem events of a host in a time window',
+    bind: { hostId: 'hostIds' }
+  },
+  {
+    method: 'GET', path: '/v1/items', action: 'get-metrics',
+    operationId: 'listItems', tag: 'Items', summary: 'List items mapped to canonical metrics, optionally of some hosts only'
+  },
+  {
+    method: 'GET', path: '/v1/items/{itemId}/history', action: 'get-history',
+    operationId: 'getItemHistory', tag: 'Items', summary: 'Get the downsampled history of an item',
+    bind: { itemId: 'itemId' }
+  },
+  {
+    method: 'GET', path: '/v1/problems', action: 'get-alerts',
+    operationId: 'listProblems', tag: 'Problems', summary: 'List active problems, most severe first'
+  },
+  {
+    method: 'GET', path: '/v1/problems/open', action: 'get-open-problems',
+    operationId: 'listOpenProblems', tag: 'Problems', summary: 'List every open problem, without the cap of /v1/problems'
+  },
+  {
+    method: 'GET', path: '/v1/events', action: 'get-events',
+    operationId: 'listEvents', tag: 'Problems', summary: 'List problem events in a time window'
+  },
+  {
+    method: 'POST', path: '/v1/events/acknowledge', action: 'acknowledge-event',
+    operationId: 'acknowledgeEvents', tag: 'Problems', summary: 'Acknowledge, comment on, re-rank or close events',
+    auth: true
+  }
+]
+
+/**
+ * Path below the function name, e.g. /v1/hosts for /zabbix-proxy/v1/hosts
+ */
+export function apiPath(pathname: string): string {
+  const index = pathname.indexOf(`/${FUNCTION_NAME}`)
+  const path = index === -1 ? pathname : pathname.slice(index + FUNCTION_NAME.length + 1)
+  return path.replace(/\/+$/, '') || '/'
+}
+
+function matchPath(template: string, path: string): Record<string, string> | null {
+  const expected = template.split('/')
+  const actual = path.split('/')
+  if (expected.length !== actual.length) return null
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < expected.length; i++) {
+    const name = expected[i].match(/^\{(\w+)\}$/)?.[1]
+    if (name) {
+      params[name] = decodeURIComponent(actual[i])
+    } else if (expected[i] !== actual[i]) {
+      return null
+    }
+  }
+  return params
+}
+
+/**
+ * Finds the route for a request. When only the method differs, `allowed`
+ * lists the methods the path does accept. Throws URIError when a path
+ * parameter is not valid percent-encoding.
+ */
+export function matchRoute(method: string, path: string): { match: RouteMatch | null; allowed: string[] } {
+  const allowed: string[] = []
+  for (const route of ROUTES) {
+    const pathParams = matchPath(route.path, path)
+    if (!pathParams) continue
+    if (route.method === method) return { match: { route, pathParams }, allowed: [] }
+    allowed.push(route.method)
+  }
+  return { match: null, allowed }
+}
+
+// Strips optional/default/nullable wrappers down to the schema that parses the value
+function baseSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodDefault) {
+    return baseSchema(schema._def.innerType)
+  }
+  return schema
+}
+
+export function isArrayParam(schema: z.ZodTypeAny): boolean {
+  return baseSchema(schema) instanceof z.ZodArray
+}
+
+// Query strings only carry text; numbers, booleans and comma-separated lists
+// are converted so the contract sees the same types as in a JSON body
+function coerceQueryValue(schema: z.ZodTypeAny, raw: string): unknown {
+  const base = baseSchema(schema)
+  if (base instanceof z.ZodArray) return raw.split(',').map(value => value.trim()).filter(Boolean)
+  if (base instanceof z.ZodNumber) return raw.trim() === '' ? raw : Number(raw)
+  if (base instanceof z.ZodBoolean) return raw === 'true' ? true : raw === 'false' ? false : raw
+  return raw
+}
+
+/**
+ * Action parameters of a matched request. Path parameters win over the query
+ * string, which wins over the body.
+ */
+export function buildParams(match: RouteMatch, query: URLSearchParams, body: unknown): Record<string, unknown> {
+  const shape: z.ZodRawShape = REQUEST_SCHEMAS[match.route.action].shape
+  const params: Record<string, unknown> = body && typeof body === 'object' && !Array.isArray(body)
+    ? { ...(body as Record<string, unknown>) }
+    : {}
+
+  for (const [key, value] of query) {
+    if (key in shape) params[key] = coerceQueryValue(shape[key], value)
+  }
+
+  for (const [name, key] of Object.entries(match.route.bind ?? {})) {
+    const value = match.pathParams[name]
+    params[key] = isArrayParam(shape[key]) ? [value] : value
+  }
+
+  return params
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { collapseTextSeries, downsampleLTTB, resampleSeries } from './series.ts'
+
+describe('downsampleLTTB', () => {
+  const points = Array.from({ length: 100 }, (_, i) => ({ timestamp: i * 1000, value: i === 42 ? 500 : i % 5 }))
+
+  it('returns short series unchanged', () => {
+    expect(downsampleLTTB(points, 100)).toBe(points)
+    expect(downsampleLTTB(points, 2)).toBe(points)
+  })
+
+  it('keeps the endpoints and the peaks within the threshold', () => {
+    const sampled = downsampleLTTB(points, 10)
+    expect(sampled).toHaveLength(10)
+    expect(sampled[0]).toBe(points[0])
+    expect(sampled[9]).toBe(points[99])
+    expect(sampled).toContain(points[42])
+    expect(sampled.every((point, i) => i === 0 || point.timestamp > sampled[i - 1].timestamp)).toBe(true)
+  })
+})
+
+describe('resampleSeries', () => {
+  const points = [
+    { timestamp: 59_000, value: 100 },
+    { timestamp: 60_000, value: 1 },
+    { timestamp: 61_000, value: 2 },
+    { timestamp: 119_000, value: 6 },
+    { timestamp: 240_000, value: 9 },
+    { timestamp: 241_000, value: 100 }
+  ]
+
+  it('aggregates onto a grid that starts at timeFrom and drops points outside the window', () => {
+    expect(resampleSeries(points, 60, 240, 60)).toEqual([
+      { timestamp: 60_000, value: 3 },
+      { timestamp: 240_000, value: 9 }
+    ])
+  })
+
+  it('applies the requested aggregate', () => {
+    expect(resampleSeries(points, 60, 239, 60, 'min')).toEqual([{ timestamp: 60_000, value: 1 }])
+    expect(resampleSeries(points, 60, 239, 60, 'max')).toEqual([{ timestamp: 60_000, value: 6 }])
+  })
+
+  it('rounds averages to three decimals', () => {
+    const thirds = [{ timestamp: 0, value: 1 }, { timestamp: 1000, value: 1 }, { timestamp: 2000, value: 2 }]
+    expect(resampleSeries(thirds, 0, 60, 60)).toEqual([{ timestamp: 0, value: 1.333 }])
+  })
+})
+
+describe('collapseTextSeries', () => {
+  it('keeps only value changes', () => {
+    const series = ['up', 'up', 'down', 'down', 'up'].map((value, i) => ({ timestamp: i, value }))
+    expect(collapseTextSeries(series).map(point => point.timestamp)).toEqual([0, 2, 4])
+  })
+})
@@ -0,0 +1,118 @@
+export interface SeriesPoint {
+  timestamp: number
+  value: number
+  min?: number
+  max?: number
+}
+
+// Character, log and text items
+export interface TextPoint {
+  timestamp: number
+  value: string
+}
+
+export type HistoryPoint = SeriesPoint | TextPoint
+
+/**
+ * Largest-Triangle-Three-Buckets downsampling.
+ * Keeps the first and last points and, for every bucket in between, the point
+ * that forms the largest triangle with its neighbours, which preserves peaks
+ * and the overall shape of the series far better than plain decimation.
+ */
+export function downsampleLTTB(points: SeriesPoint[], threshold: number): SeriesPoint[] {
+  if (threshold >= points.length || threshold < 3) {
+    return points
+  }
+
+  const sampled: SeriesPoint[] = [points[0]]
+  const bucketSize = (points.length - 2) / (threshold - 2)
+  let anchor = 0
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    // Average of the next bucket is the third vertex of the triangle
+    const nextStart = Math.floor((bucket + 1) * bucketSize) + 1
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, points.length)
+    let avgTimestamp = 0
+    let avgValue = 0
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgTimestamp += points[i].timestamp
+      avgValue += points[i].value
+    }
+    const nextCount = Math.max(nextEnd - nextStart, 1)
+    avgTimestamp /= nextCount
+    avgValue /= nextCount
+
+    const start = Math.floor(bucket * bucketSize) + 1
+    const end = Math.floor((bucket + 1) * bucketSize) + 1
+    const a = points[anchor]
+    let maxArea = -1
+    let selected = start
+
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (a.timestamp - avgTimestamp) * (points[i].value - a.value) -
+        (a.timestamp - points[i].timestamp) * (avgValue - a.value)
+      )
+      if (area > maxArea) {
+        maxArea = area
+        selected = i
+      }
+    }
+
+    sampled.push(points[selected])
+    anchor = selected
+  }
+
+  sampled.push(points[points.length - 1])
+  return sampled
+}
+
+/**
+ * Aggregates a time-ordered series onto a fixed grid of `step` seconds
+ * starting at `timeFrom`. Buckets without samples are omitted; each bucket
+ * is stamped with its start time so series from different items align.
+ */
+export function resampleSeries(
+  points: SeriesPoint[],
+  timeFrom: number,
+  timeTill: number,
+  step: number,
+  aggregate: 'avg' | 'min' | 'max' = 'avg'
+): SeriesPoint[] {
+  const buckets = new Map<number, number[]>()
+  const stepMs = step * 1000
+  const startMs = timeFrom * 1000
+  const endMs = timeTill * 1000
+
+  for (const point of points) {
+    if (point.timestamp < startMs || point.timestamp > endMs) continue
+    const bucket = startMs + Math.floor((point.timestamp - startMs) / stepMs) * stepMs
+    const values = buckets.get(bucket) || []
+    values.push(point.value)
+    buckets.set(bucket, values)
+  }
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, values]) => {
+      let value: number
+      switch (aggregate) {
+        case 'min':
+          value = Math.min(...values)
+          break
+        case 'max':
+          value = Math.max(...values)
+          break
+        default:
+          value = values.reduce((sum, v) => sum + v, 0) / values.length
+      }
+      return { timestamp, value: Math.round(value * 1000) / 1000 }
+    })
+}
+
+/**
+ * Drops consecutive repeats from a string series so only value changes remain
+ */
+export function collapseTextSeries(points: TextPoint[]): TextPoint[] {
+  return points.filter((point, index) => index === 0 || point.value !== points[index - 1].value)
+}
@@ -0,0 +1,53 @@
+/**
+ * Ingestion of problem, recovery and update notifications pushed by the
+ * Zabbix webhook media type (zabbix/media_types/noc_dashboard_webhook.yaml).
+ */
+
+import { WebhookNotification, WebhookPayload } from '../_shared/contract.ts'
+import { PriorityMapping, severityFromPriority } from '../_shared/severity.ts'
+
+// Header carrying the shared secret configured in the media type
+export const WEBHOOK_SECRET_HEADER = 'X-Webhook-Secret'
+
+async function sha256(value: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)))
+}
+
+/**
+ * Compares the received secret with the configured one in constant time.
+ * Hashing first also hides the length of the secret.
+ */
+export async function secretMatches(received: string | null, expected: string): Promise<boolean> {
+  if (!received) return false
+  const [a, b] = await Promise.all([sha256(received), sha256(expected)])
+  let difference = 0
+  for (let i = 0; i < a.length; i++) difference |= a[i] ^ b[i]
+  return difference === 0
+}
+
+/**
+ * Normalizes a webhook payload into the ZabbixAlert shape the dashboard shows.
+ * Acknowledgement history and manual close are not part of the notification;
+ * the next get-alerts read fills them in.
+ */
+export function toNotification(payload: WebhookPayload, priorityMapping: PriorityMapping): WebhookNotification {
+  const severity = severityFromPriority(payload.severity)
+
+  return {
+    status: payload.status,
+    alert: {
+      instance: payload.instance,
+      id: payload.triggerId,
+      eventId: payload.eventId,
+      title: payload.name,
+      host: payload.host,
+      severity,
+      priority: priorityMapping[severity],
+      timestamp: new Date(payload.clock * 1000).toISOString(),
+      description: payload.description || payload.name,
+      acknowledged: payload.acknowledged,
+      manualClose: false,
+      acknowledges: []
+    }
+  }
+}
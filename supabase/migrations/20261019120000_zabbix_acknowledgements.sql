@@ -0,0 +1,25 @@
+-- Audit trail for write actions the zabbix-proxy performs on behalf of a user
+create table public.zabbix_acknowledgements (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null,
+  user_email text,
+  instance text not null,
+  event_ids text[] not null,
+  action integer not null,
+  message text,
+  new_severity smallint,
+  status text not null default 'requested' check (status in ('requested', 'succeeded', 'failed')),
+  error text
+);
+
+create index zabbix_acknowledgements_created_at_idx on public.zabbix_acknowledgements (created_at desc);
+
+-- Rows are written by the edge function with the service role; signed-in users may read them
+alter table public.zabbix_acknowledgements enable row level security;
+
+create policy "Authenticated users can read acknowledgements"
+  on public.zabbix_acknowledgements
+  for select
+  to authenticated
+  using (true);
@@ -0,0 +1,31 @@
+-- Problem, recovery and update notifications pushed by the Zabbix webhook media type
+create table public.zabbix_notifications (
+  id uuid primary key default gen_random_uuid(),
+  received_at timestamptz not null default now(),
+  instance text not null,
+  event_id text not null,
+  trigger_id text not null,
+  status text not null check (status in ('problem', 'resolved', 'update')),
+  severity smallint not null,
+  -- Time of the problem, recovery or update, as reported by Zabbix
+  occurred_at timestamptz not null,
+  -- Normalized ZabbixAlert as broadcast to the dashboards
+  alert jsonb not null,
+  -- Body as received, for troubleshooting the media type
+  payload jsonb not null
+);
+
+-- Zabbix retries failed deliveries; a retry must not be stored twice
+create unique index zabbix_notifications_delivery_idx
+  on public.zabbix_notifications (instance, event_id, status, occurred_at);
+
+create index zabbix_notifications_received_at_idx on public.zabbix_notifications (received_at desc);
+
+-- Rows are written by the edge function with the service role; signed-in users may read them
+alter table public.zabbix_notifications enable row level security;
+
+create policy "Authenticated users can read notifications"
+  on public.zabbix_notifications
+  for select
+  to authenticated
+  using (true);
@@ -0,0 +1,233 @@
+-- Long-term history sampled from Zabbix by the metric-sampler edge function,
+-- so charts and predictions do not depend on Zabbix history/trend retention
+
+-- Last known state of every monitored host
+create table public.zabbix_hosts (
+  instance text not null,
+  host_id text not null,
+  name text not null,
+  host text not null,
+  status text not null check (status in ('enabled', 'disabled')),
+  available text not null check (available in ('online', 'offline', 'unknown')),
+  ip text not null default '',
+  dns text not null default '',
+  groups text[] not null default '{}',
+  first_seen_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  primary key (instance, host_id)
+);
+
+-- Canonical metric values (see _shared/metricProfiles.ts). Critical metrics are
+-- stored as one-minute aggregates of the resampled series, the others as the
+-- last value Zabbix reported at each run. Values keep their item's Zabbix units
+-- (with the fixed conversions of _shared/units.ts), so one item never mixes units
+create table public.metric_samples (
+  id bigint generated always as identity primary key,
+  instance text not null,
+  host_id text not null,
+  item_id text not null,
+  metric text not null,
+  value double precision not null,
+  units text not null default '',
+  sampled_at timestamptz not null
+);
+
+-- Consecutive runs overlap; a sample must not be stored twice
+create unique index metric_samples_item_time_idx
+  on public.metric_samples (instance, item_id, sampled_at);
+
+create index metric_samples_series_idx
+  on public.metric_samples (instance, host_id, metric, sampled_at desc);
+
+-- Problems seen by the sampler, one row per trigger and start time; resolved_at is
+-- set on the first run that no longer sees them
+create table public.zabbix_problems (
+  instance text not null,
+  trigger_id text not null,
+  event_id text,
+  host text not null,
+  title text not null,
+  severity text not null,
+  priority text not null,
+  started_at timestamptz not null,
+  acknowledged boolean not null default false,
+  last_seen_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  primary key (instance, trigger_id, started_at)
+);
+
+create index zabbix_problems_open_idx on public.zabbix_problems (instance) where resolved_at is null;
+create index zabbix_problems_started_at_idx on public.zabbix_problems (started_at desc);
+
+-- Instability score of every sampled host at every run (_shared/prediction.ts)
+create table public.prediction_results (
+  id bigint generated always as identity primary key,
+  instance text not null,
+  host_id text not null,
+  computed_at timestamptz not null default now(),
+  risk_level text not null check (risk_level in ('low', 'medium', 'high', 'critical')),
+  risk_score smallint not null,
+  eta_minutes integer,
+  factors text[] not null default '{}',
+  recommendation text not null
+);
+
+create index prediction_results_host_idx
+  on public.prediction_results (instance, host_id, computed_at desc);
+
+-- Rows are written by the sampler with the service role. The same data is readable
+-- through the zabbix-proxy function, so the dashboard key may read it too
+alter table public.zabbix_hosts enable row level security;
+alter table public.metric_samples enable row level security;
+alter table public.zabbix_problems enable row level security;
+alter table public.prediction_results enable row level security;
+
+create policy "Dashboard can read hosts" on public.zabbix_hosts
+  for select to anon, authenticated using (true);
+create policy "Dashboard can read metric samples" on public.metric_samples
+  for select to anon, authenticated using (true);
+create policy "Dashboard can read problems" on public.zabbix_problems
+  for select to anon, authenticated using (true);
+create policy "Dashboard can read prediction results" on public.prediction_results
+  for select to anon, authenticated using (true);
+
+-- One metric of a host aggregated into fixed buckets, for charting months of samples.
+-- A host can have several items of a metric in different units (disk in % and in B),
+-- so callers narrow it to one item or one unit
+create or replace function public.metric_series(
+  p_instance text,
+  p_host_id text,
+  p_metric text,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket_seconds integer default 3600,
+  p_item_id text default null,
+  p_units text default null
+)
+returns table (
+  bucket timestamptz,
+  avg_value double precision,
+  min_value double precision,
+  max_value double precision,
+  samples bigint
+)
+language sql
+stable
+as $$
+  select
+    date_bin(make_interval(secs => greatest(p_bucket_seconds, 60)), sampled_at, timestamptz '2000-01-01') as bucket,
+    avg(value),
+    min(value),
+    max(value),
+    count(*)
+  from public.metric_samples
+  where instance = p_instance
+    and host_id = p_host_id
+    and metric = p_metric
+    and (p_item_id is null or item_id = p_item_id)
+    and (p_units is null or units = p_units)
+    and sampled_at >= p_from
+    and sampled_at < p_to
+  group by 1
+  order by 1
+$$;
+
+-- Instability score of a host aggregated into fixed buckets; a year of runs every
+-- five minutes is far more rows than the API returns in one response
+create or replace function public.prediction_series(
+  p_instance text,
+  p_host_id text,
+  p_from timestamptz,
+  p_to timestamptz,
+  p_bucket_seconds integer default 3600
+)
+returns table (
+  bucket timestamptz,
+  avg_score double precision,
+  max_score smallint,
+  max_risk_level text,
+  samples bigint
+)
+language sql
+stable
+as $$
+  select
+    date_bin(make_interval(secs => greatest(p_bucket_seconds, 60)), computed_at, timestamptz '2000-01-01') as bucket,
+    avg(risk_score),
+    max(risk_score),
+    (array['low', 'medium', 'high', 'critical'])[
+      max(array_position(array['low', 'medium', 'high', 'critical'], risk_level))
+    ],
+    count(*)
+  from public.prediction_results
+  where instance = p_instance
+    and host_id = p_host_id
+    and computed_at >= p_from
+    and computed_at < p_to
+  group by 1
+  order by 1
+$$;
+
+-- Metrics stored for a host, with the item they were last sampled from
+create or replace function public.host_sampled_metrics(p_instance text, p_host_id text)
+returns table (
+  metric text,
+  item_id text,
+  units text,
+  first_sampled_at timestamptz,
+  last_sampled_at timestamptz,
+  samples bigint
+)
+language sql
+stable
+as $$
+  select distinct on (metric)
+    metric,
+    item_id,
+    units,
+    min(sampled_at) over (partition by metric),
+    max(sampled_at) over (partition by metric),
+    count(*) over (partition by metric)
+  from public.metric_samples
+  where instance = p_instance and host_id = p_host_id
+  order by metric, sampled_at desc
+$$;
+
+-- Retention: drops samples and predictions older than p_keep
+create or replace function public.prune_metric_history(p_keep interval)
+returns void
+language sql
+as $$
+  delete from public.metric_samples where sampled_at < now() - p_keep;
+  delete from public.prediction_results where computed_at < now() - p_keep;
+$$;
+
+revoke execute on function public.prune_metric_history(interval) from public, anon, authenticated;
+
+-- Schedule: the sampler runs every five minutes and history is kept for 13 months.
+-- Requires the vault secrets "project_url" (https://<project-ref>.supabase.co) and
+-- "service_role_key", created with vault.create_secret
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'metric-sampler',
+  '*/5 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/metric-sampler',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 150000
+  )
+  $$
+);
+
+select cron.schedule(
+  'prune-metric-history',
+  '17 3 * * *',
+  $$ select public.prune_metric_history(interval '13 months') $$
+);
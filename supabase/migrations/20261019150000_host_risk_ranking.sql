@@ -0,0 +1,26 @@
+-- Latest instability prediction of every host the sampler still sees, for the
+-- fleet ranking on the Prediction page
+create index prediction_results_computed_at_idx on public.prediction_results (computed_at desc);
+
+-- Hosts whose last prediction is older than a few sampler runs (disabled, removed
+-- or unreachable through the proxy) drop out of the ranking
+create view public.host_risk_ranking
+  with (security_invoker = true)
+as
+select distinct on (p.instance, p.host_id)
+  p.instance,
+  p.host_id,
+  h.name,
+  h.host,
+  h.available,
+  h.groups,
+  p.computed_at,
+  p.risk_level,
+  p.risk_score,
+  p.eta_minutes,
+  p.factors,
+  p.recommendation
+from public.prediction_results p
+join public.zabbix_hosts h on h.instance = p.instance and h.host_id = p.host_id
+where p.computed_at > now() - interval '30 minutes'
+order by p.instance, p.host_id, p.computed_at desc;
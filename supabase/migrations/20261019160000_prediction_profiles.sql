@@ -0,0 +1,83 @@
+-- Prediction profiles edited on the Prediction page. A row replaces the built-in
+-- profile with the same id (_shared/prediction.ts); other ids add new profiles
+
+-- Host group patterns are compiled by every reader; a broken one is refused on save
+create or replace function public.valid_regexes(patterns text[])
+returns boolean
+language plpgsql
+immutable
+as $$
+declare
+  pattern text;
+begin
+  foreach pattern in array coalesce(patterns, '{}') loop
+    perform '' ~* pattern;
+  end loop;
+  return true;
+exception when invalid_regular_expression then
+  return false;
+end;
+$$;
+
+-- Profile editors: users whose app_metadata (set only with the service role) has
+-- role "admin", e.g. update auth.users set raw_app_meta_data =
+-- raw_app_meta_data || '{"role": "admin"}' where email = '...'
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin'
+$$;
+
+create table public.prediction_profiles (
+  id text primary key check (id ~ '^[a-z0-9][a-z0-9_-]*$'),
+  name text not null,
+  description text,
+  -- Host keys (instance:hostId) assigned explicitly
+  hosts text[] not null default '{}',
+  -- Case-insensitive regexes tested against host group names
+  host_groups text[] not null default '{}' check (public.valid_regexes(host_groups)),
+  weights jsonb not null,
+  thresholds jsonb not null,
+  updated_at timestamptz not null default now(),
+  updated_by uuid default auth.uid()
+);
+
+-- Everyone reads the profiles the scores are computed with; they drive every
+-- host's risk score, so only admins edit them
+alter table public.prediction_profiles enable row level security;
+
+create policy "Dashboard can read prediction profiles" on public.prediction_profiles
+  for select to anon, authenticated using (true);
+create policy "Admins can create prediction profiles" on public.prediction_profiles
+  for insert to authenticated with check (public.is_admin());
+create policy "Admins can update prediction profiles" on public.prediction_profiles
+  for update to authenticated using (public.is_admin()) with check (public.is_admin());
+create policy "Admins can delete prediction profiles" on public.prediction_profiles
+  for delete to authenticated using (public.is_admin());
+
+-- Profile each stored prediction was computed with
+alter table public.prediction_results add column profile text not null default 'default';
+
+create or replace view public.host_risk_ranking
+  with (security_invoker = true)
+as
+select distinct on (p.instance, p.host_id)
+  p.instance,
+  p.host_id,
+  h.name,
+  h.host,
+  h.available,
+  h.groups,
+  p.computed_at,
+  p.risk_level,
+  p.risk_score,
+  p.eta_minutes,
+  p.factors,
+  p.recommendation,
+  p.profile
+from public.prediction_results p
+join public.zabbix_hosts h on h.instance = p.instance and h.host_id = p.host_id
+where p.computed_at > now() - interval '30 minutes'
+order by p.instance, p.host_id, p.computed_at desc;
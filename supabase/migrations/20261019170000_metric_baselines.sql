@@ -0,0 +1,37 @@
+-- Seasonal baseline of a host's metrics for the anomaly detectors: mean and
+-- deviation per weekday and hour of day (UTC) over the last p_days days
+-- The last hour is left out so the window being analysed does not teach the
+-- baseline its own anomalies
+create or replace function public.metric_baseline(
+  p_instance text,
+  p_host_id text,
+  p_metrics text[],
+  p_days integer default 28
+)
+returns table (
+  metric text,
+  dow integer,
+  hour integer,
+  mean double precision,
+  stddev double precision,
+  samples bigint
+)
+language sql
+stable
+as $$
+  select
+    metric,
+    extract(dow from sampled_at at time zone 'UTC')::integer as dow,
+    extract(hour from sampled_at at time zone 'UTC')::integer as hour,
+    avg(value),
+    coalesce(stddev_samp(value), 0),
+    count(*)
+  from public.metric_samples
+  where instance = p_instance
+    and host_id = p_host_id
+    and metric = any(p_metrics)
+    and sampled_at >= now() - make_interval(days => least(greatest(p_days, 1), 90))
+    and sampled_at < now() - interval '1 hour'
+  group by 1, 2, 3
+  order by 1, 2, 3
+$$;
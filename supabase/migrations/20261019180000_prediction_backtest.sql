@@ -0,0 +1,31 @@
+-- Stored per-minute samples of a host for replaying the predictor (backtest on
+-- the Prediction page). One row per metric with the samples as arrays, so a
+-- week of a host is a handful of rows instead of tens of thousands, which the
+-- API row limit would cut short
+create or replace function public.host_metric_samples(
+  p_instance text,
+  p_host_id text,
+  p_metrics text[],
+  p_from timestamptz,
+  p_to timestamptz
+)
+returns table (
+  metric text,
+  sampled_at timestamptz[],
+  value double precision[]
+)
+language sql
+stable
+as $$
+  select
+    metric,
+    array_agg(sampled_at order by sampled_at),
+    array_agg(value order by sampled_at)
+  from public.metric_samples
+  where instance = p_instance
+    and host_id = p_host_id
+    and metric = any(p_metrics)
+    and sampled_at >= p_from
+    and sampled_at < p_to
+  group by metric
+$$;
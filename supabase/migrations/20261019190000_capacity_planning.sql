@@ -0,0 +1,134 @@
+-- Capacity planning: item metadata and a daily rollup of the stored samples,
+-- so trends over months read one row per item and day instead of every sample
+
+-- Items the sampler stores values of, for naming disks and interfaces
+create table public.zabbix_items (
+  instance text not null,
+  item_id text not null,
+  host_id text not null,
+  metric text not null,
+  key text not null,
+  name text not null,
+  units text not null default '',
+  last_seen_at timestamptz not null default now(),
+  primary key (instance, item_id)
+);
+
+create index zabbix_items_host_idx on public.zabbix_items (instance, host_id);
+
+-- Daily statistics per item. Network values are stored in their item's units
+-- (bps, or Bps for byte counters without a multiplier); here they are always bps
+create table public.metric_daily (
+  instance text not null,
+  host_id text not null,
+  item_id text not null,
+  metric text not null,
+  day date not null,
+  units text not null default '',
+  avg_value double precision not null,
+  max_value double precision not null,
+  p95_value double precision not null,
+  samples integer not null,
+  primary key (instance, item_id, day)
+);
+
+alter table public.zabbix_items enable row level security;
+alter table public.metric_daily enable row level security;
+
+create policy "Dashboard can read items" on public.zabbix_items
+  for select to anon, authenticated using (true);
+create policy "Dashboard can read daily metrics" on public.metric_daily
+  for select to anon, authenticated using (true);
+
+-- Recomputes the days (UTC) from p_since on; the current day is rewritten on every run
+create or replace function public.rollup_metric_daily(p_since timestamptz)
+returns void
+language sql
+as $$
+  with samples as (
+    select
+      instance,
+      host_id,
+      item_id,
+      metric,
+      (sampled_at at time zone 'UTC')::date as day,
+      case when metric in ('rx', 'tx', 'speed') then 'bps' else units end as units,
+      case when metric in ('rx', 'tx', 'speed') and units = 'Bps' then value * 8 else value end as value
+    from public.metric_samples
+    where sampled_at >= date_trunc('day', p_since, 'UTC')
+  )
+  insert into public.metric_daily (instance, host_id, item_id, metric, day, units, avg_value, max_value, p95_value, samples)
+  select
+    instance,
+    host_id,
+    item_id,
+    metric,
+    day,
+    max(units),
+    avg(value),
+    max(value),
+    percentile_cont(0.95) within group (order by value),
+    count(*)
+  from samples
+  group by instance, host_id, item_id, metric, day
+  on conflict (instance, item_id, day) do update set
+    units = excluded.units,
+    avg_value = excluded.avg_value,
+    max_value = excluded.max_value,
+    p95_value = excluded.p95_value,
+    samples = excluded.samples;
+$$;
+
+revoke execute on function public.rollup_metric_daily(timestamptz) from public, anon, authenticated;
+
+-- Daily 95th percentile of the capacity metrics of every enabled host, one row
+-- per item with the days as arrays. Disk and memory only in %; items the
+-- sampler no longer sees are left out
+create or replace function public.capacity_series(p_days integer default 90)
+returns table (
+  instance text,
+  host_id text,
+  host_name text,
+  groups text[],
+  item_id text,
+  metric text,
+  item_key text,
+  item_name text,
+  units text,
+  days date[],
+  p95_values double precision[]
+)
+language sql
+stable
+as $$
+  select
+    d.instance,
+    d.host_id,
+    h.name,
+    h.groups,
+    d.item_id,
+    d.metric,
+    i.key,
+    i.name,
+    max(d.units),
+    array_agg(d.day order by d.day),
+    array_agg(d.p95_value order by d.day)
+  from public.metric_daily d
+  join public.zabbix_hosts h on h.instance = d.instance and h.host_id = d.host_id
+  join public.zabbix_items i on i.instance = d.instance and i.item_id = d.item_id
+  where d.metric in ('disk', 'memory', 'rx', 'tx', 'speed')
+    and (d.metric not in ('disk', 'memory') or d.units = '%')
+    and d.day >= current_date - least(greatest(p_days, 7), 400)
+    and h.status = 'enabled'
+    and i.last_seen_at > now() - interval '1 day'
+  group by d.instance, d.host_id, h.name, h.groups, d.item_id, d.metric, i.key, i.name
+$$;
+
+-- Everything stored so far, then hourly for the current and previous day
+select public.rollup_metric_daily('-infinity');
+
+select cron.schedule(
+  'rollup-metric-daily',
+  '7 * * * *',
+  $$ select public.rollup_metric_daily(now() - interval '1 day') $$
+);